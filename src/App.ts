@@ -1,7 +1,32 @@
 import 'reflect-metadata';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
 import { Application } from 'express';
 
 import { Initializer } from './Initializer';
+import { Lifecycle, LifecycleHook, LifecycleHookHandler } from './lifecycle/Lifecycle';
+import { TlsOptions, isTlsConfiguredByEnvironment } from './server/certificates';
+import { ServerConnections } from './server/http2';
+import { AppServer, createServer, createRedirectServer } from './server/createServer';
+
+/** The options for the app */
+export type AppOptions = {
+    /** How long (in milliseconds) in-flight requests have to finish when shutting down before their connections are closed (default is 10 seconds) */
+    drainTimeout?: number,
+    /** How long (in milliseconds) to wait after the health checks start reporting the app is shutting down before the server stops accepting requests. Gives load balancers time to notice (default is 0) */
+    shutdownDelay?: number,
+    /** If the app shuts down gracefully on `SIGTERM` and `SIGINT` (default is true) */
+    handleSignals?: boolean,
+    /**
+     * Serve the app over HTTPS (see `TlsOptions`).
+     * `true` uses the default options (the certificate from the `TLS_CERT_PATH` and `TLS_KEY_PATH` environment variables or, outside of production, a self-signed one).
+     * Default is to serve HTTPS only if the `TLS_CERT_PATH` and `TLS_KEY_PATH` environment variables are set
+     */
+    tls?: boolean | TlsOptions
+};
+
+/** The signals the app shuts down on */
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
 
 /**
  * The top level container for running the web app
@@ -12,6 +37,56 @@ export class App {
 
     private initializer?: Initializer;
 
+    /** The HTTP server (once the app is running) */
+    private server?: AppServer;
+
+    /** The connections of the server (closed when the app shuts down) */
+    private connections?: ServerConnections;
+
+    /** The server that redirects plain HTTP requests to HTTPS (if used) */
+    private redirectServer?: Server;
+
+    /** The options for serving HTTPS (undefined if plain HTTP is served) */
+    private tls?: TlsOptions;
+
+    /** The app's lifecycle hooks */
+    private lifecycle: Lifecycle;
+
+    /** How long (in milliseconds) in-flight requests have to finish when shutting down */
+    private drainTimeout: number;
+
+    /** How long (in milliseconds) to wait after flipping the health checks before the server stops accepting requests */
+    private shutdownDelay: number;
+
+    /** If the app shuts down gracefully on signals */
+    private handleSignals: boolean;
+
+    /** The listeners for the shutdown signals (so they can be removed once the app stops) */
+    private signalListeners: Map<NodeJS.Signals, () => void>;
+
+    /** The shutdown in progress (so that stopping more than once waits for the same shutdown) */
+    private stopping?: Promise<void>;
+
+    /**
+     * Create a new app
+     * 
+     * @param options The options for the app (see `AppOptions`)
+     */
+    constructor(options: AppOptions = {}) {
+        this.lifecycle = new Lifecycle();
+        this.drainTimeout = options.drainTimeout ?? 10 * 1000;
+        this.shutdownDelay = options.shutdownDelay ?? 0;
+        this.handleSignals = options.handleSignals ?? true;
+        this.signalListeners = new Map();
+
+        if(typeof options.tls === 'object') {
+            this.tls = options.tls;
+        }
+        else if(options.tls === true || (typeof options.tls === 'undefined' && isTlsConfiguredByEnvironment())) {
+            this.tls = {};
+        }
+    }
+
     getInitializer() {
         if(typeof this.initializer === 'undefined') {
             throw new Error('Initializer is not set. Please call run() first.');
@@ -24,6 +99,215 @@ export class App {
         return this.getInitializer().getExpressApp();
     }
 
+    /**
+     * Get the server (HTTP, HTTPS or HTTP/2 depending on the options)
+     * 
+     * @returns The server or undefined if the app isn't running
+     */
+    getServer() {
+        return this.server;
+    }
+
+    /**
+     * Get the app's lifecycle hooks
+     * 
+     * Note, controllers and services can also get this by injecting `Lifecycle`.
+     * 
+     * @returns The lifecycle hooks
+     */
+    getLifecycle() {
+        return this.lifecycle;
+    }
+
+    /**
+     * Add a handler for a point in the app's lifecycle (see `LifecycleHook`)
+     * 
+     * @param hook The hook to run the handler at
+     * @param handler The handler
+     * @returns The app (for chaining)
+     */
+    on(hook: LifecycleHook, handler: LifecycleHookHandler): this {
+        this.lifecycle.on(hook, handler);
+
+        return this;
+    }
+
+    /**
+     * Start a server listening
+     * 
+     * @param server The server
+     * @param port The port to listen on
+     */
+    private startListening(server: AppServer, port: string | number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Start listening for requests (and, if configured, for plain HTTP requests to redirect to HTTPS)
+     * 
+     * @param app The Express app
+     * @returns The server (once it's listening)
+     */
+    private async listen(app: Application): Promise<AppServer> {
+        const port = process.env.PORT || this.DEFAULT_PORT;
+
+        const { server, connections } = await createServer(app, this.tls);
+        await this.startListening(server, port);
+        this.connections = connections;
+
+        console.log(`Server is running on port ${port}${typeof this.tls !== 'undefined' ? ` (HTTPS${this.tls.http2 ? ', HTTP/2' : ''})` : ''}`);
+
+        if(typeof this.tls !== 'undefined' && typeof this.tls.redirectHttp !== 'undefined' && this.tls.redirectHttp !== false) {
+            const httpPort = this.tls.redirectHttp === true ? (process.env.HTTP_PORT || 80) : this.tls.redirectHttp;
+            const redirectServer = createRedirectServer((server.address() as AddressInfo).port);
+
+            try {
+                await this.startListening(redirectServer, httpPort);
+            }
+            catch(error) {
+                server.close();
+                connections.closeAllConnections();
+
+                throw error;
+            }
+
+            this.redirectServer = redirectServer;
+
+            console.log(`Redirecting HTTP requests on port ${httpPort} to HTTPS`);
+        }
+
+        return server;
+    }
+
+    /**
+     * Shut the app down gracefully when the process is asked to stop
+     */
+    private listenForSignals() {
+        // Any listeners from a previous run are removed first (so they don't leak)
+        this.stopListeningForSignals();
+
+        SHUTDOWN_SIGNALS.forEach((signal) => {
+            const listener = async () => {
+                console.log(`Received ${signal}, shutting down`);
+
+                try {
+                    await this.stop();
+                }
+                catch(err) {
+                    // The process exits unsuccessfully (re-raising the signal would exit by the signal, hiding the failure)
+                    console.error('Shutting down failed:', err);
+                    process.exit(1);
+                }
+
+                // Now that the app has stopped, the signal is raised again so that the process exits the way it would have without the listener
+                process.kill(process.pid, signal);
+            };
+
+            this.signalListeners.set(signal, listener);
+            process.once(signal, listener);
+        });
+    }
+
+    /**
+     * Stop listening for the shutdown signals
+     */
+    private stopListeningForSignals() {
+        this.signalListeners.forEach((listener, signal) => process.off(signal, listener));
+        this.signalListeners.clear();
+    }
+
+    /**
+     * Close the server (waiting for in-flight requests to finish, up to the drain timeout)
+     * 
+     * @param server The server to close
+     * @param connections The server's connections
+     */
+    private async closeServer(server: AppServer, connections: ServerConnections) {
+        await new Promise<void>((resolve) => {
+            // Once the drain timeout passes, the connections of requests that are still in-flight are closed
+            const timer = setTimeout(() => {
+                console.warn(`Requests didn't finish within ${this.drainTimeout}ms, closing their connections`);
+                connections.closeAllConnections();
+            }, this.drainTimeout);
+            timer.unref();
+
+            server.close(() => {
+                clearTimeout(timer);
+                resolve();
+            });
+
+            // Keep-alive connections that aren't handling a request would otherwise keep the server open
+            connections.closeIdleConnections();
+        });
+    }
+
+    /**
+     * Stop the app gracefully
+     * 
+     * 1. The `beforeShutdown` hooks run
+     * 2. The health checks start reporting that the app is draining (if used). The liveness endpoint still passes
+     * 3. The server stops accepting new connections and in-flight requests are given the drain timeout to finish
+     * 4. The `afterShutdown` hooks run
+     * 
+     * Calling this more than once waits for the same shutdown.
+     * 
+     * @throws The error of a failed shutdown hook (an `AggregateError` if more than one failed). This happens after the rest of the shutdown
+     */
+    async stop() {
+        if(typeof this.stopping === 'undefined') {
+            this.stopping = (async () => {
+                this.stopListeningForSignals();
+
+                // A failing hook doesn't stop the rest of the shutdown, the failures are thrown once the app has stopped
+                const errors: unknown[] = [];
+                const runHook = (hook: LifecycleHook) => this.lifecycle.run(hook).catch(err => {
+                    errors.push(err);
+                });
+
+                await runHook('beforeShutdown');
+
+                const healthCheck = typeof this.initializer !== 'undefined' ? this.initializer.getHealthCheck() : undefined;
+                if(typeof healthCheck !== 'undefined') {
+                    healthCheck.setDraining(true, 'The app is shutting down');
+
+                    if(this.shutdownDelay > 0) {
+                        await new Promise(resolve => setTimeout(resolve, this.shutdownDelay));
+                    }
+                }
+
+                // Redirects are answered immediately, so there's nothing to wait for
+                if(typeof this.redirectServer !== 'undefined') {
+                    this.redirectServer.close();
+                    this.redirectServer.closeAllConnections();
+                    this.redirectServer = undefined;
+                }
+
+                if(typeof this.server !== 'undefined' && typeof this.connections !== 'undefined') {
+                    await this.closeServer(this.server, this.connections);
+                    this.server = undefined;
+                    this.connections = undefined;
+                }
+
+                await runHook('afterShutdown');
+
+                if(errors.length === 1) {
+                    throw errors[0];
+                }
+                else if(errors.length > 1) {
+                    throw new AggregateError(errors, 'Shutting down the app failed');
+                }
+            })();
+        }
+
+        await this.stopping;
+    }
+
     /**
      * The main entry point for the web app
      * This is mostly required because of async/await
@@ -37,24 +321,38 @@ export class App {
             this.initializer = new Initializer();
         }
 
+        this.stopping = undefined;
+
+        // The lifecycle is made available to controllers and services (so they can subscribe to it)
+        this.initializer.getContainer().register({ provide: Lifecycle, useValue: this.lifecycle });
+
+        await this.lifecycle.run('beforeInit');
         await this.initializer.init();
+        await this.lifecycle.run('afterInit');
 
         // Start the server
-        const port = process.env.PORT || this.DEFAULT_PORT;
-        this.getExpressApp().listen(port, async () => { 
-            console.log(`Server is running on port ${port}`);
-            
-            // Run the callback if one is provided
-            if(typeof callback !== 'undefined') {
-                await callback.bind(this)(this);
+        try {
+            this.server = await this.listen(this.getExpressApp());
+        }
+        catch(error) {
+            console.error('Error starting server:', error);
+
+            if(typeof onErrorCallback !== 'undefined') {
+                await onErrorCallback(error);
             }
-        })
-            .on('error', async (error) => {
-                console.error('Error starting server:', error);
 
-                if(typeof onErrorCallback !== 'undefined') {
-                    await onErrorCallback(error);
-                }
-            });
+            return;
+        }
+
+        if(this.handleSignals) {
+            this.listenForSignals();
+        }
+
+        await this.lifecycle.run('onListening');
+
+        // Run the callback if one is provided
+        if(typeof callback !== 'undefined') {
+            await callback.bind(this)(this);
+        }
     }
 }
\ No newline at end of file
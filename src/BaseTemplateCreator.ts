@@ -1,7 +1,14 @@
 import path from 'path';
+import { createHash } from 'crypto';
 import fse from 'fs-extra';
 import { JSDOM } from 'jsdom';
 
+import { diffLines } from './utils/diff';
+
+import { TemplateDialect } from './dialects/TemplateDialect';
+import { EJSDialect } from './dialects/EJSDialect';
+import { getTemplateDialect } from './dialects/getTemplateDialect';
+
 /** The inputs for setting up the meta tags */
 type SetupMetaTagInputs = {
     /** Description for the Meta description tag */
@@ -25,13 +32,37 @@ type SetupHeadInputs = SetupMetaTagInputs & {
 /** The inputs for the base template */
 export type BaseTemplateInputs = SetupHeadInputs;
 
+/** 
+ * What happened when syncing a generated template with the current inputs (see `BaseTemplateCreator.sync`)
+ * 
+ * - `created` - The template didn't exist so it was created
+ * - `regenerated` - The template was generated (and not edited since) but is out of date, so it was regenerated
+ * - `unchanged` - The template was generated (and not edited since) and is up to date
+ * - `adopted` - The template has no marker (ex. generated by an older version) but is identical to what would be generated, so the marker was added
+ * - `customized` - The template was generated but has been edited since, so it was left as is
+ * - `unmanaged` - The template has no marker (ex. written by hand or generated by an older version) and differs from what would be generated, so it was left as is
+ */
+export type ManagedTemplateStatus = 'created' | 'regenerated' | 'unchanged' | 'adopted' | 'customized' | 'unmanaged';
+
+/** The name of the app setting with the external sources of each generated layout (see `getExternalSources`). This is how the `securityHeaders` middleware allows them */
+export const TEMPLATE_SOURCES_SETTING = 'template sources';
+
+/** The pattern of the marker (comment) on the first line of a generated template. Which includes the hash of the generated content */
+const MANAGED_TEMPLATE_MARKER_PATTERN = /Generated by ba-web-framework \(sha256:([0-9a-f]{64})\)/;
+
 /**
  * A class to create a base template for an app
+ * 
+ * The structure of the template is the same regardless of the view engine.
+ * But the dynamic parts (ex. the title, extra scripts/styles and including the page) are written in the engine's syntax by a template dialect (see `TemplateDialect`).
  */
 export class BaseTemplateCreator {
     /** The output of the template */
     private output: string;
 
+    /** The dialect (syntax of the view engine) the template is written in */
+    private dialect: TemplateDialect;
+
     /** The DOM of the template */
     private dom: JSDOM;
 
@@ -41,10 +72,14 @@ export class BaseTemplateCreator {
     /**
      * The constructor for the BaseTemplateCreator class
      * 
+     * Note, the `lang` and `dir` render parameters (ex. set by the `i18n` middleware) take precedence over the language when the template is rendered.
+     * 
      * @param language The human language of the document (default: English/`en`)
+     * @param dialect The dialect (syntax of the view engine) to write the template in (default: EJS)
      */
-    constructor(language: string = 'en') {
+    constructor(language: string = 'en', dialect: TemplateDialect = new EJSDialect()) {
         this.output = '';
+        this.dialect = dialect;
 
         // Create the base document
         const { dom, document } = this.createBaseDocument(language);
@@ -63,8 +98,10 @@ export class BaseTemplateCreator {
         const docTypeTag = '<!DOCTYPE html>';
         const emptyHeadTags = '<head></head>';
         const emptyBodyTags = '<body></body>';
-        const htmlLanguageProperty = `lang="${language}"`;
-        const basicHtmlTags = `<html ${htmlLanguageProperty}>${emptyHeadTags}${emptyBodyTags}</html>`;
+        // The language and direction of the document come from the render parameters (if given) so that they can be set per request (ex. by the `i18n` middleware)
+        const htmlLanguageProperty = `lang="${this.dialect.valueWithDefault('lang', language)}"`;
+        const htmlDirectionProperty = `dir="${this.dialect.valueWithDefault('dir', 'ltr')}"`;
+        const basicHtmlTags = `<html ${htmlLanguageProperty} ${htmlDirectionProperty}>${emptyHeadTags}${emptyBodyTags}</html>`;
         const domStr = `${docTypeTag}${basicHtmlTags}`;
         
         // Create a DOM and document from the string
@@ -91,19 +128,19 @@ export class BaseTemplateCreator {
         // Note, if no description is given then we specify a template string that allows specifying it later
         const metaDescTag = this.document.createElement('meta');
         metaDescTag.name = 'description';
-        metaDescTag.content = typeof inputs !== 'undefined' && typeof inputs.description !== 'undefined' ? inputs.description : '<% if(typeof description !== \'undefined\') { %><%= description %><% } %>';
+        metaDescTag.content = typeof inputs !== 'undefined' && typeof inputs.description !== 'undefined' ? inputs.description : this.dialect.optionalValue('description');
         
         // Create the meta keywords tag
         // Note, if no keywords are given then we specify a template string that allows specifying it later
         const metaKeywordsTag = this.document.createElement('meta');
         metaKeywordsTag.name = 'keywords';
-        metaKeywordsTag.content = typeof inputs !== 'undefined' && typeof inputs.keywords !== 'undefined' ? inputs.keywords.join(', ') : '<% if(typeof keywords !== \'undefined\') { %><%= keywords.join(\', \') %><% } %>';
+        metaKeywordsTag.content = typeof inputs !== 'undefined' && typeof inputs.keywords !== 'undefined' ? inputs.keywords.join(', ') : this.dialect.optionalValue('keywords', ', ');
         
         // Create the meta author tag
         // Note, if no author is given then we specify a template string that allows specifying it later
         const metaAuthorTag = this.document.createElement('meta');
         metaAuthorTag.name = 'author';
-        metaAuthorTag.content = typeof inputs !== 'undefined' && typeof inputs.author !== 'undefined' ? inputs.author : '<% if(typeof author !== \'undefined\') { %><%= author %><% } %>';
+        metaAuthorTag.content = typeof inputs !== 'undefined' && typeof inputs.author !== 'undefined' ? inputs.author : this.dialect.optionalValue('author');
         
         // Create the meta viewport tag
         const metaViewportTag = this.document.createElement('meta');
@@ -114,11 +151,16 @@ export class BaseTemplateCreator {
         const viewportScaleParam = `initial-scale=${viewportScale}`;
         metaViewportTag.content = [viewportWidthParam, viewportScaleParam].join(', ');
 
+        // Create the meta CSRF token tag
+        // This is so that scripts can send the token with requests (ex. `fetch` with the `X-CSRF-Token` header). It's only included if the page asks for it (the `csrfMetaTag` render parameter)
+        const metaCsrfTokenTag = this.dialect.csrfTokenMetaTag();
+
         output += '\t\t' + metaCharsetTag.outerHTML + '\n';
         output += '\t\t' + metaDescTag.outerHTML + '\n';
         output += '\t\t' + metaKeywordsTag.outerHTML + '\n';
         output += '\t\t' + metaAuthorTag.outerHTML + '\n';
         output += '\t\t' + metaViewportTag.outerHTML + '\n';
+        output += '\t\t' + metaCsrfTokenTag.replaceAll('\n', '\n\t\t') + '\n';
 
         return output;
     }
@@ -131,53 +173,11 @@ export class BaseTemplateCreator {
     private createTitleTag() {
         // Create the title tag
         const titleTag = this.document.createElement('title');
-        const titlePrefixPortion = '<% if (typeof titlePrefix !== \'undefined\') { %><%= titlePrefix %><% } %>';
-        const titlePortion = '<% if(typeof title !== \'undefined\') { %><%= title %><% } %>';
-        const titleSuffixPortion = '<% if (typeof titleSuffix !== \'undefined\') { %><%= titleSuffix %><% } %>';
-        titleTag.innerHTML = `${titlePrefixPortion}${titlePortion}${titleSuffixPortion}`;
+        titleTag.innerHTML = this.dialect.title();
 
         return '\t\t' + titleTag.outerHTML + '\n';
     }
 
-    /**
-     * Create the extra styles block for the template
-     * 
-     * This is a portion of the `<head></head>` tag within the template that allows a individual controller to specify additional styles.
-     * In particular, it allows a controller to specify additional CSS stylesheets to include in the page.
-     * 
-     * @returns The string representation of the extra styles block
-     */
-    private createExtraStylesBlock() {
-        let output = '';
-        
-        const extraStylesArrayLinkTag = this.document.createElement('link');
-        extraStylesArrayLinkTag.rel = 'stylesheet';
-        extraStylesArrayLinkTag.type = 'text/css';
-        extraStylesArrayLinkTag.href = '/css/<%= style %>.css';
-        
-        const extraStylesLinkTag = this.document.createElement('link');
-        extraStylesLinkTag.rel = 'stylesheet';
-        extraStylesLinkTag.type = 'text/css';
-        extraStylesLinkTag.href = '/css/<%= extraStyles %>.css';
-        
-        output += '<%# Add any additional stylesheets specified within a controller etc... %>' + '\n';
-        output += '<%# This can either be a singular string or a array of strings %>' + '\n';
-        output += '<%# Note, that the string should be the name of the stylesheet WITHOUT the `.css` extension and exist in the `css/` directory %>' + '\n';
-        output += '<% if (typeof extraStyles !== \'undefined\') { %>' + '\n';
-        output += '\t' + '<% if (Array.isArray(extraStyles)) { %>' + '\n';
-        output += '\t\t' + '<%# Because it\'s an array, we need to loop through each stylesheet and include it %>' + '\n';
-        output += '\t\t' + '<% for (let style of extraStyles) { %>' + '\n';
-        output += '\t\t\t' + extraStylesArrayLinkTag.outerHTML + '\n';
-        output += '\t\t' + '<% } %>' + '\n';
-        output += '\t' + '<% } else { %>' + '\n';
-        output += '\t\t' + '<%# Include the singular stylesheet %>' + '\n';
-        output += '\t\t' + extraStylesLinkTag.outerHTML +'\n';
-        output += '\t' + '<% } %>' + '\n';
-        output += '<% } %>';
-
-        return output;
-    }
-
     /**
      * Create the styles section of the head tag
      * 
@@ -193,16 +193,21 @@ export class BaseTemplateCreator {
         const customStyles = this.document.createComment('Custom styling');
         output += '\t\t' + `<!-- ${customStyles.data} -->` + '\n';
 
+        // The stylesheets are referenced by their fingerprinted URL (with integrity) if the `staticAsset` helper is available (see `StaticFileResolver`)
         const baseStylesLinkTag = this.document.createElement('link');
         baseStylesLinkTag.rel = 'stylesheet';
         baseStylesLinkTag.type = 'text/css';
-        baseStylesLinkTag.href = '/css/style.css';
+        baseStylesLinkTag.setAttribute('href', this.dialect.staticAssetValue('/css/style.css', 'url'));
+        baseStylesLinkTag.setAttribute('integrity', this.dialect.staticAssetValue('/css/style.css', 'integrity'));
+        baseStylesLinkTag.setAttribute('nonce', this.dialect.nonce());
         output += '\t\t' + baseStylesLinkTag.outerHTML + '\n';
 
         const accessibilityStylesLinkTag = this.document.createElement('link');
         accessibilityStylesLinkTag.rel = 'stylesheet';
         accessibilityStylesLinkTag.type = 'text/css';
-        accessibilityStylesLinkTag.href = '/css/accessibility.css';
+        accessibilityStylesLinkTag.setAttribute('href', this.dialect.staticAssetValue('/css/accessibility.css', 'url'));
+        accessibilityStylesLinkTag.setAttribute('integrity', this.dialect.staticAssetValue('/css/accessibility.css', 'integrity'));
+        accessibilityStylesLinkTag.setAttribute('nonce', this.dialect.nonce());
         output += '\t\t' + accessibilityStylesLinkTag.outerHTML + '\n';
 
         if(includeFoundationFramework) {
@@ -211,7 +216,9 @@ export class BaseTemplateCreator {
             const foundationFrameworkLinkTag = this.document.createElement('link');
             foundationFrameworkLinkTag.rel = 'stylesheet';
             foundationFrameworkLinkTag.type = 'text/css';
-            foundationFrameworkLinkTag.href = '/css/app.css';
+            foundationFrameworkLinkTag.setAttribute('href', this.dialect.staticAssetValue('/css/app.css', 'url'));
+            foundationFrameworkLinkTag.setAttribute('integrity', this.dialect.staticAssetValue('/css/app.css', 'integrity'));
+            foundationFrameworkLinkTag.setAttribute('nonce', this.dialect.nonce());
 
             output += '\t\t' + `<!-- ${foundationFrameworkComment.data} -->` + '\n';
             output += '\t\t' + `${foundationFrameworkLinkTag.outerHTML}` + '\n';
@@ -227,96 +234,9 @@ export class BaseTemplateCreator {
         //output += '\t\t' + `<!-- ${sassComment.data} -->` + '\n';
         //output += '\t\t' + `${systemThemedBackgroundLinkTag.outerHTML}` + '\n';
 
-        const ejsExtraStylesBlock = this.createExtraStylesBlock();
-        output += '\t\t' + ejsExtraStylesBlock.replaceAll('\n', '\n\t\t') + '\n';
-
-        return output;
-    }
-
-    /**
-     * Create the extra scripts block for the template
-     * 
-     * This is a portion of the `<head></head>` tag within the template that allows a individual controller to specify additional scripts
-     * These scripts can come in a few different forms which is one of the reason it requires a template block like this.
-     * 
-     * @returns The string representation of the extra scripts block
-     */
-    private createExtraScriptsBlock() {
-        let output = '';
-
-        const htmlBlockComment = this.document.createComment('Controller specific scripts');
-        
-        const arrayItemStringExternalScriptTag = this.document.createElement('script');
-        arrayItemStringExternalScriptTag.type = 'application/javascript';
-        arrayItemStringExternalScriptTag.src = '<%= script %>';
-
-        const arrayItemStringLocalScriptTag = this.document.createElement('script');
-        arrayItemStringLocalScriptTag.type = 'application/javascript'
-        arrayItemStringLocalScriptTag.src = '/js/<%= script %>.js' 
-        arrayItemStringLocalScriptTag.defer = true;
-
-        const singularStringExternalScriptTag = this.document.createElement('script');
-        singularStringExternalScriptTag.type = 'application/javascript' 
-        singularStringExternalScriptTag.src = '<%= extraScripts %>';
-
-        const singularStringLocalScriptTag = this.document.createElement('script');
-        singularStringLocalScriptTag.type = 'application/javascript'
-        singularStringLocalScriptTag.src = '/js/<%= extraScripts %>.js' 
-        singularStringLocalScriptTag.defer = true;
-        
-        output += `<!-- ${htmlBlockComment.data} -->` + '\n';
-        output += '<%# Add any additional scripts specified within a controller etc...                                                                                                                                                           %>' + '\n';
-        output += '<%#                                                                                                                                                                                                                           %>' + '\n';
-        output += '<%# Note, that these can come in multiple formats as described in the table below:                                                                                                                                            %>' + '\n';
-        output += '<%# | Type   | Description                                         | Format                                                                  | Use Cases                                                                   |  %>' + '\n';
-        output += '<%# | ------ | --------------------------------------------------- | ----------------------------------------------------------------------- | --------------------------------------------------------------------------- |  %>' + '\n';
-        output += '<%# | string | The name of the script to include                   | `<script name>`                                                         | Simple include of the script                                                |  %>' + '\n';
-        output += '<%# | object | An object about the script to include               | `{ script: \'<script name>\', defer: <true/false> }`                      | Being more explicit about script\'s properties (ex. defer vs. async, etc...) |  %>' + '\n';
-        output += '<%# | array  | An array of strings or objects (as described above) | `[ \'<script name>\', { script: \'<script name>\', defer: <true/false> } ]` | Include multiple scripts                                                    |  %>' + '\n';
-        output += '<%#                                                                                                                                                                                                                           %>' + '\n';
-        output += '<%# The string or `.script` property of the object should be the script name WITHOUT the `.js` extension and exist in the `js/` directory if it\'s a "local" script.                                                           %>' + '\n';
-        output += '<%# Or should be the full URL if it\'s a "external" script                                                                                                                                                                     %>' + '\n';
-        output += '<% if (typeof extraScripts !== \'undefined\') { %>' + '\n';
-        output += '\t' + '<% if (Array.isArray(extraScripts)) { %>' + '\n';
-        output += '\t\t' + '<%# Because it\'s an array, we need to loop through each script and include it %>' + '\n';
-        output += '\t\t' + '<% for (let script of extraScripts) { %>' + '\n';
-        output += '\t\t\t' + '<% if(typeof script === \'object\') { %>' + '\n';
-        output += '\t\t\t\t' + '<%# Because the current array items is an object we use the `.script` and `.defer` properties to include it %>' + '\n';
-        output += '\t\t\t\t' + '<% if(script.script.startsWith(\'http\') || script.script.startsWith(\'https\')) { %>' + '\n';
-        output += '\t\t\t\t\t' + '<%# Because the `.script` property starts with `http` or `https` we assume it\'s an "external" script and include it as a straight URL %>' + '\n';
-        output += '\t\t\t\t\t' + '<script type="application/javascript" src="<%= script.script %>" <% if(script.defer) { %>defer<% } %>></script>' + '\n';
-        output += '\t\t\t\t' + '<% } else { %>' + '\n';
-        output += '\t\t\t\t\t' + '<%# Because the `.script` property doesn\'t start with `http` or `https` we assume it\'s a "local" script and include it as a local script (from the `js/` folder and with a `.js` extension) %>' + '\n';
-        output += '\t\t\t\t\t' + '<script type="application/javascript" src="/js/<%= script.script %>.js" <% if(script.defer) { %>defer<% } %>></script>' + '\n';
-        output += '\t\t\t\t' + '<% } %>' + '\n';
-        output += '\t\t\t' + '<% } else { %>' + '\n';
-        output += '\t\t\t\t' + '<% if(script.startsWith(\'http\') || script.startsWith(\'https\')) { %>' + '\n';
-        output += '\t\t\t\t\t' + '<%# Because the string starts with `http` or `https` we assume it\'s an "external" script and include it as a straight URL %>' + '\n';
-        output += '\t\t\t\t\t' + arrayItemStringExternalScriptTag.outerHTML + '\n';
-        output += '\t\t\t\t' + '<% } else { %>' + '\n';
-        output += '\t\t\t\t\t' + '<%# Because the string doesn\'t start with `http` or `https` we assume it\'s a "local" script and include it as a local script (from the `js/` folder and with a `.js` extension) %>' + '\n';
-        output += '\t\t\t\t\t' + arrayItemStringLocalScriptTag.outerHTML + '\n';
-        output += '\t\t\t\t' + '<% } %>' + '\n';
-        output += '\t\t\t' + '<% } %>' + '\n';
-        output += '\t\t' + '<% } %>' + '\n';
-        output += '\t' + '<% } else if (typeof extraScripts === \'object\') { %>' + '\n';
-        output += '\t\t' + '<% if(extraScripts.script.startsWith(\'http\') || extraScripts.script.startsWith(\'https\')) { %>' + '\n';
-        output += '\t\t\t' + '<%# Because the `.script` property of the singular object starts with `http` or `https` we assume it\'s an "external" script and include it as a straight URL %>' + '\n';
-        output += '\t\t\t' + '<script type="application/javascript" src="<%= extraScripts.script %>" <% if(extraScripts.defer) { %>defer<% } %>></script>' + '\n';
-        output += '\t\t' + '<% } else { %>' + '\n';
-        output += '\t\t\t' + '<%# Because the `.script` property of the singular object doesn\'t start with `http` or `https` we assume it\'s a "local" script and include it as a local script (from the `js/` folder and with a `.js` extension) %>' + '\n';
-        output += '\t\t\t' + '<script type="application/javascript" src="/js/<%= extraScripts.script %>.js" <% if(extraScripts.defer) { %>defer<% } %>></script>' + '\n';
-        output += '\t\t' + '<% } %>' + '\n';
-        output += '\t' + '<% } else { %>' + '\n';
-        output += '\t\t' + '<% if(extraScripts.startsWith(\'http\') || extraScripts.startsWith(\'https\')) { %>' + '\n';
-        output += '\t\t\t' + '<%# Because the singular string starts with `http` or `https` we assume it\'s an "external" script and include it as a straight URL %>' + '\n';
-        output += '\t\t\t' + singularStringExternalScriptTag.outerHTML + '\n';
-        output += '\t\t' + '<% } else { %>' + '\n';
-        output += '\t\t\t' + '<%# Because the singular string doesn\'t start with `http` or `https` we assume it\'s a "local" script and include it as a local script (from the `js/` folder and with a `.js` extension) %>' + '\n';
-        output += '\t\t\t' + singularStringLocalScriptTag.outerHTML + '\n';
-        output += '\t\t' + '<% } %>' + '\n';
-        output += '\t' + '<% } %>' + '\n';
-        output += '<% } %>' + '\n';
+        // Add the block for any additional stylesheets a page specifies
+        const extraStylesBlock = this.dialect.extraStylesBlock();
+        output += '\t\t' + extraStylesBlock.replaceAll('\n', '\n\t\t') + '\n';
 
         return output;
     }
@@ -339,6 +259,7 @@ export class BaseTemplateCreator {
             const stripeScriptTag = this.document.createElement('script');
             stripeScriptTag.src = 'https://js.stripe.com/v3';
             stripeScriptTag.async = true;
+            stripeScriptTag.setAttribute('nonce', this.dialect.nonce());
 
             output += '\t\t' +  stripeScriptTag.outerHTML + '\n';
         }
@@ -347,6 +268,7 @@ export class BaseTemplateCreator {
             const fontAwesomeScriptTag = this.document.createElement('script');
             fontAwesomeScriptTag.src = `https://kit.fontawesome.com/${fontAwesomeKit}.js`;
             fontAwesomeScriptTag.crossOrigin = 'anonymous';
+            fontAwesomeScriptTag.setAttribute('nonce', this.dialect.nonce());
 
             output += '\t\t' + fontAwesomeScriptTag.outerHTML + '\n'
         }
@@ -358,13 +280,15 @@ export class BaseTemplateCreator {
             foundationFrameworkScriptTag.type = 'application/javascript';
             foundationFrameworkScriptTag.src = '/js/foundation/main.js';
             foundationFrameworkScriptTag.defer = true;
+            foundationFrameworkScriptTag.setAttribute('nonce', this.dialect.nonce());
 
             output += '\t\t' + `<!-- ${foundationFrameworkComment.data} -->` + '\n';
             output += '\t\t' + foundationFrameworkScriptTag.outerHTML + '\n';
         }
 
-        const ejsExtraScriptsBlock = this.createExtraScriptsBlock();
-        output += '\t\t' + ejsExtraScriptsBlock.replaceAll('\n', '\n\t\t') + '\n';
+        // Add the block for any additional scripts a page specifies
+        const extraScriptsBlock = this.dialect.extraScriptsBlock();
+        output += '\t\t' + extraScriptsBlock.replaceAll('\n', '\n\t\t') + '\n';
 
         return output;
     }
@@ -395,40 +319,6 @@ export class BaseTemplateCreator {
         headTag.innerHTML = headTagContents;
     }
 
-    /**
-     * Create the header block for the template
-     * 
-     * @returns The string representation of the header block
-     */
-    private createHeaderBlock() {
-        let output = '';
-
-        output += "<% if(typeof header !== 'undefined') { %>" + '\n';
-        output += '\t' + '<%- include(header) %>' + '\n';
-        output += '<% } else { %>' + '\n';
-        output += '\t' + "<%- include('includes/header.ejs') %>" + '\n';
-        output += '<% } %>';
-
-        return output;
-    }
-
-    /**
-     * Create the footer block for the template
-     * 
-     * @return The string representation of the footer block
-     */
-    private createFooterBlock() {
-        let output = '';
-        
-        output += "<% if(typeof footer !== 'undefined') { %>" + '\n';
-        output += '\t' + '<%- include(footer) %>' + '\n';
-        output += '<% } else { %>' + '\n';
-        output += '\t' + "<%- include('includes/footer.ejs') %>" + '\n';
-        output += '<% } %>';
-
-        return output;
-    }
-
     /**
      * Setup the body portion of the document (`<body></body>` tag)
      * 
@@ -445,8 +335,8 @@ export class BaseTemplateCreator {
         contentsDiv.id = 'contents';
         
         const headerElem = this.document.createElement('header');
-        let ejsHeaderIncludeBlock = this.createHeaderBlock();
-        headerElem.innerHTML = ejsHeaderIncludeBlock;
+        // The header is the template given by the `header` render parameter or `includes/header` by default
+        headerElem.innerHTML = this.dialect.includeWithDefault('header', 'includes/header');
         contentsDiv.appendChild(headerElem);
         
         const mainElem = this.document.createElement('main');
@@ -457,7 +347,7 @@ export class BaseTemplateCreator {
         
         const contentDiv = this.document.createElement('div');
         contentDiv.classList.add('content');
-        contentDiv.innerHTML = '<%- include(page) %>';
+        contentDiv.innerHTML = this.dialect.includePage();
         containerDiv.appendChild(contentDiv);
 
         mainElem.appendChild(containerDiv);
@@ -465,8 +355,8 @@ export class BaseTemplateCreator {
         contentsDiv.appendChild(mainElem);
         
         const footerElem = this.document.createElement('footer');
-        const ejsFooterIncludeBlock = this.createFooterBlock();
-        footerElem.innerHTML = ejsFooterIncludeBlock;
+        // The footer is the template given by the `footer` render parameter or `includes/footer` by default
+        footerElem.innerHTML = this.dialect.includeWithDefault('footer', 'includes/footer');
         contentsDiv.appendChild(footerElem);
         
         this.document.body.appendChild(contentsDiv);
@@ -476,39 +366,173 @@ export class BaseTemplateCreator {
      * Prepare the output of the template for writing to a file
      */
     private prepare() {
-        this.output = this.dom.serialize()
-            // Fixing the EJS tags
-            .replaceAll('&lt;%', '<%')
-            .replaceAll('%&gt;', '%>')
-            // Logical operators (particularly used within EJS tags)
-            .replaceAll('&amp;&amp;', '&&')
-            .replaceAll(' &gt; ', ' > ')
-            .replaceAll(' &lt; ', ' < ');
+        // Serializing escapes characters used by the template syntax (ex. `<%` becomes `&lt;%`), which the dialect reverts
+        this.output = this.dialect.prepare(this.dom.serialize());
+    }
+
+    /**
+     * Get the path of the template file (ex. `base.ejs`, the extension depends on the dialect)
+     * 
+     * @param folder The folder the file is in
+     * @param name The name of the template (without the extension)
+     * @returns The path of the template file
+     */
+    private getFilePath(folder: string, name: string) {
+        return path.resolve(folder, `${name}.${this.dialect.extension}`);
+    }
+
+    /**
+     * Hash the content of a template (used to detect if a generated template has been edited)
+     * 
+     * @param content The content of the template (without the marker)
+     * @returns The hash (hex encoded SHA-256)
+     */
+    private static hash(content: string) {
+        return createHash('sha256').update(content).digest('hex');
     }
 
     /**
-     * Write the template out to a `base.ejs` file
+     * Write the template out to a file (ex. `base.ejs`, the extension depends on the dialect)
+     * 
+     * The first line of the file is a marker (a comment in the template's syntax) with the hash of the generated content.
+     * This is how `sync` knows the file was generated and if it's been edited since.
      * 
      * @param folder The folder where the file should be written to
+     * @param name The name of the template (without the extension)
      */
-    private write(folder: string) {
-        fse.writeFileSync(path.resolve(folder, 'base.ejs'), this.output);
+    private write(folder: string, name: string) {
+        const marker = this.dialect.comment(`Generated by ba-web-framework (sha256:${BaseTemplateCreator.hash(this.output)}). It's regenerated when the template inputs change, unless it's edited (editing it means it's yours to maintain)`);
+
+        fse.writeFileSync(this.getFilePath(folder, name), `${marker}\n${this.output}`);
     }
 
     /**
-     * The static method to create a base template
+     * Generate a base template (without writing it out)
      * 
-     * @param folder The folder to write the base template to 
      * @param baseTemplateInputs The inputs to use for the base template
+     * @param engine The view engine the template is for
+     * @returns The template creator with the generated template as it's output
+     * @throws Error if a base template can't be created for the view engine
      */
-    static create(folder: string = 'pages', baseTemplateInputs?: BaseTemplateInputs) {
+    private static generate(baseTemplateInputs: BaseTemplateInputs | undefined, engine: string) {
+        const dialect = getTemplateDialect(engine);
+        if(typeof dialect === 'undefined') {
+            throw new Error(`A base template can't be created for the ${engine} view engine`);
+        }
+
         // Create the base template creator object (sets up an initial document to work with)
-        const templateCreator = new BaseTemplateCreator();
+        const templateCreator = new BaseTemplateCreator(undefined, dialect);
 
         // Sets up the head portion of the document
         templateCreator.setupHead(baseTemplateInputs);
         templateCreator.setupBody();
         templateCreator.prepare();
-        templateCreator.write(folder);
+
+        return templateCreator;
+    }
+
+    /**
+     * Get the external sources (origins) the generated base template references, by Content Security Policy directive
+     * 
+     * This is so that a Content Security Policy (see the `securityHeaders` middleware) can allow what the template includes (ex. Stripe or a Font Awesome kit).
+     * 
+     * @param baseTemplateInputs The inputs used for the base template
+     * @returns The sources for each directive (ex. `{ 'script-src': ['https://js.stripe.com'], ... }`)
+     */
+    static getExternalSources(baseTemplateInputs?: BaseTemplateInputs): { [directive: string]: string[] } {
+        const sources: { [directive: string]: string[] } = {};
+        const addSources = (directive: string, ...directiveSources: string[]) => {
+            sources[directive] = [...(sources[directive] ?? []), ...directiveSources];
+        };
+
+        if(typeof baseTemplateInputs !== 'undefined' && baseTemplateInputs.includeStripe) {
+            addSources('script-src', 'https://js.stripe.com');
+            addSources('frame-src', 'https://js.stripe.com', 'https://hooks.stripe.com');
+            addSources('connect-src', 'https://api.stripe.com');
+        }
+
+        if(typeof baseTemplateInputs !== 'undefined' && typeof baseTemplateInputs.fontAwesomeKit !== 'undefined') {
+            // The kit script loads the icons (fonts and styles) from Font Awesome's CDN
+            addSources('script-src', 'https://kit.fontawesome.com');
+            addSources('connect-src', 'https://ka-f.fontawesome.com');
+            addSources('font-src', 'https://ka-f.fontawesome.com');
+            addSources('style-src', 'https://ka-f.fontawesome.com');
+        }
+
+        return sources;
+    }
+
+    /**
+     * The static method to create a base template
+     * 
+     * Note, the template can be written under a different name (ex. `dashboard` for `dashboard.ejs`) to create additional layouts (see the `@Layout` decorator).
+     * 
+     * @param folder The folder to write the base template to 
+     * @param baseTemplateInputs The inputs to use for the base template
+     * @param name The name of the template/layout (without the extension. Default is `base`)
+     * @param engine The view engine the template is for (ex. `ejs`, `pug`, `hbs` or `njk`. Default is `ejs`)
+     * @throws Error if a base template can't be created for the view engine
+     */
+    static create(folder: string = 'pages', baseTemplateInputs?: BaseTemplateInputs, name: string = 'base', engine: string = 'ejs') {
+        BaseTemplateCreator.generate(baseTemplateInputs, engine).write(folder, name);
+    }
+
+    /**
+     * Keep a generated base template in sync with the current inputs (and version of the framework)
+     * 
+     * A generated template has a marker on it's first line with a hash of what was generated.
+     * Which means we can tell if the template has been edited since it was generated:
+     * - If it hasn't been edited, it's regenerated whenever what would be generated changes (ex. `includeStripe` was turned on)
+     * - If it has been edited, it's left alone (it's now the app's to maintain) but a diff against what would be generated is returned
+     * - If it has no marker, it's left alone (unless it's identical to what would be generated, in which case the marker is added) but a diff against what would be generated is returned
+     * 
+     * @param folder The folder the base template is in
+     * @param baseTemplateInputs The inputs to use for the base template
+     * @param name The name of the template/layout (without the extension. Default is `base`)
+     * @param engine The view engine the template is for (ex. `ejs`, `pug`, `hbs` or `njk`. Default is `ejs`)
+     * @returns What happened to the template and, if it was customized or is unmanaged, the differences between it and what would be generated now
+     * @throws Error if a base template can't be created for the view engine
+     */
+    static sync(folder: string = 'pages', baseTemplateInputs?: BaseTemplateInputs, name: string = 'base', engine: string = 'ejs'): { status: ManagedTemplateStatus, diff?: string } {
+        const templateCreator = BaseTemplateCreator.generate(baseTemplateInputs, engine);
+        const filePath = templateCreator.getFilePath(folder, name);
+
+        if(!fse.existsSync(filePath)) {
+            templateCreator.write(folder, name);
+            return { status: 'created' };
+        }
+
+        const existing = fse.readFileSync(filePath).toString();
+
+        // Separate the marker (first line) from the content
+        const markerEnd = existing.indexOf('\n');
+        const marker = markerEnd !== -1 ? existing.slice(0, markerEnd).match(MANAGED_TEMPLATE_MARKER_PATTERN) : null;
+
+        if(marker === null) {
+            if(existing === templateCreator.output) {
+                templateCreator.write(folder, name);
+                return { status: 'adopted' };
+            }
+
+            return { status: 'unmanaged', diff: diffLines(existing, templateCreator.output) };
+        }
+
+        const content = existing.slice(markerEnd + 1);
+
+        if(content === templateCreator.output) {
+            // The marker is rewritten in case the template was edited to match what is generated now (so that it's considered unedited again)
+            if(BaseTemplateCreator.hash(content) !== marker[1]) {
+                templateCreator.write(folder, name);
+            }
+
+            return { status: 'unchanged' };
+        }
+
+        if(BaseTemplateCreator.hash(content) !== marker[1]) {
+            return { status: 'customized', diff: diffLines(content, templateCreator.output) };
+        }
+
+        templateCreator.write(folder, name);
+        return { status: 'regenerated' };
     }
 }
\ No newline at end of file
@@ -1,8 +1,16 @@
 import express, { Application, RequestHandler } from 'express';
 
-import { Router } from './Router';
-import { StaticFileResolver } from './StaticFileResolver';
-import { Renderer } from './Renderer';
+import { Router, ControllerDiscoveryOptions } from './Router';
+import { StaticFileResolver, StaticFileOptions } from './StaticFileResolver';
+import { Renderer, LayoutOptions } from './Renderer';
+import { BaseTemplateInputs } from './BaseTemplateCreator';
+import { Container } from './di/Container';
+import { Provider } from './di/Provider';
+import { SessionMiddleware, SessionOptions } from './sessions/SessionMiddleware';
+import { AuthOptions, AUTH_OPTIONS_SETTING } from './auth/AuthorizationMiddleware';
+import { BearerTokenMiddleware, BearerTokenOptions } from './auth/BearerTokenMiddleware';
+import { CsrfMiddleware, CsrfOptions } from './middlewares/CsrfMiddleware';
+import { HealthCheckMiddleware, HealthCheckOptions } from './middlewares/HealthCheckMiddleware';
 
 /**
  * Object to encapsulate the setup of the app
@@ -16,15 +24,42 @@ export class Initializer {
     /** The path to the controllers */
     private controllersPath?: string;
 
+    /** The controller classes (if given, these are used instead of loading the controllers from the controllers path) */
+    private controllers?: any[];
+
+    /** The error controller classes (if given, these are used instead of loading the error controllers from the controllers path) */
+    private errorControllers?: any[];
+
+    /** The options for finding the controllers in the controllers path (ex. which files to load) */
+    private controllerDiscovery?: ControllerDiscoveryOptions;
+
     /** The path to the static files (css, js, etc...) */
     private staticFilesPath?: string;
 
-    /** The view engine and path to the view files */
-    private view?: { filesPath: string, engine?: string };
+    /** The options for serving the static files (caching, compression, additional roots, etc...) */
+    private staticFiles?: StaticFileOptions;
+
+    /** The view engine, path to the view files and layouts */
+    private view?: { filesPath: string, engine?: string, layout?: string, layouts?: LayoutOptions['layouts'], templateInputs?: BaseTemplateInputs, managedTemplates?: boolean };
+
+    /** The options for sessions (sessions are only used if this is set) */
+    private sessions?: SessionOptions;
+
+    /** The options for authentication/authorization (ex. where to log in) */
+    private auth?: AuthOptions;
+
+    /** The options for CSRF protection (CSRF protection is only used if this is set) */
+    private csrf?: CsrfOptions | boolean;
+
+    /** The app's health checks (only if the `healthCheck` input is set) */
+    private healthCheck?: HealthCheckMiddleware;
 
     /** The middlewares to use */
     private middlewares: ((...args: any[]) => RequestHandler)[];
 
+    /** The dependency injection container (controllers, error controllers and services are constructed by it) */
+    private container: Container;
+
     private app?: Application;
     private router?: Router;
 
@@ -36,17 +71,89 @@ export class Initializer {
      * 
      * @param inputs The inputs for the initializer
      * @param inputs.controllersPath The path to the controllers
+     * @param inputs.controllers The controller classes to use instead of loading them from the controllers path (ex. `[HomeController, AdminController]`). Works with bundlers, ES modules and minified code (which loading from the controllers path may not)
+     * @param inputs.errorControllers The error controller classes to use instead of loading them from the controllers path (ex. `[NotFoundController]`)
+     * @param inputs.controllerDiscovery Which files in the controllers path to load controllers from (ex. `{ include: ['**\/*Controller.js'], exclude: ['**\/*.test.js'] }`). Only used if neither `controllers` nor `errorControllers` is given
      * @param inputs.staticFilesPath The path to the static files (css, js, etc...)
+     * @param inputs.staticFiles The options for serving the static files (ex. `{ compression: true, cachePolicies: [{ pattern: '/img/', cacheControl: 'public, max-age=86400' }] }`)
      * @param inputs.view.engine The view engine to use (ex. 'ejs')
      * @param inputs.view.filesPath The path to the view files
+     * @param inputs.view.layout The layout pages are rendered within by default (default is `base`)
+     * @param inputs.view.layouts Additional layouts to generate if they don't exist (ex. `{ dashboard: {}, print: {} }`)
+     * @param inputs.view.templateInputs The inputs for the generated base template (ex. `{ includeStripe: true }`)
+     * @param inputs.view.managedTemplates If generated templates are regenerated when their inputs change (unless they've been edited. Default is true)
+     * @param inputs.sessions The options for sessions (ex. `{ store: new FileSessionStore('sessions'), idleTimeout: 15 * 60 * 1000 }`). Sessions are only used if this is set
+     * @param inputs.auth The options for authentication/authorization (ex. `{ loginPath: '/auth/login' }` for routes using the `@Authenticated` or `@RequireScopes` decorators or `{ bearerTokens: { issuer: 'https://auth.example.com' } }` to accept access tokens)
+     * @param inputs.csrf If CSRF tokens are issued and verified for the state changing routes of controllers (`true` or the options, ex. `{ mode: 'double-submit' }`)
+     * @param inputs.healthCheck If the health check endpoints are served (`true` or the options, ex. `{ version: '1.2.0', releaseId: process.env.COMMIT_SHA }`). Checks can be registered through `getHealthCheck`
+     * @param inputs.providers The providers to register with the dependency injection container (ex. a database client or configuration values)
      * @param middlewares Th middlewares to use
      */
-    constructor(inputs?: { controllersPath?: string, staticFilesPath?: string, view?: { filesPath: string, engine?: string } }, ...middlewares: ((...args: any[]) => RequestHandler)[]) {
+    constructor(inputs?: { controllersPath?: string, controllers?: any[], errorControllers?: any[], controllerDiscovery?: ControllerDiscoveryOptions, staticFilesPath?: string, staticFiles?: StaticFileOptions, view?: { filesPath: string, engine?: string, layout?: string, layouts?: LayoutOptions['layouts'], templateInputs?: BaseTemplateInputs, managedTemplates?: boolean }, sessions?: SessionOptions, auth?: AuthOptions, csrf?: CsrfOptions | boolean, healthCheck?: HealthCheckOptions | boolean, providers?: Provider[] }, ...middlewares: ((...args: any[]) => RequestHandler)[]) {
         this.controllersPath = typeof inputs !== 'undefined' && inputs.controllersPath !== 'undefined' ? inputs.controllersPath : undefined;
+        this.controllers = typeof inputs !== 'undefined' && typeof inputs.controllers !== 'undefined' ? inputs.controllers : undefined;
+        this.errorControllers = typeof inputs !== 'undefined' && typeof inputs.errorControllers !== 'undefined' ? inputs.errorControllers : undefined;
+        this.controllerDiscovery = typeof inputs !== 'undefined' && typeof inputs.controllerDiscovery !== 'undefined' ? inputs.controllerDiscovery : undefined;
         this.staticFilesPath = typeof inputs !== 'undefined' && inputs.staticFilesPath !== 'undefined' ? inputs.staticFilesPath : undefined;
+        this.staticFiles = typeof inputs !== 'undefined' && typeof inputs.staticFiles !== 'undefined' ? inputs.staticFiles : undefined;
         this.view = typeof inputs !== 'undefined' && typeof inputs.view !== 'undefined' ? inputs.view : undefined;
+        this.sessions = typeof inputs !== 'undefined' && typeof inputs.sessions !== 'undefined' ? inputs.sessions : undefined;
+        this.auth = typeof inputs !== 'undefined' && typeof inputs.auth !== 'undefined' ? inputs.auth : undefined;
+        this.csrf = typeof inputs !== 'undefined' && typeof inputs.csrf !== 'undefined' ? inputs.csrf : undefined;
+
+        if(typeof inputs !== 'undefined' && typeof inputs.healthCheck !== 'undefined' && inputs.healthCheck !== false) {
+            this.healthCheck = new HealthCheckMiddleware(inputs.healthCheck === true ? {} : inputs.healthCheck);
+        }
         
         this.middlewares = middlewares;
+
+        this.container = new Container();
+        if(typeof inputs !== 'undefined' && typeof inputs.providers !== 'undefined') {
+            inputs.providers.forEach(provider => this.container.register(provider));
+        }
+    }
+
+    /**
+     * Get the dependency injection container
+     * 
+     * This can be used to register additional providers (before `init` is called) or resolve things from the container.
+     * 
+     * @returns The dependency injection container
+     */
+    getContainer() {
+        return this.container;
+    }
+
+    /**
+     * Get the app's health checks (to register checks or change the status)
+     * 
+     * @returns The health checks or undefined if the `healthCheck` input wasn't set
+     */
+    getHealthCheck() {
+        return this.healthCheck;
+    }
+
+    /**
+     * Accept OAuth access tokens (JWTs) in the `Authorization: Bearer` header
+     * 
+     * This is the same as the `bearerTokens` option of the `auth` input, but can be used after the Initializer is created (ex. by an `OAuthApp` in API mode).
+     * Note, this needs to be called before `init`.
+     * 
+     * @param options The options for accepting bearer tokens
+     */
+    useBearerTokens(options: BearerTokenOptions) {
+        this.auth = { ...this.auth, bearerTokens: options };
+    }
+
+    /**
+     * Add a middleware (after the ones given to the constructor)
+     * 
+     * Note, this needs to be called before `init`.
+     * 
+     * @param middleware The function that creates the middleware (the same as the middlewares given to the constructor)
+     */
+    use(middleware: (...args: any[]) => RequestHandler) {
+        this.middlewares.push(middleware);
     }
 
     getExpressApp() {
@@ -74,6 +181,11 @@ export class Initializer {
         // Create the Express app
         this.app = express();
 
+        // Kept as a setting so that the authorization checks of routes (see the `@Authenticated` decorator) can get at it
+        if(typeof this.auth !== 'undefined') {
+            this.app.set(AUTH_OPTIONS_SETTING, this.auth);
+        }
+
         return this.app;
     }
 
@@ -83,6 +195,26 @@ export class Initializer {
      * @param app The Express app to setup the middleware on
      */
     private async setupMiddleware(app: Application) {
+        // Health checks are setup first so that they're answered without the other middlewares doing any work (ex. creating sessions)
+        if(typeof this.healthCheck !== 'undefined') {
+            app.use(this.healthCheck.middleware.bind(this.healthCheck));
+        }
+
+        // Sessions are setup first so that the other middlewares (and the routes) have access to the session
+        if(typeof this.sessions !== 'undefined') {
+            app.use((new SessionMiddleware(this.sessions)).middleware());
+        }
+
+        // Bearer tokens come after sessions so that a request's token takes precedence over the session's user
+        if(typeof this.auth !== 'undefined' && typeof this.auth.bearerTokens !== 'undefined') {
+            app.use((new BearerTokenMiddleware(this.auth.bearerTokens)).middleware());
+        }
+
+        // CSRF tokens come after sessions because (by default) they're kept in the session
+        if(typeof this.csrf !== 'undefined' && this.csrf !== false) {
+            app.use((new CsrfMiddleware(this.csrf === true ? {} : this.csrf)).middleware());
+        }
+
         this.middlewares.forEach(middleware => app.use(middleware()));
     }
 
@@ -100,31 +232,27 @@ export class Initializer {
 
         // Setup the static file resolver (how the app serves static files)
         if(typeof this.staticFilesPath !== 'undefined') {
-            await (new StaticFileResolver(this.staticFilesPath)).setup(app);
+            await (new StaticFileResolver(this.staticFilesPath, this.staticFiles)).setup(app);
         }
         else {
-            await (new StaticFileResolver()).setup(app);
+            await (new StaticFileResolver(undefined, this.staticFiles)).setup(app);
         }
 
         // Setup the renderer (how the app renders templates - templates can use any Express supported view engine)
         if(typeof this.view !== 'undefined') {
-            if(typeof this.view.engine !== 'undefined') {
-                await (new Renderer(this.view.filesPath, this.view.engine)).setup(app);
-            }
-            else {
-                await (new Renderer(this.view.filesPath)).setup(app);
-            }
+            await (new Renderer(this.view.filesPath, this.view.engine, this.view.templateInputs, { default: this.view.layout, layouts: this.view.layouts, managed: this.view.managedTemplates })).setup(app);
         }
         else {
             await (new Renderer()).setup(app);
         }
 
         // Setup the router (how the app handles requests)
+        const routerOptions = { controllers: this.controllers, errorControllers: this.errorControllers, discovery: this.controllerDiscovery };
         if(typeof this.controllersPath !== 'undefined') {
-            this.router = new Router(this.controllersPath);
+            this.router = new Router(this.controllersPath, this.container, routerOptions);
         }
         else {
-            this.router = new Router();
+            this.router = new Router(undefined, this.container, routerOptions);
         }
         await this.router.setup(app);
     }
@@ -2,12 +2,16 @@ import { Application } from 'express';
 import { Scopes } from '@BridgemanAccessible/ba-auth';
 import Client, { OnAuthCallback } from '@BridgemanAccessible/ba-auth/client';
 
-import { App } from './App';
+import { App, AppOptions } from './App';
 import { Initializer } from './Initializer';
 
+import { getCurrentSession } from './sessions/SessionMiddleware';
+import { BearerTokenOptions } from './auth/BearerTokenMiddleware';
+import { HealthCheckStatus } from './middlewares/HealthCheckMiddleware';
+
 import { getValueFromEnvironmentVariable } from './utils/env-vars';
 
-type OAuthAppOptions = {
+type OAuthAppOptions = AppOptions & {
     /** The base URL of the app */
     baseAppUrl?: URL,
     /** The abbreviation of the app */
@@ -36,7 +40,19 @@ type OAuthAppOptions = {
     /** The default response mode for authentication */
     auth_default_response_mode?: 'query' | 'fragment' | 'form_post'
     /** The client secret for the app (if this IS set registration WON'T be done. Because re-registering isn't supported) */
-    client_secret?: string
+    client_secret?: string,
+    /** 
+     * What to store as the user in the session when a user logs in (only applies if sessions are used).
+     * Receives the same arguments as the `onAuth` callback. 
+     * Default is what the `onAuth` callback returns (if it's an object) or, otherwise, it's first argument
+     */
+    sessionUser?: (...args: Parameters<OnAuthCallback>) => any,
+    /** 
+     * If the app is also a resource server (an API other apps call with access tokens).
+     * When set, `Authorization: Bearer` tokens from the issuer are accepted (the claims become `req.user`).
+     * `true` uses the `OAUTH_ISSUER` environment variable for the issuer, otherwise the options for accepting tokens (ex. `{ audience: 'my-api' }`)
+     */
+    api?: boolean | Partial<BearerTokenOptions>
 };
 
 export class OAuthApp extends App {
@@ -56,6 +72,11 @@ export class OAuthApp extends App {
     private auth_default_use_JWT?: boolean;
     private auth_default_response_mode?: 'query' | 'fragment' | 'form_post';
     private client_secret?: string;
+    private sessionUser?: (...args: Parameters<OnAuthCallback>) => any;
+    private api?: boolean | Partial<BearerTokenOptions>;
+
+    /** The state of the OAuth client's setup/registration (reported by the health checks) */
+    private clientState: { status: HealthCheckStatus, output?: string };
 
     /**
      * Create a new OAuth app
@@ -79,6 +100,7 @@ export class OAuthApp extends App {
      * | SCOPES	              | Required if `options.scopes` isn't provided             | A comma-separated list of scopes available to the client                     |
      * | VAULT_TYPE	          | Required if in production (`NODE_ENV` is `production`)  | The type of vault to use for the keystore (one of azure, hashicorp, or file) |
      * | APP_SECRET           | Optional (Determines if app should register or not)     | The client secret for the app (if this IS set registration WON'T be done)    |
+     * | OAUTH_ISSUER         | Required if `options.api` is set without an issuer      | The issuer of the access tokens the app accepts (the authorization server)   |
      * 
      * @param onAuth The callback to call when a user logs in
      * @param saveSecret The callback to call to save the secret
@@ -96,11 +118,17 @@ export class OAuthApp extends App {
      * @param options.auth_default_use_JWT Whether to use JWT as the default authentication method
      * @param options.auth_default_response_mode The default response mode for authentication
      * @param options.client_secret The client secret for the app (if this IS set registration WON'T be done. Because re-registering isn't supported)
+     * @param options.sessionUser What to store as the user in the session when a user logs in (only applies if sessions are used)
+     * @param options.drainTimeout How long (in milliseconds) in-flight requests have to finish when shutting down (see `AppOptions`)
+     * @param options.shutdownDelay How long (in milliseconds) to wait after the health checks report the app is shutting down before it stops accepting requests
+     * @param options.handleSignals If the app shuts down gracefully on `SIGTERM` and `SIGINT` (default is true)
+     * @param options.api If the app also accepts access tokens (`Authorization: Bearer`) as a resource server (`true` or the options for accepting tokens)
      */
     constructor(onAuth: OnAuthCallback, saveSecret: (secret: string) => void | Promise<void>, options?: OAuthAppOptions) {
-        super();
+        super(options);
         this.onAuth = onAuth;
         this.saveSecret = saveSecret;
+        this.clientState = { status: HealthCheckStatus.ERROR, output: 'The OAuth client has not been setup yet' };
 
         if(typeof options !== 'undefined') {
             this.baseAppUrl = options.baseAppUrl;
@@ -116,7 +144,54 @@ export class OAuthApp extends App {
             this.auth_default_use_JWT = options.auth_default_use_JWT;
             this.auth_default_response_mode = options.auth_default_response_mode;
             this.client_secret = options.client_secret;
+            this.sessionUser = options.sessionUser;
+            this.api = options.api;
+        }
+    }
+
+    /**
+     * The wrapper around the `onAuth` callback
+     * 
+     * After the app's callback succeeds, the user is logged into the session (if sessions are used).
+     * Logging in regenerates the session (to prevent session fixation) and stores the user in it (making it available as `req.user` and through the `@User` decorator).
+     * 
+     * It's an arrow function (with the callback's type) so it can be passed to the client as-is.
+     * 
+     * @param args The arguments the `onAuth` callback is called with
+     * @returns What the `onAuth` callback returns
+     */
+    private readonly handleAuth: OnAuthCallback = async (...args) => {
+        const output = await this.onAuth(...args);
+
+        const session = getCurrentSession();
+        if(typeof session !== 'undefined') {
+            // What the callback returns is only used as the user if it's an object (ex. not a boolean indicating success)
+            const user = typeof output === 'object' && output !== null ? output : args[0];
+
+            session.login(typeof this.sessionUser !== 'undefined' ? await this.sessionUser(...args) : user);
+        }
+
+        return output;
+    };
+
+    /**
+     * Get the options for accepting access tokens (when the app is also a resource server)
+     * 
+     * @returns The options or undefined if the app doesn't accept access tokens
+     */
+    private getBearerTokenOptions(): BearerTokenOptions | undefined {
+        if(typeof this.api === 'undefined' || this.api === false) {
+            return undefined;
+        }
+
+        const options = this.api === true ? {} : this.api;
+
+        let issuer = options.issuer;
+        if(typeof issuer === 'undefined') {
+            issuer = getValueFromEnvironmentVariable('OAUTH_ISSUER', { description: 'issuer of access tokens', blank_allowed: false });
         }
+
+        return { ...options, issuer: issuer };
     }
 
     /**
@@ -145,7 +220,7 @@ export class OAuthApp extends App {
         // Because we need this for registration to work properly. It make sense to put it here
         app.getInitializer().getRouter().addOutsideFrameworkRoute('/.well-known/jwks.json');
 
-        const client = await Client.setup(app.getExpressApp(), baseAppUrl, this.onAuth, this.saveSecret, appAbbrv, this.appName, this.scopes, {
+        const client = await Client.setup(app.getExpressApp(), baseAppUrl, this.handleAuth, this.saveSecret, appAbbrv, this.appName, this.scopes, {
             contacts: this.contacts,
             logo_url: this.logo_url,
             tos_url: this.tos_url,
@@ -178,12 +253,15 @@ export class OAuthApp extends App {
             // This is done here because we need the client to be serving/listening for requests for the auth library stuff to work 
             // (mostly because the server needs to be able to get the client's keys which it needs to be able to serve)
             await this.setupOAuthClient(app);
+            this.clientState = { status: HealthCheckStatus.OK };
 
             if(typeof callback !== 'undefined') {
                 await callback.bind(this)(app);
             }
         }
         catch(err) {
+            this.clientState = { status: HealthCheckStatus.ERROR, output: `Setting up the OAuth client failed: ${err instanceof Error ? err.message : String(err)}` };
+
             console.error('Error setting up the BA User Auth');
             console.error('---------------------------------');
             console.error(err);
@@ -199,8 +277,21 @@ export class OAuthApp extends App {
      * This lets the app just worry about the `onAuth` callback (what happens when a user logs in) and `saveSecret` callback (that saves the generated client secret, if applicable) 
      * And doesn't have to worry about the OAuth details to make this work.
      * Though it does provide tweaking the OAuth details via options provided to the constructor.
+     * 
+     * If the `api` option is set, the app also accepts access tokens (`Authorization: Bearer`) from the issuer.
      */
     async run<T extends Initializer>(initializer?: T, callback?: (app: App) => void | Promise<void>) {
-        await super.run(initializer, async (app: App) => this.onStart(app, callback));
+        const appInitializer = typeof initializer !== 'undefined' ? initializer : new Initializer();
+
+        // As a resource server the app accepts access tokens (this has to be setup before the initializer sets up the middleware)
+        const bearerTokenOptions = this.getBearerTokenOptions();
+        if(typeof bearerTokenOptions !== 'undefined') {
+            appInitializer.useBearerTokens(bearerTokenOptions);
+        }
+
+        // The app isn't ready (ex. logins won't work) until the OAuth client is setup/registered
+        appInitializer.getHealthCheck()?.registerCheck('oauth:registration', () => ({ ...this.clientState }), { componentType: 'component' });
+
+        await super.run(appInitializer, async (app: App) => this.onStart(app, callback));
     }
 }
\ No newline at end of file
@@ -2,7 +2,23 @@ import { existsSync, statSync } from 'fs';
 import path from 'path';
 import { Application } from 'express';
 
-import { BaseTemplateInputs, BaseTemplateCreator } from './BaseTemplateCreator';
+import { BaseTemplateInputs, BaseTemplateCreator, TEMPLATE_SOURCES_SETTING } from './BaseTemplateCreator';
+import { DEFAULT_LAYOUT, DEFAULT_LAYOUT_SETTING } from './decorators/Page';
+import { TemplateDialect } from './dialects/TemplateDialect';
+import { getTemplateDialect } from './dialects/getTemplateDialect';
+
+/** The options for the layouts (the templates pages are rendered within, see `@Page` and `@Layout`) */
+export type LayoutOptions = {
+    /** The layout pages are rendered within unless their controller or page specifies otherwise (default is `base`) */
+    default?: string,
+    /** Additional layouts to generate if they don't exist (the name of the layout and the inputs for it's template). Ex. `{ dashboard: { ... }, print: {} }` */
+    layouts?: { [name: string]: BaseTemplateInputs },
+    /** 
+     * If generated layouts are kept up to date (default is true). 
+     * That is, regenerated when their inputs (or the framework) change unless they've been edited, in which case a warning with the differences is logged instead (see `BaseTemplateCreator.sync`)
+     */
+    managed?: boolean
+};
 
 export class Renderer {
     /** The default folder name for the views */
@@ -14,17 +30,32 @@ export class Renderer {
     /** The path to the folder/directory that contains the view files (Ex. EJS files) */
     private viewsDir: string;
 
+    /** The layout pages are rendered within by default */
+    private defaultLayout: string;
+
+    /** The dialect of the view engine (undefined if templates can't be generated for the engine) */
+    private dialect?: TemplateDialect;
+
+    /** If generated layouts are kept up to date with their inputs */
+    private managed: boolean;
+
+    /** The inputs of each generated layout */
+    private layoutInputs: (BaseTemplateInputs | undefined)[];
+
     /**
      * Creates a new instance of the Renderer class
      * 
-     * Note, that if the base template doesn't exist and the engine is `ejs`, then a base template will be created automatically.
+     * Note, that if the base template (default layout) doesn't exist and the engine is one that templates can be generated for (`ejs`, `pug`, `hbs`/`handlebars` or `njk`/`nunjucks`), then a base template will be created automatically.
+     * The same goes for any additional layouts given in the layout options.
+     * Generated layouts are also kept up to date (regenerated when their inputs change) unless they've been edited or the `managed` layout option is false.
      * 
      * @param viewsDir The path to the folder/directory that contains the view files
      * @param engine The view engine to use (Ex. EJS, Pug, etc...)
      * @param baseTemplateInputs The inputs to use for the base template (if the template is generated)
+     * @param layoutOptions The default layout and any additional layouts to generate
      * @throws Error if the pages path is not a valid directory
      */
-    constructor(viewsDir: string = path.join(process.cwd(), this.DEFAULT_VIEWS_FOLDER), engine: string = 'ejs', baseTemplateInputs?: BaseTemplateInputs) {
+    constructor(viewsDir: string = path.join(process.cwd(), this.DEFAULT_VIEWS_FOLDER), engine: string = 'ejs', baseTemplateInputs?: BaseTemplateInputs, layoutOptions?: LayoutOptions) {
         // Verify the views directory exists and is a directory
         if(!existsSync(viewsDir) || !statSync(viewsDir).isDirectory()) {
             throw new Error('The views directory must be a valid directory');
@@ -32,11 +63,59 @@ export class Renderer {
 
         this.viewsDir = path.resolve(viewsDir);
         this.engine = engine;
+        this.defaultLayout = typeof layoutOptions !== 'undefined' && typeof layoutOptions.default !== 'undefined' ? layoutOptions.default : DEFAULT_LAYOUT;
+        this.managed = typeof layoutOptions !== 'undefined' && typeof layoutOptions.managed !== 'undefined' ? layoutOptions.managed : true;
+
+        this.dialect = getTemplateDialect(this.engine);
+        this.layoutInputs = [];
+
+        // We can only automatically generate a base template if there is a dialect for the engine (see `TemplateDialect`)
+        // We also don't want to generate a base template if one already exists (other than to update one we generated, see `generateLayout`)
+        if(typeof this.dialect !== 'undefined') {
+            this.generateLayout(this.defaultLayout, baseTemplateInputs);
+
+            if(typeof layoutOptions !== 'undefined' && typeof layoutOptions.layouts !== 'undefined') {
+                Object.entries(layoutOptions.layouts).forEach(([name, inputs]) => this.generateLayout(name, inputs));
+            }
+        }
+    }
+
+    /**
+     * Generate a layout template (unless it already exists)
+     * 
+     * If generated layouts are managed, an existing layout that was generated is regenerated if it's out of date (and hasn't been edited).
+     * 
+     * @param name The name of the layout (ex. `base` for `base.ejs` if the engine is `ejs`)
+     * @param inputs The inputs to use for the template
+     */
+    private generateLayout(name: string, inputs?: BaseTemplateInputs) {
+        const filePath = path.resolve(this.viewsDir, `${name}.${this.engine}`);
+
+        this.layoutInputs.push(inputs);
+
+        if(!this.managed) {
+            if(!existsSync(filePath)) {
+                BaseTemplateCreator.create(this.viewsDir, inputs, name, this.engine);
+            }
 
-        // We can only automatically generate a base template if the engine is `ejs` 
-        // We also don't want to generate a base template if one already exists
-        if(this.engine === 'ejs' && !existsSync(path.resolve(this.viewsDir, 'base.ejs'))) {
-            BaseTemplateCreator.create(this.viewsDir, baseTemplateInputs);
+            return;
+        }
+
+        const result = BaseTemplateCreator.sync(this.viewsDir, inputs, name, this.engine);
+        switch(result.status) {
+            case 'regenerated':
+                console.log(`Regenerated ${filePath} because the template inputs (or framework) changed`);
+                break;
+            case 'adopted':
+                console.log(`${filePath} is now managed (it will be regenerated when the template inputs change, unless it's edited)`);
+                break;
+            case 'customized':
+                console.warn(`${filePath} was generated but has been edited, so it wasn't regenerated. The differences from what would be generated now are:\n${result.diff}`);
+                break;
+            case 'unmanaged':
+                // Ex. a template generated before generated templates had a marker, which would otherwise silently never get updates
+                console.warn(`${filePath} wasn't generated by this version of the framework (it has no marker), so it isn't kept up to date. If it was generated by an older version, delete it to have it regenerated (or turn off \`managedTemplates\` if it's written by hand). The differences from what would be generated now are:\n${result.diff}`);
+                break;
         }
     }
     
@@ -49,5 +128,16 @@ export class Renderer {
         // Set the view engine to the appropriate value (ex. `ejs`) and to serve views from the view files directory
         app.set('view engine', this.engine);
         app.set('views', this.viewsDir);
+
+        // Set the layout pages are rendered within by default (see `@Page`)
+        app.set(DEFAULT_LAYOUT_SETTING, this.defaultLayout);
+
+        // Set the external sources the generated layouts reference (ex. Stripe) so the `securityHeaders` middleware can allow them
+        app.set(TEMPLATE_SOURCES_SETTING, this.layoutInputs.map(inputs => BaseTemplateCreator.getExternalSources(inputs)));
+
+        // Setup anything the generated templates need when rendered (ex. helper functions)
+        if(typeof this.dialect !== 'undefined') {
+            this.dialect.setup(app, this.viewsDir);
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+
+/** The request currently being handled by a controller's route */
+export type RequestContextValues = {
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    /** The layout of the controller handling the request (if it, or one of it's parents, set one with the `@Layout` decorator) */
+    layout?: string
+};
+
+/**
+ * Keeps track of the request being handled by a controller's route (across async calls).
+ *
+ * This allows parts of the framework (ex. the `@Page` decorator) to get at the request/response without them being passed explicitly.
+ * Which is necessary because the arguments a route's method is called with are determined by it's parameter decorators (ex. `@Param('id')`).
+ */
+export class RequestContext {
+    private static storage = new AsyncLocalStorage<RequestContextValues>();
+
+    /**
+     * Run a function within the context of a request
+     *
+     * @param values The request, response and next function of the request
+     * @param fn The function to run
+     * @returns The return value of the function
+     */
+    static run<T>(values: RequestContextValues, fn: () => T): T {
+        return RequestContext.storage.run(values, fn);
+    }
+
+    /**
+     * Get the request currently being handled (if any)
+     *
+     * @returns The request, response and next function of the current request or undefined if not called within a request's context
+     */
+    static current(): RequestContextValues | undefined {
+        return RequestContext.storage.getStore();
+    }
+}
\ No newline at end of file
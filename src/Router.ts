@@ -1,17 +1,78 @@
 import path from 'path';
+import { pathToFileURL } from 'url';
 import { Application } from 'express';
 import fse from 'fs-extra';
 
 import { BaseController } from './controllers/BaseController';
 import { ErrorController } from './controllers/ErrorController';
+import { Container } from './di/Container';
+import { CONTROLLER_BASE_PATH_METADATA_KEY } from './decorators/Controller';
+import { CHILD_CONTROLLER_METADATA_KEY } from './decorators/ChildController';
+import { ROUTE_METHODS, getRoutesInClass } from './decorators/RouteMethods';
+
+import { joinPaths } from './utils/paths';
+import { matchesGlob } from './utils/glob';
+
+/** A controller or error controller class */
+type ControllerClass = new (...args: any[]) => any;
+
+/** The options for finding the controllers in the controllers folder */
+export type ControllerDiscoveryOptions = {
+    /** Glob patterns (relative to the controllers folder) of the files to load. Default is every file (`**\/*`) */
+    include?: string[],
+    /** Glob patterns (relative to the controllers folder) of the files not to load (ex. `['**\/*.test.*']`). Default is TypeScript declaration files (`**\/*.d.ts`) */
+    exclude?: string[],
+    /** 
+     * The extensions of the files to load. 
+     * Default is `.js`, `.cjs` and `.mjs` as well as `.ts`, `.cts` and `.mts` if TypeScript files can be loaded (ex. when running with ts-node or tsx)
+     */
+    extensions?: string[]
+};
+
+/** The options for the Router */
+export type RouterOptions = {
+    /** The controller classes to use instead of finding them in the controllers folder (error controllers in this list are also recognized) */
+    controllers?: ControllerClass[],
+    /** The error controller classes to use instead of finding them in the controllers folder */
+    errorControllers?: ControllerClass[],
+    /** The options for finding the controllers in the controllers folder (if the controllers aren't given) */
+    discovery?: ControllerDiscoveryOptions
+};
+
+/** The extensions of the JavaScript files controllers are loaded from */
+const JAVASCRIPT_EXTENSIONS = ['.js', '.cjs', '.mjs'];
+
+/** The extensions of the TypeScript files controllers are loaded from (if TypeScript can be loaded) */
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.cts', '.mts'];
+
+/** The extensions of files that are always loaded as ES modules */
+const ES_MODULE_EXTENSIONS = ['.mjs', '.mts'];
+
+/**
+ * Import a module as an ES module
+ * 
+ * Note, because the framework is compiled to CommonJS, TypeScript would turn an `import()` into a `require()` (which can't load ES modules).
+ * Creating the function at runtime keeps it as a real `import()`.
+ */
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<any>;
+
+/**
+ * Check if TypeScript files can be loaded (ex. the app runs with ts-node or tsx, or a version of Node that strips types)
+ * 
+ * @returns If TypeScript files can be loaded
+ */
+function canLoadTypeScript() {
+    return typeof require.extensions['.ts'] !== 'undefined' || typeof (process.features as { typescript?: string | false }).typescript === 'string';
+}
 
 /**
  * The Router sets up the routes/endpoints for the App.
  * 
  * More specifically, it does automatic detection of controllers (and their routes) within the specified folder.
+ * Alternatively, the controllers can be given explicitly (see `RouterOptions`), in which case the folder isn't searched.
  * 
  * A controller is a class that extends the `BaseController` class and uses the `@Controller` decorator.
- * Routes within a controller are defined by methods that use the `@GET` or `@POST` decorators.
+ * Routes within a controller are defined by methods that use the route decorators (`@GET`, `@POST`, `@PUT`, `@DELETE`, `@PATCH`, `@HEAD`, `@OPTIONS` or `@ALL`).
  */
 export class Router {
     /** The default folder name for controllers */
@@ -20,20 +81,39 @@ export class Router {
     /** The path to the controllers folder */
     private controllersPath: string;
 
+    /** The controller classes to use instead of loading them from the controllers folder (if given) */
+    private controllers?: ControllerClass[];
+
+    /** The error controller classes to use instead of loading them from the controllers folder (if given) */
+    private errorControllers?: ControllerClass[];
+
+    /** The options for finding the controllers in the controllers folder */
+    private discovery: ControllerDiscoveryOptions;
+
     private outsideFrameworkRoutes: string[]; 
 
+    /** The dependency injection container used to construct the controllers and error controllers */
+    private container: Container;
+
     /**
      * Create a new Router
      * 
      * @param controllersPath The path to the controllers folder (default is 'routes' in the current working directory)
-     * @throws Error if the controllers path is not a valid directory
+     * @param container The dependency injection container used to construct the controllers and error controllers
+     * @param options The controllers to use (if given, the controllers folder isn't searched) or how to find them in the controllers folder
+     * @throws Error if the controllers path is not a valid directory (and no controllers were given)
      */
-    constructor(controllersPath: string = path.join(process.cwd(), this.DEFAULT_CONTROLLERS_FOLDER)) {
-        if(!fse.existsSync(controllersPath) || !fse.statSync(controllersPath).isDirectory()) {
+    constructor(controllersPath: string = path.join(process.cwd(), this.DEFAULT_CONTROLLERS_FOLDER), container: Container = new Container(), options: RouterOptions = {}) {
+        this.controllers = options.controllers;
+        this.errorControllers = options.errorControllers;
+        this.discovery = options.discovery ?? {};
+
+        if(!this.hasExplicitControllers() && (!fse.existsSync(controllersPath) || !fse.statSync(controllersPath).isDirectory())) {
             throw new Error('The controllers path must be a valid directory');
         }
         
         this.controllersPath = path.resolve(controllersPath);
+        this.container = container;
 
         this.outsideFrameworkRoutes = [];
     }
@@ -45,110 +125,105 @@ export class Router {
     }
 
     /**
-     * Check if a file is a controller
-     *
-     * Note, if the specified "file" is a directory, this method will recurse into the directory and return all controllers found in the directory.
-     *
-     * It's worth noting that typing in this method is deliberate but confusing.
-     * This is because decorators introduce a lot of complexity because they introduce this anonymous wrapper function/class around the original function/class.
-     * However, because of how we typed the decorator, we can use `instanceof` and hiarchtical typing.
-     * Though we do typing of variables that would otherwise be any and DON'T explicitly cast.
-     *
-     * @param file The file to check if it is a controller
-     * @param folder The folder that the file is in
-     * @returns An object with 2 properties: a `controllers` property which holds the controller class (or list of controller classes) in the "file" or null if the file is not a controller and `errorControllers` property which holds the error controller class (or list of error controller classes) in the "file" or null if the file is not an error controller.
+     * Check if the controllers were given explicitly (instead of being found in the controllers folder)
+     * 
+     * @returns If controllers or error controllers were given
      */
-    private async checkIfControllerFile(file: string, folder: string): Promise<{ controllers: BaseController | BaseController[] | null, errorControllers: (new (...args: any[]) => ErrorController) | (new (...args: any[]) => ErrorController)[] | null }> {
-        // Get the path to the specific file
-        const controllerPath = path.join(folder, file);
-
-        // Check if the path is a directory/folder and recurse if it is
-        const stats = await fse.stat(controllerPath);
-        if(stats.isDirectory()) {
-            // Recurse into the directory
-            const controllersFoundInDir = await Promise.all((await fse.readdir(controllerPath)).map(file => this.checkIfControllerFile(file, controllerPath)));
-            const controllersInDir = controllersFoundInDir.filter(controller => controller !== null);
-            if(controllersInDir.length === 0) {
-                return { controllers: null, errorControllers: null };
+    private hasExplicitControllers() {
+        return typeof this.controllers !== 'undefined' || typeof this.errorControllers !== 'undefined';
+    }
+
+    /**
+     * Find the files in the controllers folder (and it's subdirectories) to load controllers from
+     * 
+     * @param folder The folder to search
+     * @returns The paths of the files (relative to the controllers folder, with `/` as the separator) in alphabetical order
+     */
+    private async findControllerFiles(folder: string = this.controllersPath): Promise<string[]> {
+        const extensions = this.discovery.extensions ?? (canLoadTypeScript() ? [...JAVASCRIPT_EXTENSIONS, ...TYPESCRIPT_EXTENSIONS] : JAVASCRIPT_EXTENSIONS);
+        const include = this.discovery.include ?? ['**/*'];
+        const exclude = this.discovery.exclude ?? ['**/*.d.ts'];
+
+        // Sorted so that routes are always registered in the same order (which matters to Express)
+        const entries = (await fse.readdir(folder, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+
+        const files = await Promise.all(entries.map(async (entry) => {
+            const entryPath = path.join(folder, entry.name);
+
+            if(entry.isDirectory()) {
+                return this.findControllerFiles(entryPath);
             }
-            else {
-                return {
-                    controllers: controllersInDir.map(controllerInDir => controllerInDir.controllers).length > 1 ? controllersInDir.map(controllerInDir => controllerInDir.controllers).filter(ctlr => ctlr !== null).flat() : controllersInDir.map(controllerInDir => controllerInDir.controllers)[0],
-                    errorControllers: controllersInDir.map(controllerInDir => controllerInDir.errorControllers).length > 1 ? controllersInDir.map(controllerInDir => controllerInDir.errorControllers).filter(ctlr => ctlr !== null).flat() : controllersInDir.map(controllerInDir => controllerInDir.errorControllers)[0]
-                };
+
+            const relativePath = path.relative(this.controllersPath, entryPath).split(path.sep).join('/');
+            if(!extensions.includes(path.extname(entry.name)) || !matchesGlob(relativePath, include) || matchesGlob(relativePath, exclude)) {
+                return [];
             }
-        }
 
-        // We only want to load JavaScript files (Note, Typescript files get compiled to JavaScript files)
-        if(!controllerPath.endsWith('.js')) {
-            return { controllers: null, errorControllers: null };
-        }
-        
-        // Load the file as a module
-        const controllerModule = require(controllerPath);
+            return [relativePath];
+        }));
 
-        console.log(`${controllerPath} loaded successfully: ${JSON.stringify(Object.keys(controllerModule))} exports found.`)
+        return files.flat();
+    }
 
-        // Get all the classes in the module
-        const classes = Object.keys(controllerModule)
-            .filter(key => typeof controllerModule[key] === 'function' && /^\s*class\s+/.test(controllerModule[key].toString()));
-        
-        // Get all the classes in the module that are controllers
-        // 
-        // Note: We filter by if the class extends the `BaseController` class.
-        //       This is because native JavaScript doesn't have decorators (which are used to mark a class as a controller).
-        //       Consequently, we enforce that all controllers in addition to using the decorator must extend the `BaseController` class so that we can identify them.
-        //       Further, note we can't do this as part of the decorator because of the way decorators get transpiled to JavaScript.
-        const controllers: BaseController[] = classes
-            .filter(exportedClassName => controllerModule[exportedClassName].prototype instanceof BaseController)
-            .map(controllerClassName => {
-                return controllerModule[controllerClassName];
-            });
+    /**
+     * Load a module (as CommonJS or, if it can't be required, as an ES module)
+     * 
+     * @param filePath The path of the module
+     * @returns The module's exports
+     */
+    private async loadModule(filePath: string): Promise<{ [name: string]: unknown }> {
+        if(ES_MODULE_EXTENSIONS.includes(path.extname(filePath))) {
+            return importModule(pathToFileURL(filePath).href);
+        }
 
-        // Get all the classes in the module that are error controllers (these are subtly different from normal controllers)
-        // 
-        // We do this here, instead of braking it out into it's own separate method for efficiency reasons.
-        // 
-        // Note: We filter by if the class extends the `ErrorController` class.
-        //       This is because native JavaScript doesn't have decorators (which are used to mark a class as a error controller).
-        //       Consequently, we enforce that all error controllers in addition to using the decorator must extend the `ErrorController` class so that we can identify them.
-        //       Further, note we can't do this as part of the decorator because of the way decorators get transpiled to JavaScript.
-        const errorControllers: ErrorController[] = classes
-            .filter(exportedClassName => controllerModule[exportedClassName].prototype instanceof ErrorController)
-            .map(controllerClassName => {
-                return controllerModule[controllerClassName];
-            });
-        
-        let foundControllers;
-        switch (controllers.length) {
-            case 0:
-                foundControllers = null;
-            case 1:
-                foundControllers = controllers[0];
-            default:
-                foundControllers = controllers.flat();
+        try {
+            return require(filePath);
         }
+        catch(err) {
+            // ES modules (ex. a `.js` file in a package with `"type": "module"`) can't be required (by older versions of Node at least)
+            if(typeof err === 'object' && err !== null && ['ERR_REQUIRE_ESM', 'ERR_REQUIRE_ASYNC_MODULE'].includes((err as { code?: string }).code ?? '')) {
+                return importModule(pathToFileURL(filePath).href);
+            }
 
-        let foundErrorControllers;
-        switch (errorControllers.length) {
-            case 0:
-                foundErrorControllers = null;
-            case 1:
-                foundErrorControllers = errorControllers[0];
-            default:
-                foundErrorControllers = errorControllers.flat();
+            throw err;
         }
+    }
+
+    /**
+     * Load the controllers in a file
+     * 
+     * Note, controllers are identified by extending the `BaseController` class and error controllers by extending the `ErrorController` class.
+     * This is because decorators don't exist at runtime (so using the `@Controller` decorator can't be checked for).
+     * Checking the class hierarchy (rather than, for instance, the source of the exports) also works with bundled or minified code.
+     * 
+     * @param relativePath The path of the file (relative to the controllers folder)
+     * @returns The controller classes and error controller classes in the file
+     */
+    private async loadControllerFile(relativePath: string): Promise<{ controllers: ControllerClass[], errorControllers: ControllerClass[] }> {
+        const controllerPath = path.join(this.controllersPath, relativePath);
+
+        // Load the file as a module
+        const controllerModule = await this.loadModule(controllerPath);
+
+        console.log(`${controllerPath} loaded successfully: ${JSON.stringify(Object.keys(controllerModule))} exports found.`)
 
-        return { controllers: foundControllers, errorControllers: foundErrorControllers };
+        // Get all the classes in the module (once each, ex. a class that is both a named and the default export)
+        const classes = [...new Set(Object.values(controllerModule))]
+            .filter((exported): exported is ControllerClass => typeof exported === 'function' && typeof exported.prototype === 'object' && exported.prototype !== null);
+
+        return {
+            controllers: classes.filter(cls => cls.prototype instanceof BaseController),
+            errorControllers: classes.filter(cls => cls.prototype instanceof ErrorController)
+        };
     }
 
     /**
      * Get the routes in a controller
      * 
-     * A route is defined by a method in the controller that has the `@GET` or `@POST` decorator.
+     * A route is defined by a method in the controller that has a route decorator (ex. `@GET` or `@POST`).
      * 
      * @param controller The controller to get the routes from
-     * @returns The routes in the controller
+     * @returns The paths of the routes in the controller grouped by HTTP method (ex. `{ GET: ['/'], POST: ['/form'], ... }`)
      */
     private getRoutesInController(controller: any) {
         if (typeof controller === 'undefined') {
@@ -156,85 +231,62 @@ export class Router {
             throw new Error('The controller must be a class');
         }
         
-        // Loop over all the methods in the provided class looking for methods that use the GET decorator
-        const pathsGET = Object.getOwnPropertyNames(controller.prototype)
-            // Find all methods that have a Get metadata key (GET decorator)
-            .filter((method) => Reflect.getMetadata('Get', controller.prototype, method))
-            .map((method) => {
-                // Get the method
-                const fn = controller.prototype[method];
-
-                // Get the path
-                const path = Reflect.getMetadata('Get', controller.prototype, method) as string;
-
-                return path;
-            });
-                
-        // Loop over all the methods in the provided class looking for methods that use the POST decorator
-        const pathsPOST = Object.getOwnPropertyNames(controller.prototype)
-            // Find all methods that have a Post metadata key (POST decorator)
-            .filter((method) => Reflect.getMetadata('Post', controller.prototype, method))
-            .map((method) => {
-                // Get the method
-                const fn = controller.prototype[method];
-
-                // Get the metadata object (which contains a path and middleware)
-                const postRoute = Reflect.getMetadata('Post', controller.prototype, method);
-                const path = postRoute.path;
-                    
-                return path;
-            });
-        
-        // Loop over all the methods in the provided class looking for methods that use the `@PUT` decorator
-        const pathsPUT = Object.getOwnPropertyNames(controller.prototype)
-            // Find all methods that have a `Put` metadata key (`@PUT` decorator)
-            .filter((method) => Reflect.getMetadata('Put', controller.prototype, method))
-            .map((method) => {
-                // Get the method
-                const fn = controller.prototype[method];
-            
-                // Get the metadata object (which contains a path and middleware)
-                const putRoute = Reflect.getMetadata('Put', controller.prototype, method);
-                const path = putRoute.path;
-                
-                return path;
-            });
+        const routes: { [method: string]: string[] } = {};
         
-        // Loop over all the methods in the provided class looking for methods that use the `@DELETE` decorator
-        const pathsDELETE = Object.getOwnPropertyNames(controller.prototype)
-            // Find all methods that have a `Delete` metadata key (`@DELETE` decorator)
-            .filter((method) => Reflect.getMetadata('Delete', controller.prototype, method))
-            .map((method) => {
-                // Get the method
-                const fn = controller.prototype[method];
-                // Get the metadata object (which contains a path and middleware)
-                const deleteRoute = Reflect.getMetadata('Delete', controller.prototype, method);
-                const path = deleteRoute.path;
-                return path;
-            });
+        // Every HTTP method in the registry is included (even if empty) so that the output is consistent
+        ROUTE_METHODS.forEach((routeMethod) => {
+            routes[routeMethod.name] = [];
+        });
+
+        getRoutesInClass(controller).forEach((route) => {
+            routes[route.method.name].push(route.path);
+        });
+
+        return routes;
+    }
+
+    /**
+     * Get the child controllers (if any) of a controller (as designated by the `@ChildController` decorator)
+     * 
+     * @param controller The (decorated) controller to get the child controllers of
+     * @returns The list of child controllers (empty if the controller has no child controllers)
+     */
+    private getChildControllers(controller: any): any[] {
+        const childControllers = Reflect.getMetadata(CHILD_CONTROLLER_METADATA_KEY, controller);
         
-        return {
-            GET: pathsGET,
-            POST: pathsPOST,
-            PUT: pathsPUT,
-            DELETE: pathsDELETE
+        if(typeof childControllers === 'undefined') {
+            return [];
         }
+
+        return Array.isArray(childControllers) ? childControllers : [childControllers];
     }
 
-    async processControllerRoutes(app: Application, decoratedController: any | any[], callSetup: boolean = true) {
+    /**
+     * Get the descriptions of the routes in a controller (and it's child controllers) and optionally set them up on the app
+     * 
+     * @param app The Express app to add the routes to
+     * @param decoratedController The controller (or list of controllers) to process
+     * @param callSetup If to call the setup method of the controller (child controllers are setup by their parent controller's setup method)
+     * @param parentPath The path prefix of the parent controller (if the controller is a child controller)
+     * @returns The descriptions of the routes in the controller(s) (ex. `GET /admin/users from UsersController`)
+     */
+    async processControllerRoutes(app: Application, decoratedController: any | any[], callSetup: boolean = true, parentPath: string = '') {
         let addedRoutes: string[] = [];
 
         // If the input is an array, recurse over the array
         if (Array.isArray(decoratedController)) {
             //console.log('Is an array - recursing...')
-            addedRoutes = addedRoutes.concat((await Promise.all(decoratedController.map(async (decoratedControllerCls) => await this.processControllerRoutes(app, decoratedControllerCls, callSetup)))).flat());
+            addedRoutes = addedRoutes.concat((await Promise.all(decoratedController.map(async (decoratedControllerCls) => await this.processControllerRoutes(app, decoratedControllerCls, callSetup, parentPath)))).flat());
         }
         else {
             const controller = Reflect.getMetadata('originalClass', decoratedController);
+
+            // The full path prefix of the controller's routes (the parent's prefix plus the controller's own base path)
+            const controllerPath = joinPaths(parentPath, Reflect.getMetadata(CONTROLLER_BASE_PATH_METADATA_KEY, decoratedController));
             
             //console.log(`Processing ${(typeof controller).toString()} - ${typeof controller !== 'undefined' && controller !== null && typeof controller.name !== 'undefined' ? controller.name : 'unknown'} (${(typeof decoratedController).toString()} - ${typeof decoratedController !== 'undefined' && decoratedController !== null && typeof decoratedController.name !== 'undefined' ? decoratedController.name : 'unknown'})...`);
             
-            let routes: { GET: string[], POST: string[], PUT: string[], DELETE: string[] } = { GET: [], POST: [], PUT: [], DELETE: [] };
+            let routes: { [method: string]: string[] } = {};
             try {
                 routes = this.getRoutesInController(controller);
             }
@@ -242,77 +294,97 @@ export class Router {
                 console.error(`Something went wrong while processing ${JSON.stringify(controller)} (${JSON.stringify(decoratedController)})`);
             }
             
-            routes.GET.forEach((path) => {
-                addedRoutes.push(`GET ${path} from ${(new controller()).constructor.name}`);
-            });
-            
-            routes.POST.forEach((path) => {
-                addedRoutes.push(`POST ${path} from ${(new controller()).constructor.name}`);
-            });
-            
-            routes.PUT.forEach((path) => {
-                addedRoutes.push(`PUT ${path} from ${(new controller()).constructor.name}`);
-            });
-            
-            routes.DELETE.forEach((path) => {
-                addedRoutes.push(`DELETE ${path} from ${(new controller()).constructor.name}`);
+            Object.entries(routes).forEach(([method, paths]) => {
+                paths.forEach((path) => {
+                    addedRoutes.push(`${method} ${joinPaths(controllerPath, path)} from ${controller.name}`);
+                });
             });
+
+            // Add the routes of any child controllers (mounted under this controller's path) WITHOUT calling their setup method (as this is called in this controller's setup method)
+            const childControllers = this.getChildControllers(decoratedController);
+            if(childControllers.length > 0) {
+                addedRoutes = addedRoutes.concat(await this.processControllerRoutes(app, childControllers, false, controllerPath));
+            }
             
             // Because we reuse this method for adding information about the child routes but we don't want to call the setup method (because it's called on the parent controller)
             // We have a switch to determine if we should call the setup method or not.
             if (callSetup) {
-                decoratedController.setup(app);
+                decoratedController.setup(app, undefined, this.container);
             }
         }
 
         return addedRoutes;
     }
 
+    /**
+     * Get the controllers and error controllers for the application
+     * 
+     * These are the classes given to the Router (if any). Otherwise, the files in the controllers folder (this includes subdirectories) are loaded and any controllers in them found.
+     * 
+     * @returns The controller classes and error controller classes
+     * @throws Error if a class given as a controller (or error controller) isn't one
+     */
+    private async loadControllers(): Promise<{ controllers: ControllerClass[], errorControllers: ControllerClass[] }> {
+        if(this.hasExplicitControllers()) {
+            const givenControllers = this.controllers ?? [];
+            const givenErrorControllers = this.errorControllers ?? [];
+
+            givenControllers.forEach((controller) => {
+                if(!(controller.prototype instanceof BaseController) && !(controller.prototype instanceof ErrorController)) {
+                    throw new Error(`${controller.name} is not a controller (controllers must extend BaseController and use the @Controller decorator)`);
+                }
+            });
+            givenErrorControllers.forEach((errorController) => {
+                if(!(errorController.prototype instanceof ErrorController)) {
+                    throw new Error(`${errorController.name} is not an error controller (error controllers must extend ErrorController)`);
+                }
+            });
+
+            return {
+                controllers: givenControllers.filter(controller => controller.prototype instanceof BaseController),
+                errorControllers: [...givenErrorControllers, ...givenControllers.filter(controller => controller.prototype instanceof ErrorController)]
+            };
+        }
+
+        // Get the list of files in the controllers folder
+        const files = await this.findControllerFiles();
+
+        // Get the controller classes from the files
+        const loadedControllerObjects = await Promise.all(files.map(file => this.loadControllerFile(file)));
+        
+        return {
+            controllers: loadedControllerObjects.map(loadedControllerObject => loadedControllerObject.controllers).flat(),
+            errorControllers: loadedControllerObjects.map(loadedControllerObject => loadedControllerObject.errorControllers).flat()
+        };
+    }
+
     /**
      * Setup the controllers for the application
      * 
-     * This loops over all the "files" in the directory (this includes subdirectories) and finds any controllers.
-     * A controller being a class that extends the BaseController class and uses the `@Controller` decorator.
+     * This gets the controllers (see `loadControllers`). A controller being a class that extends the BaseController class and uses the `@Controller` decorator.
      * Once it knows the controllers it adds the routes they contain to the Express app.
      * Routes are defined by methods in the controller that have the `@GET` or `@POST` decorators.
      * 
      * @param app The Express app to add the routes to
      */
     private async setupControllers(app: Application) {
-        // Get the list of files in the controllers folder
-        const files = await fse.readdir(this.controllersPath);
-
-        // Get the controller classes from the files
-        const loadedControllerObjects = (await Promise.all(files.map(async (file) => (await this.checkIfControllerFile(file, this.controllersPath /*, app*/)))));
-        
-        const loadedControllers: BaseController[] = loadedControllerObjects
-            .map(loadedControllerObjects => loadedControllerObjects.controllers)
-            .filter(controller => controller !== null)
-            .flat();
+        const { controllers: loadedControllers, errorControllers } = await this.loadControllers();
 
         let addedRoutes: string[] = [];
 
-        // Get all controllers that have the child controller decorator
-        const controllersWithChildControllers = loadedControllers.filter(controller => Reflect.getMetadata('ChildController', controller) !== undefined);
-        
-        // Get all those controllers that are designated as children controllers by parent controllers
-        const childrenControllers = controllersWithChildControllers.map(controller => Reflect.getMetadata('ChildController', controller));
-        
-        // Get the exclusive set of controllers that don't fit in the group of controllers with child controllers OR a child controller themselves
-        const controllersWithoutChildren = loadedControllers.filter(controller => !controllersWithChildControllers.includes(controller) && !childrenControllers.includes(controller));
+        // Get all those controllers that are designated as children controllers by another (parent) controller
+        // 
+        // Note, because child controllers can be nested arbitrarily deep, this includes the children of child controllers etc...
+        const childrenControllers = loadedControllers.map(controller => this.getChildControllers(controller)).flat();
         
-        // Take the list of controllers with child controllers and the list without children (that excludes children themselves)
-        // And forma a list that has all child controllers remove
-        const topLevelControllers = [...controllersWithChildControllers, ...controllersWithoutChildren];
+        // Get the set of controllers that aren't a child controller themselves (the top level controllers)
+        // The routes of child controllers are processed (and setup) through their parent controller
+        const topLevelControllers = loadedControllers.filter(controller => !childrenControllers.includes(controller));
         
         //console.log(`Child controllers: ${childrenControllers.map(controller => (typeof controller).toString() + ' - ' + (typeof controller !== 'undefined' && controller !== null ? controller.name : 'unknown')).join(', ')}`);
-        
-        // Add the routes for the child controllers to the list of added routes WITHOUT calling the setup method (as this is called in the parent controller's setup method)
-        addedRoutes = addedRoutes.concat((await Promise.all(childrenControllers.map(async (decoratedController) => await this.processControllerRoutes(app, decoratedController, false)))).flat());
-        
         //console.log(`Top level controllers: ${topLevelControllers.map(controller => (typeof controller).toString() + ' - ' + (typeof controller !== 'undefined' && controller !== null ? controller.name : 'unknown')).join(', ')}`);
         
-        // Add the routes for the top level controllers to the list of added routes and call the setup method
+        // Add the routes for the top level controllers (and their child controllers) to the list of added routes and call the setup method
         addedRoutes = addedRoutes.concat((await Promise.all(topLevelControllers.map(async (decoratedController) => await this.processControllerRoutes(app, decoratedController)))).flat());
         
         console.log('Routes added:');
@@ -331,11 +403,7 @@ export class Router {
             next('Page Not Found');
         });
 
-        const loadedErrorControllers = loadedControllerObjects
-            .map(loadedControllerObject => loadedControllerObject.errorControllers)
-            .filter(controller => controller !== null)
-            .flat()
-            .map(ErrorControllerClassConstructor => new ErrorControllerClassConstructor());
+        const loadedErrorControllers = errorControllers.map(ErrorControllerClassConstructor => this.container.resolve(ErrorControllerClassConstructor));
         
         let handledErrors: string[] = [];
         loadedErrorControllers.forEach(errorController => {
@@ -1,11 +1,82 @@
-import { existsSync, statSync } from 'fs';
+import { existsSync, statSync, readdirSync, readFileSync } from 'fs';
 import path from 'path';
-import express, { Application } from 'express';
+import { createHash } from 'crypto';
+import express, { Application, Request, Response, NextFunction } from 'express';
+
+import { CompressionMiddleware, CompressionOptions } from './middlewares/CompressionMiddleware';
+
+/** The name of the helper function (render parameter) templates use to get the fingerprinted URL and integrity of a static file */
+export const STATIC_ASSET_HELPER = 'staticAsset';
+
+/** A static file in the asset manifest */
+export type StaticAsset = {
+    /** The fingerprinted URL of the file (ex. `/css/style.3f2a1b9c0d.css`) */
+    url: string,
+    /** The Subresource Integrity value of the file (ex. `sha384-...`) */
+    integrity: string
+};
+
+/** An additional directory of static files and the URL prefix it's served at */
+export type StaticRoot = {
+    /** The path to the directory */
+    path: string,
+    /** The URL prefix the files are served at (ex. `/vendor`) */
+    prefix: string
+};
+
+/** The `Cache-Control` header for static files with URLs matching a pattern */
+export type CachePolicy = {
+    /** The pattern of the URLs (a regular expression or a URL prefix. Ex. `/img/`) */
+    pattern: RegExp | string,
+    /** The `Cache-Control` header (ex. `public, max-age=86400`) */
+    cacheControl: string
+};
+
+/** The options for serving static files */
+export type StaticFileOptions = {
+    /** Additional directories of static files and the URL prefixes they're served at */
+    roots?: StaticRoot[],
+    /** The `Cache-Control` header by URL pattern (the first matching policy is used). Fingerprinted URLs are always cached as immutable */
+    cachePolicies?: CachePolicy[],
+    /** If Brotli (`.br`) or gzip (`.gz`) compressed siblings of files are served to clients that accept them (default is true) */
+    precompressed?: boolean,
+    /** If (and how) dynamic responses (ex. rendered pages) are compressed on the fly (default is false) */
+    compression?: boolean | CompressionOptions,
+    /** If ETags are generated (default is true) */
+    etag?: boolean,
+    /** If the `Last-Modified` header is set (default is true) */
+    lastModified?: boolean,
+    /** How "dotfiles" (files or directories starting with a `.`) are treated (default is `ignore`) */
+    dotfiles?: 'allow' | 'deny' | 'ignore',
+    /** The index file(s) of directories or false to not serve index files (default is `index.html`) */
+    index?: string | string[] | false
+};
+
+/** A file in the asset manifest */
+type ManifestEntry = StaticAsset & {
+    /** The encodings the file has a precompressed sibling for (in order of preference) */
+    encodings: ('br' | 'gzip')[]
+};
+
+/** The extension of precompressed siblings by encoding */
+const PRECOMPRESSED_EXTENSIONS = { br: '.br', gzip: '.gz' };
+
+/** The `Cache-Control` header for fingerprinted URLs (the content at a fingerprinted URL never changes so it can be cached "forever") */
+const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/** The number of characters of the content hash used in fingerprinted URLs */
+const FINGERPRINT_LENGTH = 10;
 
 /**
  * A class that wraps around Express's static file serving functionality.
  * 
- * This is mostly future proofing if additional logic/functionality around serving static files becomes necessary.
+ * On top of serving the files as is, it builds a manifest of the static files (at startup) so that they can be referenced by fingerprinted URLs.
+ * A fingerprinted URL has a hash of the file's content in it (ex. `/css/style.3f2a1b9c0d.css`), so it's served with long lived (immutable) cache headers
+ * and a new deploy (with changed content) means a new URL rather than browsers holding onto a stale file.
+ * 
+ * Templates get at the manifest through the `staticAsset` helper (ex. `staticAsset('/css/style.css')`) which returns the fingerprinted URL and the Subresource Integrity value of the file.
+ * 
+ * The manifest also means we know which files have precompressed (`.br`/`.gz`) siblings and which cache policy applies, so that's decided before the file is served.
  */
 export class StaticFileResolver {
     /** The default folder name for the static files */
@@ -21,27 +92,213 @@ export class StaticFileResolver {
      */
     private staticFilesDir: string;
 
+    /** The options for serving the static files */
+    private options: StaticFileOptions;
+
+    /** The asset manifest (the fingerprinted URL, integrity and precompressed siblings of each file by it's plain URL. Ex. `/css/style.css`) */
+    private manifest: Map<string, ManifestEntry>;
+
+    /** The plain URL of each fingerprinted URL (to serve fingerprinted URLs from the actual file) */
+    private fingerprintedUrls: Map<string, string>;
+
     /**
      * Create a new instance of the StaticFileResolver
      * 
      * @param staticFilesDir The path to the folder/directory that contains the static files. Defaults to the 'static' folder in the current working directory.
-     * @throws Error if the staticFilesDir is not a valid directory
+     * @param options The options for serving the static files (caching, compression, additional roots, etc...)
+     * @throws Error if the staticFilesDir (or the path of any additional root) is not a valid directory
      */
-    constructor(staticFilesDir: string = path.join(process.cwd(), this.DEFAULT_STATIC_FOLDER)) {
-        if(!existsSync(staticFilesDir) || !statSync(staticFilesDir).isDirectory()) {
-            throw new Error('The static files path must be a valid directory');
-        }
+    constructor(staticFilesDir: string = path.join(process.cwd(), this.DEFAULT_STATIC_FOLDER), options: StaticFileOptions = {}) {
+        [staticFilesDir, ...(options.roots ?? []).map(root => root.path)].forEach(dir => {
+            if(!existsSync(dir) || !statSync(dir).isDirectory()) {
+                throw new Error(`The static files path must be a valid directory (${dir})`);
+            }
+        });
         
         this.staticFilesDir = path.resolve(staticFilesDir);
+        this.options = options;
+        this.manifest = new Map();
+        this.fingerprintedUrls = new Map();
+    }
+
+    /**
+     * Get the paths of all the files within a directory (recursively)
+     * 
+     * @param dir The directory
+     * @returns The paths of the files
+     */
+    private listFiles(dir: string): string[] {
+        return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+            const entryPath = path.join(dir, entry.name);
+
+            if(entry.isDirectory()) {
+                return this.listFiles(entryPath);
+            }
+
+            return entry.isFile() ? [entryPath] : [];
+        });
+    }
+
+    /**
+     * Get the directories of static files and the URL prefix each is served at
+     * 
+     * @returns The static directories (the main static directory first)
+     */
+    private getRoots(): StaticRoot[] {
+        return [
+            { path: this.staticFilesDir, prefix: '/' }, 
+            ...(this.options.roots ?? []).map(root => ({ path: path.resolve(root.path), prefix: root.prefix }))
+        ];
+    }
+
+    /**
+     * Build the asset manifest from the files in the static directories
+     * 
+     * Note, the manifest is built once (at startup) so changes to the static files while the app is running require a restart to be picked up.
+     */
+    buildManifest() {
+        this.manifest.clear();
+        this.fingerprintedUrls.clear();
+
+        this.getRoots().forEach(root => {
+            const relativePaths = this.listFiles(root.path).map(filePath => path.relative(root.path, filePath).split(path.sep).join('/'));
+            const relativePathSet = new Set(relativePaths);
+            const urlPrefix = root.prefix.endsWith('/') ? root.prefix : `${root.prefix}/`;
+
+            relativePaths
+                // Dotfiles aren't served unless explicitly allowed and precompressed siblings are part of the file they're a sibling of
+                .filter(relativePath => this.options.dotfiles === 'allow' || !relativePath.split('/').some(segment => segment.startsWith('.')))
+                .filter(relativePath => !Object.values(PRECOMPRESSED_EXTENSIONS).some(extension => relativePath.endsWith(extension) && relativePathSet.has(relativePath.substring(0, relativePath.length - extension.length))))
+                .forEach(relativePath => {
+                    const url = urlPrefix + relativePath;
+
+                    // The first root with a file at a URL is the one that serves it (same as the static middleware)
+                    if(this.manifest.has(url)) {
+                        return;
+                    }
+
+                    const contents = readFileSync(path.join(root.path, relativePath));
+                    const fingerprint = createHash('sha256').update(contents).digest('hex').substring(0, FINGERPRINT_LENGTH);
+
+                    const extension = path.posix.extname(url);
+                    const fingerprintedUrl = `${url.substring(0, url.length - extension.length)}.${fingerprint}${extension}`;
+
+                    this.manifest.set(url, {
+                        url: fingerprintedUrl,
+                        integrity: `sha384-${createHash('sha384').update(contents).digest('base64')}`,
+                        encodings: (['br', 'gzip'] as const).filter(encoding => relativePathSet.has(relativePath + PRECOMPRESSED_EXTENSIONS[encoding]))
+                    });
+                    this.fingerprintedUrls.set(fingerprintedUrl, url);
+                });
+        });
     }
 
     /**
-     * Setup the Express app to serve static files from the static directory
+     * Get the fingerprinted URL and integrity of a static file
+     * 
+     * If the file isn't in the manifest (ex. it doesn't exist) the URL is returned as is (without an integrity value).
+     * 
+     * @param url The plain URL of the file (ex. `/css/style.css`)
+     * @returns The fingerprinted URL and integrity of the file
+     */
+    getAsset(url: string): StaticAsset {
+        const entry = this.manifest.get(url);
+
+        return typeof entry !== 'undefined' ? { url: entry.url, integrity: entry.integrity } : { url: url, integrity: '' };
+    }
+
+    /**
+     * Get the `Cache-Control` header for a static file from the cache policies
+     * 
+     * @param url The plain URL of the file
+     * @returns The `Cache-Control` header of the first matching policy (if any)
+     */
+    private getCacheControl(url: string): string | undefined {
+        const policy = (this.options.cachePolicies ?? []).find(policy => typeof policy.pattern === 'string' ? url.startsWith(policy.pattern) : policy.pattern.test(url));
+
+        return typeof policy !== 'undefined' ? policy.cacheControl : undefined;
+    }
+
+    /**
+     * Middleware that decides how a static file is served before the static middleware serves it
+     * 
+     * - Fingerprinted URLs are served from the actual file with immutable cache headers
+     * - Files with a matching cache policy get it's `Cache-Control` header
+     * - Files with a precompressed sibling the client accepts are served from the sibling (with the `Content-Encoding` and original `Content-Type`)
+     * 
+     * @param req The request
+     * @param res The response
+     * @param next The next function
+     */
+    private resolveRequest(req: Request, res: Response, next: NextFunction) {
+        if(req.method !== 'GET' && req.method !== 'HEAD') {
+            return next();
+        }
+
+        const fingerprintedUrl = this.fingerprintedUrls.get(req.path);
+        const url = fingerprintedUrl ?? req.path;
+
+        const entry = this.manifest.get(url);
+        if(typeof entry === 'undefined') {
+            return next();
+        }
+
+        const cacheControl = typeof fingerprintedUrl !== 'undefined' ? IMMUTABLE_CACHE_CONTROL : this.getCacheControl(url);
+        if(typeof cacheControl !== 'undefined') {
+            res.setHeader('Cache-Control', cacheControl);
+        }
+
+        let servedUrl = url;
+        if(this.options.precompressed !== false && entry.encodings.length > 0) {
+            res.vary('Accept-Encoding');
+
+            const encoding = entry.encodings.find(encoding => req.acceptsEncodings(encoding) === encoding);
+            if(typeof encoding !== 'undefined') {
+                servedUrl = url + PRECOMPRESSED_EXTENSIONS[encoding];
+
+                // The content type is of the original file (rather than the compressed sibling's extension)
+                res.type(path.posix.extname(url));
+                res.setHeader('Content-Encoding', encoding);
+            }
+        }
+
+        // Serve the actual file (keeping any query string) by rewriting the URL before the static middleware sees it
+        if(servedUrl !== req.path) {
+            req.url = servedUrl + req.url.substring(req.path.length);
+        }
+
+        next();
+    }
+
+    /**
+     * Setup the Express app to serve static files from the static directories
+     * 
+     * This also builds the asset manifest and adds the `staticAsset` helper to the app's locals.
+     * The helper joins it's arguments into the plain URL (so that logic-less templates can build the URL. Ex. `staticAsset('/css/', style, '.css')`).
+     * 
+     * If the `compression` option is set, the compression middleware is also setup here (so it applies to the routes setup after the static files).
      * 
      * @param app The Express application to setup the static file serving on.
      */
     setup(app: Application) {
-        // Serve static files from the static directory
-        app.use(express.static(this.staticFilesDir));
+        this.buildManifest();
+
+        // Only string arguments are part of the URL (some engines, ex. Handlebars, pass an extra options object to helpers)
+        app.locals[STATIC_ASSET_HELPER] = (...urlParts: unknown[]) => this.getAsset(urlParts.filter(part => typeof part === 'string').join(''));
+
+        if(typeof this.options.compression !== 'undefined' && this.options.compression !== false) {
+            app.use(new CompressionMiddleware(this.options.compression === true ? {} : this.options.compression).middleware());
+        }
+
+        app.use(this.resolveRequest.bind(this));
+
+        // Serve static files from the static directories
+        const staticOptions = {
+            etag: this.options.etag,
+            lastModified: this.options.lastModified,
+            dotfiles: this.options.dotfiles,
+            index: this.options.index
+        };
+        this.getRoots().forEach(root => app.use(root.prefix, express.static(root.path, staticOptions)));
     }
 }
\ No newline at end of file
@@ -0,0 +1,205 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { AuthorizationError } from '../errors/AuthorizationError';
+import { PageMetadata, wantsJSON } from '../decorators/Page';
+import { AUTHENTICATED_METADATA_KEY, AuthenticatedOptions } from '../decorators/Authenticated';
+import { REQUIRE_SCOPES_METADATA_KEY } from '../decorators/RequireScopes';
+import { getRequestUser } from '../utils/request';
+
+import { BearerTokenOptions, hasBearerToken } from './BearerTokenMiddleware';
+
+/** The options for authentication/authorization (the `auth` input of the `Initializer`) */
+export type AuthOptions = {
+    /** Where browsers are redirected to log in for `@Page` routes that require authentication (default is `/login`) */
+    loginPath?: string,
+    /** If set, OAuth access tokens (JWTs) are accepted in the `Authorization: Bearer` header (see `BearerTokenOptions`) */
+    bearerTokens?: BearerTokenOptions
+};
+
+/** What a route requires of the current user/token (from the `@Authenticated` and `@RequireScopes` decorators) */
+export type AuthRequirement = {
+    /** If a logged in user (or token) is required */
+    authenticated: boolean,
+    /** The scopes that are required */
+    scopes: string[],
+    /** Where browsers are redirected to log in (if not the default) */
+    loginPath?: string
+};
+
+/** The name of the Express setting the auth options are kept in */
+export const AUTH_OPTIONS_SETTING = 'auth options';
+
+/**
+ * Check if the request has a logged in user (or token)
+ * 
+ * @param req The request
+ * @returns If there is a current user
+ */
+export function isAuthenticated(req: Request) {
+    const user = getRequestUser(req);
+
+    return typeof user !== 'undefined' && user !== null && user !== false;
+}
+
+/**
+ * Get the scopes granted to the current user/token
+ * 
+ * These are read from `req.user.scopes` or `req.user.scope` (an array or a space separated string, like the OAuth `scope` claim).
+ * 
+ * @param req The request
+ * @returns The granted scopes (empty if there is no current user)
+ */
+export function getGrantedScopes(req: Request): string[] {
+    const user = getRequestUser(req);
+    if(!isAuthenticated(req) || typeof user !== 'object' || user === null) {
+        return [];
+    }
+
+    const scopes = ('scopes' in user ? user.scopes : undefined) ?? ('scope' in user ? user.scope : undefined);
+
+    if(Array.isArray(scopes)) {
+        return scopes.map(scope => String(scope));
+    }
+    if(typeof scopes === 'string') {
+        return scopes.split(' ').filter(scope => scope !== '');
+    }
+
+    return [];
+}
+
+/**
+ * Get the requirement set by the `@Authenticated` and `@RequireScopes` decorators on a controller class or route method
+ * 
+ * Note, only the decorators on the target itself are considered (ex. not those of a parent class).
+ * 
+ * @param target The controller class or (with a property key) the prototype of the controller class
+ * @param propertyKey The name of the route's method (if getting the requirement of a method)
+ * @returns The requirement or undefined if neither decorator was used
+ */
+export function getAuthRequirement(target: any, propertyKey?: string): AuthRequirement | undefined {
+    const authenticated: AuthenticatedOptions | undefined = typeof propertyKey === 'undefined' ? Reflect.getOwnMetadata(AUTHENTICATED_METADATA_KEY, target) : Reflect.getOwnMetadata(AUTHENTICATED_METADATA_KEY, target, propertyKey);
+    const scopes: string[] | undefined = typeof propertyKey === 'undefined' ? Reflect.getOwnMetadata(REQUIRE_SCOPES_METADATA_KEY, target) : Reflect.getOwnMetadata(REQUIRE_SCOPES_METADATA_KEY, target, propertyKey);
+
+    if(typeof authenticated === 'undefined' && typeof scopes === 'undefined') {
+        return undefined;
+    }
+
+    return {
+        // Requiring scopes implies requiring authentication
+        authenticated: true,
+        scopes: scopes ?? [],
+        loginPath: authenticated?.loginPath
+    };
+}
+
+/**
+ * Combine the requirements of a route (ex. those of it's controller and those of the method)
+ * 
+ * @param requirements The requirements to combine
+ * @returns The combined requirement (the most specific login path wins)
+ */
+export function mergeAuthRequirements(...requirements: (AuthRequirement | undefined)[]): AuthRequirement {
+    return requirements.reduce<AuthRequirement>((merged, requirement) => {
+        if(typeof requirement === 'undefined') {
+            return merged;
+        }
+
+        return {
+            authenticated: merged.authenticated || requirement.authenticated,
+            scopes: [...new Set([...merged.scopes, ...requirement.scopes])],
+            loginPath: requirement.loginPath ?? merged.loginPath
+        };
+    }, { authenticated: false, scopes: [] });
+}
+
+/**
+ * Class that creates the middleware that checks a route's request against the requirements of the `@Authenticated` and `@RequireScopes` decorators.
+ */
+export class AuthorizationMiddleware {
+    /** What the route requires of the current user/token */
+    private requirement: AuthRequirement;
+
+    /** The page the route renders (if the route is also decorated with `@Page`) */
+    private page?: PageMetadata;
+
+    /**
+     * Constructor for the AuthorizationMiddleware class.
+     * 
+     * @param requirement What the route requires of the current user/token
+     * @param page The page the route renders (if any)
+     */
+    constructor(requirement: AuthRequirement, page?: PageMetadata) {
+        this.requirement = requirement;
+        this.page = page;
+    }
+
+    /**
+     * Get where to redirect a browser to log in
+     * 
+     * @param req The request
+     * @param options The auth options of the app (if any)
+     * @returns The URL of the login page (with the URL that was requested as the `returnTo` query parameter)
+     */
+    private getLoginUrl(req: Request, options?: AuthOptions) {
+        const loginPath = this.requirement.loginPath ?? options?.loginPath ?? '/login';
+
+        return `${loginPath}${loginPath.includes('?') ? '&' : '?'}returnTo=${encodeURIComponent(req.originalUrl)}`;
+    }
+
+    /**
+     * Creates the middleware function.
+     * 
+     * @returns The middleware function.
+     */
+    middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            const options: AuthOptions | undefined = req.app.get(AUTH_OPTIONS_SETTING);
+
+            if(!isAuthenticated(req)) {
+                // Browsers are sent to log in (and then back) rather than shown an error page
+                if(typeof this.page !== 'undefined' && (req.method === 'GET' || req.method === 'HEAD') && !wantsJSON(req, this.page)) {
+                    return res.redirect(this.getLoginUrl(req, options));
+                }
+
+                if(typeof options?.bearerTokens !== 'undefined') {
+                    res.setHeader('WWW-Authenticate', 'Bearer');
+                }
+
+                res.status(401);
+                return next(new AuthenticationError());
+            }
+
+            const grantedScopes = getGrantedScopes(req);
+            const missingScopes = this.requirement.scopes.filter(scope => !grantedScopes.includes(scope));
+            if(missingScopes.length > 0) {
+                // Tell API clients which scopes they need (see RFC 6750)
+                if(hasBearerToken(req)) {
+                    res.setHeader('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${this.requirement.scopes.join(' ')}"`);
+                }
+
+                res.status(403);
+                return next(new AuthorizationError(this.requirement.scopes, missingScopes));
+            }
+
+            next();
+        };
+    }
+}
+
+/**
+ * Create the authorization middleware for a route (if the route, or it's controller, requires authentication)
+ * 
+ * @param requirement What the route requires of the current user/token
+ * @param page The page the route renders (if any)
+ * @returns The middleware function or undefined if the route doesn't require authentication
+ */
+export function authorizationMiddleware(requirement: AuthRequirement, page?: PageMetadata): RequestHandler | undefined {
+    if(!requirement.authenticated && requirement.scopes.length === 0) {
+        return undefined;
+    }
+
+    const instance = new AuthorizationMiddleware(requirement, page);
+
+    return instance.middleware();
+}
\ No newline at end of file
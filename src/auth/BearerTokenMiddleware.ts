@@ -0,0 +1,158 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+import { InvalidTokenError } from '../errors/InvalidTokenError';
+
+import { JWTClaims, SUPPORTED_ALGORITHMS, decodeJWT, verifyJWTSignature, validateJWTClaims } from './JsonWebToken';
+import { JsonWebKeySetCache, JWKSSource } from './JsonWebKeySetCache';
+
+/** The options for accepting bearer tokens (the `bearerTokens` option of the `Initializer`'s `auth` input) */
+export type BearerTokenOptions = {
+    /** The issuer tokens must be from (the `iss` claim. Ex. the URL of the authorization server) */
+    issuer: string,
+    /** Where the issuer's keys come from: the URL of it's JSON Web Key Set or a function that provides it (default is `<issuer>/.well-known/jwks.json`) */
+    jwks?: JWKSSource,
+    /** The audience(s) tokens must be for (the `aud` claim. Default is to not check the audience) */
+    audience?: string | string[],
+    /** The signing algorithms that are accepted (default is all the supported asymmetric algorithms. Ex. `RS256`, `ES256`, `EdDSA`) */
+    algorithms?: string[],
+    /** How much (in seconds) clocks are allowed to differ when checking expiry (default is 60 seconds) */
+    clockTolerance?: number,
+    /** How long (in milliseconds) the issuer's keys are cached (default is 10 minutes) */
+    cacheTtl?: number
+};
+
+/** The claims of the bearer token of each request being handled (see `getTokenClaims`) */
+const requestClaims = new WeakMap<Request, JWTClaims>();
+
+/**
+ * Get the claims of the request's (verified) bearer token
+ * 
+ * @param req The request
+ * @returns The claims or undefined if the request didn't have a bearer token
+ */
+export function getTokenClaims(req: Request): JWTClaims | undefined {
+    return requestClaims.get(req);
+}
+
+/**
+ * Check if a request was made with a bearer token (regardless of if it's valid)
+ * 
+ * @param req The request
+ * @returns If the request has a bearer token
+ */
+export function hasBearerToken(req: Request) {
+    return /^Bearer\s+\S/i.test(req.headers.authorization ?? '');
+}
+
+/**
+ * Class that creates the middleware that accepts OAuth access tokens (JWTs) in the `Authorization: Bearer` header.
+ * 
+ * Tokens are verified against the issuer's (cached) JSON Web Key Set and their claims are checked (expiry, issuer and audience).
+ * The claims of a valid token become the current user (`req.user`, also available through the `@User` decorator) so that the `@Authenticated` and `@RequireScopes` decorators apply to them.
+ * 
+ * Requests without a bearer token are passed along untouched (routes that require authentication turn them away).
+ * Requests with a bearer token that isn't valid get an `InvalidTokenError` (401).
+ */
+export class BearerTokenMiddleware {
+    /** The issuer tokens must be from */
+    private issuer: string;
+
+    /** The audience(s) tokens must be for */
+    private audience?: string | string[];
+
+    /** The signing algorithms that are accepted */
+    private algorithms: string[];
+
+    /** How much (in seconds) clocks are allowed to differ */
+    private clockTolerance: number;
+
+    /** The issuer's keys */
+    private keys: JsonWebKeySetCache;
+
+    /**
+     * Constructor for the BearerTokenMiddleware class.
+     * 
+     * @param options Options for the middleware (see `BearerTokenOptions`).
+     */
+    constructor(options: BearerTokenOptions) {
+        this.issuer = options.issuer;
+        this.audience = options.audience;
+        this.algorithms = (options.algorithms ?? SUPPORTED_ALGORITHMS).filter(alg => SUPPORTED_ALGORITHMS.includes(alg));
+        this.clockTolerance = options.clockTolerance ?? 60;
+        this.keys = new JsonWebKeySetCache(options.jwks ?? `${options.issuer.replace(/\/+$/, '')}/.well-known/jwks.json`, options.cacheTtl);
+    }
+
+    /**
+     * Verify a token
+     * 
+     * @param token The token (from the `Authorization` header)
+     * @returns The claims of the token
+     * @throws InvalidTokenError if the token isn't valid
+     */
+    async verify(token: string): Promise<JWTClaims> {
+        const decoded = decodeJWT(token);
+
+        if(!this.algorithms.includes(decoded.header.alg)) {
+            throw new InvalidTokenError(`The token is signed with an algorithm that isn't accepted (${decoded.header.alg})`);
+        }
+
+        const keys = await this.keys.getKeys(decoded.header.alg, decoded.header.kid);
+        if(keys.length === 0) {
+            throw new InvalidTokenError('The token is signed with an unknown key');
+        }
+        if(!keys.some(key => verifyJWTSignature(decoded, key))) {
+            throw new InvalidTokenError('The token signature is invalid');
+        }
+
+        validateJWTClaims(decoded.claims, { issuer: this.issuer, audience: this.audience, clockTolerance: this.clockTolerance });
+
+        return decoded.claims;
+    }
+
+    /**
+     * Creates the middleware function.
+     * 
+     * @returns The middleware function.
+     */
+    middleware(): RequestHandler {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            if(!hasBearerToken(req)) {
+                return next();
+            }
+
+            const token = (req.headers.authorization ?? '').replace(/^Bearer\s+/i, '').trim();
+
+            let claims: JWTClaims;
+            try {
+                claims = await this.verify(token);
+            }
+            catch(err) {
+                if(err instanceof InvalidTokenError) {
+                    res.status(401);
+                    res.setHeader('WWW-Authenticate', `Bearer error="invalid_token", error_description="${err.message.replace(/"/g, '\'')}"`);
+                }
+
+                return next(err);
+            }
+
+            requestClaims.set(req, claims);
+
+            // Defined (rather than assigned) so that it takes precedence over a user from the session (see the `sessions` middleware)
+            Object.defineProperty(req, 'user', { configurable: true, enumerable: true, writable: true, value: claims });
+
+            next();
+        };
+    }
+}
+
+/**
+ * Create the bearer token middleware
+ * 
+ * @param options Options for the middleware (see `BearerTokenOptions`).
+ * @returns The middleware function.
+ */
+export function bearerTokens(options: BearerTokenOptions) {
+    const instance = new BearerTokenMiddleware(options);
+
+    return instance.middleware.bind(instance);
+}
\ No newline at end of file
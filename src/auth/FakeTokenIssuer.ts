@@ -0,0 +1,104 @@
+import { KeyObject, generateKeyPairSync, randomBytes, sign } from 'crypto';
+
+import { JWTClaims, JWKS } from './JsonWebToken';
+import { BearerTokenOptions } from './BearerTokenMiddleware';
+
+/**
+ * A local stand-in for an authorization server that issues access tokens
+ * 
+ * This is intended for tests (and local development). 
+ * It signs tokens with it's own key pair and provides the matching JSON Web Key Set directly (rather than over the network).
+ * So the whole bearer token flow (issuing, verifying and checking scopes) runs offline.
+ * 
+ * @example
+ * ```ts
+ * const issuer = new FakeTokenIssuer();
+ * const initializer = new Initializer({ controllersPath: 'routes', auth: { bearerTokens: issuer.getBearerTokenOptions({ audience: 'my-api' }) } });
+ * 
+ * const token = issuer.issue({ sub: 'user-1', aud: 'my-api', scope: 'read write' });
+ * await fetch('http://localhost:3000/api/things', { headers: { Authorization: `Bearer ${token}` } });
+ * ```
+ */
+export class FakeTokenIssuer {
+    /** The issuer (the `iss` claim of issued tokens) */
+    private issuer: string;
+
+    /** The ID of the current signing key */
+    private kid: string;
+
+    /** The current signing key */
+    private privateKey: KeyObject;
+
+    /** The public keys (current and previous, so tokens issued before a rotation still verify) */
+    private publicKeys: { kid: string, key: KeyObject }[];
+
+    /**
+     * Create a new fake token issuer
+     * 
+     * @param issuer The issuer (the `iss` claim of issued tokens. Default is `https://issuer.test`)
+     */
+    constructor(issuer: string = 'https://issuer.test') {
+        this.issuer = issuer;
+        this.publicKeys = [];
+
+        this.rotateKeys();
+    }
+
+    /**
+     * Generate a new signing key (the previous keys stay in the key set)
+     * 
+     * Useful for testing how key rotation is handled.
+     */
+    rotateKeys() {
+        const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+        this.kid = randomBytes(8).toString('hex');
+        this.privateKey = privateKey;
+        this.publicKeys.push({ kid: this.kid, key: publicKey });
+    }
+
+    /**
+     * Get the issuer (the `iss` claim of issued tokens)
+     * 
+     * @returns The issuer
+     */
+    getIssuer() {
+        return this.issuer;
+    }
+
+    /**
+     * Get the JSON Web Key Set of the issuer (what a real issuer serves at `/.well-known/jwks.json`)
+     * 
+     * @returns The key set
+     */
+    getJWKS(): JWKS {
+        return { keys: this.publicKeys.map(({ kid, key }) => ({ ...key.export({ format: 'jwk' }), kid: kid, alg: 'RS256', use: 'sig' })) };
+    }
+
+    /**
+     * Get the options for the bearer token middleware to accept the tokens this issues
+     * 
+     * @param options Any other options for the middleware (ex. the `audience`)
+     * @returns The options
+     */
+    getBearerTokenOptions(options: Partial<BearerTokenOptions> = {}): BearerTokenOptions {
+        return { ...options, issuer: this.issuer, jwks: () => this.getJWKS() };
+    }
+
+    /**
+     * Issue a token
+     * 
+     * @param claims The claims of the token (ex. `{ sub: 'user-1', scope: 'read write' }`). The `iss`, `iat` and `exp` claims are filled in unless given
+     * @param expiresIn How long (in seconds) until the token expires (default is an hour. Negative values issue an already expired token)
+     * @returns The signed token
+     */
+    issue(claims: JWTClaims = {}, expiresIn: number = 60 * 60): string {
+        const now = Math.floor(Date.now() / 1000);
+
+        const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: this.kid })).toString('base64url');
+        const payload = Buffer.from(JSON.stringify({ iss: this.issuer, iat: now, exp: now + expiresIn, ...claims })).toString('base64url');
+        const signature = sign('sha256', Buffer.from(`${header}.${payload}`), this.privateKey).toString('base64url');
+
+        return `${header}.${payload}.${signature}`;
+    }
+}
\ No newline at end of file
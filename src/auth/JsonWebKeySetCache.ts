@@ -0,0 +1,132 @@
+import { KeyObject } from 'crypto';
+
+import { JWK, JWKS, importJWK, keyMatchesAlgorithm } from './JsonWebToken';
+
+/** Where a JSON Web Key Set comes from: a URL to fetch it from or a function that provides it (ex. a `FakeTokenIssuer`'s keys in tests) */
+export type JWKSSource = string | URL | (() => JWKS | Promise<JWKS>);
+
+/**
+ * Keeps the keys of an issuer's JSON Web Key Set (so they aren't fetched for every request)
+ * 
+ * The keys are refreshed once they're older than the cache's time to live.
+ * Or when a token is signed with a key that isn't known (ex. the issuer rotated it's keys). 
+ * Though, to avoid hammering the issuer with requests for tokens signed with unknown keys, the key set isn't fetched more often than the minimum refresh interval.
+ */
+export class JsonWebKeySetCache {
+    /** Where the key set comes from */
+    private source: JWKSSource;
+
+    /** How long (in milliseconds) keys are kept before they're refreshed */
+    private ttl: number;
+
+    /** The minimum time (in milliseconds) between refreshes */
+    private minRefreshInterval: number;
+
+    /** The keys (and their key objects) */
+    private keys: { jwk: JWK, key: KeyObject }[];
+
+    /** When the keys were last fetched (in milliseconds since the epoch) */
+    private fetchedAt: number;
+
+    /** The refresh that's in progress (so that concurrent requests share it) */
+    private refreshing?: Promise<void>;
+
+    /**
+     * Create a new JSON Web Key Set cache
+     * 
+     * @param source Where the key set comes from
+     * @param ttl How long (in milliseconds) keys are kept before they're refreshed (default is 10 minutes)
+     * @param minRefreshInterval The minimum time (in milliseconds) between refreshes (default is 30 seconds)
+     */
+    constructor(source: JWKSSource, ttl: number = 10 * 60 * 1000, minRefreshInterval: number = 30 * 1000) {
+        this.source = source;
+        this.ttl = ttl;
+        this.minRefreshInterval = minRefreshInterval;
+        this.keys = [];
+        this.fetchedAt = 0;
+    }
+
+    /**
+     * Get the key set from the source
+     * 
+     * @returns The key set
+     */
+    private async fetchKeySet(): Promise<JWKS> {
+        if(typeof this.source === 'function') {
+            return await this.source();
+        }
+
+        const response = await fetch(this.source, { headers: { Accept: 'application/json' }, signal: AbortSignal.timeout(5000) });
+        if(!response.ok) {
+            throw new Error(`Failed to fetch the JSON Web Key Set from ${this.source} (${response.status})`);
+        }
+
+        return await response.json();
+    }
+
+    /**
+     * Refresh the keys
+     */
+    private async refresh() {
+        if(typeof this.refreshing === 'undefined') {
+            this.refreshing = (async () => {
+                try {
+                    const keySet = await this.fetchKeySet();
+
+                    // Keys that can't be imported (ex. an unsupported key type) are skipped rather than failing the whole set
+                    this.keys = (Array.isArray(keySet.keys) ? keySet.keys : []).flatMap((jwk) => {
+                        try {
+                            return [{ jwk: jwk, key: importJWK(jwk) }];
+                        }
+                        catch {
+                            return [];
+                        }
+                    });
+                    this.fetchedAt = Date.now();
+                }
+                finally {
+                    this.refreshing = undefined;
+                }
+            })();
+        }
+
+        await this.refreshing;
+    }
+
+    /**
+     * Find the keys that could verify a token
+     * 
+     * @param alg The algorithm the token is signed with
+     * @param kid The ID of the key the token is signed with (if the token specifies one)
+     * @returns The matching keys
+     */
+    private findKeys(alg: string, kid?: string) {
+        return this.keys
+            .filter(({ jwk }) => (typeof kid === 'undefined' || jwk.kid === kid) && keyMatchesAlgorithm(jwk, alg))
+            .map(({ key }) => key);
+    }
+
+    /**
+     * Get the keys that could verify a token
+     * 
+     * @param alg The algorithm the token is signed with
+     * @param kid The ID of the key the token is signed with (if the token specifies one)
+     * @returns The matching keys (empty if there are none, even after refreshing)
+     */
+    async getKeys(alg: string, kid?: string): Promise<KeyObject[]> {
+        const age = Date.now() - this.fetchedAt;
+
+        if(age > this.ttl) {
+            await this.refresh();
+        }
+
+        // Note, the minimum refresh interval only applies to fetching the key set (a function that provides it is cheap to call)
+        let keys = this.findKeys(alg, kid);
+        if(keys.length === 0 && (typeof this.source === 'function' || Date.now() - this.fetchedAt > this.minRefreshInterval)) {
+            await this.refresh();
+            keys = this.findKeys(alg, kid);
+        }
+
+        return keys;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { KeyObject, JsonWebKey, constants, createPublicKey, verify } from 'crypto';
+
+import { InvalidTokenError } from '../errors/InvalidTokenError';
+
+/** The header of a JSON Web Token */
+export type JWTHeader = {
+    /** The algorithm the token is signed with (ex. `RS256`) */
+    alg: string,
+    /** The ID of the key the token is signed with */
+    kid?: string,
+    /** The type of the token (ex. `JWT` or `at+jwt`) */
+    typ?: string
+};
+
+/** The claims (payload) of a JSON Web Token */
+export type JWTClaims = {
+    /** The issuer of the token */
+    iss?: string,
+    /** The subject of the token (ex. the user's ID) */
+    sub?: string,
+    /** The audience(s) the token is intended for */
+    aud?: string | string[],
+    /** When the token expires (in seconds since the epoch) */
+    exp?: number,
+    /** When the token becomes valid (in seconds since the epoch) */
+    nbf?: number,
+    /** When the token was issued (in seconds since the epoch) */
+    iat?: number,
+    /** The scopes granted to the token (space separated) */
+    scope?: string,
+    [claim: string]: unknown
+};
+
+/** A JSON Web Key (a public key in JSON form) as it appears in a JSON Web Key Set */
+export type JWK = JsonWebKey & {
+    /** The ID of the key */
+    kid?: string,
+    /** The algorithm the key is used with */
+    alg?: string,
+    /** What the key is used for (`sig` for signing) */
+    use?: string
+};
+
+/** A JSON Web Key Set (ex. what an issuer serves at `/.well-known/jwks.json`) */
+export type JWKS = { keys: JWK[] };
+
+/** A decoded (but not verified) JSON Web Token */
+export type DecodedJWT = {
+    header: JWTHeader,
+    claims: JWTClaims,
+    /** The part of the token the signature is of (`<header>.<claims>`) */
+    signingInput: string,
+    signature: Buffer
+};
+
+/** The signing algorithms that are supported and how to verify them */
+const ALGORITHMS: { [alg: string]: { hash: string | null, kty: string, padding?: number, dsaEncoding?: 'ieee-p1363' } } = {
+    RS256: { hash: 'sha256', kty: 'RSA' },
+    RS384: { hash: 'sha384', kty: 'RSA' },
+    RS512: { hash: 'sha512', kty: 'RSA' },
+    PS256: { hash: 'sha256', kty: 'RSA', padding: constants.RSA_PKCS1_PSS_PADDING },
+    PS384: { hash: 'sha384', kty: 'RSA', padding: constants.RSA_PKCS1_PSS_PADDING },
+    PS512: { hash: 'sha512', kty: 'RSA', padding: constants.RSA_PKCS1_PSS_PADDING },
+    ES256: { hash: 'sha256', kty: 'EC', dsaEncoding: 'ieee-p1363' },
+    ES384: { hash: 'sha384', kty: 'EC', dsaEncoding: 'ieee-p1363' },
+    ES512: { hash: 'sha512', kty: 'EC', dsaEncoding: 'ieee-p1363' },
+    EdDSA: { hash: null, kty: 'OKP' }
+};
+
+/** The algorithms that are supported */
+export const SUPPORTED_ALGORITHMS = Object.keys(ALGORITHMS);
+
+/**
+ * Decode a JSON Web Token (without verifying it)
+ * 
+ * @param token The token
+ * @returns The decoded token
+ * @throws InvalidTokenError if the token isn't a well formed JWT
+ */
+export function decodeJWT(token: string): DecodedJWT {
+    const parts = token.split('.');
+    if(parts.length !== 3) {
+        throw new InvalidTokenError('The token is not a JWT');
+    }
+
+    try {
+        const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf-8'));
+        const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8'));
+
+        if(typeof header !== 'object' || header === null || typeof header.alg !== 'string' || typeof claims !== 'object' || claims === null) {
+            throw new Error('Invalid header or claims');
+        }
+
+        return { header: header, claims: claims, signingInput: `${parts[0]}.${parts[1]}`, signature: Buffer.from(parts[2], 'base64url') };
+    }
+    catch {
+        throw new InvalidTokenError('The token is malformed');
+    }
+}
+
+/**
+ * Convert a JSON Web Key to a key object that can be used to verify signatures
+ * 
+ * @param jwk The JSON Web Key
+ * @returns The key object
+ */
+export function importJWK(jwk: JWK): KeyObject {
+    return createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+/**
+ * Check if a key can be used to verify a token signed with an algorithm
+ * 
+ * @param jwk The JSON Web Key
+ * @param alg The algorithm the token is signed with
+ * @returns If the key can be used
+ */
+export function keyMatchesAlgorithm(jwk: JWK, alg: string) {
+    const algorithm = ALGORITHMS[alg];
+
+    return typeof algorithm !== 'undefined' && jwk.kty === algorithm.kty && (typeof jwk.alg === 'undefined' || jwk.alg === alg) && (typeof jwk.use === 'undefined' || jwk.use === 'sig');
+}
+
+/**
+ * Verify the signature of a decoded token
+ * 
+ * @param token The decoded token
+ * @param key The key to verify the signature with
+ * @returns If the signature is valid
+ */
+export function verifyJWTSignature(token: DecodedJWT, key: KeyObject): boolean {
+    const algorithm = ALGORITHMS[token.header.alg];
+    if(typeof algorithm === 'undefined') {
+        return false;
+    }
+
+    try {
+        return verify(
+            algorithm.hash,
+            Buffer.from(token.signingInput),
+            { 
+                key: key, 
+                padding: algorithm.padding, 
+                saltLength: typeof algorithm.padding !== 'undefined' ? constants.RSA_PSS_SALTLEN_DIGEST : undefined, 
+                dsaEncoding: algorithm.dsaEncoding 
+            },
+            token.signature
+        );
+    }
+    catch {
+        return false;
+    }
+}
+
+/**
+ * Validate the claims of a token (expiry, issuer, audience, etc...)
+ * 
+ * @param claims The claims of the token
+ * @param expected What the claims are expected to be
+ * @param expected.issuer The issuer the token must be from
+ * @param expected.audience The audience(s) the token must be for (any one of them)
+ * @param expected.clockTolerance How much (in seconds) clocks are allowed to differ
+ * @throws InvalidTokenError if the claims aren't valid
+ */
+export function validateJWTClaims(claims: JWTClaims, expected: { issuer: string, audience?: string | string[], clockTolerance: number }) {
+    const now = Math.floor(Date.now() / 1000);
+
+    if(typeof claims.exp !== 'number') {
+        throw new InvalidTokenError('The token does not expire');
+    }
+    if(claims.exp + expected.clockTolerance <= now) {
+        throw new InvalidTokenError('The token has expired');
+    }
+    if(typeof claims.nbf === 'number' && claims.nbf - expected.clockTolerance > now) {
+        throw new InvalidTokenError('The token is not valid yet');
+    }
+    if(claims.iss !== expected.issuer) {
+        throw new InvalidTokenError('The token is from an unexpected issuer');
+    }
+
+    if(typeof expected.audience !== 'undefined') {
+        const expectedAudiences = Array.isArray(expected.audience) ? expected.audience : [expected.audience];
+        const audiences = Array.isArray(claims.aud) ? claims.aud : (typeof claims.aud === 'string' ? [claims.aud] : []);
+
+        if(!audiences.some(audience => expectedAudiences.includes(audience))) {
+            throw new InvalidTokenError('The token is not intended for this audience');
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { AuthOptions, AuthRequirement, isAuthenticated, getGrantedScopes } from './AuthorizationMiddleware';
+import { BearerTokenMiddleware, BearerTokenOptions, bearerTokens, getTokenClaims } from './BearerTokenMiddleware';
+import { JsonWebKeySetCache, JWKSSource } from './JsonWebKeySetCache';
+import { JWTHeader, JWTClaims, JWK, JWKS } from './JsonWebToken';
+import { FakeTokenIssuer } from './FakeTokenIssuer';
+
+export {
+    AuthOptions,
+    AuthRequirement,
+    isAuthenticated,
+    getGrantedScopes,
+    BearerTokenMiddleware,
+    BearerTokenOptions,
+    bearerTokens,
+    getTokenClaims,
+    JsonWebKeySetCache,
+    JWKSSource,
+    JWTHeader,
+    JWTClaims,
+    JWK,
+    JWKS,
+    FakeTokenIssuer
+};
\ No newline at end of file
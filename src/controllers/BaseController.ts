@@ -1,5 +1,23 @@
-import { Application } from 'express';
+import { Application, NextFunction } from 'express';
+import { NextHandleFunction } from 'connect';
+
+import { Container } from '../di/Container';
+import { AuthRequirement } from '../auth/AuthorizationMiddleware';
+
+/** What a parent controller passes along to it's child controllers when setting them up */
+export type ParentControllerContext = {
+    /** The (full) path of the parent controller that the child controller is mounted under */
+    path: string,
+    /** The middleware that applies to all routes of the parent controller (and therefore it's child controllers) */
+    middleware: (NextHandleFunction | NextFunction)[],
+    /** The layout the parent controller's pages are rendered within (if the parent, or one of it's parents, set one with the `@Layout` decorator) */
+    layout?: string,
+    /** What the parent controller's routes require of the current user/token (if the parent, or one of it's parents, used the `@Authenticated` or `@RequireScopes` decorators) */
+    auth?: AuthRequirement,
+    /** If CSRF verification is turned off for the parent controller's routes (if the parent, or one of it's parents, used the `@SkipCsrf` decorator) */
+    skipCsrf?: boolean
+};
 
 export abstract class BaseController {
-    static setup(app: Application) {}
+    static setup(app: Application, parent?: ParentControllerContext, container?: Container) {}
 }
\ No newline at end of file
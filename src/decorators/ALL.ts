@@ -0,0 +1,22 @@
+import { NextFunction } from 'express';
+import { NextHandleFunction } from 'connect';
+
+export const ALL_METADATA_KEY = 'All';
+
+/**
+ * Method decorator intended to be used on methods of a class decorated with the `@Controller` decorator.
+ * 
+ * This in conjunction with the `@Controller` decorator will automatically setup a route that executes the decorated method for ALL HTTP methods (`app.all`).
+ * The specific path for the route is defined by the path parameter.
+ * 
+ * Note, routes for specific HTTP methods in the same controller (ex. `@GET`) take precedence over this route for the same path.
+ * 
+ * @param path The path for the route.
+ * @param middleware The middleware to use with the route.
+ */
+export function ALL(path: string, ...middleware: (NextHandleFunction | NextFunction)[]) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        // Define a metadata key with the path and middleware as the value on the target's propertyKey
+        Reflect.defineMetadata(ALL_METADATA_KEY, { path, middleware }, target, propertyKey);
+    };
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+export const AUTHENTICATED_METADATA_KEY = 'Authenticated';
+
+/** The options for the `@Authenticated` decorator */
+export type AuthenticatedOptions = {
+    /** Where browsers are redirected to log in for `@Page` routes (default is the `loginPath` of the `Initializer`'s `auth` input, `/login` if it isn't set) */
+    loginPath?: string
+};
+
+/**
+ * Decorator to require a logged in user (or token) for routes in a class decorated with the `@Controller` decorator.
+ * 
+ * This can be used on the class itself or on individual methods (routes):
+ * - On the class, every route in the controller AND every route of it's child controllers (see `@ChildController`) requires authentication
+ * - On a method, only that route requires authentication
+ * 
+ * When there is no current user (`req.user`):
+ * - Browsers requesting a `@Page` route are redirected to log in (with the URL they requested as the `returnTo` query parameter)
+ * - Otherwise, an `AuthenticationError` (401) is forwarded to the error handling chain (see the `@ErrorHandler` decorator)
+ * 
+ * Note, `@RequireScopes` implies `@Authenticated` so both aren't needed.
+ * 
+ * @example
+ * ```ts
+ * @Controller('/account')
+ * @Authenticated()
+ * export class AccountController extends BaseController {
+ *     @Page('Account', 'account.ejs')
+ *     @GET('/')
+ *     private overview(@User() user: any) {}
+ * }
+ * ```
+ * 
+ * @param options The options for the decorator (see `AuthenticatedOptions`)
+ */
+export function Authenticated(options: AuthenticatedOptions = {}) {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        if(typeof propertyKey === 'undefined') {
+            Reflect.defineMetadata(AUTHENTICATED_METADATA_KEY, options, target);
+        }
+        else {
+            Reflect.defineMetadata(AUTHENTICATED_METADATA_KEY, options, target, propertyKey);
+        }
+    };
+}
\ No newline at end of file
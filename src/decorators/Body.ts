@@ -0,0 +1,30 @@
+import { Schema, ValidationOptions } from '../validation/Schema';
+
+export const BODY_METADATA_KEY = 'Body';
+
+/**
+ * Method decorator intended to be used on route methods (ex. `@POST`) of a class decorated with the `@Controller` decorator.
+ * 
+ * This validates (and coerces) the request body (ex. a submitted form. Note, this requires a body parsing middleware. Ex. `express.urlencoded()`) against the given schema before the decorated method is called.
+ * On success, `req.body` is replaced with the validated (coerced) values.
+ * On failure, the response status is set (422 by default) and a `ValidationError` (with the list of field errors) is forwarded to the error handling chain (see `@ErrorHandler`).
+ * Unless the method is also decorated with `@Page`, in which case the page is re-rendered with `errors` and `values` (the submitted values) render parameters.
+ * 
+ * @example
+ * ```ts
+ * @Page('Sign Up', 'signup.ejs')
+ * @Body({ email: { type: 'string', required: true, format: 'email' }, age: { type: 'number', integer: true, min: 13 } })
+ * @POST('/signup', express.urlencoded({ extended: true }))
+ * private signup(req: Request, res: Response) {
+ *     // `req.body.age` is a number here
+ * }
+ * ```
+ * 
+ * @param schema The schema to validate against
+ * @param options The options for validation
+ */
+export function Body(schema: Schema, options?: ValidationOptions) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        Reflect.defineMetadata(BODY_METADATA_KEY, { schema, options }, target, propertyKey);
+    };
+}
\ No newline at end of file
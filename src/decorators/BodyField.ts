@@ -0,0 +1,14 @@
+import { createRouteParameterDecorator } from './RouteParameters';
+
+/**
+ * Parameter decorator intended to be used on parameters of route methods (ex. `@GET`) of a class decorated with the `@Controller` decorator.
+ * 
+ * Injects the value of a field of the request body (ex. `@BodyField('email')` for a submitted form's `email` input). This requires a body parsing middleware (ex. `express.urlencoded()`).
+ * 
+ * Note, once any parameter of a method uses a parameter decorator, the method is called with ONLY the decorated parameters (instead of the usual `req`, `res` and `next`).
+ * 
+ * @param name The name of the field
+ */
+export function BodyField(name: string) {
+    return createRouteParameterDecorator('body', (req) => typeof req.body !== 'undefined' && req.body !== null ? req.body[name] : undefined, name);
+}
\ No newline at end of file
@@ -1,12 +1,26 @@
-import { Application, NextFunction } from 'express';
+import { Application, Request, Response, NextFunction } from 'express';
 
-import { BaseController } from '../controllers/BaseController';
+import { BaseController, ParentControllerContext } from '../controllers/BaseController';
+import { Container } from '../di/Container';
+import { Scope } from '../di/Provider';
+
+import { RequestContext } from '../RequestContext';
+import { getErrorStatus } from '../errors/HttpError';
+import { sendResult } from '../results/sendResult';
+import { joinPaths } from '../utils/paths';
+import { validationMiddleware } from '../validation/ValidationMiddleware';
+import { authorizationMiddleware, getAuthRequirement, mergeAuthRequirements } from '../auth/AuthorizationMiddleware';
+import { csrfVerification } from '../middlewares/CsrfMiddleware';
 
 import { CHILD_CONTROLLER_METADATA_KEY } from './ChildController';
-import { GET_METADATA_KEY } from './GET';
-import { POST_METADATA_KEY } from './POST';
-import { PUT_METADATA_KEY } from './PUT';
-import { DELETE_METADATA_KEY } from './DELETE';
+import { getRoutesInClass } from './RouteMethods';
+import { USE_METADATA_KEY } from './Use';
+import { LAYOUT_METADATA_KEY } from './Layout';
+import { getRouteArguments } from './RouteParameters';
+import { PAGE_METADATA_KEY } from './Page';
+import { SKIP_CSRF_METADATA_KEY } from './SkipCsrf';
+
+export const CONTROLLER_BASE_PATH_METADATA_KEY = 'ControllerBasePath';
 
 /**
  * Class decorator to "fill in" the setup method which is called on server startup and connects the methods/functions and their desired paths in the express app.
@@ -15,6 +29,7 @@ import { DELETE_METADATA_KEY } from './DELETE';
  *
  * @example
  * The following example show how to use the Controller decorator to setup a path `/path` with a GET, POST, PUT and DELETE method.
+ * Note, the `@PATCH`, `@HEAD`, `@OPTIONS` and `@ALL` decorators work the same way.
  * ```ts
  * import { Request, Response } from 'express';
  *
@@ -35,102 +50,160 @@ import { DELETE_METADATA_KEY } from './DELETE';
  *    private myDeleteMethod(req: Request, res: Response) {}
  * }
  * ```
+ *
+ * @example
+ * A controller can also specify a base path that all of it's routes (and the routes of any of it's child controllers) are mounted under.
+ * The following example sets up `GET /admin/users` and `GET /admin/users/:id` (because `UsersController` is a child of `AdminController`).
+ * ```ts
+ * @Controller('/users')
+ * export class UsersController extends BaseController {
+ *     @GET('/')
+ *     private list(req: Request, res: Response) {}
+ *
+ *     @GET('/:id')
+ *     private details(req: Request, res: Response) {}
+ * }
+ *
+ * @Controller('/admin')
+ * @ChildController(UsersController)
+ * export class AdminController extends BaseController {}
+ * ```
+ *
+ * @param basePath The path prefix for all the routes in the controller (default is no prefix)
  */
-export function Controller<T extends { new (...args: any[]): BaseController }>() {
-    // Technically the function we return here with the target parameter is the actual decorator itself but we wrap it in case we ever want to add parameters to the decorator
+export function Controller<T extends { new (...args: any[]): BaseController }>(basePath: string = '') {
     return function(target: T){
         Reflect.defineMetadata('originalClass', target, target);
+        Reflect.defineMetadata(CONTROLLER_BASE_PATH_METADATA_KEY, basePath, target);
         // We extend the class that is decorated and override the setup method to automatically setup the routes
         return class extends target {
             /**
              * Setup the routes for the controller.
              * 
              * @param app The express application to setup the routes on.
+             * @param parent The context of the parent controller (if this is a child controller). That is, the path this controller is mounted under and the middleware that applies to it's routes.
+             * @param container The dependency injection container used to construct the controller (and it's dependencies)
              */
-            static setup(app: Application) {
+            static setup(app: Application, parent: ParentControllerContext = { path: '', middleware: [] }, container: Container = new Container()) {
+                // The full path prefix for the routes in this controller (the parent's path plus this controller's base path)
+                const controllerPath = joinPaths(parent.path, basePath);
+
+                // The middleware that applies to every route in this controller (the parent's middleware followed by this controller's class level `@Use` middleware)
+                // 
+                // Note, `@Use` could be placed above or below `@Controller` (which puts the metadata on the returned class or the decorated class respectively).
+                // Those above run first, so that the middleware still runs in the order the decorators are written
+                const controllerMiddleware = [
+                    ...parent.middleware,
+                    ...(this !== target ? Reflect.getOwnMetadata(USE_METADATA_KEY, this) ?? [] : []),
+                    ...(Reflect.getMetadata(USE_METADATA_KEY, target) ?? [])
+                ];
+
+                // The layout the controller's pages are rendered within (this controller's `@Layout` or the one it inherited from it's parent, if any)
+                // 
+                // Note, this is read from the class returned by this decorator (`this`) so that it works regardless of if `@Layout` is placed above or below `@Controller`
+                const controllerLayout: string | undefined = Reflect.getMetadata(LAYOUT_METADATA_KEY, this) ?? parent.layout;
+
+                // What the controller's routes require of the current user/token (the parent's requirement combined with this controller's `@Authenticated` and `@RequireScopes`)
+                // 
+                // Note, the decorators could be placed above or below `@Controller` (which puts the metadata on the returned class or the decorated class respectively)
+                const controllerAuth = mergeAuthRequirements(parent.auth, getAuthRequirement(target), this !== target ? getAuthRequirement(this) : undefined);
+
+                // If CSRF verification is turned off for the controller's routes (by this controller's or a parent's `@SkipCsrf`)
+                const controllerSkipCsrf: boolean = parent.skipCsrf === true || Reflect.getMetadata(SKIP_CSRF_METADATA_KEY, this) === true;
+
                 // If the decorated class is also decorated with the `@ChildController` decorator, 
                 // then we call the child controller's setup method as well.
                 // 
-                // Currently, there is very little linkage between the decorated controller class and the child controller class(es).
-                // Though in the future this may look more like forcing these to be on sub-paths of the parent controller etc...
+                // Note, the child controller(s) are mounted under this controller's path and use this controller's middleware.
+                // Which means the child controller's routes are prefixed by this controller's path (including any prefix from it's own parent(s))
                 const childControllers = Reflect.getMetadata(CHILD_CONTROLLER_METADATA_KEY, target);
+                const childContext: ParentControllerContext = { path: controllerPath, middleware: controllerMiddleware, layout: controllerLayout, auth: controllerAuth, skipCsrf: controllerSkipCsrf };
                 if(typeof childControllers !== 'undefined') {
                     if(Array.isArray(childControllers)) {
                         childControllers.forEach((childController) => {
-                            childController.setup(app);
+                            childController.setup(app, childContext, container);
                         });
                     } else {
-                        childControllers.setup(app);
+                        childControllers.setup(app, childContext, container);
                     }
                 }
 
-                const controller = new (Reflect.getMetadata('originalClass', target))();
+                // The controller instance is constructed by the container (so that it's constructor parameters are injected)
+                // 
+                // Note, unless the controller is request (or transient) scoped, the instance is created now (so that any problems resolving it's dependencies surface on startup)
+                // And reused for every request.
+                // 
+                // Note, the class returned by this decorator (`this`) is what's resolved so that `@Injectable` works regardless of if it's placed above or below `@Controller`
+                // (the returned class inherits the decorated class's metadata and constructor parameters)
+                const controllerClass = this;
+                const controllerScope = container.getScope(controllerClass);
+                const controllerInstance = controllerScope === Scope.SINGLETON ? container.resolve(controllerClass) : undefined;
 
-                // Loop over all the methods in the decorated class looking for methods that use the GET decorator
-                Object.getOwnPropertyNames(target.prototype)
-                    // Find all methods that have a Get metadata key (GET decorator)
-                    .filter((method) => Reflect.getMetadata(GET_METADATA_KEY, target.prototype, method))
-                    .map((method) => {
-                        // Get the method
-                        const fn = target.prototype[method];
+                // Loop over all the routes (methods decorated with `@GET`, `@POST`, etc...) in the decorated class
+                getRoutesInClass(target).forEach((route) => {
+                    // Get the method
+                    const fn = target.prototype[route.propertyKey];
 
-                        // Get the path
-                        const path = Reflect.getMetadata(GET_METADATA_KEY, target.prototype, method);
+                    // The path of the route (mounted under the controller's path)
+                    const path = joinPaths(controllerPath, route.path);
 
-                        // Bind the method to the class instance
-                        app.get(path, fn.bind(controller));
-                    });
-                
-                // Loop over all the methods in the decorated class looking for methods that use the POST decorator
-                Object.getOwnPropertyNames(target.prototype)
-                    // Find all methods that have a Post metadata key (POST decorator)
-                    .filter((method) => Reflect.getMetadata(POST_METADATA_KEY, target.prototype, method))
-                    .map((method) => {
-                        // Get the method
-                        const fn = target.prototype[method];
-
-                        // Get the metadata object (which contains a path and middleware)
-                        const postRoute = Reflect.getMetadata(POST_METADATA_KEY, target.prototype, method);
-                        const path = postRoute.path;
-                        const middleware: NextFunction[] = postRoute.middleware;
-
-                        // Bind the method to the class instance
-                        app.post(path, ...middleware, fn.bind(controller));
-                    });
+                    // The middleware for the route (see the `@Use` decorator for the order)
+                    const middleware = [
+                        ...controllerMiddleware,
+                        ...(Reflect.getMetadata(USE_METADATA_KEY, target.prototype, route.propertyKey) ?? [])
+                    ];
 
-                // Loop over all the methods in the decorated class looking for methods that use the `@PUT` decorator
-                Object.getOwnPropertyNames(target.prototype)
-                    // Find all methods that have the associated metadata key (`@PUT` decorator)
-                    .filter((method) => Reflect.getMetadata(PUT_METADATA_KEY, target.prototype, method))
-                    .map((method) => {
-                        // Get the method
-                        const fn = target.prototype[method];
-                        
-                        // Get the metadata object (which contains a path and middleware)
-                        const putRoute = Reflect.getMetadata(PUT_METADATA_KEY, target.prototype, method);
-                        const path = putRoute.path;
-                        const middleware = putRoute.middleware;
-                        
-                        // Bind the method to the class instance
-                        app.put(path, ...middleware, fn.bind(controller));
-                    });
-                
-                // Loop over all the methods in the decorated class looking for methods that use the `@DELETE` decorator
-                Object.getOwnPropertyNames(target.prototype)
-                    // Find all methods that have the associated metadata key (`@DELETE` decorator)
-                    .filter((method) => Reflect.getMetadata(DELETE_METADATA_KEY, target.prototype, method))
-                    .map((method) => {
-                        // Get the method
-                        const fn = target.prototype[method];
-                    
-                        // Get the metadata object (which contains a path and middleware)
-                        const deleteRoute = Reflect.getMetadata(DELETE_METADATA_KEY, target.prototype, method);
-                        const path = deleteRoute.path;
-                        const middleware = deleteRoute.middleware;
-                        
-                        // Bind the method to the class instance
-                        app.delete(path, ...middleware, fn.bind(controller));
+                    // If the route requires authentication (`@Authenticated` or `@RequireScopes` decorators), it's checked after the `@Use` middleware (which could be what sets the current user)
+                    // But before the route's own middleware (ex. body parsing) so that unauthorized requests are turned away as early as possible
+                    const authorizer = authorizationMiddleware(mergeAuthRequirements(controllerAuth, getAuthRequirement(target.prototype, route.propertyKey)), Reflect.getMetadata(PAGE_METADATA_KEY, target.prototype, route.propertyKey));
+                    if(typeof authorizer !== 'undefined') {
+                        middleware.push(authorizer);
+                    }
+
+                    middleware.push(...route.middleware);
+
+                    // Routes that can change state have their CSRF token verified (if the `csrf` middleware is used) unless they opted out with `@SkipCsrf`
+                    // This happens after the route's own middleware so that the form field the token is submitted in has been parsed
+                    if(!['get', 'head', 'options'].includes(route.method.appMethod) && !controllerSkipCsrf && Reflect.getMetadata(SKIP_CSRF_METADATA_KEY, target.prototype, route.propertyKey) !== true) {
+                        middleware.push(csrfVerification());
+                    }
+
+                    // If the route validates it's input (`@Body`, `@Query` or `@Params` decorators), the validation happens last
+                    // This is so that any body parsing middleware has already run
+                    const validator = validationMiddleware(target.prototype, route.propertyKey, controllerLayout);
+                    if(typeof validator !== 'undefined') {
+                        middleware.push(validator);
+                    }
+
+                    // Bind the method to the class instance (using the appropriate Express method for the HTTP method. Ex. `app.get`)
+                    // 
+                    // Note, the method is called within the request's context (so that things like the `@Page` decorator have access to the response and the controller's layout)
+                    // And with the arguments determined by it's parameter decorators (ex. `@Param('id')`) or the usual `req`, `res` and `next` if it doesn't use any
+                    // 
+                    // The method's return value (once awaited) is sent as the response (see `sendResult`).
+                    // And any error the method throws is forwarded to the error handling chain (the registered error controllers)
+                    app[route.method.appMethod](path, ...middleware, (req: Request, res: Response, next: NextFunction) => {
+                        return RequestContext.run({ req, res, next, layout: controllerLayout }, async () => {
+                            try {
+                                const args = getRouteArguments(target.prototype, route.propertyKey, req, res, next) ?? [req, res, next];
+                                
+                                const controller = typeof controllerInstance !== 'undefined' ? controllerInstance : container.resolve(controllerClass);
+                                
+                                const output = await fn.apply(controller, args);
+
+                                await sendResult(res, output);
+                            }
+                            catch(error) {
+                                // Set the status to correspond with the error (so the appropriate error controller handles it) unless a more specific error status was already set
+                                if(!res.headersSent && res.statusCode < 400) {
+                                    res.status(getErrorStatus(error));
+                                }
+
+                                next(error);
+                            }
+                        });
                     });
+                });
             }
         }
     }
@@ -35,7 +35,10 @@ export function ErrorHandler<T extends { new(...args: any): ErrorController }>(e
             target.prototype.handlesError = description || `${errorCode}`;
         }
 
-        // We extend the class that is decorated and override the setup method to automatically setup the routes
+        // We extend the class that is decorated and override the handle method so that it only handles errors with the matching status code
+        // 
+        // Note, because the returned class extends the decorated class, an instance of it IS an instance of the decorated class.
+        // Which means it has the same constructor parameters (which the dependency injection container resolves) and instance data.
         return class extends target {
             async handle(error: unknown, req: Request, res: Response, next: NextFunction) {
                 // Because the headers have already been sent, we cannot send a response again. 
@@ -44,13 +47,11 @@ export function ErrorHandler<T extends { new(...args: any): ErrorController }>(e
                     return next(error);
                 }
 
-                // Create an instance of the decorated (original) class
-                const controller: ErrorController = new (Reflect.getMetadata('errorHandler', target))();
-
                 // We only want to call the handle method if the error code matches the one denoted.
                 if(res.statusCode === errorCode) {
-                    // Call the handle method of the controller and return the result
-                    return await controller.handle.bind(controller)(error, req, res, next);
+                    // Call the handle method of the decorated (original) class and return the result
+                    // Note, we go through the prototype (rather than `super`) because `handle` is abstract on the `ErrorController` type
+                    return await target.prototype.handle.call(this, error, req, res, next);
                 }
                 else {
                     // If the error code does not match, we call the next middleware in the error chain
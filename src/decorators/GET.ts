@@ -1,3 +1,6 @@
+import { NextFunction } from 'express';
+import { NextHandleFunction } from 'connect';
+
 export const GET_METADATA_KEY = 'Get';
 
 /**
@@ -5,12 +8,14 @@ export const GET_METADATA_KEY = 'Get';
  * 
  * This in conjunction with the `@Controller` decorator will automatically setup a GET route that executes the decorated method.
  * The specific path for the route is defined by the path parameter.
+ * Controller authors can also specify middleware to be used with the GET route (ex. to check a user is logged in before rendering a page).
  * 
  * @param path The path for the GET route.
+ * @param middleware The middleware to use with the GET route.
  */
-export function GET(path: string) {
+export function GET(path: string, ...middleware: (NextHandleFunction | NextFunction)[]) {
     return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
-        // Define a `Get` metadata key with the path as the value on the target's propertyKey
-        Reflect.defineMetadata(GET_METADATA_KEY, path, target, propertyKey);
+        // Define a `Get` metadata key with the path and middleware as the value on the target's propertyKey
+        Reflect.defineMetadata(GET_METADATA_KEY, { path, middleware }, target, propertyKey);
     };
 }
\ No newline at end of file
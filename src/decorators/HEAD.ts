@@ -0,0 +1,23 @@
+import { NextFunction } from 'express';
+import { NextHandleFunction } from 'connect';
+
+export const HEAD_METADATA_KEY = 'Head';
+
+/**
+ * Method decorator intended to be used on methods of a class decorated with the `@Controller` decorator.
+ * 
+ * This in conjunction with the `@Controller` decorator will automatically setup a HEAD route that executes the decorated method.
+ * The specific path for the route is defined by the path parameter.
+ * 
+ * Note, Express already responds to HEAD requests using the GET route for the same path (minus the body).
+ * So this is only needed if the HEAD response should be handled differently (ex. to avoid the cost of generating a body).
+ * 
+ * @param path The path for the HEAD route.
+ * @param middleware The middleware to use with the HEAD route.
+ */
+export function HEAD(path: string, ...middleware: (NextHandleFunction | NextFunction)[]) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        // Define a metadata key with the path and middleware as the value on the target's propertyKey
+        Reflect.defineMetadata(HEAD_METADATA_KEY, { path, middleware }, target, propertyKey);
+    };
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { InjectionToken } from '../di/Provider';
+
+export const INJECT_METADATA_KEY = 'Inject';
+
+/**
+ * Parameter decorator for constructor parameters to specify the token the dependency injection container should resolve for the parameter.
+ * 
+ * This is needed when the parameter's type isn't a class (ex. an interface or a configuration object) as there is no type information at runtime.
+ * 
+ * @example
+ * ```ts
+ * @Injectable()
+ * export class Mailer {
+ *     constructor(@Inject('MAILER_CONFIG') private config: MailerConfig) {}
+ * }
+ * ```
+ * 
+ * @param token The token to resolve
+ */
+export function Inject(token: InjectionToken) {
+    return function (target: any, propertyKey: string | symbol | undefined, index: number) {
+        const existingTokens: { [index: number]: InjectionToken } = Reflect.getOwnMetadata(INJECT_METADATA_KEY, target) ?? {};
+        Reflect.defineMetadata(INJECT_METADATA_KEY, { ...existingTokens, [index]: token }, target);
+    };
+}
\ No newline at end of file
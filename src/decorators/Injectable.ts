@@ -0,0 +1,36 @@
+import { Scope } from '../di/Provider';
+
+export const INJECTABLE_METADATA_KEY = 'Injectable';
+
+/**
+ * Class decorator to mark a class (ex. a service) as something the dependency injection container can construct and inject.
+ * 
+ * The class's constructor parameters are resolved from the container based on their types.
+ * So they should be classes themselves (or use the `@Inject` decorator).
+ * 
+ * Note, controllers (`@Controller`) and error controllers (`@ErrorHandler`) are constructed by the container without this decorator.
+ * But can still use it to set their scope.
+ * 
+ * @example
+ * ```ts
+ * @Injectable()
+ * export class UserService {
+ *     constructor(private db: DatabaseClient) {}
+ * }
+ * 
+ * @Controller('/users')
+ * export class UserController extends BaseController {
+ *     constructor(private users: UserService) {
+ *         super();
+ *     }
+ * }
+ * ```
+ * 
+ * @param options The options for the injectable
+ * @param options.scope How long an instance lives (default is one instance for the whole app)
+ */
+export function Injectable(options?: { scope?: Scope }) {
+    return function (target: any) {
+        Reflect.defineMetadata(INJECTABLE_METADATA_KEY, { scope: typeof options !== 'undefined' && typeof options.scope !== 'undefined' ? options.scope : Scope.SINGLETON }, target);
+    };
+}
\ No newline at end of file
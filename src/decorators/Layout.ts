@@ -0,0 +1,37 @@
+export const LAYOUT_METADATA_KEY = 'Layout';
+
+/**
+ * Class decorator to set the layout (the template pages are rendered within) for the pages of a controller.
+ * 
+ * By default pages (see `@Page`) are rendered within the default layout (`base` unless configured otherwise on the `Renderer`/`Initializer`).
+ * This decorator changes the layout for every page in the controller AND the pages of it's child controllers (see `@ChildController`) unless they set their own.
+ * 
+ * The layout for a page is determined in the following order:
+ * 1. The `layout` option of the `@Page` decorator
+ * 2. The `@Layout` of the controller (or it's closest parent controller that has one)
+ * 3. The default layout
+ * 
+ * @example
+ * ```ts
+ * @Controller('/dashboard')
+ * @Layout('dashboard')
+ * export class DashboardController extends BaseController {
+ *     // Rendered within `dashboard.ejs`
+ *     @Page('Overview', 'dashboard/overview.ejs')
+ *     @GET('/')
+ *     private overview(req: Request, res: Response) {}
+ * 
+ *     // Rendered within `print.ejs`
+ *     @Page({ title: 'Report', page: 'dashboard/report.ejs', layout: 'print' })
+ *     @GET('/report')
+ *     private report(req: Request, res: Response) {}
+ * }
+ * ```
+ * 
+ * @param name The name of the layout template (ex. `dashboard` for `dashboard.ejs`)
+ */
+export function Layout(name: string) {
+    return function (target: any) {
+        Reflect.defineMetadata(LAYOUT_METADATA_KEY, name, target);
+    };
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { createRouteParameterDecorator } from './RouteParameters';
+
+/**
+ * Parameter decorator intended to be used on parameters of route methods (ex. `@GET`) of a class decorated with the `@Controller` decorator.
+ * 
+ * Injects the next function (`next`).
+ * 
+ * Note, once any parameter of a method uses a parameter decorator, the method is called with ONLY the decorated parameters (instead of the usual `req`, `res` and `next`).
+ */
+export function Next() {
+    return createRouteParameterDecorator('next', (req, res, next) => next);
+}
\ No newline at end of file
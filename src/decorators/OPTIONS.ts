@@ -0,0 +1,21 @@
+import { NextFunction } from 'express';
+import { NextHandleFunction } from 'connect';
+
+export const OPTIONS_METADATA_KEY = 'Options';
+
+/**
+ * Method decorator intended to be used on methods of a class decorated with the `@Controller` decorator.
+ * 
+ * This in conjunction with the `@Controller` decorator will automatically setup an OPTIONS route that executes the decorated method.
+ * The specific path for the route is defined by the path parameter.
+ * This is mostly useful for things like custom CORS preflight handling.
+ * 
+ * @param path The path for the OPTIONS route.
+ * @param middleware The middleware to use with the OPTIONS route.
+ */
+export function OPTIONS(path: string, ...middleware: (NextHandleFunction | NextFunction)[]) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        // Define a metadata key with the path and middleware as the value on the target's propertyKey
+        Reflect.defineMetadata(OPTIONS_METADATA_KEY, { path, middleware }, target, propertyKey);
+    };
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { NextFunction } from 'express';
+import { NextHandleFunction } from 'connect';
+
+export const PATCH_METADATA_KEY = 'Patch';
+
+/**
+ * Method decorator intended to be used on methods of a class decorated with the `@Controller` decorator.
+ * 
+ * This in conjunction with the `@Controller` decorator will automatically setup a PATCH route that executes the decorated method.
+ * The specific path for the route is defined by the path parameter.
+ * Controller authors can also specify middleware to be used with the PATCH route (because a middleware is commonly required to parse the body of a PATCH request).
+ * 
+ * @param path The path for the PATCH route.
+ * @param middleware The middleware to use with the PATCH route.
+ */
+export function PATCH(path: string, ...middleware: (NextHandleFunction | NextFunction)[]) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        // Define a metadata key with the path and middleware as the value on the target's propertyKey
+        Reflect.defineMetadata(PATCH_METADATA_KEY, { path, middleware }, target, propertyKey);
+    };
+}
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { NextFunction } from 'express';
 import { NextHandleFunction } from 'connect';
 
-export const POST_METADATA_KEY = 'Put';
+export const POST_METADATA_KEY = 'Post';
 
 /**
  * Method decorator intended to be used on methods of a class decorated with the `@Controller` decorator.
@@ -15,7 +15,7 @@ export const POST_METADATA_KEY = 'Put';
  */
 export function POST(path: string, ...middleware: (NextHandleFunction | NextFunction)[]) {
     return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
-        // Define a `Get` metadata key with the path as the value on the target's propertyKey
+        // Define a `Post` metadata key with the path and middleware as the value on the target's propertyKey
         Reflect.defineMetadata(POST_METADATA_KEY, { path, middleware }, target, propertyKey);
     };
 }
\ No newline at end of file
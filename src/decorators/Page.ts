@@ -1,60 +1,214 @@
 import { Request, Response } from 'express';
 
-// Response type guard
-function isResponse(obj) {
-    return obj && typeof obj.render === 'function';
+import { RequestContext } from '../RequestContext';
+import { StatusResult } from '../results/StatusResult';
+import { allowContentSecurityPolicySources } from '../middlewares/SecurityHeadersMiddleware';
+import { LocalizedString, localize } from '../i18n/LocaleMiddleware';
+
+export const PAGE_METADATA_KEY = 'Page';
+
+/** The name of the Express app setting that holds the default layout (see `Renderer`) */
+export const DEFAULT_LAYOUT_SETTING = 'default layout';
+
+/** The layout pages are rendered within if nothing else is specified */
+export const DEFAULT_LAYOUT = 'base';
+
+/** The details of a page (as given to the `@Page` decorator) */
+export type PageMetadata = {
+    /** The title of the page (localized when the page is rendered, see `localize`) */
+    title: LocalizedString,
+    /** The name of the page file to render */
+    page: string,
+    /** Any extra scripts to include in the page */
+    extraScripts: (string | { script: string, defer: boolean })[],
+    /** Any extra styles to include in the page */
+    extraStyles: string[],
+    /** Any other parameters to pass to the page */
+    otherParams: any[],
+    /** 
+     * If the route should respond with JSON (instead of the rendered page) when the request asks for it (based on the `Accept` header).
+     * 
+     * `true` exposes everything the decorated method returns, `false` always renders the page and a list of names only exposes those parameters.
+     */
+    json: boolean | string[],
+    /** The layout to render the page within (if it shouldn't use the controller's or default layout) */
+    layout?: string
+};
+
+/** The options for the `@Page` decorator (the alternative to it's positional parameters) */
+export type PageOptions = {
+    /** The title of the page. Either a message key/string (translated if the `i18n` middleware is used) or a string per language (ex. `{ en: 'Profile', fr: 'Profil' }`) */
+    title: LocalizedString,
+    /** The name of the page file to render */
+    page: string,
+    /** Any extra scripts to include in the page */
+    extraScripts?: (string | { script: string, defer: boolean })[],
+    /** Any extra styles to include in the page */
+    extraStyles?: string[],
+    /** Any other parameters to pass to the page */
+    otherParams?: any[],
+    /** 
+     * If the route should respond with JSON when the request asks for it (default is true).
+     * 
+     * Set to `false` to always render the page or to a list of parameter names to only expose those parameters in the JSON.
+     */
+    json?: boolean | string[],
+    /** The layout to render the page within (default is the controller's layout, see `@Layout`, or the default layout) */
+    layout?: string
+};
+
+/**
+ * Check if a request for a page should be responded to with JSON instead of the rendered page
+ * 
+ * That is, if the page allows JSON and the request prefers JSON over HTML (ex. a `fetch` with `Accept: application/json`).
+ * Note, browsers (and requests that accept anything) get the rendered page.
+ * 
+ * @param req The request for the page
+ * @param page The details of the page
+ * @returns If the response should be JSON
+ */
+export function wantsJSON(req: Request, page: PageMetadata) {
+    if(page.json === false) {
+        return false;
+    }
+
+    return req.accepts(['html', 'json']) === 'json';
+}
+
+/**
+ * Respond with the JSON version of a page (the parameters the decorated method returned)
+ * 
+ * @param res The response to send the JSON as
+ * @param page The details of the page
+ * @param params The parameters to send (filtered to the page's list of exposed parameters if it has one)
+ */
+export function sendPageJSON(res: Response, page: PageMetadata, params?: { [key: string]: any }) {
+    const output: { [key: string]: any } = {};
+
+    if(typeof params !== 'undefined') {
+        Object.entries(params)
+            .filter(([key]) => !Array.isArray(page.json) || page.json.includes(key))
+            .forEach(([key, value]) => {
+                output[key] = value;
+            });
+    }
+
+    res.json(output);
+}
+
+/**
+ * Render a page (as described by the `@Page` decorator) as the response
+ * 
+ * The page is rendered within a layout template (which includes the page's template). 
+ * Which layout is the page's own `layout` if it has one, otherwise the controller's layout or the app's default layout (`base` unless configured otherwise).
+ * 
+ * @param res The response to render the page as
+ * @param page The details of the page
+ * @param params Additional render parameters (these take precedence over the page's details)
+ * @param controllerLayout The layout of the controller the page belongs to (if any, see `@Layout`)
+ */
+export function renderPage(res: Response, page: PageMetadata, params?: { [key: string]: any }, controllerLayout?: string) {
+    const renderParams: { [key: string]: any } = {
+        title: localize(res, page.title),
+        page: page.page,
+        extraStyles: page.extraStyles,
+        extraScripts: page.extraScripts,
+        ...page.otherParams
+    };
+
+    if(typeof params !== 'undefined') {
+        Object.entries(params).forEach((entry) => {
+            renderParams[entry[0]] = entry[1];
+        });
+    }
+
+    // Scripts starting with `http` are "external" scripts (included as is, rather than from the `js/` directory)
+    const externalScripts = page.extraScripts
+        .map(script => typeof script === 'string' ? script : script.script)
+        .filter(script => script.startsWith('http'));
+
+    // Templates that can't check this themselves (ex. Handlebars, which is logic-less) look the scripts up in this
+    if(typeof renderParams.externalScripts === 'undefined') {
+        renderParams.externalScripts = Object.fromEntries(externalScripts.map(script => [script, true]));
+    }
+
+    // Allow the page's external scripts under the Content Security Policy (if the `securityHeaders` middleware is used)
+    const externalScriptOrigins = externalScripts
+        .filter(script => URL.canParse(script))
+        .map(script => new URL(script).origin);
+    allowContentSecurityPolicySources(res, 'script-src', externalScriptOrigins);
+
+    const layout = page.layout ?? controllerLayout ?? res.app.get(DEFAULT_LAYOUT_SETTING) ?? DEFAULT_LAYOUT;
+
+    res.render(layout, renderParams);
 }
 
 /**
  * The `Page` decorator allows for easy rendering of a page.
  *
- * Note, that the parameters for the function the page decorator is placed on is not restrictive.
- * This is because JavaScript doesn't have the idea of named arguments so a request handler like:
- *
- * ```ts
- * function handle(req: Request, res: Response)
- * ```
- *
- * Is different from a middleware handler like:
- *
- * ```ts
- * function handle(req: Request, res: Response, next: NextFunction)
- * ```
+ * Note, that the parameters for the function the page decorator is placed on are not restrictive.
+ * The page is rendered to the response of the request currently being handled (see `RequestContext`).
+ * So the decorated method can take whatever parameters it needs (ex. using the parameter decorators like `@Param('id')`) without needing the response.
  *
- * Is different from an error handler like:
+ * The decorated method runs bound to the controller instance (the same as any other route's method).
+ * It can be async and can be combined with the route decorators (ex. `@GET`) and middleware decorators (ex. `@Use`) in any order.
  *
+ * The same route can also serve the page's data to client-side scripts.
+ * If the request prefers JSON (based on it's `Accept` header) the object the decorated method returns is sent as JSON instead of rendering the page.
+ * This can be turned off (or limited to specific parameters) with the `json` option (see `PageOptions`).
+ * 
+ * The page is rendered within the controller's layout (see `@Layout`) or the default layout (`base`) unless the `layout` option says otherwise.
+ * 
+ * The decorator can either be given the page's details as positional parameters or as a single `PageOptions` object:
+ * 
+ * @example
  * ```ts
- * function handle(err: Error, req: Request, res: Response, next: NextFunction)
+ * @Page('Profile', 'profile.ejs')
+ * @Page({ title: 'Profile', page: 'profile.ejs', json: ['name', 'email'] })
+ * @Page({ title: 'Invoice', page: 'invoice.ejs', layout: 'print' })
+ * @Page({ title: { en: 'Profile', fr: 'Profil' }, page: 'profile.ejs' })
  * ```
  *
- * Despite them all being, more or less, equivalent for the page decorator's usage.
- *
- * @param title The title of the page
+ * @param title The title of the page (or the options for the page)
  * @param page The name of the page file to render
  * @param extraScripts Any extra scripts to include in the page
  * @param extraStyles Any extra styles to include in the page
  * @param otherParams Any other parameters to pass to the page
  */
-export function Page(title: string, page: string, extraScripts: (string | { script: string, defer: boolean })[] = [], extraStyles: string[] = [], ...otherParams: any[]) {
+export function Page(options: PageOptions): (target: any, propertyKey: string, descriptor: PropertyDescriptor) => void;
+export function Page(title: string, page: string, extraScripts?: (string | { script: string, defer: boolean })[], extraStyles?: string[], ...otherParams: any[]): (target: any, propertyKey: string, descriptor: PropertyDescriptor) => void;
+export function Page(title: string | PageOptions, page?: string, extraScripts: (string | { script: string, defer: boolean })[] = [], extraStyles: string[] = [], ...otherParams: any[]) {
+    const pageMetadata: PageMetadata = typeof title === 'string'
+        ? { title, page: page as string, extraScripts, extraStyles, otherParams, json: true }
+        : {
+            title: title.title,
+            page: title.page,
+            extraScripts: title.extraScripts ?? [],
+            extraStyles: title.extraStyles ?? [],
+            otherParams: title.otherParams ?? [],
+            json: title.json ?? true,
+            layout: title.layout
+        };
+
     return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+
+        // Record the page details so that other parts of the framework can render the same page (ex. re-rendering a form that failed validation)
+        Reflect.defineMetadata(PAGE_METADATA_KEY, pageMetadata, target, propertyKey);
+
         const original = descriptor.value;
 
-        descriptor.value = async function (...args: any[]) {
-            if (!args.some(arg => isResponse(arg)) || args.filter(arg => isResponse(arg)).length > 1) {
-                console.warn(`Page decorator: Incorrect number of response objects found in arguments for ${propertyKey}. Should ONLY be one response object.`);
+        descriptor.value = async function (this: any, ...args: any[]) {
+            const context = RequestContext.current();
+            if (typeof context === 'undefined') {
+                console.warn(`Page decorator: No request found for ${propertyKey}. The method should ONLY be called as a route of a controller.`);
                 return;
             }
             
             // We run the original here so that if the decorated method has specific checks it needs to make (ex. if the ID of whatever actually exists) it can make them before rendering the page
             // 
-            // !!!IMPORTANT!!!
-            // This currently is kind of a hacky solution, because we bind to the target, which is the prototype rather than the instance.
-            // This means instance data is not properly available/accessible within the decorated method.
-            // However, you can use the `this` keyword to access other methods on the class, etc...
-            //
-            // The above (this approach) is necessary at time of writing because the `this` (which should be bound to for the instance) seems to be undefined within the context of the decorator function here for some reason
-            // Ideally, would dive into this and do it properly but this seems to be good enough for now.
-            const output = await original.bind(target)(...args);
+            // Note, `this` is the controller instance the method was called on (the instance `Controller.setup` created/resolved).
+            // So instance data (ex. dependencies injected through the constructor) is available within the decorated method.
+            const output = await original.apply(this, args);
             
             // If the output is false, we don't want to render the page
             // 
@@ -64,22 +218,31 @@ export function Page(title: string, page: string, extraScripts: (string | { scri
                 return;
             }
 
-            const renderParams: { [key: string]: any } = {
-                title: title,
-                page: page,
-                extraStyles: extraStyles,
-                extraScripts: extraScripts,
-                ...otherParams
-            };
-
-            // If the decorated method's output is an object, we want to merge it with the renderParams
-            if(typeof output === 'object') {
-                Object.entries(output).forEach((entry) => {
-                    renderParams[entry[0]] = entry[1];
-                });
+            // Similarly, if the decorated method already responded (ex. `res.redirect(...)`) there is nothing to render
+            if(context.res.headersSent) {
+                return;
+            }
+
+            // If the decorated method returned a result (ex. `new Redirect(...)`), that is the response instead of the page
+            // So we pass it along for the controller to send
+            if(output instanceof StatusResult) {
+                return output;
+            }
+
+            const params = typeof output === 'object' && output !== null ? output : undefined;
+
+            // Because the same URL can respond with HTML or JSON, caches need to know the response depends on the `Accept` header
+            if(pageMetadata.json !== false) {
+                context.res.vary('Accept');
+            }
+
+            // If the request asked for JSON (ex. a client-side script), we send the data instead of the rendered page
+            if(wantsJSON(context.req, pageMetadata)) {
+                return sendPageJSON(context.res, pageMetadata, params);
             }
 
-            args.find(arg => isResponse(arg)).render('base', renderParams);
+            // If the decorated method's output is an object, we want to merge it with the render parameters
+            renderPage(context.res, pageMetadata, params, context.layout);
         }
     }
 }
\ No newline at end of file
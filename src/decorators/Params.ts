@@ -0,0 +1,21 @@
+import { Schema, ValidationOptions } from '../validation/Schema';
+
+export const PARAMS_METADATA_KEY = 'Params';
+
+/**
+ * Method decorator intended to be used on route methods (ex. `@POST`) of a class decorated with the `@Controller` decorator.
+ * 
+ * This validates (and coerces) the URL (path) parameters (ex. `:id` in `/users/:id`) against the given schema before the decorated method is called.
+ * On success, `req.params` is replaced with the validated (coerced) values.
+ * Unlike `@Body` and `@Query`, parameters that aren't in the schema are kept by default (ex. `org` when only `id` is validated on `/:org/:id`).
+ * On failure, the response status is set (422 by default) and a `ValidationError` (with the list of field errors) is forwarded to the error handling chain (see `@ErrorHandler`).
+ * Unless the method is also decorated with `@Page`, in which case the page is re-rendered with `errors` and `values` (the submitted values) render parameters.
+ * 
+ * @param schema The schema to validate against
+ * @param options The options for validation
+ */
+export function Params(schema: Schema, options?: ValidationOptions) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        Reflect.defineMetadata(PARAMS_METADATA_KEY, { schema, options }, target, propertyKey);
+    };
+}
\ No newline at end of file
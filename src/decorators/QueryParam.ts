@@ -0,0 +1,14 @@
+import { createRouteParameterDecorator } from './RouteParameters';
+
+/**
+ * Parameter decorator intended to be used on parameters of route methods (ex. `@GET`) of a class decorated with the `@Controller` decorator.
+ * 
+ * Injects the value of a query string parameter (ex. `@QueryParam('q')` for `/search?q=...`).
+ * 
+ * Note, once any parameter of a method uses a parameter decorator, the method is called with ONLY the decorated parameters (instead of the usual `req`, `res` and `next`).
+ * 
+ * @param name The name of the query string parameter
+ */
+export function QueryParam(name: string) {
+    return createRouteParameterDecorator('query', (req) => req.query[name], name);
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+export const REQUIRE_SCOPES_METADATA_KEY = 'RequireScopes';
+
+/**
+ * Decorator to require OAuth scopes for routes in a class decorated with the `@Controller` decorator.
+ * 
+ * This can be used on the class itself or on individual methods (routes), the same as `@Authenticated` (which this implies).
+ * The scopes of the class (and it's parent controllers) and the method are combined. That is, the current user/token needs ALL of them.
+ * 
+ * The scopes of the current user/token are read from `req.user.scopes` or `req.user.scope` (an array or a space separated string, like the OAuth `scope` claim).
+ * When any are missing, an `AuthorizationError` (403) is forwarded to the error handling chain (see the `@ErrorHandler` decorator).
+ * 
+ * @example
+ * ```ts
+ * @Controller('/admin')
+ * @RequireScopes('admin')
+ * export class AdminController extends BaseController {
+ *     // Requires both the `admin` and `users:write` scopes
+ *     @RequireScopes('users:write')
+ *     @DELETE('/users/:id')
+ *     private deleteUser(@Param('id') id: string) {}
+ * }
+ * ```
+ * 
+ * @param scopes The scopes that are required
+ */
+export function RequireScopes(...scopes: string[]) {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        if(typeof propertyKey === 'undefined') {
+            const existingScopes = Reflect.getOwnMetadata(REQUIRE_SCOPES_METADATA_KEY, target) ?? [];
+            Reflect.defineMetadata(REQUIRE_SCOPES_METADATA_KEY, [...new Set([...scopes, ...existingScopes])], target);
+        }
+        else {
+            const existingScopes = Reflect.getOwnMetadata(REQUIRE_SCOPES_METADATA_KEY, target, propertyKey) ?? [];
+            Reflect.defineMetadata(REQUIRE_SCOPES_METADATA_KEY, [...new Set([...scopes, ...existingScopes])], target, propertyKey);
+        }
+    };
+}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { NextFunction } from 'express';
+import { NextHandleFunction } from 'connect';
+
+import { GET_METADATA_KEY } from './GET';
+import { POST_METADATA_KEY } from './POST';
+import { PUT_METADATA_KEY } from './PUT';
+import { DELETE_METADATA_KEY } from './DELETE';
+import { PATCH_METADATA_KEY } from './PATCH';
+import { HEAD_METADATA_KEY } from './HEAD';
+import { OPTIONS_METADATA_KEY } from './OPTIONS';
+import { ALL_METADATA_KEY } from './ALL';
+
+/** The metadata the route decorators (`@GET`, `@POST`, etc...) attach to the decorated method */
+export type RouteMetadata = {
+    /** The path of the route (relative to the controller's path) */
+    path: string,
+    /** The middleware to use with the route */
+    middleware: (NextHandleFunction | NextFunction)[]
+};
+
+/** An entry in the registry of HTTP methods that can be used for routes */
+export type RouteMethod = {
+    /** The human readable name of the HTTP method (ex. `GET`). This is used when listing the routes */
+    name: string,
+    /** The method on the Express app used to register a route for the HTTP method (ex. `get` for `app.get`) */
+    appMethod: 'get' | 'post' | 'put' | 'delete' | 'patch' | 'head' | 'options' | 'all',
+    /** The metadata key the method's decorator uses */
+    metadataKey: string
+};
+
+/** A route found in a controller */
+export type DiscoveredRoute = RouteMetadata & {
+    /** The HTTP method of the route */
+    method: RouteMethod,
+    /** The name of the method (in the controller) that handles the route */
+    propertyKey: string
+};
+
+/**
+ * The registry of HTTP methods that routes can be setup for.
+ *
+ * This is the single place both the `@Controller` decorator (when registering routes with Express) and the `Router` (when listing the routes) look for route metadata.
+ * That is, to support an additional HTTP method, add it's decorator and an entry here.
+ *
+ * Note, the order of this list is the order the routes of a controller are registered with Express.
+ * This matters because:
+ * - `HEAD` comes before `GET` because Express would otherwise answer HEAD requests with the GET route for the same path
+ * - `ALL` comes last so that routes for specific HTTP methods take precedence
+ */
+export const ROUTE_METHODS: RouteMethod[] = [
+    { name: 'HEAD', appMethod: 'head', metadataKey: HEAD_METADATA_KEY },
+    { name: 'GET', appMethod: 'get', metadataKey: GET_METADATA_KEY },
+    { name: 'POST', appMethod: 'post', metadataKey: POST_METADATA_KEY },
+    { name: 'PUT', appMethod: 'put', metadataKey: PUT_METADATA_KEY },
+    { name: 'PATCH', appMethod: 'patch', metadataKey: PATCH_METADATA_KEY },
+    { name: 'DELETE', appMethod: 'delete', metadataKey: DELETE_METADATA_KEY },
+    { name: 'OPTIONS', appMethod: 'options', metadataKey: OPTIONS_METADATA_KEY },
+    { name: 'ALL', appMethod: 'all', metadataKey: ALL_METADATA_KEY }
+];
+
+/**
+ * Get all the routes defined (by route decorators) on the methods of a controller class
+ *
+ * @param controller The controller class (the original class, not the one returned by the `@Controller` decorator)
+ * @returns The routes in the controller (in the order they should be registered)
+ */
+export function getRoutesInClass(controller: { prototype: any }): DiscoveredRoute[] {
+    const methods = Object.getOwnPropertyNames(controller.prototype);
+
+    return ROUTE_METHODS
+        .map(routeMethod => methods
+            // Find all methods that have the HTTP method's metadata key (ex. `@GET` decorator)
+            .filter(propertyKey => Reflect.getMetadata(routeMethod.metadataKey, controller.prototype, propertyKey))
+            .map(propertyKey => {
+                // Get the metadata object (which contains a path and middleware)
+                const route: RouteMetadata = Reflect.getMetadata(routeMethod.metadataKey, controller.prototype, propertyKey);
+
+                return { method: routeMethod, propertyKey: propertyKey, path: route.path, middleware: route.middleware };
+            })
+        )
+        .flat();
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+
+export const ROUTE_PARAMETERS_METADATA_KEY = 'RouteParameters';
+
+/** A function that gets the value for a parameter of a route's method from the request */
+export type RouteParameterResolver = (req: Request, res: Response, next: NextFunction) => unknown;
+
+/** The metadata the parameter decorators (`@Req`, `@Param`, etc...) attach to the decorated method */
+export type RouteParameterMetadata = {
+    /** The position of the parameter in the method's parameter list */
+    index: number,
+    /** The kind of parameter (ex. `param`, `query`, `header`). Mostly for debugging purposes */
+    type: string,
+    /** The name of the value (if applicable. Ex. `id` for `@Param('id')`) */
+    name?: string,
+    /** Gets the value of the parameter from the request */
+    resolve: RouteParameterResolver
+};
+
+/**
+ * Create a parameter decorator that injects a value from the request into a parameter of a route's method.
+ *
+ * This is the shared implementation of the parameter decorators (`@Req`, `@Res`, `@Param`, etc...).
+ *
+ * @param type The kind of parameter (ex. `param`)
+ * @param resolve Gets the value of the parameter from the request
+ * @param name The name of the value (if applicable)
+ * @returns The parameter decorator
+ */
+export function createRouteParameterDecorator(type: string, resolve: RouteParameterResolver, name?: string) {
+    return function (target: any, propertyKey: string | symbol | undefined, index: number) {
+        if(typeof propertyKey === 'undefined') {
+            throw new Error(`The parameter decorator for ${type} can only be used on a method's parameters (not a constructor's)`);
+        }
+
+        const existingParameters: RouteParameterMetadata[] = Reflect.getOwnMetadata(ROUTE_PARAMETERS_METADATA_KEY, target, propertyKey) ?? [];
+        Reflect.defineMetadata(ROUTE_PARAMETERS_METADATA_KEY, [...existingParameters, { index, type, name, resolve }], target, propertyKey);
+    };
+}
+
+/**
+ * Get the arguments to call a route's method with (based on it's parameter decorators)
+ *
+ * @param target The prototype of the controller class
+ * @param propertyKey The name of the route's method
+ * @param req The request
+ * @param res The response
+ * @param next The next function
+ * @returns The arguments to call the method with or undefined if the method doesn't use any parameter decorators (and should be called with the usual `req`, `res` and `next`)
+ */
+export function getRouteArguments(target: any, propertyKey: string, req: Request, res: Response, next: NextFunction): unknown[] | undefined {
+    const parameters: RouteParameterMetadata[] | undefined = Reflect.getMetadata(ROUTE_PARAMETERS_METADATA_KEY, target, propertyKey);
+
+    if(typeof parameters === 'undefined' || parameters.length === 0) {
+        return undefined;
+    }
+
+    const args: unknown[] = new Array(Math.max(...parameters.map(parameter => parameter.index)) + 1).fill(undefined);
+    parameters.forEach((parameter) => {
+        args[parameter.index] = parameter.resolve(req, res, next);
+    });
+
+    return args;
+}
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { getRequestSession } from '../utils/request';
+
+import { createRouteParameterDecorator } from './RouteParameters';
+
+/**
+ * Parameter decorator intended to be used on parameters of route methods (ex. `@GET`) of a class decorated with the `@Controller` decorator.
+ * 
+ * Injects the session of the request (`req.session`). This is undefined if no session middleware is used.
+ * 
+ * Note, once any parameter of a method uses a parameter decorator, the method is called with ONLY the decorated parameters (instead of the usual `req`, `res` and `next`).
+ */
+export function Session() {
+    return createRouteParameterDecorator('session', (req) => getRequestSession(req));
+}
\ No newline at end of file
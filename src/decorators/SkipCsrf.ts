@@ -0,0 +1,32 @@
+export const SKIP_CSRF_METADATA_KEY = 'SkipCsrf';
+
+/**
+ * Decorator to turn off CSRF verification for routes in a class decorated with the `@Controller` decorator.
+ * 
+ * When the `csrf` middleware is used, every state changing request (ex. `POST`, `PUT`, `PATCH` and `DELETE`) to a controller's routes has to include a valid CSRF token.
+ * Some routes can't (ex. webhooks called by other services), which is what this is for.
+ * 
+ * This can be used on the class itself (every route in the controller AND every route of it's child controllers) or on individual methods (routes).
+ * 
+ * Note, requests authenticated with a bearer token (see `BearerTokenOptions`) aren't checked either, because they don't rely on cookies.
+ * 
+ * @example
+ * ```ts
+ * @Controller('/webhooks')
+ * export class WebhookController extends BaseController {
+ *     @SkipCsrf()
+ *     @POST('/stripe', express.raw({ type: 'application/json' }))
+ *     private stripe(req: Request, res: Response) {}
+ * }
+ * ```
+ */
+export function SkipCsrf() {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        if(typeof propertyKey === 'undefined') {
+            Reflect.defineMetadata(SKIP_CSRF_METADATA_KEY, true, target);
+        }
+        else {
+            Reflect.defineMetadata(SKIP_CSRF_METADATA_KEY, true, target, propertyKey);
+        }
+    };
+}
\ No newline at end of file
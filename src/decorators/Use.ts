@@ -0,0 +1,49 @@
+import { NextFunction } from 'express';
+import { NextHandleFunction } from 'connect';
+
+export const USE_METADATA_KEY = 'Use';
+
+/**
+ * Decorator to apply middleware to routes in a class decorated with the `@Controller` decorator.
+ * 
+ * This can be used on the class itself or on individual methods (routes):
+ * - On the class, the middleware applies to every route in the controller AND every route of it's child controllers (see `@ChildController`)
+ * - On a method, the middleware applies only to that route
+ * 
+ * The middleware for a route runs in the following order (before the decorated method itself):
+ * 1. Class level `@Use` middleware of the parent controller(s) (outer most parent first)
+ * 2. Class level `@Use` middleware of the controller
+ * 3. Method level `@Use` middleware
+ * 4. Middleware given to the route decorator itself (ex. `@POST('/path', express.json())`)
+ * 
+ * Multiple `@Use` decorators on the same class or method run in the order they are written (top to bottom).
+ * 
+ * Note, when used on a class, this can be placed above or below the `@Controller` decorator.
+ * 
+ * @example
+ * ```ts
+ * @Controller('/account')
+ * @Use(requireLogin)
+ * export class AccountController extends BaseController {
+ *     @Use(rateLimit)
+ *     @POST('/password', express.urlencoded({ extended: true }))
+ *     private changePassword(req: Request, res: Response) {}
+ * }
+ * ```
+ * 
+ * @param middleware The middleware to apply
+ */
+export function Use(...middleware: (NextHandleFunction | NextFunction)[]) {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        // Because decorators are applied bottom to top, we prepend this decorator's middleware to any middleware already defined (by `@Use` decorators below this one)
+        // This way the middleware runs in the order the decorators are written
+        if(typeof propertyKey === 'undefined') {
+            const existingMiddleware = Reflect.getOwnMetadata(USE_METADATA_KEY, target) ?? [];
+            Reflect.defineMetadata(USE_METADATA_KEY, [...middleware, ...existingMiddleware], target);
+        }
+        else {
+            const existingMiddleware = Reflect.getOwnMetadata(USE_METADATA_KEY, target, propertyKey) ?? [];
+            Reflect.defineMetadata(USE_METADATA_KEY, [...middleware, ...existingMiddleware], target, propertyKey);
+        }
+    };
+}
\ No newline at end of file
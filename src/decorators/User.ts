@@ -0,0 +1,14 @@
+import { getRequestUser } from '../utils/request';
+
+import { createRouteParameterDecorator } from './RouteParameters';
+
+/**
+ * Parameter decorator intended to be used on parameters of route methods (ex. `@GET`) of a class decorated with the `@Controller` decorator.
+ * 
+ * Injects the currently logged in user (`req.user`). This is undefined if no user is logged in.
+ * 
+ * Note, once any parameter of a method uses a parameter decorator, the method is called with ONLY the decorated parameters (instead of the usual `req`, `res` and `next`).
+ */
+export function User() {
+    return createRouteParameterDecorator('user', (req) => getRequestUser(req));
+}
\ No newline at end of file
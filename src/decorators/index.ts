@@ -5,7 +5,30 @@ import { GET } from './GET';
 import { POST } from './POST';
 import { PUT } from './PUT';
 import { DELETE } from './DELETE';
+import { PATCH } from './PATCH';
+import { HEAD } from './HEAD';
+import { OPTIONS } from './OPTIONS';
+import { ALL } from './ALL';
+import { Use } from './Use';
+import { Layout } from './Layout';
+import { Body } from './Body';
+import { Query } from './Query';
+import { Params } from './Params';
+import { Req } from './Req';
+import { Res } from './Res';
+import { Next } from './Next';
+import { Param } from './Param';
+import { QueryParam } from './QueryParam';
+import { BodyField } from './BodyField';
+import { Header } from './Header';
+import { Session } from './Session';
+import { User } from './User';
+import { Injectable } from './Injectable';
+import { Inject } from './Inject';
 import { ErrorHandler } from './ErrorHandler';
+import { Authenticated } from './Authenticated';
+import { RequireScopes } from './RequireScopes';
+import { SkipCsrf } from './SkipCsrf';
 
 export { 
     Controller, 
@@ -15,5 +38,28 @@ export {
     POST, 
     PUT, 
     DELETE, 
-    ErrorHandler 
-};
+    PATCH, 
+    HEAD, 
+    OPTIONS, 
+    ALL, 
+    Use, 
+    Layout, 
+    Body, 
+    Query, 
+    Params, 
+    Req, 
+    Res, 
+    Next, 
+    Param, 
+    QueryParam, 
+    BodyField, 
+    Header, 
+    Session, 
+    User, 
+    Injectable, 
+    Inject, 
+    ErrorHandler, 
+    Authenticated, 
+    RequireScopes, 
+    SkipCsrf 
+};
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { Request } from 'express';
+
+import { RequestContext } from '../RequestContext';
+import { INJECTABLE_METADATA_KEY } from '../decorators/Injectable';
+import { INJECT_METADATA_KEY } from '../decorators/Inject';
+
+import { Constructor, InjectionToken, Scope, Provider, ClassProvider, ValueProvider, FactoryProvider } from './Provider';
+
+/** A provider in it's normalized (non-shorthand) form */
+type RegisteredProvider = ClassProvider | ValueProvider | FactoryProvider;
+
+/**
+ * A lightweight dependency injection container
+ *
+ * The container constructs classes (controllers, error controllers, services, etc...) resolving their constructor parameters from the container.
+ * Constructor parameters are resolved by their type (using the design type metadata TypeScript emits for decorated classes) or the token given by the `@Inject` decorator.
+ *
+ * Classes that aren't registered are constructed as needed (with the scope from their `@Injectable` decorator, if any).
+ */
+export class Container {
+    /** The registered providers */
+    private providers: Map<InjectionToken, RegisteredProvider>;
+
+    /** The instances of singleton scoped dependencies */
+    private singletons: Map<InjectionToken, any>;
+
+    /** The instances of request scoped dependencies (per request) */
+    private requestInstances: WeakMap<Request, Map<InjectionToken, any>>;
+
+    /** The tokens currently being resolved (used to detect circular dependencies) */
+    private resolving: InjectionToken[];
+
+    /** The scopes of the tokens currently being resolved (used to detect singletons that depend on something with a narrower scope) */
+    private resolvingScopes: Scope[];
+
+    constructor() {
+        this.providers = new Map();
+        this.singletons = new Map();
+        this.requestInstances = new WeakMap();
+        this.resolving = [];
+        this.resolvingScopes = [];
+
+        // The container can be injected itself (ex. for a factory that needs to resolve things dynamically)
+        this.register({ provide: Container, useValue: this });
+    }
+
+    /**
+     * Get a human readable name for a token (for error messages)
+     *
+     * @param token The token
+     * @returns The name of the token
+     */
+    private tokenName(token: InjectionToken) {
+        return typeof token === 'function' ? token.name : token.toString();
+    }
+
+    /**
+     * Register a provider (replacing any existing provider for the same token)
+     *
+     * @param provider The provider to register
+     * @returns The container (for chaining)
+     */
+    register(provider: Provider): this {
+        const registeredProvider: RegisteredProvider = typeof provider === 'function' ? { provide: provider, useClass: provider } : provider;
+
+        this.providers.set(registeredProvider.provide, registeredProvider);
+
+        // Clear any existing instance so that the new provider is used
+        this.singletons.delete(registeredProvider.provide);
+
+        return this;
+    }
+
+    /**
+     * Check if a token can be resolved
+     *
+     * @param token The token to check
+     * @returns If the token is registered (or is a class that can be constructed)
+     */
+    has(token: InjectionToken): boolean {
+        return this.providers.has(token) || typeof token === 'function';
+    }
+
+    /**
+     * Get the scope of a token
+     *
+     * @param token The token to get the scope of
+     * @returns The scope of the token
+     */
+    getScope(token: InjectionToken): Scope {
+        const provider = this.providers.get(token);
+
+        if(typeof provider !== 'undefined') {
+            if('useValue' in provider) {
+                return Scope.SINGLETON;
+            }
+
+            if(typeof provider.scope !== 'undefined') {
+                return provider.scope;
+            }
+
+            if('useClass' in provider) {
+                return this.getClassScope(provider.useClass);
+            }
+
+            return Scope.SINGLETON;
+        }
+
+        return typeof token === 'function' ? this.getClassScope(token) : Scope.SINGLETON;
+    }
+
+    /**
+     * Get the scope of a class from it's `@Injectable` decorator
+     *
+     * @param cls The class to get the scope of
+     * @returns The scope of the class (default is singleton)
+     */
+    private getClassScope(cls: Constructor): Scope {
+        const injectable = Reflect.getMetadata(INJECTABLE_METADATA_KEY, cls);
+
+        return typeof injectable !== 'undefined' ? injectable.scope : Scope.SINGLETON;
+    }
+
+    /**
+     * Construct a class resolving it's constructor parameters from the container
+     *
+     * @param cls The class to construct
+     * @returns The new instance
+     */
+    private construct<T>(cls: Constructor<T>): T {
+        const paramTypes: any[] = Reflect.getMetadata('design:paramtypes', cls) ?? [];
+        const injectTokens: { [index: number]: InjectionToken } = Reflect.getMetadata(INJECT_METADATA_KEY, cls) ?? {};
+
+        const args = paramTypes.map((paramType, index) => {
+            const token = typeof injectTokens[index] !== 'undefined' ? injectTokens[index] : paramType;
+
+            // TypeScript emits `Object` for interfaces, unions etc... (types that don't exist at runtime) and undefined for circular imports
+            if(typeof token === 'undefined' || token === Object) {
+                throw new Error(`Can't resolve parameter #${index} of ${cls.name}. If the parameter's type isn't a class, use the \`@Inject\` decorator to specify a token`);
+            }
+
+            return this.resolve(token);
+        });
+
+        return new cls(...args);
+    }
+
+    /**
+     * Create a new instance/value for a token (regardless of scope)
+     *
+     * @param token The token to create the value for
+     * @returns The value
+     */
+    private create<T>(token: InjectionToken<T>): T {
+        const provider = this.providers.get(token);
+
+        if(typeof provider === 'undefined') {
+            if(typeof token !== 'function') {
+                throw new Error(`No provider registered for ${this.tokenName(token)}`);
+            }
+
+            return this.construct(token);
+        }
+
+        if('useValue' in provider) {
+            return provider.useValue;
+        }
+
+        if('useFactory' in provider) {
+            return provider.useFactory(...(provider.inject ?? []).map(dependency => this.resolve(dependency)));
+        }
+
+        return this.construct(provider.useClass);
+    }
+
+    /**
+     * Resolve a token to it's value (constructing it, and it's dependencies, if needed)
+     *
+     * @param token The token to resolve
+     * @returns The value for the token
+     * @throws Error if the token can't be resolved (ex. nothing is registered for it, there is a circular dependency or a singleton depends on something with a narrower scope)
+     */
+    resolve<T>(token: InjectionToken<T>): T {
+        if(this.resolving.includes(token)) {
+            throw new Error(`Circular dependency detected: ${[...this.resolving, token].map(resolvingToken => this.tokenName(resolvingToken)).join(' -> ')}`);
+        }
+
+        const scope = this.getScope(token);
+
+        // A singleton keeps the dependencies it was created with for the whole app
+        // So a request scoped or transient dependency would be shared (ex. the first request's instance used for every request)
+        if(scope !== Scope.SINGLETON) {
+            const singletonIndex = this.resolvingScopes.lastIndexOf(Scope.SINGLETON);
+            if(singletonIndex !== -1) {
+                const chain = [...this.resolving.slice(singletonIndex), token].map(resolvingToken => this.tokenName(resolvingToken)).join(' -> ');
+
+                throw new Error(`${this.tokenName(this.resolving[singletonIndex])} is a singleton so it can't depend on ${this.tokenName(token)}, which is ${scope} scoped (${chain}). Make ${this.tokenName(this.resolving[singletonIndex])} ${scope} scoped as well`);
+            }
+        }
+
+        this.resolving.push(token);
+        this.resolvingScopes.push(scope);
+        try {
+            switch(scope) {
+                case Scope.TRANSIENT:
+                    return this.create(token);
+                case Scope.REQUEST: {
+                    const context = RequestContext.current();
+                    if(typeof context === 'undefined') {
+                        throw new Error(`${this.tokenName(token)} is request scoped and can only be resolved while handling a request`);
+                    }
+
+                    let instances = this.requestInstances.get(context.req);
+                    if(typeof instances === 'undefined') {
+                        instances = new Map();
+                        this.requestInstances.set(context.req, instances);
+                    }
+
+                    if(!instances.has(token)) {
+                        instances.set(token, this.create(token));
+                    }
+
+                    return instances.get(token);
+                }
+                case Scope.SINGLETON:
+                default:
+                    if(!this.singletons.has(token)) {
+                        this.singletons.set(token, this.create(token));
+                    }
+
+                    return this.singletons.get(token);
+            }
+        }
+        finally {
+            this.resolving.pop();
+            this.resolvingScopes.pop();
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+/** A class that can be constructed (and therefore resolved) by the container */
+export type Constructor<T = any> = new (...args: any[]) => T;
+
+/**
+ * What identifies a dependency in the container
+ * 
+ * Usually this is the class itself. But a string or symbol can be used for values that aren't classes (ex. configuration or a database client) with the `@Inject` decorator.
+ */
+export type InjectionToken<T = any> = Constructor<T> | string | symbol;
+
+/** How long an instance resolved by the container lives */
+export enum Scope {
+    /** One instance for the whole app (the default) */
+    SINGLETON = 'singleton',
+    /** One instance per request (ex. something that holds the current user) */
+    REQUEST = 'request',
+    /** A new instance every time it's resolved */
+    TRANSIENT = 'transient'
+}
+
+/** A provider that constructs a class (with it's constructor parameters resolved from the container) */
+export type ClassProvider<T = any> = {
+    provide: InjectionToken<T>,
+    useClass: Constructor<T>,
+    scope?: Scope
+};
+
+/** A provider for an existing value */
+export type ValueProvider<T = any> = {
+    provide: InjectionToken<T>,
+    useValue: T
+};
+
+/** A provider that calls a function to create the value */
+export type FactoryProvider<T = any> = {
+    provide: InjectionToken<T>,
+    useFactory: (...args: any[]) => T,
+    /** Tokens for the values to pass to the factory function (in order) */
+    inject?: InjectionToken[],
+    scope?: Scope
+};
+
+/** 
+ * Describes how the container gets the value for a token
+ * 
+ * A class on it's own is shorthand for `{ provide: TheClass, useClass: TheClass }`.
+ */
+export type Provider<T = any> = Constructor<T> | ClassProvider<T> | ValueProvider<T> | FactoryProvider<T>;
\ No newline at end of file
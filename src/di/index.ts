@@ -0,0 +1,13 @@
+import { Container } from './Container';
+import { Constructor, InjectionToken, Scope, Provider, ClassProvider, ValueProvider, FactoryProvider } from './Provider';
+
+export {
+    Container,
+    Constructor,
+    InjectionToken,
+    Scope,
+    Provider,
+    ClassProvider,
+    ValueProvider,
+    FactoryProvider
+};
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { TemplateDialect } from './TemplateDialect';
+
+/**
+ * The EJS (`.ejs`) template dialect
+ * 
+ * This is the original (and most complete) dialect. 
+ * The other dialects mirror what it does as closely as their engine allows.
+ */
+export class EJSDialect extends TemplateDialect {
+    /**
+     * Create a new EJS dialect
+     * 
+     * @param extension The file extension (view engine name) of the templates (default: `ejs`)
+     */
+    constructor(extension: string = 'ejs') {
+        super(extension);
+    }
+
+    comment(text: string) {
+        return `<%# ${text} %>`;
+    }
+
+    optionalValue(name: string, joinWith?: string) {
+        const expression = typeof joinWith !== 'undefined' ? `${name}.join('${joinWith}')` : name;
+
+        return `<% if(typeof ${name} !== 'undefined') { %><%= ${expression} %><% } %>`;
+    }
+
+    valueWithDefault(name: string, defaultValue: string) {
+        return `<%= typeof ${name} !== 'undefined' ? ${name} : '${defaultValue}' %>`;
+    }
+
+    staticAssetValue(url: string, property: 'url' | 'integrity') {
+        const fallback = property === 'url' ? url : '';
+
+        return `<%= typeof staticAsset !== 'undefined' ? staticAsset('${url}').${property} : '${fallback}' %>`;
+    }
+
+    csrfTokenMetaTag() {
+        return '<% if(typeof csrfMetaTag !== \'undefined\' && csrfMetaTag && typeof csrfToken !== \'undefined\') { %><meta name="csrf-token" content="<%= csrfToken() %>"><% } %>';
+    }
+
+    title() {
+        const titlePrefixPortion = '<% if (typeof titlePrefix !== \'undefined\') { %><%= titlePrefix %><% } %>';
+        const titlePortion = this.optionalValue('title');
+        const titleSuffixPortion = '<% if (typeof titleSuffix !== \'undefined\') { %><%= titleSuffix %><% } %>';
+
+        return `${titlePrefixPortion}${titlePortion}${titleSuffixPortion}`;
+    }
+
+    extraStylesBlock() {
+        let output = '';
+        
+        output += '<%# Add any additional stylesheets specified within a controller etc... %>' + '\n';
+        output += '<%# This can either be a singular string or a array of strings %>' + '\n';
+        output += '<%# Note, that the string should be the name of the stylesheet WITHOUT the `.css` extension and exist in the `css/` directory %>' + '\n';
+        output += '<%# Local stylesheets are referenced by their fingerprinted URL (with integrity) if the `staticAsset` helper is available (see `StaticFileResolver`) %>' + '\n';
+        output += '<% const styleAsset = function(style) { return typeof staticAsset !== \'undefined\' ? staticAsset(\'/css/\', style, \'.css\') : { url: \'/css/\' + style + \'.css\', integrity: \'\' }; }; %>' + '\n';
+        output += '<% if (typeof extraStyles !== \'undefined\') { %>' + '\n';
+        output += '\t' + '<% if (Array.isArray(extraStyles)) { %>' + '\n';
+        output += '\t\t' + '<%# Because it\'s an array, we need to loop through each stylesheet and include it %>' + '\n';
+        output += '\t\t' + '<% for (let style of extraStyles) { %>' + '\n';
+        output += '\t\t\t' + '<link rel="stylesheet" type="text/css" href="<%= styleAsset(style).url %>" integrity="<%= styleAsset(style).integrity %>" nonce="' + this.nonce() + '">' + '\n';
+        output += '\t\t' + '<% } %>' + '\n';
+        output += '\t' + '<% } else { %>' + '\n';
+        output += '\t\t' + '<%# Include the singular stylesheet %>' + '\n';
+        output += '\t\t' + '<link rel="stylesheet" type="text/css" href="<%= styleAsset(extraStyles).url %>" integrity="<%= styleAsset(extraStyles).integrity %>" nonce="' + this.nonce() + '">' + '\n';
+        output += '\t' + '<% } %>' + '\n';
+        output += '<% } %>';
+
+        return output;
+    }
+
+    extraScriptsBlock() {
+        let output = '';
+
+        output += '<!-- Controller specific scripts -->' + '\n';
+        output += '<%# Add any additional scripts specified within a controller etc...                                                                                                                                                           %>' + '\n';
+        output += '<%#                                                                                                                                                                                                                           %>' + '\n';
+        output += '<%# Note, that these can come in multiple formats as described in the table below:                                                                                                                                            %>' + '\n';
+        output += '<%# | Type   | Description                                         | Format                                                                  | Use Cases                                                                   |  %>' + '\n';
+        output += '<%# | ------ | --------------------------------------------------- | ----------------------------------------------------------------------- | --------------------------------------------------------------------------- |  %>' + '\n';
+        output += '<%# | string | The name of the script to include                   | `[script name]`                                                         | Simple include of the script                                                |  %>' + '\n';
+        output += '<%# | object | An object about the script to include               | `{ script: \'[script name]\', defer: [true/false] }`                      | Being more explicit about script\'s properties (ex. defer vs. async, etc...) |  %>' + '\n';
+        output += '<%# | array  | An array of strings or objects (as described above) | `[ \'[script name]\', { script: \'[script name]\', defer: [true/false] } ]` | Include multiple scripts                                                    |  %>' + '\n';
+        output += '<%#                                                                                                                                                                                                                           %>' + '\n';
+        output += '<%# The string or `.script` property of the object should be the script name WITHOUT the `.js` extension and exist in the `js/` directory if it\'s a "local" script.                                                           %>' + '\n';
+        output += '<%# Or should be the full URL if it\'s a "external" script                                                                                                                                                                     %>' + '\n';
+        output += '<%# Local scripts are referenced by their fingerprinted URL (with integrity) if the `staticAsset` helper is available (see `StaticFileResolver`) %>' + '\n';
+        output += '<% const scriptAsset = function(script) { return typeof staticAsset !== \'undefined\' ? staticAsset(\'/js/\', script, \'.js\') : { url: \'/js/\' + script + \'.js\', integrity: \'\' }; }; %>' + '\n';
+        output += '<% if (typeof extraScripts !== \'undefined\') { %>' + '\n';
+        output += '\t' + '<% if (Array.isArray(extraScripts)) { %>' + '\n';
+        output += '\t\t' + '<%# Because it\'s an array, we need to loop through each script and include it %>' + '\n';
+        output += '\t\t' + '<% for (let script of extraScripts) { %>' + '\n';
+        output += '\t\t\t' + '<% if(typeof script === \'object\') { %>' + '\n';
+        output += '\t\t\t\t' + '<%# Because the current array items is an object we use the `.script` and `.defer` properties to include it %>' + '\n';
+        output += '\t\t\t\t' + '<% if(script.script.startsWith(\'http\') || script.script.startsWith(\'https\')) { %>' + '\n';
+        output += '\t\t\t\t\t' + '<%# Because the `.script` property starts with `http` or `https` we assume it\'s an "external" script and include it as a straight URL %>' + '\n';
+        output += '\t\t\t\t\t' + '<% if(script.defer) { %>' + '\n';
+        output += '\t\t\t\t\t\t' + '<script type="application/javascript" src="<%= script.script %>" defer="" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t\t\t' + '<% } else { %>' + '\n';
+        output += '\t\t\t\t\t\t' + '<script type="application/javascript" src="<%= script.script %>" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t\t\t' + '<% } %>' + '\n';
+        output += '\t\t\t\t' + '<% } else { %>' + '\n';
+        output += '\t\t\t\t\t' + '<%# Because the `.script` property doesn\'t start with `http` or `https` we assume it\'s a "local" script and include it as a local script (from the `js/` folder and with a `.js` extension) %>' + '\n';
+        output += '\t\t\t\t\t' + '<% if(script.defer) { %>' + '\n';
+        output += '\t\t\t\t\t\t' + '<script type="application/javascript" src="<%= scriptAsset(script.script).url %>" integrity="<%= scriptAsset(script.script).integrity %>" defer="" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t\t\t' + '<% } else { %>' + '\n';
+        output += '\t\t\t\t\t\t' + '<script type="application/javascript" src="<%= scriptAsset(script.script).url %>" integrity="<%= scriptAsset(script.script).integrity %>" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t\t\t' + '<% } %>' + '\n';
+        output += '\t\t\t\t' + '<% } %>' + '\n';
+        output += '\t\t\t' + '<% } else { %>' + '\n';
+        output += '\t\t\t\t' + '<% if(script.startsWith(\'http\') || script.startsWith(\'https\')) { %>' + '\n';
+        output += '\t\t\t\t\t' + '<%# Because the string starts with `http` or `https` we assume it\'s an "external" script and include it as a straight URL %>' + '\n';
+        output += '\t\t\t\t\t' + '<script type="application/javascript" src="<%= script %>" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t\t' + '<% } else { %>' + '\n';
+        output += '\t\t\t\t\t' + '<%# Because the string doesn\'t start with `http` or `https` we assume it\'s a "local" script and include it as a local script (from the `js/` folder and with a `.js` extension) %>' + '\n';
+        output += '\t\t\t\t\t' + '<script type="application/javascript" src="<%= scriptAsset(script).url %>" integrity="<%= scriptAsset(script).integrity %>" defer="" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t\t' + '<% } %>' + '\n';
+        output += '\t\t\t' + '<% } %>' + '\n';
+        output += '\t\t' + '<% } %>' + '\n';
+        output += '\t' + '<% } else if (typeof extraScripts === \'object\') { %>' + '\n';
+        output += '\t\t' + '<% if(extraScripts.script.startsWith(\'http\') || extraScripts.script.startsWith(\'https\')) { %>' + '\n';
+        output += '\t\t\t' + '<%# Because the `.script` property of the singular object starts with `http` or `https` we assume it\'s an "external" script and include it as a straight URL %>' + '\n';
+        output += '\t\t\t' + '<% if(extraScripts.defer) { %>' + '\n';
+        output += '\t\t\t\t' + '<script type="application/javascript" src="<%= extraScripts.script %>" defer="" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t' + '<% } else { %>' + '\n';
+        output += '\t\t\t\t' + '<script type="application/javascript" src="<%= extraScripts.script %>" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t' + '<% } %>' + '\n';
+        output += '\t\t' + '<% } else { %>' + '\n';
+        output += '\t\t\t' + '<%# Because the `.script` property of the singular object doesn\'t start with `http` or `https` we assume it\'s a "local" script and include it as a local script (from the `js/` folder and with a `.js` extension) %>' + '\n';
+        output += '\t\t\t' + '<% if(extraScripts.defer) { %>' + '\n';
+        output += '\t\t\t\t' + '<script type="application/javascript" src="<%= scriptAsset(extraScripts.script).url %>" integrity="<%= scriptAsset(extraScripts.script).integrity %>" defer="" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t' + '<% } else { %>' + '\n';
+        output += '\t\t\t\t' + '<script type="application/javascript" src="<%= scriptAsset(extraScripts.script).url %>" integrity="<%= scriptAsset(extraScripts.script).integrity %>" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t' + '<% } %>' + '\n';
+        output += '\t\t' + '<% } %>' + '\n';
+        output += '\t' + '<% } else { %>' + '\n';
+        output += '\t\t' + '<% if(extraScripts.startsWith(\'http\') || extraScripts.startsWith(\'https\')) { %>' + '\n';
+        output += '\t\t\t' + '<%# Because the singular string starts with `http` or `https` we assume it\'s an "external" script and include it as a straight URL %>' + '\n';
+        output += '\t\t\t' + '<script type="application/javascript" src="<%= extraScripts %>" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t' + '<% } else { %>' + '\n';
+        output += '\t\t\t' + '<%# Because the singular string doesn\'t start with `http` or `https` we assume it\'s a "local" script and include it as a local script (from the `js/` folder and with a `.js` extension) %>' + '\n';
+        output += '\t\t\t' + '<script type="application/javascript" src="<%= scriptAsset(extraScripts).url %>" integrity="<%= scriptAsset(extraScripts).integrity %>" defer="" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t' + '<% } %>' + '\n';
+        output += '\t' + '<% } %>' + '\n';
+        output += '<% } %>' + '\n';
+
+        return output;
+    }
+
+    includeWithDefault(name: string, defaultTemplate: string) {
+        let output = '';
+
+        output += `<% if(typeof ${name} !== 'undefined') { %>` + '\n';
+        output += '\t' + `<%- include(${name}) %>` + '\n';
+        output += '<% } else { %>' + '\n';
+        output += '\t' + `<%- include('${defaultTemplate}.${this.extension}') %>` + '\n';
+        output += '<% } %>';
+
+        return output;
+    }
+
+    includePage() {
+        return '<%- include(page) %>';
+    }
+
+    prepare(serialized: string) {
+        return serialized
+            // Fixing the EJS tags
+            .replaceAll('&lt;%', '<%')
+            .replaceAll('%&gt;', '%>')
+            // Logical operators (particularly used within EJS tags)
+            .replaceAll('&amp;&amp;', '&&')
+            .replaceAll(' &gt; ', ' > ')
+            .replaceAll(' &lt; ', ' < ');
+    }
+}
\ No newline at end of file
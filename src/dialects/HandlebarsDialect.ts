@@ -0,0 +1,145 @@
+import { TemplateDialect } from './TemplateDialect';
+
+/**
+ * The Handlebars (`.hbs`/`.handlebars`) template dialect
+ * 
+ * Handlebars is deliberately logic-less so the generated template only uses the built-in helpers. Which means:
+ * - `extraStyles` and `extraScripts` need to be arrays (which they are when given through the `@Page` decorator)
+ * - Which extra scripts are "external" scripts (included as is rather than from `/js/<script name>.js`) comes from the `externalScripts` render parameter.
+ *   Which `@Page` provides (see `renderPage`), so external scripts given to `res.render` directly need to be added to `externalScripts` as well
+ * - The page, header and footer are included as partials. So the views directory needs to be registered as a partials directory (ex. `hbs.registerPartials(viewsDir)`)
+ *   and the page given to `@Page` is the partial's name (ex. `home` rather than `home.hbs`)
+ */
+export class HandlebarsDialect extends TemplateDialect {
+    /**
+     * Create a new Handlebars dialect
+     * 
+     * @param extension The file extension (view engine name) of the templates (default: `hbs`)
+     */
+    constructor(extension: string = 'hbs') {
+        super(extension);
+    }
+
+    comment(text: string) {
+        return `{{!-- ${text} --}}`;
+    }
+
+    optionalValue(name: string, joinWith?: string) {
+        if(typeof joinWith !== 'undefined') {
+            return `{{#each ${name}}}{{#unless @first}}${joinWith}{{/unless}}{{this}}{{/each}}`;
+        }
+
+        return `{{#if ${name}}}{{${name}}}{{/if}}`;
+    }
+
+    valueWithDefault(name: string, defaultValue: string) {
+        return `{{#if ${name}}}{{${name}}}{{else}}${defaultValue}{{/if}}`;
+    }
+
+    nonce() {
+        // The tags that use the nonce are mostly within `#each` blocks (where the context is the current item), so the nonce is looked up from the root
+        return '{{@root.cspNonce}}';
+    }
+
+    /**
+     * The URL or integrity of a local static file for use in an attribute value
+     * 
+     * This comes from the `staticAsset` helper if it's available (see `StaticFileResolver`). Otherwise it's the plain URL (and no integrity).
+     * 
+     * @param directory The directory of the file (ex. `/css/`)
+     * @param name The expression for the name of the file without the extension (ex. `this`)
+     * @param extension The extension of the file (ex. `.css`)
+     * @param property If it's the URL or the integrity
+     * @returns The template syntax for the attribute value
+     */
+    private staticAsset(directory: string, name: string, extension: string, property: 'url' | 'integrity') {
+        const fallback = property === 'url' ? `${directory}{{${name}}}${extension}` : '';
+
+        return `{{#if @root.staticAsset}}{{#with (@root.staticAsset '${directory}' ${name} '${extension}')}}{{${property}}}{{/with}}{{else}}${fallback}{{/if}}`;
+    }
+
+    staticAssetValue(url: string, property: 'url' | 'integrity') {
+        const fallback = property === 'url' ? url : '';
+
+        return `{{#if @root.staticAsset}}{{#with (@root.staticAsset '${url}')}}{{${property}}}{{/with}}{{else}}${fallback}{{/if}}`;
+    }
+
+    csrfTokenMetaTag() {
+        // Note, Handlebars calls functions when outputting them (`csrfToken` is undefined, and outputs nothing, if the `csrf` middleware isn't used)
+        return '{{#if csrfMetaTag}}<meta name="csrf-token" content="{{csrfToken}}">{{/if}}';
+    }
+
+    title() {
+        return `${this.optionalValue('titlePrefix')}${this.optionalValue('title')}${this.optionalValue('titleSuffix')}`;
+    }
+
+    extraStylesBlock() {
+        let output = '';
+
+        output += '{{!-- Add any additional stylesheets specified within a controller etc... --}}' + '\n';
+        output += '{{!-- This should be an array of the names of the stylesheets WITHOUT the `.css` extension in the `css/` directory --}}' + '\n';
+        output += '{{!-- Stylesheets are referenced by their fingerprinted URL (with integrity) if the `staticAsset` helper is available (see `StaticFileResolver`) --}}' + '\n';
+        output += '{{#each extraStyles}}' + '\n';
+        output += '\t' + '<link rel="stylesheet" type="text/css" href="' + this.staticAsset('/css/', 'this', '.css', 'url') + '" integrity="' + this.staticAsset('/css/', 'this', '.css', 'integrity') + '" nonce="' + this.nonce() + '">' + '\n';
+        output += '{{/each}}';
+
+        return output;
+    }
+
+    extraScriptsBlock() {
+        let output = '';
+
+        output += '<!-- Controller specific scripts -->' + '\n';
+        output += '{{!-- Add any additional scripts specified within a controller etc... --}}' + '\n';
+        output += '{{!-- This should be an array of script names or objects (`{ script: \'script name\', defer: true/false }`) for scripts WITHOUT the `.js` extension in the `js/` directory --}}' + '\n';
+        output += '{{!-- Or the full URL if it\'s an "external" script (`externalScripts` has the scripts that are external, which `@Page` provides) --}}' + '\n';
+        output += '{{!-- Local scripts are referenced by their fingerprinted URL (with integrity) if the `staticAsset` helper is available (see `StaticFileResolver`) --}}' + '\n';
+        output += '{{#each extraScripts}}' + '\n';
+        output += '\t' + '{{#if this.script}}' + '\n';
+        output += '\t\t' + '{{#if (lookup @root.externalScripts this.script)}}' + '\n';
+        output += '\t\t\t' + '{{#if this.defer}}' + '\n';
+        output += '\t\t\t\t' + '<script type="application/javascript" src="{{this.script}}" defer="" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t' + '{{else}}' + '\n';
+        output += '\t\t\t\t' + '<script type="application/javascript" src="{{this.script}}" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t' + '{{/if}}' + '\n';
+        output += '\t\t' + '{{else}}' + '\n';
+        output += '\t\t\t' + '{{#if this.defer}}' + '\n';
+        output += '\t\t\t\t' + '<script type="application/javascript" src="' + this.staticAsset('/js/', 'this.script', '.js', 'url') + '" integrity="' + this.staticAsset('/js/', 'this.script', '.js', 'integrity') + '" defer="" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t' + '{{else}}' + '\n';
+        output += '\t\t\t\t' + '<script type="application/javascript" src="' + this.staticAsset('/js/', 'this.script', '.js', 'url') + '" integrity="' + this.staticAsset('/js/', 'this.script', '.js', 'integrity') + '" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t\t' + '{{/if}}' + '\n';
+        output += '\t\t' + '{{/if}}' + '\n';
+        output += '\t' + '{{else}}' + '\n';
+        output += '\t\t' + '{{#if (lookup @root.externalScripts this)}}' + '\n';
+        output += '\t\t\t' + '<script type="application/javascript" src="{{this}}" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t' + '{{else}}' + '\n';
+        output += '\t\t\t' + '<script type="application/javascript" src="' + this.staticAsset('/js/', 'this', '.js', 'url') + '" integrity="' + this.staticAsset('/js/', 'this', '.js', 'integrity') + '" defer="" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t' + '{{/if}}' + '\n';
+        output += '\t' + '{{/if}}' + '\n';
+        output += '{{/each}}' + '\n';
+
+        return output;
+    }
+
+    includeWithDefault(name: string, defaultTemplate: string) {
+        let output = '';
+
+        output += `{{#if ${name}}}` + '\n';
+        output += '\t' + `{{> (lookup . '${name}')}}` + '\n';
+        output += '{{else}}' + '\n';
+        output += '\t' + `{{> ${defaultTemplate}}}` + '\n';
+        output += '{{/if}}';
+
+        return output;
+    }
+
+    includePage() {
+        return `{{> (lookup . 'page')}}`;
+    }
+
+    prepare(serialized: string) {
+        return serialized
+            // Fixing the partial tags
+            .replaceAll('{{&gt;', '{{>');
+    }
+}
\ No newline at end of file
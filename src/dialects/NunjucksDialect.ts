@@ -0,0 +1,106 @@
+import { TemplateDialect } from './TemplateDialect';
+
+/**
+ * The Nunjucks (`.njk`) template dialect
+ */
+export class NunjucksDialect extends TemplateDialect {
+    /**
+     * Create a new Nunjucks dialect
+     * 
+     * @param extension The file extension (view engine name) of the templates (default: `njk`)
+     */
+    constructor(extension: string = 'njk') {
+        super(extension);
+    }
+
+    comment(text: string) {
+        return `{# ${text} #}`;
+    }
+
+    optionalValue(name: string, joinWith?: string) {
+        const expression = typeof joinWith !== 'undefined' ? `${name} | join('${joinWith}')` : name;
+
+        return `{% if ${name} is defined %}{{ ${expression} }}{% endif %}`;
+    }
+
+    valueWithDefault(name: string, defaultValue: string) {
+        return `{{ ${name} | default('${defaultValue}') }}`;
+    }
+
+    staticAssetValue(url: string, property: 'url' | 'integrity') {
+        const fallback = property === 'url' ? url : '';
+
+        return `{{ staticAsset('${url}').${property} if staticAsset is defined else '${fallback}' }}`;
+    }
+
+    csrfTokenMetaTag() {
+        return '{% if csrfMetaTag and csrfToken is defined %}<meta name="csrf-token" content="{{ csrfToken() }}">{% endif %}';
+    }
+
+    title() {
+        return `${this.optionalValue('titlePrefix')}${this.optionalValue('title')}${this.optionalValue('titleSuffix')}`;
+    }
+
+    extraStylesBlock() {
+        let output = '';
+
+        output += '{# Add any additional stylesheets specified within a controller etc... #}' + '\n';
+        output += '{# This can either be a singular string or a array of strings (the name of the stylesheet WITHOUT the `.css` extension in the `css/` directory) #}' + '\n';
+        output += '{% if extraStyles is defined %}' + '\n';
+        output += '\t' + '{% for style in ([extraStyles] if extraStyles is string else extraStyles) %}' + '\n';
+        output += '\t\t' + '{# Local stylesheets are referenced by their fingerprinted URL (with integrity) if the `staticAsset` helper is available (see `StaticFileResolver`) #}' + '\n';
+        output += '\t\t' + '{% set styleAsset = staticAsset(\'/css/\', style, \'.css\') if staticAsset is defined else { \'url\': \'/css/\' + style + \'.css\', \'integrity\': \'\' } %}' + '\n';
+        output += '\t\t' + '<link rel="stylesheet" type="text/css" href="{{ styleAsset.url }}" integrity="{{ styleAsset.integrity }}" nonce="' + this.nonce() + '">' + '\n';
+        output += '\t' + '{% endfor %}' + '\n';
+        output += '{% endif %}';
+
+        return output;
+    }
+
+    extraScriptsBlock() {
+        let output = '';
+
+        output += '<!-- Controller specific scripts -->' + '\n';
+        output += '{# Add any additional scripts specified within a controller etc... #}' + '\n';
+        output += '{# These can be the name of the script, an object (`{ script: \'script name\', defer: true/false }`) or an array of either #}' + '\n';
+        output += '{# Scripts starting with `http` are "external" scripts and included as is. Otherwise they are "local" scripts (WITHOUT the `.js` extension in the `js/` directory) #}' + '\n';
+        output += '{% if extraScripts is defined %}' + '\n';
+        output += '\t' + '{% for script in ([extraScripts] if (extraScripts is string or extraScripts is mapping) else extraScripts) %}' + '\n';
+        output += '\t\t' + '{% set scriptName = script.script if script is mapping else script %}' + '\n';
+        output += '\t\t' + '{% set isExternal = scriptName.startsWith(\'http\') %}' + '\n';
+        output += '\t\t' + '{# Local scripts are referenced by their fingerprinted URL (with integrity) if the `staticAsset` helper is available (see `StaticFileResolver`) #}' + '\n';
+        output += '\t\t' + '{% set scriptAsset = { \'url\': scriptName, \'integrity\': \'\' } if isExternal else (staticAsset(\'/js/\', scriptName, \'.js\') if staticAsset is defined else { \'url\': \'/js/\' + scriptName + \'.js\', \'integrity\': \'\' }) %}' + '\n';
+        output += '\t\t' + '{% if (script.defer if script is mapping else not isExternal) %}' + '\n';
+        output += '\t\t\t' + '<script type="application/javascript" src="{{ scriptAsset.url }}" integrity="{{ scriptAsset.integrity }}" defer="" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t' + '{% else %}' + '\n';
+        output += '\t\t\t' + '<script type="application/javascript" src="{{ scriptAsset.url }}" integrity="{{ scriptAsset.integrity }}" nonce="' + this.nonce() + '"></script>' + '\n';
+        output += '\t\t' + '{% endif %}' + '\n';
+        output += '\t' + '{% endfor %}' + '\n';
+        output += '{% endif %}' + '\n';
+
+        return output;
+    }
+
+    includeWithDefault(name: string, defaultTemplate: string) {
+        let output = '';
+
+        output += `{% if ${name} is defined %}` + '\n';
+        output += '\t' + `{% include ${name} %}` + '\n';
+        output += '{% else %}' + '\n';
+        output += '\t' + `{% include '${defaultTemplate}.${this.extension}' %}` + '\n';
+        output += '{% endif %}';
+
+        return output;
+    }
+
+    includePage() {
+        return '{% include page %}';
+    }
+
+    prepare(serialized: string) {
+        return serialized
+            // Comparison operators (particularly used within Nunjucks tags)
+            .replaceAll(' &gt; ', ' > ')
+            .replaceAll(' &lt; ', ' < ');
+    }
+}
\ No newline at end of file
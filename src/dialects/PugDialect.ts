@@ -0,0 +1,134 @@
+import path from 'path';
+import { Application } from 'express';
+
+import { TemplateDialect } from './TemplateDialect';
+
+/** The name of the helper function (render parameter) the Pug templates use to include templates dynamically */
+const INCLUDE_HELPER = 'includeTemplate';
+
+/** The value of the `nonce` attribute for tags written in Pug's syntax (Pug leaves out attributes that are undefined) */
+const PUG_NONCE = '(typeof cspNonce !== \'undefined\' ? cspNonce : undefined)';
+
+/**
+ * The Pug (`.pug`) template dialect
+ * 
+ * The generated template is mostly plain HTML (Pug passes lines starting with `<` through as is) with Pug code in between.
+ * 
+ * Note, Pug's `include` is resolved at compile time so it can't include the page given as a render parameter.
+ * Instead the templates use an `includeTemplate` helper (see `setup`) that renders the given template.
+ */
+export class PugDialect extends TemplateDialect {
+    /**
+     * Create a new Pug dialect
+     * 
+     * @param extension The file extension (view engine name) of the templates (default: `pug`)
+     */
+    constructor(extension: string = 'pug') {
+        super(extension);
+    }
+
+    comment(text: string) {
+        return `//- ${text}`;
+    }
+
+    optionalValue(name: string, joinWith?: string) {
+        const expression = typeof joinWith !== 'undefined' ? `${name}.join('${joinWith}')` : name;
+
+        return `#{typeof ${name} !== 'undefined' ? ${expression} : ''}`;
+    }
+
+    valueWithDefault(name: string, defaultValue: string) {
+        return `#{typeof ${name} !== 'undefined' ? ${name} : '${defaultValue}'}`;
+    }
+
+    staticAssetValue(url: string, property: 'url' | 'integrity') {
+        const fallback = property === 'url' ? url : '';
+
+        return `#{typeof staticAsset !== 'undefined' ? staticAsset('${url}').${property} : '${fallback}'}`;
+    }
+
+    csrfTokenMetaTag() {
+        let output = '';
+
+        output += 'if typeof csrfMetaTag !== \'undefined\' && csrfMetaTag && typeof csrfToken !== \'undefined\'' + '\n';
+        output += '\t' + 'meta(name=\'csrf-token\' content=csrfToken())';
+
+        return output;
+    }
+
+    title() {
+        return `${this.optionalValue('titlePrefix')}${this.optionalValue('title')}${this.optionalValue('titleSuffix')}`;
+    }
+
+    extraStylesBlock() {
+        let output = '';
+
+        output += '//- Add any additional stylesheets specified within a controller etc...' + '\n';
+        output += '//- This can either be a singular string or a array of strings (the name of the stylesheet WITHOUT the `.css` extension in the `css/` directory)' + '\n';
+        output += 'if typeof extraStyles !== \'undefined\'' + '\n';
+        output += '\t' + 'each style in (Array.isArray(extraStyles) ? extraStyles : [extraStyles])' + '\n';
+        output += '\t\t' + '//- Local stylesheets are referenced by their fingerprinted URL (with integrity) if the `staticAsset` helper is available (see `StaticFileResolver`)' + '\n';
+        output += '\t\t' + '- const styleAsset = typeof staticAsset !== \'undefined\' ? staticAsset(\'/css/\', style, \'.css\') : { url: \'/css/\' + style + \'.css\', integrity: \'\' }' + '\n';
+        output += '\t\t' + `link(rel='stylesheet' type='text/css' href=styleAsset.url integrity=(styleAsset.integrity || undefined) nonce=${PUG_NONCE})`;
+
+        return output;
+    }
+
+    extraScriptsBlock() {
+        let output = '';
+
+        output += '<!-- Controller specific scripts -->' + '\n';
+        output += '//- Add any additional scripts specified within a controller etc...' + '\n';
+        output += '//- These can be the name of the script, an object (`{ script: \'script name\', defer: true/false }`) or an array of either' + '\n';
+        output += '//- Scripts starting with `http` are "external" scripts and included as is. Otherwise they are "local" scripts (WITHOUT the `.js` extension in the `js/` directory)' + '\n';
+        output += 'if typeof extraScripts !== \'undefined\'' + '\n';
+        output += '\t' + 'each script in (Array.isArray(extraScripts) ? extraScripts : [extraScripts])' + '\n';
+        output += '\t\t' + '- const scriptName = typeof script === \'object\' ? script.script : script' + '\n';
+        output += '\t\t' + '- const isExternal = scriptName.startsWith(\'http\')' + '\n';
+        output += '\t\t' + '//- Local scripts are referenced by their fingerprinted URL (with integrity) if the `staticAsset` helper is available (see `StaticFileResolver`)' + '\n';
+        output += '\t\t' + '- const scriptAsset = isExternal ? { url: scriptName, integrity: \'\' } : (typeof staticAsset !== \'undefined\' ? staticAsset(\'/js/\', scriptName, \'.js\') : { url: \'/js/\' + scriptName + \'.js\', integrity: \'\' })' + '\n';
+        output += '\t\t' + 'script(type=\'application/javascript\' src=scriptAsset.url integrity=(scriptAsset.integrity || undefined) defer=(typeof script === \'object\' ? script.defer : !isExternal) nonce=' + PUG_NONCE + ')' + '\n';
+
+        return output;
+    }
+
+    includeWithDefault(name: string, defaultTemplate: string) {
+        let output = '';
+
+        // Pug is line based, so the block needs to be on it's own lines (rather than inline with the surrounding tags)
+        output += '\n';
+        output += `!= ${INCLUDE_HELPER}(typeof ${name} !== 'undefined' ? ${name} : '${defaultTemplate}.${this.extension}', locals)` + '\n';
+
+        return output;
+    }
+
+    includePage() {
+        return '\n' + `!= ${INCLUDE_HELPER}(page, locals)` + '\n';
+    }
+
+    prepare(serialized: string) {
+        return serialized
+            // Pug only renders HTML5 style (ex. `<link>` rather than `<link/>`) if it's own doctype is used
+            .replace('<!DOCTYPE html>', 'doctype html\n')
+            // Comparison operators (particularly used within Pug code)
+            .replaceAll(' &gt; ', ' > ')
+            .replaceAll(' &lt; ', ' < ')
+            .replaceAll('&amp;&amp;', '&&');
+    }
+
+    /**
+     * Add the `includeTemplate` helper the templates use to include other templates (ex. the page) to the app's locals
+     * 
+     * Note, Pug is required when the helper is used (the app using Pug as it's view engine means it's installed)
+     * 
+     * @param app The Express app the templates are rendered by
+     * @param viewsDir The path to the views directory
+     */
+    setup(app: Application, viewsDir: string) {
+        app.locals[INCLUDE_HELPER] = (template: string, locals: { [key: string]: any }) => {
+            const templatePath = path.resolve(viewsDir, path.extname(template) !== '' ? template : `${template}.${this.extension}`);
+
+            return require('pug').renderFile(templatePath, locals);
+        };
+    }
+}
\ No newline at end of file
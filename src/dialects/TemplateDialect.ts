@@ -0,0 +1,140 @@
+import { Application } from 'express';
+
+/**
+ * The syntax of a template (view) engine used when generating a base template (see `BaseTemplateCreator`)
+ * 
+ * The base template has the same structure regardless of the engine (head/meta tags, skip link, header, main and footer).
+ * But the parts that are dynamic (ex. the page's title, the extra scripts/styles and including the page itself) are written in the engine's own syntax.
+ * A dialect provides those dynamic parts for a particular engine.
+ * 
+ * Note, the output of these methods is put inside the document (via `innerHTML`) before it's serialized. 
+ * So template syntax shouldn't be used within an element's tag itself (other than in attribute values) because the HTML parser mangles it.
+ */
+export abstract class TemplateDialect {
+    /** The file extension of the templates (which is also the name of the view engine. Ex. `ejs`) */
+    readonly extension: string;
+
+    /**
+     * Create a new template dialect
+     * 
+     * @param extension The file extension (view engine name) of the templates
+     */
+    constructor(extension: string) {
+        this.extension = extension;
+    }
+
+    /**
+     * A comment that isn't included in the rendered output (ex. the marker at the top of a generated template)
+     * 
+     * @param text The text of the comment (a single line)
+     * @returns The template syntax for the comment
+     */
+    abstract comment(text: string): string;
+
+    /**
+     * Output a render parameter only if it was given (ex. the content of the meta description tag)
+     * 
+     * @param name The name of the render parameter
+     * @param joinWith If the parameter is an array, the string to join the items with (ex. `, ` for keywords)
+     * @returns The template syntax for outputting the parameter
+     */
+    abstract optionalValue(name: string, joinWith?: string): string;
+
+    /**
+     * Output a render parameter or a default value if it wasn't given (ex. the `lang` of the document)
+     * 
+     * @param name The name of the render parameter
+     * @param defaultValue The value to output if the parameter isn't given
+     * @returns The template syntax for outputting the parameter
+     */
+    abstract valueWithDefault(name: string, defaultValue: string): string;
+
+    /**
+     * The value of the `nonce` attribute of script and style tags (the `cspNonce` render parameter, set by the `securityHeaders` middleware)
+     * 
+     * This is what allows the tags under a Content Security Policy that uses nonces. Without the middleware the attribute is empty (and has no effect).
+     * 
+     * @returns The template syntax for the nonce
+     */
+    nonce() {
+        return this.optionalValue('cspNonce');
+    }
+
+    /**
+     * The URL or integrity of a local static file for use in an attribute value (ex. the `href` of the base stylesheet)
+     * 
+     * This comes from the `staticAsset` helper if it's available (see `StaticFileResolver`). Otherwise it's the plain URL (and no integrity).
+     * 
+     * @param url The plain URL of the file (ex. `/css/style.css`)
+     * @param property If it's the URL or the integrity
+     * @returns The template syntax for the attribute value
+     */
+    abstract staticAssetValue(url: string, property: 'url' | 'integrity'): string;
+
+    /**
+     * The meta tag with the CSRF token (for scripts, ex. `fetch` with the `X-CSRF-Token` header)
+     * 
+     * The tag is only output if the `csrfMetaTag` render parameter is set and the `csrf` middleware is used (which provides the `csrfToken` function).
+     * Otherwise every page would create the token (and with it a session or cookie), even if it doesn't need one.
+     * 
+     * @returns The template syntax for the meta tag
+     */
+    abstract csrfTokenMetaTag(): string;
+
+    /**
+     * The contents of the title tag (the `titlePrefix`, `title` and `titleSuffix` render parameters)
+     * 
+     * @returns The template syntax for the title
+     */
+    abstract title(): string;
+
+    /**
+     * The block that includes the extra stylesheets specified by a page (the `extraStyles` render parameter)
+     * 
+     * @returns The template syntax for the extra styles block
+     */
+    abstract extraStylesBlock(): string;
+
+    /**
+     * The block that includes the extra scripts specified by a page (the `extraScripts` render parameter)
+     * 
+     * @returns The template syntax for the extra scripts block
+     */
+    abstract extraScriptsBlock(): string;
+
+    /**
+     * Include the template given as a render parameter or a default template if the parameter isn't given (ex. the header and footer)
+     * 
+     * @param name The name of the render parameter (ex. `header`)
+     * @param defaultTemplate The template to include otherwise (relative to the views directory and without the extension. Ex. `includes/header`)
+     * @returns The template syntax for the include
+     */
+    abstract includeWithDefault(name: string, defaultTemplate: string): string;
+
+    /**
+     * Include the page's template (the `page` render parameter)
+     * 
+     * @returns The template syntax for including the page
+     */
+    abstract includePage(): string;
+
+    /**
+     * Fix up the serialized document so that it's a valid template
+     * 
+     * Serializing the document escapes characters used by the template syntax (ex. `<` becomes `&lt;`) which need to be reverted.
+     * 
+     * @param serialized The serialized document
+     * @returns The template
+     */
+    abstract prepare(serialized: string): string;
+
+    /**
+     * Setup anything the generated templates need at render time (ex. helper functions)
+     * 
+     * By default there is nothing to setup.
+     * 
+     * @param app The Express app the templates are rendered by
+     * @param viewsDir The path to the views directory
+     */
+    setup(app: Application, viewsDir: string) {}
+}
\ No newline at end of file
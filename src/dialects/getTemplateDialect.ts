@@ -0,0 +1,28 @@
+import { TemplateDialect } from './TemplateDialect';
+import { EJSDialect } from './EJSDialect';
+import { PugDialect } from './PugDialect';
+import { HandlebarsDialect } from './HandlebarsDialect';
+import { NunjucksDialect } from './NunjucksDialect';
+
+/**
+ * Get the template dialect for a view engine
+ * 
+ * @param engine The name of the view engine (ex. `ejs`, `pug`, `hbs`, `njk`)
+ * @returns The dialect for the engine or undefined if base templates can't be generated for the engine
+ */
+export function getTemplateDialect(engine: string): TemplateDialect | undefined {
+    switch(engine) {
+        case 'ejs':
+            return new EJSDialect(engine);
+        case 'pug':
+            return new PugDialect(engine);
+        case 'hbs':
+        case 'handlebars':
+            return new HandlebarsDialect(engine);
+        case 'njk':
+        case 'nunjucks':
+            return new NunjucksDialect(engine);
+        default:
+            return undefined;
+    }
+}
\ No newline at end of file
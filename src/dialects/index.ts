@@ -0,0 +1,15 @@
+import { TemplateDialect } from './TemplateDialect';
+import { EJSDialect } from './EJSDialect';
+import { PugDialect } from './PugDialect';
+import { HandlebarsDialect } from './HandlebarsDialect';
+import { NunjucksDialect } from './NunjucksDialect';
+import { getTemplateDialect } from './getTemplateDialect';
+
+export {
+    TemplateDialect,
+    EJSDialect,
+    PugDialect,
+    HandlebarsDialect,
+    NunjucksDialect,
+    getTemplateDialect
+};
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { HttpError } from './HttpError';
+
+/**
+ * The error that is forwarded to the error handling chain when a route requires a logged in user (see the `@Authenticated` and `@RequireScopes` decorators) and there isn't one
+ * 
+ * The status is 401 (Unauthorized).
+ */
+export class AuthenticationError extends HttpError {
+    /**
+     * Create a new authentication error
+     * 
+     * @param message A human readable message describing the error
+     */
+    constructor(message: string = 'Authentication is required') {
+        super(401, message);
+        this.name = 'AuthenticationError';
+    }
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { HttpError } from './HttpError';
+
+/**
+ * The error that is forwarded to the error handling chain when the current user/token doesn't have the scopes a route requires (see the `@RequireScopes` decorator)
+ * 
+ * The status is 403 (Forbidden).
+ */
+export class AuthorizationError extends HttpError {
+    /** The scopes the route requires */
+    public readonly requiredScopes: string[];
+
+    /** The required scopes the user/token doesn't have */
+    public readonly missingScopes: string[];
+
+    /**
+     * Create a new authorization error
+     * 
+     * @param requiredScopes The scopes the route requires
+     * @param missingScopes The required scopes the user/token doesn't have
+     */
+    constructor(requiredScopes: string[], missingScopes: string[]) {
+        super(403, `Missing required scopes: ${missingScopes.join(', ')}`);
+        this.name = 'AuthorizationError';
+        this.requiredScopes = requiredScopes;
+        this.missingScopes = missingScopes;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { HttpError } from './HttpError';
+
+/**
+ * The error that is forwarded to the error handling chain when a state changing request (ex. a form post) doesn't have a valid CSRF token (see the `csrf` middleware)
+ * 
+ * The status is 403 (Forbidden).
+ */
+export class CsrfError extends HttpError {
+    /**
+     * Create a new CSRF error
+     * 
+     * @param message A human readable message describing the error
+     */
+    constructor(message: string = 'Invalid or missing CSRF token') {
+        super(403, message);
+        this.name = 'CsrfError';
+    }
+}
\ No newline at end of file
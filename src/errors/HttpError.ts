@@ -0,0 +1,42 @@
+/**
+ * An error that corresponds to a particular HTTP status code
+ * 
+ * When one of these reaches the error handling chain the status code of the response is set to the error's status.
+ * Which means it's handled by the error controller (see the `@ErrorHandler` decorator) for that status code.
+ */
+export class HttpError extends Error {
+    /** The HTTP status code of the error (ex. 404) */
+    public readonly status: number;
+
+    /**
+     * Create a new HTTP error
+     * 
+     * @param status The HTTP status code of the error
+     * @param message A human readable message describing the error
+     */
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+/**
+ * Get the HTTP status code that corresponds to an error
+ * 
+ * This is the error's `status` (or `statusCode`) if it has a valid (4xx or 5xx) one, otherwise 500 (Internal Server Error).
+ * 
+ * @param error The error to get the status code of
+ * @returns The HTTP status code
+ */
+export function getErrorStatus(error: unknown): number {
+    if(typeof error === 'object' && error !== null) {
+        const status = 'status' in error ? error.status : ('statusCode' in error ? error.statusCode : undefined);
+        
+        if(typeof status === 'number' && status >= 400 && status < 600) {
+            return status;
+        }
+    }
+
+    return 500;
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { AuthenticationError } from './AuthenticationError';
+
+/**
+ * The error that is forwarded to the error handling chain when a request's bearer token can't be accepted (ex. it's expired, malformed or the signature doesn't verify)
+ * 
+ * The status is 401 (Unauthorized). The response also gets a `WWW-Authenticate` header with the `invalid_token` error code (see RFC 6750).
+ */
+export class InvalidTokenError extends AuthenticationError {
+    /**
+     * Create a new invalid token error
+     * 
+     * @param message A human readable message describing why the token isn't valid
+     */
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidTokenError';
+    }
+}
\ No newline at end of file
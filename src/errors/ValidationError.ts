@@ -0,0 +1,40 @@
+import { HttpError } from './HttpError';
+
+/** Where in the request a value that failed validation came from */
+export type ValidationSource = 'body' | 'query' | 'params';
+
+/** A single failure of a field to validate */
+export type FieldError = {
+    /** Where in the request the field came from */
+    source: ValidationSource,
+    /** The name (path) of the field (ex. `email`, `address.street` or `tags[0]`) */
+    field: string,
+    /** The rule that failed (ex. `required`, `type`, `minLength`, etc...) */
+    rule: string,
+    /** A human readable message describing the failure */
+    message: string,
+    /** The value that failed validation (as submitted) */
+    value?: unknown
+};
+
+/**
+ * The error that is forwarded to the error handling chain when a request fails validation (see the `@Body`, `@Query` and `@Params` decorators)
+ * 
+ * The status is either 400 (the input couldn't be validated at all. Ex. no body was parsed) or 422 (one or more fields failed validation).
+ */
+export class ValidationError extends HttpError {
+    /** The list of fields that failed validation */
+    public readonly errors: FieldError[];
+
+    /**
+     * Create a new validation error
+     * 
+     * @param errors The list of fields that failed validation
+     * @param status The HTTP status code of the error (default is 422)
+     */
+    constructor(errors: FieldError[], status: number = 422) {
+        super(status, `Validation failed for ${errors.map(error => `${error.source}.${error.field}`).join(', ')}`);
+        this.name = 'ValidationError';
+        this.errors = errors;
+    }
+}
\ No newline at end of file
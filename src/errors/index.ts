@@ -0,0 +1,18 @@
+import { HttpError, getErrorStatus } from './HttpError';
+import { FieldError, ValidationSource, ValidationError } from './ValidationError';
+import { AuthenticationError } from './AuthenticationError';
+import { AuthorizationError } from './AuthorizationError';
+import { InvalidTokenError } from './InvalidTokenError';
+import { CsrfError } from './CsrfError';
+
+export {
+    HttpError,
+    getErrorStatus,
+    FieldError,
+    ValidationSource,
+    ValidationError,
+    AuthenticationError,
+    AuthorizationError,
+    InvalidTokenError,
+    CsrfError
+};
\ No newline at end of file
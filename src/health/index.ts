@@ -0,0 +1,6 @@
+import { databaseCheck, diskSpaceCheck } from './probes';
+
+export {
+    databaseCheck,
+    diskSpaceCheck
+};
\ No newline at end of file
@@ -0,0 +1,80 @@
+import fs from 'fs';
+
+import { HealthCheckStatus, HealthCheckProbe } from '../middlewares/HealthCheckMiddleware';
+
+/**
+ * Create a check that pings a database (or any other datastore/service)
+ * 
+ * The response time is reported as the observed value. 
+ * 
+ * @example
+ * ```ts
+ * healthCheck.registerCheck('postgres:responseTime', databaseCheck(() => pool.query('SELECT 1'), { slowThreshold: 200 }), { componentType: 'datastore' });
+ * ```
+ * 
+ * @param ping The function that pings the database (it fails if this throws)
+ * @param options The options for the check
+ * @param options.slowThreshold The response time (in milliseconds) above which the check warns (default is to never warn)
+ * @returns The check
+ */
+export function databaseCheck(ping: () => unknown | Promise<unknown>, options: { slowThreshold?: number } = {}): HealthCheckProbe {
+    return async () => {
+        const start = Date.now();
+        await ping();
+        const responseTime = Date.now() - start;
+
+        const isSlow = typeof options.slowThreshold !== 'undefined' && responseTime > options.slowThreshold;
+
+        return {
+            status: isSlow ? HealthCheckStatus.WARN : HealthCheckStatus.OK,
+            observedValue: responseTime,
+            observedUnit: 'ms',
+            output: isSlow ? `Response time (${responseTime}ms) is above ${options.slowThreshold}ms` : undefined
+        };
+    };
+}
+
+/**
+ * Create a check of the free disk space (of the file system a path is on)
+ * 
+ * The free space (in bytes) is reported as the observed value.
+ * 
+ * @example
+ * ```ts
+ * healthCheck.registerCheck('disk:utilization', diskSpaceCheck('/var/uploads', { minFreeRatio: 0.05, warnFreeRatio: 0.2 }), { componentType: 'system' });
+ * ```
+ * 
+ * @param path A path on the file system to check (default is the current working directory)
+ * @param options The options for the check
+ * @param options.minFreeBytes The free space (in bytes) below which the check fails
+ * @param options.minFreeRatio The fraction of the total space that must be free or the check fails (default is 0.05, when `minFreeBytes` isn't given)
+ * @param options.warnFreeRatio The fraction of the total space below which the check warns (default is 0.1)
+ * @returns The check
+ */
+export function diskSpaceCheck(path: string = '.', options: { minFreeBytes?: number, minFreeRatio?: number, warnFreeRatio?: number } = {}): HealthCheckProbe {
+    return async () => {
+        const stats = await fs.promises.statfs(path);
+
+        const freeBytes = stats.bavail * stats.bsize;
+        const totalBytes = stats.blocks * stats.bsize;
+        const freeRatio = totalBytes > 0 ? freeBytes / totalBytes : 0;
+
+        const minFreeRatio = options.minFreeRatio ?? (typeof options.minFreeBytes === 'undefined' ? 0.05 : undefined);
+        const warnFreeRatio = options.warnFreeRatio ?? 0.1;
+
+        let status = HealthCheckStatus.OK;
+        if((typeof options.minFreeBytes !== 'undefined' && freeBytes < options.minFreeBytes) || (typeof minFreeRatio !== 'undefined' && freeRatio < minFreeRatio)) {
+            status = HealthCheckStatus.ERROR;
+        }
+        else if(freeRatio < warnFreeRatio) {
+            status = HealthCheckStatus.WARN;
+        }
+
+        return {
+            status: status,
+            observedValue: freeBytes,
+            observedUnit: 'bytes',
+            output: status !== HealthCheckStatus.OK ? `${(freeRatio * 100).toFixed(1)}% of disk space is free` : undefined
+        };
+    };
+}
\ No newline at end of file
@@ -0,0 +1,238 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+import { parseCookies } from '../utils/cookies';
+
+import { MessageCatalog, MessageParams } from './MessageCatalog';
+
+/** Where the locale of a request can be detected from */
+export type LocaleSource = 'path' | 'cookie' | 'header';
+
+/** A string that's either translated through the message catalog or given per language (ex. `{ en: 'Profile', fr: 'Profil' }`) */
+export type LocalizedString = string | { [language: string]: string };
+
+/** The options for the `i18n` middleware */
+export type I18nOptions = {
+    /** The path to the folder of message catalogs (ex. `locales`, with `en.json`, `fr.yaml`, etc...) */
+    catalogPath: string,
+    /** The locale used if none of the supported locales are detected (default is `en`) */
+    defaultLocale?: string,
+    /** The supported locales (default is the locales there are catalogs for) */
+    locales?: string[],
+    /** Where to detect the locale from, in order of precedence (default is `['path', 'cookie', 'header']`) */
+    detectFrom?: LocaleSource[],
+    /** The name of the cookie the locale is read from (default is `locale`) */
+    cookieName?: string
+};
+
+/** The languages that are written right to left */
+const RTL_LANGUAGES = ['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'ks', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi'];
+
+/**
+ * Get the direction text is written in for a locale
+ * 
+ * @param locale The locale (ex. `ar-EG`)
+ * @returns `rtl` for right to left languages otherwise `ltr`
+ */
+export function getTextDirection(locale: string): 'ltr' | 'rtl' {
+    return RTL_LANGUAGES.includes(locale.split('-')[0].toLowerCase()) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Localize a string for the locale of the response (as detected by the `i18n` middleware)
+ * 
+ * A string is translated (as a message key) if the `i18n` middleware is used, otherwise it's returned as is.
+ * An object of strings per language uses the string for the locale (or it's language) and otherwise the first string.
+ * 
+ * @param res The response (the locale is in it's locals)
+ * @param value The string to localize
+ * @param params The values to interpolate into the message (if it's translated)
+ * @returns The localized string
+ */
+export function localize(res: Response, value: LocalizedString, params?: MessageParams): string {
+    if(typeof value === 'string') {
+        return typeof res.locals.t === 'function' ? res.locals.t(value, params) : value;
+    }
+
+    const locale: string | undefined = res.locals.locale;
+    if(typeof locale !== 'undefined') {
+        const localized = value[locale] ?? value[locale.split('-')[0]];
+        if(typeof localized !== 'undefined') {
+            return localized;
+        }
+    }
+
+    return Object.values(value)[0] ?? '';
+}
+
+/**
+ * Class that creates middleware that detects the locale of each request and sets up translation for it.
+ * 
+ * The locale is detected from (by default, in this order):
+ * 1. A path prefix (ex. `/fr/about`). The prefix is removed from the URL so routes don't need to know about it
+ * 2. A cookie (`locale` by default)
+ * 3. The `Accept-Language` header
+ * 
+ * The following are then set in the response's locals (so they're available to templates):
+ * - `locale` and `lang`: The detected locale (ex. `fr`)
+ * - `dir`: The direction the locale's language is written in (`ltr` or `rtl`)
+ * - `localePrefix`: The path prefix the request used (ex. `/fr`) or an empty string (for building links that keep the locale)
+ * - `t`: The function to translate messages (ex. `t('nav.home')` or `t('cart.items', { count: 3 })`)
+ */
+export class LocaleMiddleware {
+    /** The message catalog */
+    private catalog: MessageCatalog;
+
+    /** The supported locales */
+    private locales: string[];
+
+    /** Where to detect the locale from (in order of precedence) */
+    private detectFrom: LocaleSource[];
+
+    /** The name of the cookie the locale is read from */
+    private cookieName: string;
+
+    /**
+     * Constructor for the LocaleMiddleware class.
+     * 
+     * @param options Options for the middleware (see `I18nOptions`).
+     */
+    constructor(options: I18nOptions) {
+        this.catalog = new MessageCatalog(options.catalogPath, options.defaultLocale);
+        this.locales = options.locales ?? this.catalog.getLocales();
+        this.detectFrom = options.detectFrom ?? ['path', 'cookie', 'header'];
+        this.cookieName = options.cookieName ?? 'locale';
+    }
+
+    /**
+     * Get the supported locale that matches a requested locale
+     * 
+     * @param requested The requested locale (ex. `fr-CA`)
+     * @returns The supported locale (ex. `fr-CA` or `fr`) or undefined if it isn't supported
+     */
+    private match(requested: string) {
+        const normalized = requested.trim().toLowerCase();
+
+        return this.locales.find(locale => locale.toLowerCase() === normalized) 
+            ?? this.locales.find(locale => locale.toLowerCase() === normalized.split('-')[0]);
+    }
+
+    /**
+     * Get the locale from the path prefix of the request (removing the prefix from the URL)
+     * 
+     * @param req The request
+     * @param res The response
+     * @returns The locale or undefined if the path doesn't start with a supported locale
+     */
+    private detectFromPath(req: Request, res: Response) {
+        const prefix = req.path.split('/')[1] ?? '';
+        const locale = this.locales.find(locale => locale.toLowerCase() === prefix.toLowerCase());
+        if(typeof locale === 'undefined') {
+            return undefined;
+        }
+
+        const rest = req.url.substring(prefix.length + 1);
+        req.url = rest.startsWith('/') ? rest : `/${rest}`;
+        res.locals.localePrefix = `/${prefix}`;
+
+        return locale;
+    }
+
+    /**
+     * Get the locale from the locale cookie of the request
+     * 
+     * @param req The request
+     * @returns The locale or undefined if the cookie isn't set (or isn't a supported locale)
+     */
+    private detectFromCookie(req: Request) {
+        const cookie = parseCookies(req.headers.cookie)[this.cookieName];
+
+        return typeof cookie !== 'undefined' ? this.match(cookie) : undefined;
+    }
+
+    /**
+     * Get the locale from the `Accept-Language` header of the request
+     * 
+     * @param req The request
+     * @param res The response
+     * @returns The best supported locale or undefined if none of the languages the request accepts are supported
+     */
+    private detectFromHeader(req: Request, res: Response) {
+        // The response for a URL depends on the `Accept-Language` header
+        res.vary('Accept-Language');
+
+        if(typeof req.headers['accept-language'] === 'undefined') {
+            return undefined;
+        }
+
+        // The default locale is listed first so that it's preferred when the request accepts any language (ex. `Accept-Language: *`)
+        const defaultLocale = this.catalog.getDefaultLocale();
+        const accepted = req.acceptsLanguages([...this.locales.filter(locale => locale === defaultLocale), ...this.locales.filter(locale => locale !== defaultLocale)]);
+
+        return accepted !== false ? accepted : undefined;
+    }
+
+    /**
+     * Creates the middleware function.
+     * 
+     * @returns The middleware function.
+     */
+    middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            res.locals.localePrefix = '';
+
+            // The path prefix is always removed (even if another source takes precedence) so that the URL matches the routes
+            const pathLocale = this.detectFrom.includes('path') ? this.detectFromPath(req, res) : undefined;
+
+            let locale: string | undefined;
+            for(const source of this.detectFrom) {
+                switch(source) {
+                    case 'path':
+                        locale = pathLocale;
+                        break;
+                    case 'cookie':
+                        locale = this.detectFromCookie(req);
+                        break;
+                    case 'header':
+                        locale = this.detectFromHeader(req, res);
+                        break;
+                }
+
+                if(typeof locale !== 'undefined') {
+                    break;
+                }
+            }
+
+            const detectedLocale = locale ?? this.catalog.getDefaultLocale();
+
+            res.locals.locale = detectedLocale;
+            res.locals.lang = detectedLocale;
+            res.locals.dir = getTextDirection(detectedLocale);
+            res.locals.t = (key: string, params?: MessageParams) => this.catalog.translate(detectedLocale, key, params);
+
+            next();
+        };
+    }
+}
+
+/**
+ * Middleware wrapper function to detect the locale of requests and set up translation (see `LocaleMiddleware`).
+ * 
+ * Note, this should come before middleware that uses the locale (ex. `globalTemplateValues`).
+ * 
+ * @example
+ * ```ts
+ * const initializer = new Initializer(
+ *     { controllersPath: 'routes', view: { filesPath: 'pages' } },
+ *     i18n({ catalogPath: 'locales', defaultLocale: 'en' }),
+ *     globalTemplateValues({ description: 'site.description', titleSuffix: { en: ' | Example', fr: ' | Exemple' } })
+ * );
+ * ```
+ * 
+ * @param options Options for the middleware (see `I18nOptions`).
+ * @returns The middleware function.
+ */
+export function i18n(options: I18nOptions) {
+    const instance = new LocaleMiddleware(options);
+
+    return instance.middleware.bind(instance);
+}
\ No newline at end of file
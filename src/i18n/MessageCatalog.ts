@@ -0,0 +1,200 @@
+import { existsSync, statSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+
+/** The messages of a locale (nested objects are grouped messages, ex. `{ nav: { home: 'Home' } }` is the `nav.home` message) */
+export type Messages = { [key: string]: string | Messages };
+
+/** The values to interpolate into a message (ex. `{ name: 'Alex' }` for `Hello {name}`) */
+export type MessageParams = { [name: string]: string | number };
+
+/** The extensions of the catalog files that are loaded */
+const CATALOG_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Check if an error is from requiring a package that isn't installed
+ * 
+ * @param error The error that was thrown
+ * @returns If the error is a `MODULE_NOT_FOUND` error
+ */
+function isModuleNotFound(error: unknown) {
+    return error instanceof Error && (error as NodeJS.ErrnoException).code === 'MODULE_NOT_FOUND';
+}
+
+/**
+ * Parse the contents of a YAML catalog file
+ * 
+ * YAML support is optional, so the YAML parser is required when a YAML file is loaded (either the `yaml` or `js-yaml` package needs to be installed)
+ * 
+ * @param contents The contents of the file
+ * @param file The path to the file (for error messages)
+ * @returns The parsed messages
+ * @throws Error if neither YAML package is installed
+ */
+function parseYAML(contents: string, file: string): Messages {
+    try {
+        return require('yaml').parse(contents);
+    }
+    catch(error) {
+        if(!isModuleNotFound(error)) {
+            throw error;
+        }
+    }
+
+    try {
+        return require('js-yaml').load(contents);
+    }
+    catch(error) {
+        if(!isModuleNotFound(error)) {
+            throw error;
+        }
+    }
+
+    throw new Error(`Loading ${file} requires a YAML parser. Please install the yaml (or js-yaml) package`);
+}
+
+/**
+ * The translated messages of an app, loaded from a folder of message catalogs (one file per locale. Ex. `en.json`, `fr.yaml`, `fr-CA.json`)
+ * 
+ * Messages are looked up by key (nested objects are accessed with dots. Ex. `nav.home`) and can have values interpolated (ex. `Hello {name}`).
+ * A message can also be an object of plural forms (ex. `{ one: '{count} item', other: '{count} items' }`) that's picked from by the `count` parameter.
+ * 
+ * If a message doesn't exist for a locale, it falls back to the locale's language (ex. `fr` for `fr-CA`), then the default locale and finally the key itself.
+ */
+export class MessageCatalog {
+    /** The path to the folder of catalog files */
+    private catalogPath: string;
+
+    /** The locale used if a message doesn't exist in the requested locale */
+    private defaultLocale: string;
+
+    /** The messages of each locale */
+    private messages: Map<string, Messages>;
+
+    /**
+     * Create (and load) a message catalog
+     * 
+     * @param catalogPath The path to the folder of catalog files
+     * @param defaultLocale The locale used if a message doesn't exist in the requested locale (default: `en`)
+     * @throws Error if the catalog path is not a valid directory
+     */
+    constructor(catalogPath: string, defaultLocale: string = 'en') {
+        if(!existsSync(catalogPath) || !statSync(catalogPath).isDirectory()) {
+            throw new Error('The message catalog path must be a valid directory');
+        }
+
+        this.catalogPath = path.resolve(catalogPath);
+        this.defaultLocale = defaultLocale;
+        this.messages = new Map();
+
+        this.load();
+    }
+
+    /**
+     * Load (or reload) the catalog files
+     */
+    load() {
+        this.messages.clear();
+
+        readdirSync(this.catalogPath)
+            .filter(file => CATALOG_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+            .forEach(file => {
+                const filePath = path.join(this.catalogPath, file);
+                const contents = readFileSync(filePath, 'utf-8');
+                const messages = path.extname(file).toLowerCase() === '.json' ? JSON.parse(contents) : parseYAML(contents, filePath);
+
+                const locale = path.basename(file, path.extname(file));
+                this.messages.set(locale, { ...(this.messages.get(locale) ?? {}), ...(messages ?? {}) });
+            });
+    }
+
+    /**
+     * Get the locales the catalog has messages for
+     * 
+     * @returns The locales (ex. `['en', 'fr']`)
+     */
+    getLocales() {
+        return [...this.messages.keys()];
+    }
+
+    /**
+     * Get the default locale
+     * 
+     * @returns The default locale
+     */
+    getDefaultLocale() {
+        return this.defaultLocale;
+    }
+
+    /**
+     * Find a message in a locale's messages
+     * 
+     * @param locale The locale
+     * @param key The key of the message (ex. `nav.home`)
+     * @returns The message (or plural forms) or undefined if it doesn't exist
+     */
+    private find(locale: string, key: string): string | Messages | undefined {
+        let current: string | Messages | undefined = this.messages.get(locale);
+
+        for(const part of key.split('.')) {
+            if(typeof current !== 'object') {
+                return undefined;
+            }
+
+            current = current[part];
+        }
+
+        return current;
+    }
+
+    /**
+     * Check if a message exists (in the locale or one of it's fallbacks)
+     * 
+     * @param locale The locale
+     * @param key The key of the message
+     * @returns If the message exists
+     */
+    has(locale: string, key: string) {
+        return this.getFallbacks(locale).some(fallback => typeof this.find(fallback, key) !== 'undefined');
+    }
+
+    /**
+     * Get the locales to look for a message in (in order)
+     * 
+     * @param locale The requested locale
+     * @returns The locale, it's language and the default locale
+     */
+    private getFallbacks(locale: string) {
+        return [...new Set([locale, locale.split('-')[0], this.defaultLocale])];
+    }
+
+    /**
+     * Translate a message
+     * 
+     * @param locale The locale to translate to (ex. `fr-CA`)
+     * @param key The key of the message (ex. `nav.home`)
+     * @param params The values to interpolate into the message (a numeric `count` also picks the plural form)
+     * @returns The translated message (or the key if the message doesn't exist)
+     */
+    translate(locale: string, key: string, params: MessageParams = {}): string {
+        let localeUsed = locale;
+        let message: string | Messages | undefined;
+        for(const fallback of this.getFallbacks(locale)) {
+            message = this.find(fallback, key);
+            if(typeof message !== 'undefined') {
+                localeUsed = fallback;
+                break;
+            }
+        }
+
+        // Plural forms are picked using the plural rules of the locale the message is from (ex. `one` or `other` for English)
+        if(typeof message === 'object' && typeof params.count === 'number') {
+            message = message[new Intl.PluralRules(localeUsed).select(params.count)] ?? message.other;
+        }
+
+        if(typeof message !== 'string') {
+            return key;
+        }
+
+        return message.replace(/\{(\w+)\}/g, (match, name) => typeof params[name] !== 'undefined' ? String(params[name]) : match);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { MessageCatalog, Messages, MessageParams } from './MessageCatalog';
+import { LocaleMiddleware, LocaleSource, LocalizedString, I18nOptions, i18n, localize, getTextDirection } from './LocaleMiddleware';
+
+export {
+    MessageCatalog,
+    Messages,
+    MessageParams,
+    LocaleMiddleware,
+    LocaleSource,
+    LocalizedString,
+    I18nOptions,
+    i18n,
+    localize,
+    getTextDirection
+};
\ No newline at end of file
@@ -1,18 +1,32 @@
-import { App } from './App';
+import { App, AppOptions } from './App';
 import { Initializer } from './Initializer';
 import { Router } from './Router';
 import { Renderer } from './Renderer';
 import { StaticFileResolver } from './StaticFileResolver';
 import { OAuthApp } from './OAuthApp';
+import { RequestContext } from './RequestContext';
 
 export {
     App,
+    AppOptions,
     Initializer,
     Router,
     Renderer,
     StaticFileResolver,
-    OAuthApp
+    OAuthApp,
+    RequestContext
 };
 export * from './controllers';
 export * from './decorators';
-export * from './middlewares';
\ No newline at end of file
+export * from './middlewares';
+export * from './errors';
+export * from './validation';
+export * from './results';
+export * from './di';
+export * from './i18n';
+export * from './sessions';
+export * from './auth';
+export * from './health';
+export * from './lifecycle';
+export * from './server';
+export * from './testing';
\ No newline at end of file
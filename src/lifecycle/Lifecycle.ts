@@ -0,0 +1,110 @@
+/** 
+ * The points in the app's lifecycle that hooks can run at (in the order they happen)
+ * 
+ * - `beforeInit` - Before the Initializer sets up the Express app
+ * - `afterInit` - After the Express app is setup (middleware, static files, views and routes)
+ * - `onListening` - Once the server is listening for requests
+ * - `beforeShutdown` - When the app starts shutting down (before the server stops accepting requests)
+ * - `afterShutdown` - Once the server is closed (ex. to close database connections)
+ */
+export type LifecycleHook = 'beforeInit' | 'afterInit' | 'onListening' | 'beforeShutdown' | 'afterShutdown';
+
+/** A function that runs at a point in the app's lifecycle */
+export type LifecycleHookHandler = () => void | Promise<void>;
+
+/** The hooks that happen while the app is shutting down (these run in the reverse of the order they were added) */
+const SHUTDOWN_HOOKS: LifecycleHook[] = ['beforeShutdown', 'afterShutdown'];
+
+/**
+ * The lifecycle hooks of an app
+ * 
+ * This is available from the dependency injection container.
+ * So controllers and services can subscribe to the app's lifecycle by injecting it (ex. to close a connection pool when the app shuts down).
+ * 
+ * Startup hooks run in the order they were added. 
+ * Shutdown hooks run in the reverse order (so that things are cleaned up in the reverse of the order they were setup).
+ * Hooks run one at a time (each is awaited before the next runs).
+ * 
+ * @example
+ * ```ts
+ * @Injectable()
+ * export class Database {
+ *     private pool: Pool;
+ * 
+ *     constructor(lifecycle: Lifecycle) {
+ *         this.pool = new Pool();
+ *         lifecycle.on('afterShutdown', () => this.pool.end());
+ *     }
+ * }
+ * ```
+ */
+export class Lifecycle {
+    /** The handlers for each hook */
+    private handlers: Map<LifecycleHook, LifecycleHookHandler[]>;
+
+    constructor() {
+        this.handlers = new Map();
+    }
+
+    /**
+     * Add a handler for a hook
+     * 
+     * @param hook The hook to run the handler at
+     * @param handler The handler
+     * @returns The lifecycle (for chaining)
+     */
+    on(hook: LifecycleHook, handler: LifecycleHookHandler): this {
+        this.handlers.set(hook, [...(this.handlers.get(hook) ?? []), handler]);
+
+        return this;
+    }
+
+    /**
+     * Remove a handler for a hook
+     * 
+     * @param hook The hook the handler was added to
+     * @param handler The handler
+     */
+    off(hook: LifecycleHook, handler: LifecycleHookHandler) {
+        this.handlers.set(hook, (this.handlers.get(hook) ?? []).filter(existing => existing !== handler));
+    }
+
+    /**
+     * Run the handlers for a hook
+     * 
+     * Errors thrown by startup hooks stop the app from starting (they're thrown from here).
+     * Errors thrown by shutdown hooks don't stop the rest of the handlers from running, they're thrown once all of them have run.
+     * 
+     * @param hook The hook to run the handlers of
+     * @throws The error of the failed handler (an `AggregateError` if more than one shutdown handler failed)
+     */
+    async run(hook: LifecycleHook) {
+        const isShutdownHook = SHUTDOWN_HOOKS.includes(hook);
+
+        const handlers = [...(this.handlers.get(hook) ?? [])];
+        if(isShutdownHook) {
+            handlers.reverse();
+        }
+
+        const errors: unknown[] = [];
+        for(const handler of handlers) {
+            try {
+                await handler();
+            }
+            catch(err) {
+                if(!isShutdownHook) {
+                    throw err;
+                }
+
+                errors.push(err);
+            }
+        }
+
+        if(errors.length === 1) {
+            throw errors[0];
+        }
+        else if(errors.length > 1) {
+            throw new AggregateError(errors, `${errors.length} ${hook} lifecycle hooks failed`);
+        }
+    }
+}
\ No newline at end of file
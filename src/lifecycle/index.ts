@@ -0,0 +1,7 @@
+import { Lifecycle, LifecycleHook, LifecycleHookHandler } from './Lifecycle';
+
+export {
+    Lifecycle,
+    LifecycleHook,
+    LifecycleHookHandler
+};
\ No newline at end of file
@@ -0,0 +1,241 @@
+import zlib from 'zlib';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+/** The options for the `compression` middleware */
+export type CompressionOptions = {
+    /** The minimum size (in bytes) of a response for it to be compressed (default is 1024). Small responses aren't worth the overhead */
+    threshold?: number,
+    /** The Brotli quality (0-11) to compress with (default is 4. Higher qualities are too slow to do on the fly) */
+    brotliQuality?: number,
+    /** The gzip level (0-9) to compress with (default is zlib's default) */
+    gzipLevel?: number
+};
+
+/** The content types that are worth compressing (text based formats) */
+const COMPRESSIBLE_TYPES = /^text\/|[/+](json|xml|javascript)\b|^image\/svg\+xml/i;
+
+/** The content types that are never compressed, even though they're text based (server-sent events have to reach the client as each event is sent) */
+const STREAMING_TYPES = /^text\/event-stream\b/i;
+
+/** The callback of `res.write` */
+type WriteCallback = (error?: Error | null) => void;
+
+/** The response methods the middleware replaces (their overloads combined into one signature each, so that the originals can be called with whatever arguments they were given) */
+interface ResponseMethods {
+    write(chunk: any, encoding?: BufferEncoding | WriteCallback, callback?: WriteCallback): boolean;
+    end(chunk?: any, encoding?: BufferEncoding | (() => void), callback?: () => void): Response;
+    on(event: string | symbol, listener: (...args: any[]) => void): Response;
+}
+
+/**
+ * Class that creates middleware to compress (Brotli or gzip) responses on the fly.
+ * 
+ * This is meant for dynamic responses (ex. rendered pages or JSON). Responses that already have a `Content-Encoding` (ex. precompressed static files served by the `StaticFileResolver`) are left as is.
+ * So are server-sent events (`text/event-stream`) and responses with `Cache-Control: no-transform`.
+ * 
+ * Streamed responses (written in parts without a `Content-Length`) are flushed after each part, so that they reach the client as they're written.
+ * Partial responses (`206`/`Content-Range`) aren't compressed, the range is of the uncompressed body.
+ */
+export class CompressionMiddleware {
+    /** The minimum size (in bytes) of a response for it to be compressed */
+    private threshold: number;
+
+    /** The Brotli quality to compress with */
+    private brotliQuality: number;
+
+    /** The gzip level to compress with */
+    private gzipLevel: number;
+
+    /**
+     * Constructor for the CompressionMiddleware class.
+     * 
+     * @param options Options for the middleware (see `CompressionOptions`).
+     */
+    constructor(options: CompressionOptions = {}) {
+        this.threshold = options.threshold ?? 1024;
+        this.brotliQuality = options.brotliQuality ?? 4;
+        this.gzipLevel = options.gzipLevel ?? zlib.constants.Z_DEFAULT_COMPRESSION;
+    }
+
+    /**
+     * Create the compression stream for the response (if the response should be compressed)
+     * 
+     * @param req The request
+     * @param res The response
+     * @param length The length of the response body (if known)
+     * @returns The compression stream or null if the response shouldn't be compressed
+     */
+    private createStream(req: Request, res: Response, length?: number): zlib.BrotliCompress | zlib.Gzip | null {
+        const contentType = res.getHeader('Content-Type');
+        if(res.headersSent || typeof contentType !== 'string' || !COMPRESSIBLE_TYPES.test(contentType) || STREAMING_TYPES.test(contentType)) {
+            return null;
+        }
+
+        // The response asked not to be transformed by anything between the app and the client (which includes compressing it)
+        const cacheControl = res.getHeader('Cache-Control');
+        if(typeof cacheControl === 'string' && /(^|,)\s*no-transform\s*(,|$)/i.test(cacheControl)) {
+            return null;
+        }
+
+        // Whether or not this response gets compressed, the response for the URL depends on what encodings the client accepts
+        res.vary('Accept-Encoding');
+
+        const contentLength = length ?? (typeof res.getHeader('Content-Length') !== 'undefined' ? Number(res.getHeader('Content-Length')) : undefined);
+        if(
+            req.method === 'HEAD' 
+            || res.statusCode === 204 
+            || res.statusCode === 304 
+            || res.statusCode === 206 
+            || typeof res.getHeader('Content-Range') !== 'undefined' 
+            || typeof res.getHeader('Content-Encoding') !== 'undefined' 
+            || (typeof contentLength !== 'undefined' && contentLength < this.threshold)
+        ) {
+            return null;
+        }
+
+        // Brotli is preferred (it compresses better) over gzip when the client accepts both
+        const encoding = (['br', 'gzip'] as const).find(acceptedEncoding => req.acceptsEncodings(acceptedEncoding) === acceptedEncoding);
+        if(typeof encoding === 'undefined') {
+            return null;
+        }
+
+        res.setHeader('Content-Encoding', encoding);
+        res.removeHeader('Content-Length');
+
+        return encoding === 'br'
+            ? zlib.createBrotliCompress({ params: { [zlib.constants.BROTLI_PARAM_QUALITY]: this.brotliQuality } })
+            : zlib.createGzip({ level: this.gzipLevel });
+    }
+
+    /**
+     * Creates the middleware function.
+     * 
+     * @returns The middleware function.
+     */
+    middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            const { write, end, on }: ResponseMethods = { write: res.write, end: res.end, on: res.on };
+
+            // Undefined until the first write (when the headers are known), then the compression stream or null if the response isn't compressed
+            let stream: zlib.BrotliCompress | zlib.Gzip | null | undefined;
+
+            // If the response is streamed (written in parts without knowing it's length. Ex. a page rendered in parts) rather than a body of a known length (ex. a static file)
+            let streaming = false;
+
+            // The `drain` listeners added before it's known if the response is compressed
+            let drainListeners: ((...args: any[]) => void)[] = [];
+
+            const toBuffer = (chunk: any, encoding?: unknown) => Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8');
+
+            const start = (length?: number) => {
+                streaming = typeof length === 'undefined' && typeof res.getHeader('Content-Length') === 'undefined';
+
+                const compressionStream = this.createStream(req, res, length);
+
+                if(compressionStream !== null) {
+                    compressionStream.on('data', (data: Buffer) => {
+                        if(!write.call(res, data)) {
+                            compressionStream.pause();
+                        }
+                    });
+                    on.call(res, 'drain', () => compressionStream.resume());
+                }
+
+                // Whoever is writing the response waits for `drain` when a write returns false.
+                // When the response is compressed, that's the compression stream's `drain` (the response's own `drain` is handled above)
+                drainListeners.forEach(listener => compressionStream !== null ? compressionStream.on('drain', listener) : on.call(res, 'drain', listener));
+                drainListeners = [];
+
+                return compressionStream;
+            };
+
+            res.on = function(this: Response, event: string | symbol, listener: (...args: any[]) => void) {
+                if(event !== 'drain') {
+                    return on.call(res, event, listener);
+                }
+
+                if(typeof stream === 'undefined') {
+                    drainListeners.push(listener);
+                }
+                else if(stream === null) {
+                    on.call(res, event, listener);
+                }
+                else {
+                    stream.on('drain', listener);
+                }
+
+                return res;
+            } as Response['on'];
+
+            res.write = function(this: Response, chunk: any, encoding?: BufferEncoding | WriteCallback, callback?: WriteCallback) {
+                if(typeof stream === 'undefined') {
+                    stream = start();
+                }
+
+                if(typeof encoding === 'function') {
+                    callback = encoding;
+                    encoding = undefined;
+                }
+
+                if(stream === null) {
+                    return write.call(res, chunk, encoding, callback);
+                }
+
+                const written = stream.write(toBuffer(chunk, encoding), callback);
+
+                // Otherwise the part would sit in the compressor until enough data builds up (or the response ends), stalling streamed responses
+                // 
+                // Note, bodies of a known length aren't flushed (the client waits for the whole body anyway) because flushing makes the compression worse
+                if(streaming) {
+                    stream.flush();
+                }
+
+                return written;
+            } as Response['write'];
+
+            res.end = function(this: Response, chunk?: any, encoding?: BufferEncoding | (() => void), callback?: () => void) {
+                if(typeof chunk === 'function') {
+                    callback = chunk;
+                    chunk = undefined;
+                }
+                else if(typeof encoding === 'function') {
+                    callback = encoding;
+                    encoding = undefined;
+                }
+
+                if(typeof stream === 'undefined') {
+                    // Nothing was written before, so the chunk is the whole body
+                    stream = start(typeof chunk !== 'undefined' && chunk !== null ? toBuffer(chunk, encoding).length : 0);
+                }
+
+                if(stream === null) {
+                    return end.call(res, chunk, encoding, callback);
+                }
+
+                stream.on('end', () => end.call(res, undefined, undefined, callback));
+                if(typeof chunk !== 'undefined' && chunk !== null) {
+                    stream.end(toBuffer(chunk, encoding));
+                }
+                else {
+                    stream.end();
+                }
+
+                return res;
+            } as Response['end'];
+
+            next();
+        };
+    }
+}
+
+/**
+ * Middleware wrapper function to compress responses on the fly (see `CompressionMiddleware`).
+ * 
+ * @param options Options for the middleware (see `CompressionOptions`).
+ * @returns The middleware function.
+ */
+export function compression(options: CompressionOptions = {}) {
+    const instance = new CompressionMiddleware(options);
+
+    return instance.middleware.bind(instance);
+}
\ No newline at end of file
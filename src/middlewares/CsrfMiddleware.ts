@@ -0,0 +1,305 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+import { CsrfError } from '../errors/CsrfError';
+import { RequestSession } from '../sessions/RequestSession';
+import { getTokenClaims } from '../auth/BearerTokenMiddleware';
+import { parseCookies, serializeCookie, signValue, unsignValue } from '../utils/cookies';
+import { getRequestSession } from '../utils/request';
+
+/** The options for the `csrf` middleware */
+export type CsrfOptions = {
+    /** 
+     * How tokens are kept (default is `synchronizer` for requests with a session, otherwise `double-submit`)
+     * 
+     * - `synchronizer` - The token is kept in the session (requires sessions)
+     * - `double-submit` - The token is kept in a signed cookie
+     */
+    mode?: 'synchronizer' | 'double-submit',
+    /** The secret(s) the double-submit cookie is signed with (default is the `CSRF_SECRET` environment variable or, if it isn't set, a random secret which means tokens don't survive a restart) */
+    secret?: string | string[],
+    /** The name of the form field the token is submitted in (default is `_csrf`) */
+    fieldName?: string,
+    /** The name of the header the token is submitted in (default is `X-CSRF-Token`) */
+    headerName?: string,
+    /** The double-submit cookie's settings */
+    cookie?: {
+        /** The name of the cookie (default is `csrf`) */
+        name?: string,
+        /** The path the cookie is sent for (default is `/`) */
+        path?: string,
+        /** The domain the cookie is sent for (default is the host that set it) */
+        domain?: string,
+        /** If the cookie is sent with cross site requests (default is `Lax`) */
+        sameSite?: 'Strict' | 'Lax' | 'None',
+        /** If the cookie is only sent over HTTPS (default is `auto`, which is when the request was made over HTTPS) */
+        secure?: boolean | 'auto'
+    }
+};
+
+/** The CSRF protection of a request (see `getCsrfToken` and `verifyCsrfToken`) */
+type RequestCsrf = {
+    /** Get (creating if needed) the request's token */
+    getToken: () => string,
+    /** Check if the request includes a valid token */
+    verify: () => boolean
+};
+
+/** The key the token is kept under in the session (synchronizer mode) */
+const CSRF_SESSION_KEY = '_csrf';
+
+/** The methods that don't change state (and therefore aren't verified) */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS', 'TRACE'];
+
+/** The CSRF protection of each request currently being handled */
+const requestCsrf = new WeakMap<Request, RequestCsrf>();
+
+/**
+ * Generate a new CSRF token
+ * 
+ * @returns The token
+ */
+function generateToken() {
+    return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Compare two tokens (in constant time)
+ * 
+ * @param expected The token that is expected
+ * @param actual The token that was submitted
+ * @returns If the tokens match
+ */
+function tokensMatch(expected: string, actual: string) {
+    const expectedBuffer = Buffer.from(expected);
+    const actualBuffer = Buffer.from(actual);
+
+    return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+/**
+ * Get the CSRF token of a request (ex. to include in a JSON response or a form that isn't rendered with the generated templates)
+ * 
+ * Note, templates get the token by calling `csrfToken()` (and the generated base template has it in the `csrf-token` meta tag if the `csrfMetaTag` render parameter is set).
+ * 
+ * @param req The request
+ * @returns The token or undefined if the `csrf` middleware isn't used
+ */
+export function getCsrfToken(req: Request): string | undefined {
+    return requestCsrf.get(req)?.getToken();
+}
+
+/**
+ * Check if a request passes CSRF verification
+ * 
+ * Requests pass if they don't change state (ex. `GET`), were authenticated with a bearer token, the `csrf` middleware isn't used or they include a valid token.
+ * 
+ * @param req The request
+ * @returns If the request passes
+ */
+export function verifyCsrfToken(req: Request): boolean {
+    const csrf = requestCsrf.get(req);
+
+    if(typeof csrf === 'undefined' || SAFE_METHODS.includes(req.method) || typeof getTokenClaims(req) !== 'undefined') {
+        return true;
+    }
+
+    return csrf.verify();
+}
+
+/**
+ * Class that creates the middleware that issues CSRF tokens.
+ * 
+ * Tokens are verified for the state changing routes of controllers (see `@Controller`) unless they're decorated with `@SkipCsrf`.
+ * The token can be submitted in a form field (`_csrf`) or a header (`X-CSRF-Token`).
+ */
+export class CsrfMiddleware {
+    /** How tokens are kept (undefined picks based on if the request has a session) */
+    private mode?: 'synchronizer' | 'double-submit';
+
+    /** The secrets the double-submit cookie is signed with */
+    private secrets: string[];
+
+    /** The name of the form field the token is submitted in */
+    private fieldName: string;
+
+    /** The name of the header the token is submitted in */
+    private headerName: string;
+
+    /** The name of the double-submit cookie */
+    private cookieName: string;
+
+    /** The double-submit cookie's settings */
+    private cookie: NonNullable<CsrfOptions['cookie']>;
+
+    /**
+     * Constructor for the CsrfMiddleware class.
+     * 
+     * @param options Options for the middleware (see `CsrfOptions`).
+     */
+    constructor(options: CsrfOptions = {}) {
+        const secret = options.secret ?? process.env.CSRF_SECRET?.split(',') ?? randomBytes(32).toString('hex');
+
+        this.mode = options.mode;
+        this.secrets = (Array.isArray(secret) ? secret : [secret]).map(value => value.trim()).filter(value => value !== '');
+        this.fieldName = options.fieldName ?? '_csrf';
+        this.headerName = options.headerName ?? 'X-CSRF-Token';
+        this.cookieName = options.cookie?.name ?? 'csrf';
+        this.cookie = options.cookie ?? {};
+
+        if(this.secrets.length === 0) {
+            throw new Error('At least one secret is required to sign CSRF cookies');
+        }
+    }
+
+    /**
+     * Get the token submitted with a request
+     * 
+     * @param req The request
+     * @returns The submitted token (if any)
+     */
+    private getSubmittedToken(req: Request): string | undefined {
+        const fieldValue = typeof req.body === 'object' && req.body !== null ? req.body[this.fieldName] : undefined;
+        if(typeof fieldValue === 'string') {
+            return fieldValue;
+        }
+
+        return req.get(this.headerName);
+    }
+
+    /**
+     * Create the CSRF protection of a request that keeps the token in the session
+     * 
+     * @param req The request
+     * @returns The request's CSRF protection
+     */
+    private synchronizer(req: Request): RequestCsrf {
+        const session = getRequestSession(req);
+        if(typeof session !== 'object' || session === null) {
+            throw new Error('The synchronizer CSRF mode requires sessions (see the `sessions` input of the Initializer)');
+        }
+
+        // Both the framework's sessions and plain session objects (ex. from other session middleware) are supported
+        const getSessionToken = (): string | undefined => session instanceof RequestSession ? session.get(CSRF_SESSION_KEY) : Reflect.get(session, CSRF_SESSION_KEY);
+
+        return {
+            getToken: () => {
+                let token = getSessionToken();
+                if(typeof token === 'undefined') {
+                    token = generateToken();
+                    if(session instanceof RequestSession) {
+                        session.set(CSRF_SESSION_KEY, token);
+                    }
+                    else {
+                        Reflect.set(session, CSRF_SESSION_KEY, token);
+                    }
+                }
+
+                return token;
+            },
+            verify: () => {
+                const expected = getSessionToken();
+                const submitted = this.getSubmittedToken(req);
+
+                return typeof expected !== 'undefined' && typeof submitted !== 'undefined' && tokensMatch(expected, submitted);
+            }
+        };
+    }
+
+    /**
+     * Create the CSRF protection of a request that keeps the token in a signed cookie
+     * 
+     * @param req The request
+     * @param res The response
+     * @returns The request's CSRF protection
+     */
+    private doubleSubmit(req: Request, res: Response): RequestCsrf {
+        const cookie = parseCookies(req.headers.cookie)[this.cookieName];
+        const cookieToken = typeof cookie !== 'undefined' ? unsignValue(cookie, this.secrets) : undefined;
+
+        let token = cookieToken;
+
+        return {
+            getToken: () => {
+                if(typeof token === 'undefined') {
+                    const newToken = generateToken();
+                    token = newToken;
+
+                    if(!res.headersSent) {
+                        res.append('Set-Cookie', serializeCookie(this.cookieName, signValue(newToken, this.secrets[0]), {
+                            path: this.cookie.path,
+                            domain: this.cookie.domain,
+                            sameSite: this.cookie.sameSite,
+                            secure: typeof this.cookie.secure === 'undefined' || this.cookie.secure === 'auto' ? req.secure : this.cookie.secure
+                        }));
+                    }
+                }
+
+                return token;
+            },
+            verify: () => {
+                const submitted = this.getSubmittedToken(req);
+
+                return typeof cookieToken !== 'undefined' && typeof submitted !== 'undefined' && tokensMatch(cookieToken, submitted);
+            }
+        };
+    }
+
+    /**
+     * Creates the middleware function.
+     * 
+     * @returns The middleware function.
+     */
+    middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            const session = getRequestSession(req);
+            const mode = this.mode ?? (typeof session === 'object' && session !== null ? 'synchronizer' : 'double-submit');
+
+            let csrf: RequestCsrf;
+            try {
+                csrf = mode === 'synchronizer' ? this.synchronizer(req) : this.doubleSubmit(req, res);
+            }
+            catch(err) {
+                return next(err);
+            }
+
+            requestCsrf.set(req, csrf);
+
+            // Templates get a function (rather than the token) so that the token is only created when it's used
+            // That way pages without forms don't create sessions/cookies (rendering copies all of the locals, which would create it)
+            res.locals.csrfToken = () => csrf.getToken();
+
+            next();
+        };
+    }
+}
+
+/**
+ * Create the CSRF middleware
+ * 
+ * Note, this needs to come after the session middleware (if sessions are used). The `csrf` input of the `Initializer` takes care of this.
+ * 
+ * @param options Options for the middleware (see `CsrfOptions`).
+ * @returns The middleware function.
+ */
+export function csrf(options: CsrfOptions = {}) {
+    const instance = new CsrfMiddleware(options);
+
+    return instance.middleware.bind(instance);
+}
+
+/**
+ * Create the middleware that verifies the CSRF token of a request to a controller's route (see `@Controller`)
+ * 
+ * @returns The middleware function
+ */
+export function csrfVerification(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if(!verifyCsrfToken(req)) {
+            res.status(403);
+            return next(new CsrfError());
+        }
+
+        next();
+    };
+}
\ No newline at end of file
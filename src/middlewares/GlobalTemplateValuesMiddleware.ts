@@ -1,26 +1,30 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 
+import { LocalizedString, localize } from '../i18n/LocaleMiddleware';
+
 /**
  * Class that creates middleware to set global template values for all pages.
+ * 
+ * Values are localized for each request (see `localize`). So they can be message keys or strings per language (ex. `{ en: ' | Example', fr: ' | Exemple' }`) if the `i18n` middleware is used (before this middleware).
  */
 class GlobalTemplateValuesMiddleware {    
     /** The description of the website. */
-    private description?: string;
+    private description?: LocalizedString;
     
     /** The keywords for the website. */
-    private keywords?: string;
+    private keywords?: LocalizedString;
     
     /** The author of the website. */
-    private author?: string;
+    private author?: LocalizedString;
     
     /** The prefix for the title of the website. */
-    private titlePrefix?: string;
+    private titlePrefix?: LocalizedString;
 
     /** The suffix for the title of the website. */
-    private titleSuffix?: string;
+    private titleSuffix?: LocalizedString;
 
     /** Other values to set. */
-    private otherValues: { [key: string]: string } = {};
+    private otherValues: { [key: string]: LocalizedString } = {};
 
     /**
      * Constructor for the GlobalTemplateValuesMiddleware class.
@@ -33,7 +37,7 @@ class GlobalTemplateValuesMiddleware {
      * @param options.titleSuffix The suffix for the title of the website.
      * @param options[key] Any other values to set.
      */
-    constructor(options: { description?: string, keywords?: string, author?: string, titlePrefix?: string, titleSuffix?: string, [key: string]: string | undefined }) {
+    constructor(options: { description?: LocalizedString, keywords?: LocalizedString, author?: LocalizedString, titlePrefix?: LocalizedString, titleSuffix?: LocalizedString, [key: string]: LocalizedString | undefined }) {
         this.description = options.description;
         this.keywords = options.keywords;
         this.author = options.author;
@@ -41,7 +45,7 @@ class GlobalTemplateValuesMiddleware {
         this.titleSuffix = options.titleSuffix;
         Object.keys(options).forEach(key => {
             if(!['company', 'description', 'keywords', 'author', 'titlePrefix', 'titleSuffix'].includes(key)) {
-                this.otherValues[key] = options[key] as string;
+                this.otherValues[key] = options[key] as LocalizedString;
             }
         })
     }
@@ -54,23 +58,23 @@ class GlobalTemplateValuesMiddleware {
     middleware(): RequestHandler {
         return async (req: Request, res: Response, next: NextFunction) => {
             if(typeof this.description !== 'undefined') {
-                res.locals.description = this.description;
+                res.locals.description = localize(res, this.description);
             }
             if(typeof this.keywords !== 'undefined') {
-                res.locals.keywords = this.keywords;
+                res.locals.keywords = localize(res, this.keywords);
             }
             if(typeof this.author !== 'undefined') {
-                res.locals.author = this.author;
+                res.locals.author = localize(res, this.author);
             }
             if(typeof this.titlePrefix !== 'undefined') {
-                res.locals.titlePrefix = this.titlePrefix;
+                res.locals.titlePrefix = localize(res, this.titlePrefix);
             }
             if(typeof this.titleSuffix !== 'undefined') {
-                res.locals.titleSuffix = this.titleSuffix;
+                res.locals.titleSuffix = localize(res, this.titleSuffix);
             }
 
-            Object.entries(this.otherValues).forEach(([key, value]: [string, string]) => {
-                res.locals[key] = value;
+            Object.entries(this.otherValues).forEach(([key, value]: [string, LocalizedString]) => {
+                res.locals[key] = localize(res, value);
             });
 
             // Continue to the next middleware
@@ -90,7 +94,7 @@ class GlobalTemplateValuesMiddleware {
  * @param options.titleSuffix The suffix for the title of the website.
  * @returns The middleware function.
  */
-export function globalTemplateValues(options: { description?: string, keywords?: string, author?: string, titlePrefix?: string, titleSuffix?: string, [key: string]: string | undefined }) {
+export function globalTemplateValues(options: { description?: LocalizedString, keywords?: LocalizedString, author?: LocalizedString, titlePrefix?: LocalizedString, titleSuffix?: LocalizedString, [key: string]: LocalizedString | undefined }) {
     const instance = new GlobalTemplateValuesMiddleware({ ...options });
 
     return instance.middleware.bind(instance);
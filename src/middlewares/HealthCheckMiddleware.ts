@@ -1,33 +1,372 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 
+/** 
+ * The status of the app (or one of it's components)
+ * 
+ * Note, the health check draft's `pass` and `fail` are also accepted as aliases of `ok` and `error` respectively.
+ */
 export enum HealthCheckStatus {
     OK = 'ok',
+    WARN = 'warn',
     ERROR = 'error'
 }
 
+/** The result of a single component check (an entry of the `checks` object in the health check draft) */
+export type HealthCheckResult = {
+    /** The status of the component */
+    status: HealthCheckStatus,
+    /** The ID of the component (ex. a database's host) */
+    componentId?: string,
+    /** The type of the component (ex. `datastore`, `system` or `component`) */
+    componentType?: string,
+    /** The value that was observed (ex. a response time or free disk space) */
+    observedValue?: unknown,
+    /** The unit of the observed value (ex. `ms` or `bytes`) */
+    observedUnit?: string,
+    /** A human readable description of why the check didn't pass (should be omitted when it passes) */
+    output?: string,
+    /** When the check was done (ISO 8601) */
+    time?: string,
+    /** Links to more information about the check */
+    links?: { [rel: string]: string }
+};
+
+/** 
+ * A function that checks a component of the app (ex. pings the database)
+ * 
+ * The check passes if it returns nothing or `true`, fails if it returns `false` or throws (the error's message becomes the `output`), 
+ * or it can return a status or a full result (ex. to report an `observedValue`).
+ */
+export type HealthCheckProbe = () => void | boolean | HealthCheckStatus | Partial<HealthCheckResult> | Promise<void | boolean | HealthCheckStatus | Partial<HealthCheckResult>>;
+
+/** The options for a registered check */
+export type HealthCheckProbeOptions = {
+    /** How long (in milliseconds) the check has before it's considered failed (default is the middleware's timeout) */
+    timeout?: number,
+    /** If the app can't serve requests when the check fails. If false, a failure only makes the overall status `warn` (default is true) */
+    critical?: boolean,
+    /** If the check is also part of the liveness endpoint (only checks whose failure means the app needs to be restarted should be. Default is false) */
+    liveness?: boolean,
+    /** The ID of the component (ex. a database's host) */
+    componentId?: string,
+    /** The type of the component (ex. `datastore`, `system` or `component`) */
+    componentType?: string
+};
+
+/** The options for the health check middleware */
+export type HealthCheckOptions = {
+    /** The status before any changes (default is `ok`) */
+    initialStatus?: HealthCheckStatus,
+    /** The path of the full health check (default is `/.well-known/health-check`) */
+    path?: string,
+    /** The path of the liveness endpoint, only the app's status and checks marked as liveness checks (default is `<path>/live`) */
+    livenessPath?: string,
+    /** The path of the readiness endpoint, the app's status and all checks (default is `<path>/ready`) */
+    readinessPath?: string,
+    /** The version of the app (the `version` field) */
+    version?: string,
+    /** The release of the app (the `releaseId` field. Ex. a commit hash or build number) */
+    releaseId?: string,
+    /** The ID of the service (the `serviceId` field) */
+    serviceId?: string,
+    /** A human readable description of the service (the `description` field) */
+    description?: string,
+    /** How long (in milliseconds) checks have before they're considered failed (default is 5 seconds) */
+    timeout?: number
+};
+
+/** A registered check */
+type RegisteredCheck = { name: string, probe: HealthCheckProbe, options: HealthCheckProbeOptions };
+
+/** The severity of each status (used to determine the overall status) */
+const STATUS_SEVERITY: { [status in HealthCheckStatus]: number } = {
+    [HealthCheckStatus.OK]: 0,
+    [HealthCheckStatus.WARN]: 1,
+    [HealthCheckStatus.ERROR]: 2
+};
+
+/**
+ * Convert a status (including the health check draft's aliases) to a `HealthCheckStatus`
+ * 
+ * @param status The status
+ * @returns The status or undefined if it isn't one
+ */
+function toStatus(status: unknown): HealthCheckStatus | undefined {
+    switch(status) {
+        case HealthCheckStatus.OK:
+        case 'pass':
+        case 'up':
+            return HealthCheckStatus.OK;
+        case HealthCheckStatus.WARN:
+            return HealthCheckStatus.WARN;
+        case HealthCheckStatus.ERROR:
+        case 'fail':
+        case 'down':
+            return HealthCheckStatus.ERROR;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Class that creates the middleware that serves the app's health checks.
+ * 
+ * This attempts to comply with the [Health Check Response Format for HTTP APIs](https://datatracker.ietf.org/doc/html/draft-inadarei-api-health-check-06) proposed standard.
+ * 
+ * There are three endpoints:
+ * - The full health check (`/.well-known/health-check`), which runs every check
+ * - The readiness endpoint (`/.well-known/health-check/ready`), the same as the full health check. For orchestrators deciding if the app should get traffic
+ * - The liveness endpoint (`/.well-known/health-check/live`), which only runs checks marked as liveness checks. For orchestrators deciding if the app needs to be restarted
+ * 
+ * Each instance keeps it's own status and checks (so multiple apps in one process don't interfere with each other).
+ */
 export class HealthCheckMiddleware {
+    /** The default path of the full health check */
     public static readonly HEALTH_CHECK_ENDPOINT = '/.well-known/health-check';
 
-    private static status: HealthCheckStatus;
-    
-    constructor(initialStatus: HealthCheckStatus = HealthCheckStatus.OK) {
-        HealthCheckMiddleware.status = initialStatus;
+    /** The status set with the deprecated static `setStatus` (combined with the status of every instance) */
+    private static sharedStatus: HealthCheckStatus = HealthCheckStatus.OK;
+
+    /** The status of the app (set explicitly, regardless of the checks) */
+    private status: HealthCheckStatus;
+
+    /** The reason for the status (if it was set with one) */
+    private statusOutput?: string;
+
+    /** If the app is draining (shutting down). This fails the full health check and readiness endpoint, but not the liveness endpoint */
+    private draining: boolean;
+
+    /** The reason the app is draining */
+    private drainingOutput?: string;
+
+    /** The registered checks */
+    private checks: RegisteredCheck[];
+
+    /** The path of the full health check */
+    private path: string;
+
+    /** The path of the liveness endpoint */
+    private livenessPath: string;
+
+    /** The path of the readiness endpoint */
+    private readinessPath: string;
+
+    /** The details of the service (included in every response) */
+    private details: { version?: string, releaseId?: string, serviceId?: string, description?: string };
+
+    /** How long (in milliseconds) checks have by default */
+    private timeout: number;
+
+    /**
+     * Constructor for the HealthCheckMiddleware class.
+     * 
+     * @param options Options for the middleware (see `HealthCheckOptions`) or just the initial status
+     */
+    constructor(options: HealthCheckOptions | HealthCheckStatus = {}) {
+        const healthCheckOptions: HealthCheckOptions = typeof options === 'string' ? { initialStatus: options } : options;
+
+        this.status = healthCheckOptions.initialStatus ?? HealthCheckStatus.OK;
+        this.draining = false;
+        this.checks = [];
+        this.path = healthCheckOptions.path ?? HealthCheckMiddleware.HEALTH_CHECK_ENDPOINT;
+        this.livenessPath = healthCheckOptions.livenessPath ?? `${this.path}/live`;
+        this.readinessPath = healthCheckOptions.readinessPath ?? `${this.path}/ready`;
+        this.details = {
+            version: healthCheckOptions.version,
+            releaseId: healthCheckOptions.releaseId,
+            serviceId: healthCheckOptions.serviceId,
+            description: healthCheckOptions.description
+        };
+        this.timeout = healthCheckOptions.timeout ?? 5000;
     }
 
+    /**
+     * Set the status of every health check middleware in the process
+     * 
+     * @deprecated Each middleware has it's own status, use the instance's `setStatus` instead (ex. `initializer.getHealthCheck()?.setStatus(status)`).
+     * This status is combined with every instance's status (the worse of the two is reported).
+     * 
+     * @param status The status
+     */
     static setStatus(status: HealthCheckStatus) {
-        HealthCheckMiddleware.status = status;
+        HealthCheckMiddleware.sharedStatus = status;
     }
 
-    middleware(req: Request, res: Response, next: NextFunction) {
-        if(req.path === HealthCheckMiddleware.HEALTH_CHECK_ENDPOINT) {
-            switch(HealthCheckMiddleware.status) {
-                case HealthCheckStatus.OK:
-                    return res.status(200).setHeader('Content-Type', 'application/health+json').json({ status: 'ok' });
-                    break;
-                case HealthCheckStatus.ERROR:
-                    return res.status(500).setHeader('Content-Type', 'application/health+json').json({ status: 'error' });
-                    break;
+    /**
+     * Set the status of the app (ex. to `error` when it can't serve requests)
+     * 
+     * This is combined with the checks (the worse of the two is reported) on every endpoint, including the liveness endpoint.
+     * 
+     * @param status The status
+     * @param output The reason for the status (reported as the `output` field)
+     */
+    setStatus(status: HealthCheckStatus, output?: string) {
+        this.status = status;
+        this.statusOutput = output;
+    }
+
+    /**
+     * Get the status of the app (as set with `setStatus`, not including the checks)
+     * 
+     * @returns The status
+     */
+    getStatus() {
+        return this.status;
+    }
+
+    /**
+     * Set if the app is draining (ex. while shutting down)
+     * 
+     * While draining, the full health check and readiness endpoint report `error` (so the app stops getting traffic).
+     * The liveness endpoint isn't affected, the app is still alive (and shouldn't be restarted) while it finishes in-flight requests.
+     * 
+     * @param draining If the app is draining
+     * @param output The reason the app is draining (reported as the `output` field)
+     */
+    setDraining(draining: boolean, output: string = 'The app is draining') {
+        this.draining = draining;
+        this.drainingOutput = draining ? output : undefined;
+    }
+
+    /**
+     * Get if the app is draining (see `setDraining`)
+     * 
+     * @returns If the app is draining
+     */
+    isDraining() {
+        return this.draining;
+    }
+
+    /**
+     * Register a check of a component of the app
+     * 
+     * @example
+     * ```ts
+     * healthCheck.registerCheck('postgres:connections', async () => { await db.query('SELECT 1'); }, { componentType: 'datastore', timeout: 1000 });
+     * ```
+     * 
+     * @param name The name of the check. By convention `<component>:<measurement>` (ex. `postgres:responseTime`)
+     * @param probe The function that does the check
+     * @param options The options for the check (see `HealthCheckProbeOptions`)
+     * @returns The middleware (for chaining)
+     */
+    registerCheck(name: string, probe: HealthCheckProbe, options: HealthCheckProbeOptions = {}): this {
+        // Registering a check with the same name replaces it
+        this.checks = [...this.checks.filter(check => check.name !== name), { name, probe, options }];
+
+        return this;
+    }
+
+    /**
+     * Remove a registered check
+     * 
+     * @param name The name of the check
+     */
+    removeCheck(name: string) {
+        this.checks = this.checks.filter(check => check.name !== name);
+    }
+
+    /**
+     * Run a single check (with it's timeout)
+     * 
+     * @param check The check to run
+     * @returns The result of the check
+     */
+    private async runCheck(check: RegisteredCheck): Promise<HealthCheckResult> {
+        const timeout = check.options.timeout ?? this.timeout;
+        const start = Date.now();
+
+        let timer: NodeJS.Timeout | undefined;
+        let result: HealthCheckResult;
+        try {
+            const output = await Promise.race([
+                Promise.resolve().then(() => check.probe()),
+                new Promise<never>((resolve, reject) => {
+                    timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+                })
+            ]);
+
+            if(typeof output === 'undefined' || output === true) {
+                result = { status: HealthCheckStatus.OK };
             }
+            else if(output === false) {
+                result = { status: HealthCheckStatus.ERROR };
+            }
+            else if(typeof output === 'string') {
+                result = { status: toStatus(output) ?? HealthCheckStatus.ERROR };
+            }
+            else {
+                result = { ...output, status: toStatus(output.status ?? HealthCheckStatus.OK) ?? HealthCheckStatus.ERROR };
+            }
+        }
+        catch(err) {
+            result = { status: HealthCheckStatus.ERROR, output: err instanceof Error ? err.message : String(err) };
+        }
+        finally {
+            clearTimeout(timer);
+        }
+
+        // A failure of a non-critical check is only a warning
+        if(result.status === HealthCheckStatus.ERROR && check.options.critical === false) {
+            result.status = HealthCheckStatus.WARN;
+        }
+
+        return {
+            componentId: check.options.componentId,
+            componentType: check.options.componentType,
+            ...result,
+            time: result.time ?? new Date(start).toISOString()
+        };
+    }
+
+    /**
+     * Run the checks and create the health check response
+     * 
+     * @param livenessOnly If only the checks marked as liveness checks are run
+     * @returns The response body (in the health check draft's format)
+     */
+    async check(livenessOnly: boolean = false) {
+        const checks = this.checks.filter(check => !livenessOnly || check.options.liveness === true);
+        const results = await Promise.all(checks.map(async check => ({ name: check.name, result: await this.runCheck(check) })));
+
+        // Draining only matters to the endpoints that decide if the app gets traffic
+        const draining = this.draining && !livenessOnly;
+
+        // The overall status is the worst of the app's status (including the shared one) and the checks' statuses
+        const status = [this.status, HealthCheckMiddleware.sharedStatus, draining ? HealthCheckStatus.ERROR : HealthCheckStatus.OK, ...results.map(({ result }) => result.status)]
+            .reduce((worst, current) => STATUS_SEVERITY[current] > STATUS_SEVERITY[worst] ? current : worst, HealthCheckStatus.OK);
+
+        // Checks are grouped by name (the draft allows multiple results per name. Ex. one per database node)
+        const grouped: { [name: string]: HealthCheckResult[] } = {};
+        results.forEach(({ name, result }) => {
+            grouped[name] = [...(grouped[name] ?? []), result];
+        });
+
+        const failing = results.filter(({ result }) => result.status !== HealthCheckStatus.OK).map(({ name }) => name);
+
+        return {
+            status: status,
+            ...this.details,
+            output: (draining ? this.drainingOutput : undefined) ?? this.statusOutput ?? (failing.length > 0 ? `Checks not passing: ${failing.join(', ')}` : undefined),
+            checks: Object.keys(grouped).length > 0 ? grouped : undefined
+        };
+    }
+
+    middleware(req: Request, res: Response, next: NextFunction) {
+        if(req.method !== 'GET' && req.method !== 'HEAD') {
+            return next();
+        }
+
+        if(req.path === this.path || req.path === this.readinessPath || req.path === this.livenessPath) {
+            return this.check(req.path === this.livenessPath)
+                .then((body) => {
+                    // Warnings still get a success status (the app can serve requests), errors don't
+                    res.status(body.status === HealthCheckStatus.ERROR ? 503 : 200)
+                        .setHeader('Cache-Control', 'no-store')
+                        .setHeader('Content-Type', 'application/health+json')
+                        .send(JSON.stringify(body));
+                })
+                .catch(next);
         }
 
         next();
@@ -39,11 +378,13 @@ export class HealthCheckMiddleware {
  * 
  * This attempts to comply with the [Health Check Response Format for HTTP APIs](https://datatracker.ietf.org/doc/html/draft-inadarei-api-health-check-06) proposed standard.
  * 
- * @param initialStatus The initial status of the health check.
+ * Note, to register checks or change the status later, create the `HealthCheckMiddleware` directly (or use the `healthCheck` input of the `Initializer`).
+ * 
+ * @param options Options for the middleware (see `HealthCheckOptions`) or just the initial status
  * @returns The middleware function.
  */
-export function healthCheckMiddleware(initialStatus: HealthCheckStatus = HealthCheckStatus.OK) {
-    const instance = new HealthCheckMiddleware(initialStatus);
+export function healthCheckMiddleware(options: HealthCheckOptions | HealthCheckStatus = HealthCheckStatus.OK) {
+    const instance = new HealthCheckMiddleware(options);
 
     return instance.middleware.bind(instance);
 }
\ No newline at end of file
@@ -0,0 +1,315 @@
+import { randomBytes } from 'crypto';
+import express, { Application, Request, Response, NextFunction, RequestHandler } from 'express';
+
+import { TEMPLATE_SOURCES_SETTING } from '../BaseTemplateCreator';
+
+/** The sources for each Content Security Policy directive (ex. `{ 'script-src': ["'self'", 'https://js.stripe.com'] }`) */
+export type ContentSecurityPolicyDirectives = { [directive: string]: string[] };
+
+/** The options for the `securityHeaders` middleware */
+export type SecurityHeadersOptions = {
+    /** Directives (and sources) to add to the Content Security Policy (ex. `{ 'img-src': ['https://images.example.com'] }`) */
+    directives?: ContentSecurityPolicyDirectives,
+    /** If the directives are added to the default (fairly strict, same origin only) directives (default is true) */
+    useDefaults?: boolean,
+    /** If the policy is only reported on rather than enforced (`Content-Security-Policy-Report-Only`). Useful for rolling out a policy (default is false) */
+    reportOnly?: boolean,
+    /** The path of the endpoint violation reports are sent to (default is `/csp-report`) or false to not collect reports */
+    reportPath?: string | false,
+    /** What to do with a violation report (default is to log it, at most 10 reports a minute) */
+    onReport?: (report: unknown, req: Request) => void,
+    /** Other security headers to set (these take precedence over the defaults) */
+    headers?: { [header: string]: string }
+};
+
+/** The Content Security Policy of a response */
+type ResponsePolicy = {
+    /** The directives (and their sources) */
+    directives: ContentSecurityPolicyDirectives,
+    /** If the policy is only reported on */
+    reportOnly: boolean,
+    /** The path of the endpoint violation reports are sent to (if any) */
+    reportPath: string | false
+};
+
+/** The default Content Security Policy directives (everything from the same origin only) */
+const DEFAULT_DIRECTIVES: ContentSecurityPolicyDirectives = {
+    'default-src': ["'self'"],
+    'script-src': ["'self'"],
+    'style-src': ["'self'"],
+    'img-src': ["'self'", 'data:'],
+    'font-src': ["'self'"],
+    'connect-src': ["'self'"],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'"],
+    'frame-ancestors': ["'self'"]
+};
+
+/** The default (non-CSP) security headers */
+const DEFAULT_HEADERS: { [header: string]: string } = {
+    'X-Content-Type-Options': 'nosniff',
+    'Referrer-Policy': 'strict-origin-when-cross-origin'
+};
+
+/** The content types violation reports are sent with (depending on the browser) */
+const REPORT_CONTENT_TYPES = ['application/csp-report', 'application/reports+json', 'application/json'];
+
+/** The largest violation report (body) that's accepted. Reports are small, so anything bigger isn't a real report */
+const REPORT_BODY_LIMIT = '16kb';
+
+/** The most violation reports logged per minute by default */
+const MAX_LOGGED_REPORTS_PER_MINUTE = 10;
+
+/** 
+ * The Content Security Policy of each response currently being handled
+ * 
+ * This is so that sources can be added to a response's policy while handling the request (see `allowContentSecurityPolicySources`)
+ */
+const responsePolicies = new WeakMap<Response, ResponsePolicy>();
+
+/**
+ * Merge directives (adding the sources of the later directives to the earlier ones without duplicates)
+ * 
+ * @param directives The directives to merge
+ * @returns The merged directives
+ */
+function mergeDirectives(...directives: ContentSecurityPolicyDirectives[]): ContentSecurityPolicyDirectives {
+    const merged: ContentSecurityPolicyDirectives = {};
+
+    directives.forEach((directive) => {
+        Object.entries(directive).forEach(([name, sources]) => {
+            merged[name] = [...new Set([...(merged[name] ?? []), ...sources])];
+        });
+    });
+
+    return merged;
+}
+
+/**
+ * Create the default handler for violation reports, which logs them
+ * 
+ * The endpoint is public so anyone can send reports (and one violation on a busy page is a lot of reports).
+ * So only so many reports are logged a minute, with a count of the ones that weren't.
+ * 
+ * @returns The handler
+ */
+function createReportLogger() {
+    let windowStart = 0;
+    let logged = 0;
+    let skipped = 0;
+
+    return (report: unknown) => {
+        const now = Date.now();
+        if(now - windowStart >= 60 * 1000) {
+            if(skipped > 0) {
+                console.warn(`${skipped} Content Security Policy violation reports weren't logged (only ${MAX_LOGGED_REPORTS_PER_MINUTE} are logged a minute)`);
+            }
+
+            windowStart = now;
+            logged = 0;
+            skipped = 0;
+        }
+
+        if(logged >= MAX_LOGGED_REPORTS_PER_MINUTE) {
+            skipped++;
+            return;
+        }
+
+        logged++;
+        console.warn('Content Security Policy violation:', JSON.stringify(report));
+    };
+}
+
+/**
+ * Set (or update) the Content Security Policy header of a response
+ * 
+ * @param res The response
+ * @param policy The policy of the response
+ */
+function setPolicyHeader(res: Response, policy: ResponsePolicy) {
+    const directives = Object.entries(policy.directives).map(([name, sources]) => [name, ...sources].join(' '));
+
+    if(policy.reportPath !== false) {
+        directives.push(`report-uri ${policy.reportPath}`);
+    }
+
+    res.setHeader(policy.reportOnly ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy', directives.join('; '));
+}
+
+/**
+ * Allow additional sources for a directive of a response's Content Security Policy
+ * 
+ * This is how sources that are only known while handling a request get allowed (ex. the external `extraScripts` of a page rendered by `@Page`).
+ * If the response doesn't have a policy (the `securityHeaders` middleware isn't used) this does nothing.
+ * 
+ * @param res The response
+ * @param directive The directive (ex. `script-src`)
+ * @param sources The sources to allow (ex. `https://cdn.example.com`)
+ */
+export function allowContentSecurityPolicySources(res: Response, directive: string, sources: string[]) {
+    const policy = responsePolicies.get(res);
+    if(typeof policy === 'undefined' || sources.length === 0) {
+        return;
+    }
+
+    // A directive that isn't in the policy falls back to `default-src`, so that's what we start from (rather than only allowing the new sources)
+    const existingSources = policy.directives[directive] ?? policy.directives['default-src'] ?? [];
+    policy.directives = mergeDirectives(policy.directives, { [directive]: [...existingSources, ...sources] });
+
+    if(!res.headersSent) {
+        setPolicyHeader(res, policy);
+    }
+}
+
+/**
+ * Class that creates middleware to set security headers (most importantly a Content Security Policy).
+ * 
+ * Every response gets a policy with a new nonce (available to templates as the `cspNonce` render parameter).
+ * Generated base templates (see `BaseTemplateCreator`) put the nonce on every script and style tag. So those are allowed while anything injected isn't.
+ * The external sources the generated templates reference (ex. Stripe, based on `view.templateInputs` of the `Initializer`) are allowed as well.
+ */
+export class SecurityHeadersMiddleware {
+    /** The default directives (if they're used) */
+    private defaultDirectives: ContentSecurityPolicyDirectives;
+
+    /** The directives added by the options */
+    private directives: ContentSecurityPolicyDirectives;
+
+    /** The directives of the policy (without the per request nonce) for each app (these include the sources of the app's generated templates) */
+    private appDirectives: WeakMap<Application, ContentSecurityPolicyDirectives>;
+
+    /** If the policy is only reported on rather than enforced */
+    private reportOnly: boolean;
+
+    /** The path of the endpoint violation reports are sent to (or false if reports aren't collected) */
+    private reportPath: string | false;
+
+    /** What to do with a violation report */
+    private onReport: (report: unknown, req: Request) => void;
+
+    /** The other security headers to set */
+    private headers: { [header: string]: string };
+
+    /** Parses the body of violation reports */
+    private reportParser: RequestHandler;
+
+    /**
+     * Constructor for the SecurityHeadersMiddleware class.
+     * 
+     * @param options Options for the middleware (see `SecurityHeadersOptions`).
+     */
+    constructor(options: SecurityHeadersOptions = {}) {
+        this.defaultDirectives = options.useDefaults === false ? {} : DEFAULT_DIRECTIVES;
+        this.directives = options.directives ?? {};
+        this.appDirectives = new WeakMap();
+        this.reportOnly = options.reportOnly ?? false;
+        this.reportPath = typeof options.reportPath !== 'undefined' ? options.reportPath : '/csp-report';
+        this.onReport = options.onReport ?? createReportLogger();
+        this.headers = { ...DEFAULT_HEADERS, ...(options.headers ?? {}) };
+        this.reportParser = express.json({ type: REPORT_CONTENT_TYPES, limit: REPORT_BODY_LIMIT });
+    }
+
+    /**
+     * Get the directives of the policy (without the per request nonce) for an app
+     * 
+     * @param app The app the request is handled by
+     * @returns The directives
+     */
+    private getDirectives(app: Application): ContentSecurityPolicyDirectives {
+        let directives = this.appDirectives.get(app);
+        if(typeof directives === 'undefined') {
+            // The sources of the generated templates are set by the `Renderer` (see `BaseTemplateCreator.getExternalSources`)
+            const templateSources: ContentSecurityPolicyDirectives[] = app.get(TEMPLATE_SOURCES_SETTING) ?? [];
+
+            directives = mergeDirectives(this.defaultDirectives, ...templateSources, this.directives);
+            this.appDirectives.set(app, directives);
+        }
+
+        return directives;
+    }
+
+    /**
+     * Add the nonce to the directives that control scripts and styles
+     * 
+     * @param directives The directives of the policy
+     * @param nonce The nonce
+     * @returns The directives with the nonce
+     */
+    private withNonce(directives: ContentSecurityPolicyDirectives, nonce: string): ContentSecurityPolicyDirectives {
+        const nonceSource = `'nonce-${nonce}'`;
+
+        // If the policy doesn't have `script-src` or `style-src` they fall back to `default-src`, so the nonce goes there instead
+        const nonceDirectives = ['script-src', 'style-src'].filter(directive => typeof directives[directive] !== 'undefined');
+        if(nonceDirectives.length < 2 && typeof directives['default-src'] !== 'undefined') {
+            nonceDirectives.push('default-src');
+        }
+
+        return mergeDirectives(directives, Object.fromEntries(nonceDirectives.map(directive => [directive, [nonceSource]])));
+    }
+
+    /**
+     * Handle a violation report sent to the report endpoint
+     * 
+     * @param req The request
+     * @param res The response
+     * @param next The next function
+     */
+    private handleReport(req: Request, res: Response, next: NextFunction) {
+        this.reportParser(req, res, (error?: any) => {
+            if(error) {
+                return next(error);
+            }
+
+            // Chrome sends a list of reports (Reporting API) while other browsers send a single `csp-report` object
+            const reports = Array.isArray(req.body) ? req.body : [req.body];
+            reports.forEach(report => this.onReport(report, req));
+
+            res.status(204).end();
+        });
+    }
+
+    /**
+     * Creates the middleware function.
+     * 
+     * @returns The middleware function.
+     */
+    middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            if(this.reportPath !== false && req.method === 'POST' && req.path === this.reportPath) {
+                return this.handleReport(req, res, next);
+            }
+
+            Object.entries(this.headers).forEach(([header, value]) => res.setHeader(header, value));
+
+            const nonce = randomBytes(16).toString('base64');
+            res.locals.cspNonce = nonce;
+
+            const policy: ResponsePolicy = { directives: this.withNonce(this.getDirectives(req.app), nonce), reportOnly: this.reportOnly, reportPath: this.reportPath };
+            responsePolicies.set(res, policy);
+            setPolicyHeader(res, policy);
+
+            next();
+        };
+    }
+}
+
+/**
+ * Middleware wrapper function to set security headers (including a Content Security Policy with a per request nonce).
+ * 
+ * @example
+ * ```ts
+ * const initializer = new Initializer(
+ *     { view: { filesPath: 'pages', templateInputs: { includeStripe: true } } },
+ *     securityHeaders({ reportOnly: true })
+ * );
+ * ```
+ * 
+ * @param options Options for the middleware (see `SecurityHeadersOptions`).
+ * @returns The middleware function.
+ */
+export function securityHeaders(options: SecurityHeadersOptions = {}) {
+    const instance = new SecurityHeadersMiddleware(options);
+
+    return instance.middleware.bind(instance);
+}
\ No newline at end of file
@@ -1,9 +1,25 @@
 import { globalTemplateValues } from './GlobalTemplateValuesMiddleware';
-import { HealthCheckStatus, HealthCheckMiddleware, healthCheckMiddleware } from './HealthCheckMiddleware';
+import { HealthCheckStatus, HealthCheckResult, HealthCheckProbe, HealthCheckProbeOptions, HealthCheckOptions, HealthCheckMiddleware, healthCheckMiddleware } from './HealthCheckMiddleware';
+import { SecurityHeadersMiddleware, securityHeaders, allowContentSecurityPolicySources } from './SecurityHeadersMiddleware';
+import { CompressionMiddleware, compression } from './CompressionMiddleware';
+import { CsrfMiddleware, CsrfOptions, csrf, getCsrfToken } from './CsrfMiddleware';
 
 export { 
     globalTemplateValues, 
     HealthCheckStatus, 
+    HealthCheckResult, 
+    HealthCheckProbe, 
+    HealthCheckProbeOptions, 
+    HealthCheckOptions, 
     HealthCheckMiddleware, 
-    healthCheckMiddleware 
+    healthCheckMiddleware, 
+    SecurityHeadersMiddleware, 
+    securityHeaders, 
+    allowContentSecurityPolicySources, 
+    CompressionMiddleware, 
+    compression, 
+    CsrfMiddleware, 
+    CsrfOptions, 
+    csrf, 
+    getCsrfToken 
 };
\ No newline at end of file
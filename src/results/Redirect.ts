@@ -0,0 +1,28 @@
+import { StatusResult } from './StatusResult';
+
+/**
+ * A result a route's method can return to redirect the client to another URL
+ * 
+ * @example
+ * ```ts
+ * @GET('/old-path')
+ * private oldPath() {
+ *     return new Redirect('/new-path', 301);
+ * }
+ * ```
+ */
+export class Redirect extends StatusResult {
+    /** The URL to redirect to */
+    public readonly url: string;
+
+    /**
+     * Create a new redirect
+     * 
+     * @param url The URL to redirect to
+     * @param status The HTTP status code of the redirect (default is 302)
+     */
+    constructor(url: string, status: number = 302) {
+        super(status);
+        this.url = url;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * A result a route's method can return to respond with a particular status code (and optionally a body and headers)
+ * 
+ * @example
+ * ```ts
+ * @POST('/items', express.json())
+ * private async create(req: Request) {
+ *     const item = await this.items.create(req.body);
+ *     
+ *     return new StatusResult(201, item, { 'Location': `/items/${item.id}` });
+ * }
+ * ```
+ */
+export class StatusResult {
+    /** The HTTP status code to respond with */
+    public readonly status: number;
+
+    /** The body to respond with (sent the same way as if the route's method returned it directly). Nothing is sent if undefined */
+    public readonly body?: unknown;
+
+    /** Any headers to set on the response */
+    public readonly headers: { [name: string]: string };
+
+    /**
+     * Create a new status result
+     * 
+     * @param status The HTTP status code to respond with
+     * @param body The body to respond with (if any)
+     * @param headers Any headers to set on the response
+     */
+    constructor(status: number, body?: unknown, headers: { [name: string]: string } = {}) {
+        this.status = status;
+        this.body = body;
+        this.headers = headers;
+    }
+}
\ No newline at end of file
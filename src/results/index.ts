@@ -0,0 +1,7 @@
+import { StatusResult } from './StatusResult';
+import { Redirect } from './Redirect';
+
+export {
+    StatusResult,
+    Redirect
+};
\ No newline at end of file
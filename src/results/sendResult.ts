@@ -0,0 +1,85 @@
+import { OutgoingMessage } from 'http';
+import { Response } from 'express';
+
+import { StatusResult } from './StatusResult';
+import { Redirect } from './Redirect';
+
+/**
+ * Check if a value is a readable stream
+ * 
+ * @param value The value to check
+ * @returns If the value is a readable stream
+ */
+function isReadableStream(value: unknown): value is NodeJS.ReadableStream {
+    return typeof value === 'object' && value !== null && typeof (value as NodeJS.ReadableStream).pipe === 'function' && typeof (value as NodeJS.ReadableStream).on === 'function';
+}
+
+/**
+ * Send the value returned by a route's method as the response
+ * 
+ * | Returned value                | Response                                                         |
+ * | ----------------------------- | ---------------------------------------------------------------- |
+ * | `undefined`, `null`, `false`  | Nothing (the method handled the response itself)                 |
+ * | `Redirect`                    | A redirect to the URL (with the redirect's status)               |
+ * | `StatusResult`                | The status (and headers) with the body sent as described here    |
+ * | `string`                      | The string as HTML                                               |
+ * | `Buffer`                      | The buffer as the body (as is)                                   |
+ * | A readable stream             | The stream piped to the response                                 |
+ * | Anything else (ex. an object) | The value as JSON                                                |
+ * 
+ * Note, nothing is sent if the response was already sent (ex. the method called `res.send` itself).
+ * 
+ * @param res The response to send the value as
+ * @param output The value returned by the route's method
+ * @returns A promise that resolves once the response has been sent (rejects if a stream errors)
+ */
+export async function sendResult(res: Response, output: unknown): Promise<void> {
+    // The method handled the response itself
+    // 
+    // Note, we also ignore the response object itself because methods commonly return it (ex. `return res.status(404)`)
+    if(res.headersSent || typeof output === 'undefined' || output === null || output === false || output instanceof OutgoingMessage) {
+        return;
+    }
+
+    if(output instanceof Redirect) {
+        Object.entries(output.headers).forEach(([name, value]) => res.setHeader(name, value));
+        res.redirect(output.status, output.url);
+        return;
+    }
+
+    if(output instanceof StatusResult) {
+        Object.entries(output.headers).forEach(([name, value]) => res.setHeader(name, value));
+        res.status(output.status);
+
+        if(typeof output.body === 'undefined') {
+            res.end();
+            return;
+        }
+
+        return await sendResult(res, output.body);
+    }
+
+    if(typeof output === 'string') {
+        if(typeof res.get('Content-Type') === 'undefined') {
+            res.type('html');
+        }
+        
+        res.send(output);
+        return;
+    }
+
+    if(Buffer.isBuffer(output)) {
+        res.send(output);
+        return;
+    }
+
+    if(isReadableStream(output)) {
+        return await new Promise<void>((resolve, reject) => {
+            output.on('error', reject);
+            res.on('close', () => resolve());
+            output.pipe(res);
+        });
+    }
+
+    res.json(output);
+}
\ No newline at end of file
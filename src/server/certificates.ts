@@ -0,0 +1,178 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isIP } from 'net';
+import { execFile } from 'child_process';
+import { X509Certificate } from 'crypto';
+import { promisify } from 'util';
+
+/** The options for generating a self-signed development certificate */
+export type SelfSignedCertificateOptions = {
+    /** 
+     * The directory the certificate and key are kept in (so that the same certificate is reused, and only has to be trusted once). 
+     * Default is `.ba-web-framework/certs` in the user's home directory (outside of the project, so the unencrypted key can't be committed by accident)
+     */
+    directory?: string,
+    /** The host names (and IP addresses) the certificate is for. Default is `localhost`, `127.0.0.1` and `::1` */
+    hostnames?: string[],
+    /** How many days the certificate is valid for. Default is 30 */
+    days?: number
+};
+
+/** The options for serving the app over HTTPS */
+export type TlsOptions = {
+    /** The path of the certificate (PEM). Default is the `TLS_CERT_PATH` environment variable */
+    certPath?: string,
+    /** The path of the private key (PEM). Default is the `TLS_KEY_PATH` environment variable */
+    keyPath?: string,
+    /** The path of the CA certificate chain (PEM, if needed). Default is the `TLS_CA_PATH` environment variable */
+    caPath?: string,
+    /** The passphrase of the private key (if it's encrypted). Default is the `TLS_KEY_PASSPHRASE` environment variable */
+    passphrase?: string,
+    /**
+     * Generate (and reuse) a self-signed certificate if no certificate is configured.
+     * Default is true unless `NODE_ENV` is `production` (a self-signed certificate is never generated in production unless this is explicitly set)
+     */
+    selfSigned?: boolean | SelfSignedCertificateOptions,
+    /** Serve HTTP/2 (HTTP/1.1 clients are still supported). Default is false */
+    http2?: boolean,
+    /**
+     * Also listen for plain HTTP requests and redirect them to HTTPS.
+     * `true` listens on the `HTTP_PORT` environment variable (or port 80), a number listens on that port. Default is false
+     */
+    redirectHttp?: boolean | number
+};
+
+/** The certificate (and key) to serve HTTPS with */
+export type Certificate = {
+    cert: Buffer,
+    key: Buffer,
+    ca?: Buffer,
+    passphrase?: string
+};
+
+/** The default directory self-signed certificates are kept in (shared by every app of the user) */
+const DEFAULT_SELF_SIGNED_DIRECTORY = path.join(os.homedir(), '.ba-web-framework', 'certs');
+
+/** The default host names self-signed certificates are for */
+const DEFAULT_SELF_SIGNED_HOSTNAMES = ['localhost', '127.0.0.1', '::1'];
+
+/** How long (in milliseconds) before a self-signed certificate expires that it's replaced */
+const SELF_SIGNED_RENEWAL_MARGIN = 24 * 60 * 60 * 1000;
+
+/**
+ * Check if HTTPS is configured through the environment (ex. for on-prem deployments that mount a certificate)
+ *
+ * @returns If both the `TLS_CERT_PATH` and `TLS_KEY_PATH` environment variables are set
+ */
+export function isTlsConfiguredByEnvironment() {
+    return typeof process.env.TLS_CERT_PATH !== 'undefined' && process.env.TLS_CERT_PATH !== '' && typeof process.env.TLS_KEY_PATH !== 'undefined' && process.env.TLS_KEY_PATH !== '';
+}
+
+/**
+ * Check if a (PEM) certificate file is still valid for long enough to be reused
+ *
+ * @param certPath The path of the certificate
+ * @param hostnames The host names the certificate has to be for
+ * @returns If the certificate can be reused
+ */
+function isReusable(certPath: string, hostnames: string[]) {
+    try {
+        const certificate = new X509Certificate(fs.readFileSync(certPath));
+
+        if(new Date(certificate.validTo).getTime() - SELF_SIGNED_RENEWAL_MARGIN < Date.now()) {
+            return false;
+        }
+
+        return hostnames.every(hostname => isIP(hostname) !== 0 ? typeof certificate.checkIP(hostname) !== 'undefined' : typeof certificate.checkHost(hostname) !== 'undefined');
+    }
+    catch(err) {
+        return false;
+    }
+}
+
+/**
+ * Generate a self-signed certificate for local development (or reuse the one generated previously).
+ *
+ * Node can't create X.509 certificates itself, so this uses the `openssl` command (which has to be installed).
+ * Browsers will warn about the certificate unless it's trusted (ex. added to the OS's trust store).
+ *
+ * @param options The options for the certificate
+ * @returns The certificate and key
+ */
+export async function generateSelfSignedCertificate(options: SelfSignedCertificateOptions = {}): Promise<Certificate> {
+    const directory = path.resolve(options.directory ?? DEFAULT_SELF_SIGNED_DIRECTORY);
+    const hostnames = options.hostnames ?? DEFAULT_SELF_SIGNED_HOSTNAMES;
+    const certPath = path.join(directory, 'dev-cert.pem');
+    const keyPath = path.join(directory, 'dev-key.pem');
+
+    if(!fs.existsSync(keyPath) || !isReusable(certPath, hostnames)) {
+        // Only the user can read the key (the directories are created without access for anyone else and the key file is restricted before it's written to)
+        await fs.promises.mkdir(directory, { recursive: true, mode: 0o700 });
+        await fs.promises.writeFile(keyPath, '', { mode: 0o600 });
+        await fs.promises.chmod(keyPath, 0o600);
+
+        const relativeDirectory = path.relative(process.cwd(), directory);
+        if(!relativeDirectory.startsWith('..') && !path.isAbsolute(relativeDirectory)) {
+            console.warn(`The self-signed certificate's unencrypted private key is kept in the project (${keyPath}). Make sure ${relativeDirectory === '' ? 'it' : relativeDirectory} is in your .gitignore`);
+        }
+
+        const subjectAltNames = hostnames.map(hostname => isIP(hostname) !== 0 ? `IP:${hostname}` : `DNS:${hostname}`).join(',');
+
+        try {
+            await promisify(execFile)('openssl', [
+                'req', '-x509',
+                '-newkey', 'rsa:2048',
+                '-nodes',
+                '-keyout', keyPath,
+                '-out', certPath,
+                '-days', String(options.days ?? 30),
+                '-subj', `/CN=${hostnames[0]}`,
+                '-addext', `subjectAltName=${subjectAltNames}`
+            ]);
+        }
+        catch(err) {
+            throw new Error(`Failed to generate a self-signed certificate (is openssl installed?): ${err instanceof Error ? err.message : err}`);
+        }
+
+        console.log(`Generated a self-signed certificate for ${hostnames.join(', ')} (${certPath})`);
+    }
+
+    return {
+        cert: await fs.promises.readFile(certPath),
+        key: await fs.promises.readFile(keyPath)
+    };
+}
+
+/**
+ * Load the certificate to serve HTTPS with
+ *
+ * The certificate's paths come from the options or the environment variables (`TLS_CERT_PATH`, `TLS_KEY_PATH`, `TLS_CA_PATH` and `TLS_KEY_PASSPHRASE`).
+ * If neither set a certificate, a self-signed one is generated (outside of production, or if `selfSigned` is explicitly set).
+ *
+ * @param options The options for serving HTTPS
+ * @returns The certificate and key
+ * @throws Error if no certificate is configured and a self-signed one can't be used
+ */
+export async function loadCertificate(options: TlsOptions = {}): Promise<Certificate> {
+    const certPath = options.certPath ?? process.env.TLS_CERT_PATH;
+    const keyPath = options.keyPath ?? process.env.TLS_KEY_PATH;
+    const caPath = options.caPath ?? process.env.TLS_CA_PATH;
+    const passphrase = options.passphrase ?? process.env.TLS_KEY_PASSPHRASE;
+
+    if(typeof certPath !== 'undefined' && certPath !== '' && typeof keyPath !== 'undefined' && keyPath !== '') {
+        return {
+            cert: await fs.promises.readFile(certPath),
+            key: await fs.promises.readFile(keyPath),
+            ca: typeof caPath !== 'undefined' && caPath !== '' ? await fs.promises.readFile(caPath) : undefined,
+            passphrase: passphrase
+        };
+    }
+
+    const selfSigned = options.selfSigned ?? process.env.NODE_ENV !== 'production';
+    if(selfSigned === false) {
+        throw new Error('HTTPS is enabled but no certificate is configured. Set the certificate and key paths (or the TLS_CERT_PATH and TLS_KEY_PATH environment variables)');
+    }
+
+    return generateSelfSignedCertificate(selfSigned === true ? {} : selfSigned);
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import http, { Server } from 'http';
+import https from 'https';
+import { Http2SecureServer } from 'http2';
+import { Application } from 'express';
+
+import { TlsOptions, loadCertificate } from './certificates';
+import { ServerConnections, createHttp2Server } from './http2';
+
+/** The server an app runs on */
+export type AppServer = Server | Http2SecureServer;
+
+/**
+ * Create the server for an Express app
+ *
+ * @param app The Express app
+ * @param tls The options for serving HTTPS (if undefined, plain HTTP is served)
+ * @returns The server and it's connections (closed when the app shuts down)
+ */
+export async function createServer(app: Application, tls?: TlsOptions): Promise<{ server: AppServer, connections: ServerConnections }> {
+    if(typeof tls === 'undefined') {
+        const server = http.createServer(app);
+
+        return { server, connections: server };
+    }
+
+    const certificate = await loadCertificate(tls);
+
+    if(tls.http2) {
+        return createHttp2Server(app, certificate);
+    }
+
+    const server = https.createServer(certificate, app);
+
+    return { server, connections: server };
+}
+
+/**
+ * Create a plain HTTP server that redirects every request to HTTPS
+ *
+ * @param httpsPort The port HTTPS is served on
+ * @returns The server
+ */
+export function createRedirectServer(httpsPort: number): Server {
+    return http.createServer((req, res) => {
+        let url: URL;
+        try {
+            // Note, the path isn't resolved relative to the host (ex. `//example.com` would otherwise change the host)
+            url = new URL(`https://${req.headers.host ?? ''}${req.url ?? '/'}`);
+        }
+        catch(err) {
+            // No (or an invalid) `Host` header, so there's nowhere to redirect to
+            res.statusCode = 400;
+            res.end('Bad Request');
+            return;
+        }
+
+        url.port = httpsPort === 443 ? '' : String(httpsPort);
+
+        // 308 (unlike 301) keeps the method and body of non-GET requests
+        res.statusCode = req.method === 'GET' || req.method === 'HEAD' ? 301 : 308;
+        res.setHeader('Location', url.toString());
+        res.end();
+    });
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+import http2, { Http2SecureServer, Http2ServerRequest, Http2ServerResponse, ServerHttp2Session } from 'http2';
+import { TLSSocket } from 'tls';
+import express, { Application, Express, Request, Response } from 'express';
+
+/** The connections of a server that can be closed when shutting down (`http.Server` has these built in) */
+export type ServerConnections = {
+    /** Close the connections that aren't handling a request (and the rest once their requests finish) */
+    closeIdleConnections(): void,
+    /** Close all of the connections (even if they're handling a request) */
+    closeAllConnections(): void
+};
+
+/**
+ * Express' request and response prototypes, but based on the HTTP/2 compatibility API's request and response.
+ *
+ * Express 4 sets the prototype of every request/response to it's own, which are based on `http.IncomingMessage` and `http.ServerResponse`.
+ * An HTTP/2 request with those prototypes is broken (ex. `req.headers` comes from the wrong class), so HTTP/2 requests get these instead.
+ */
+const http2Request = Object.create(Http2ServerRequest.prototype, Object.getOwnPropertyDescriptors(express.request));
+const http2Response = Object.create(Http2ServerResponse.prototype, {
+    ...Object.getOwnPropertyDescriptors(express.response),
+    // Unlike `http.ServerResponse`, `setHeader` doesn't return the response (which breaks chaining. Ex. `res.status(200).setHeader(...).send(...)`)
+    setHeader: {
+        configurable: true,
+        writable: true,
+        value: function (this: Http2ServerResponse, name: string, value: number | string | readonly string[]) {
+            Http2ServerResponse.prototype.setHeader.call(this, name, value);
+
+            return this;
+        }
+    }
+});
+
+/**
+ * Create the request handler for an HTTP/2 server that passes requests to an Express app.
+ *
+ * HTTP/1.1 requests (the server allows them) are passed through as is.
+ * Note, Express sub-apps (mounted with `app.use(subApp)`) only work for HTTP/1.1 requests.
+ *
+ * @param app The Express app
+ * @returns The request handler
+ */
+export function createHttp2RequestHandler(app: Application) {
+    // The app's own request/response (which have `app` set on them) but based on the HTTP/2 prototypes
+    const appRequest = Object.create(http2Request, { app: { configurable: true, enumerable: true, writable: true, value: app } });
+    const appResponse = Object.create(http2Response, { app: { configurable: true, enumerable: true, writable: true, value: app } });
+
+    return (req: Http2ServerRequest, res: Http2ServerResponse) => {
+        // HTTP/1.1 requests are actually `http.IncomingMessage`/`http.ServerResponse` (the server's typings don't reflect that)
+        if(req.httpVersionMajor < 2) {
+            return app(req as unknown as Request, res as unknown as Response);
+        }
+
+        // HTTP/2 uses the `:authority` pseudo-header instead of `Host` (which Express uses for `req.hostname`)
+        if(typeof req.headers.host === 'undefined' && typeof req.headers[':authority'] !== 'undefined') {
+            req.headers.host = req.headers[':authority'];
+        }
+
+        // Express sets the prototypes synchronously (as part of it's first middleware), so they're only swapped for the duration of this call
+        const expressApp = app as Express;
+        const originalRequest = expressApp.request;
+        const originalResponse = expressApp.response;
+        expressApp.request = appRequest;
+        expressApp.response = appResponse;
+        try {
+            // Express turns them into it's request/response (with the prototypes above)
+            app(req as unknown as Request, res as unknown as Response);
+        }
+        finally {
+            expressApp.request = originalRequest;
+            expressApp.response = originalResponse;
+        }
+    };
+}
+
+/**
+ * Keeps track of an HTTP/2 server's connections so that they can be closed when shutting down.
+ *
+ * An HTTP/2 server doesn't track it's connections like `http.Server` does.
+ * HTTP/2 sessions are closed gracefully (they finish their in-flight streams), HTTP/1.1 connections are closed once they're idle.
+ */
+export class Http2ConnectionTracker implements ServerConnections {
+    /** The open HTTP/2 sessions */
+    private sessions: Set<ServerHttp2Session>;
+
+    /** The open HTTP/1.1 connections and the number of requests each is handling */
+    private sockets: Map<TLSSocket, number>;
+
+    /** If the server is closing (so HTTP/1.1 connections are closed as soon as they're idle) */
+    private closing: boolean;
+
+    /**
+     * Start tracking a server's connections
+     *
+     * @param server The server to track
+     */
+    constructor(server: Http2SecureServer) {
+        this.sessions = new Set();
+        this.sockets = new Map();
+        this.closing = false;
+
+        server.on('session', (session: ServerHttp2Session) => {
+            this.sessions.add(session);
+            session.once('close', () => this.sessions.delete(session));
+        });
+
+        server.on('secureConnection', (socket: TLSSocket) => {
+            // HTTP/2 connections are tracked as sessions
+            if(socket.alpnProtocol === 'h2') {
+                return;
+            }
+
+            this.sockets.set(socket, 0);
+            socket.once('close', () => this.sockets.delete(socket));
+        });
+
+        server.on('request', (req: Http2ServerRequest, res: Http2ServerResponse) => {
+            const socket = req.socket as TLSSocket;
+            if(req.httpVersionMajor >= 2 || !this.sockets.has(socket)) {
+                return;
+            }
+
+            this.sockets.set(socket, (this.sockets.get(socket) ?? 0) + 1);
+            res.once('close', () => {
+                if(!this.sockets.has(socket)) {
+                    return;
+                }
+
+                const requests = (this.sockets.get(socket) ?? 1) - 1;
+                this.sockets.set(socket, requests);
+
+                if(this.closing && requests === 0) {
+                    socket.destroy();
+                }
+            });
+        });
+    }
+
+    /**
+     * Close the connections that aren't handling a request (the rest are closed once their requests finish)
+     */
+    closeIdleConnections() {
+        this.closing = true;
+
+        this.sessions.forEach(session => session.close());
+        this.sockets.forEach((requests, socket) => {
+            if(requests === 0) {
+                socket.destroy();
+            }
+        });
+    }
+
+    /**
+     * Close all of the connections (even if they're handling a request)
+     */
+    closeAllConnections() {
+        this.sessions.forEach(session => session.destroy());
+        this.sockets.forEach((requests, socket) => socket.destroy());
+    }
+}
+
+/**
+ * Create an HTTP/2 server (that also accepts HTTP/1.1) for an Express app
+ *
+ * @param app The Express app
+ * @param options The TLS options for the server (certificate, key, etc...)
+ * @returns The server and it's connections
+ */
+export function createHttp2Server(app: Application, options: http2.SecureServerOptions): { server: Http2SecureServer, connections: ServerConnections } {
+    const server = http2.createSecureServer({ ...options, allowHTTP1: true }, createHttp2RequestHandler(app));
+
+    return { server, connections: new Http2ConnectionTracker(server) };
+}
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { TlsOptions, SelfSignedCertificateOptions, Certificate, loadCertificate, generateSelfSignedCertificate } from './certificates';
+import { ServerConnections, Http2ConnectionTracker } from './http2';
+import { AppServer } from './createServer';
+
+export {
+    TlsOptions,
+    SelfSignedCertificateOptions,
+    Certificate,
+    loadCertificate,
+    generateSelfSignedCertificate,
+    ServerConnections,
+    Http2ConnectionTracker,
+    AppServer
+};
\ No newline at end of file
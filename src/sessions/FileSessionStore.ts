@@ -0,0 +1,111 @@
+import fs from 'fs';
+import { randomBytes } from 'crypto';
+import path from 'path';
+
+import { SessionStore, SessionRecord } from './SessionStore';
+
+/** The characters a session ID can contain (so that an ID can't be used to read/write files outside the directory) */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Keeps sessions as JSON files in a directory (one file per session)
+ * 
+ * Unlike the in-memory store, sessions survive the app restarting.
+ * Expired sessions are removed when they're read (and periodically).
+ */
+export class FileSessionStore extends SessionStore {
+    /** The directory the session files are kept in */
+    private directory: string;
+
+    /**
+     * Create a new file-backed session store
+     * 
+     * @param directory The directory to keep the session files in (created if it doesn't exist)
+     * @param pruneInterval How often (in milliseconds) expired session files are removed (default is every 15 minutes)
+     */
+    constructor(directory: string, pruneInterval: number = 15 * 60 * 1000) {
+        super();
+
+        this.directory = path.resolve(directory);
+
+        if(!fs.existsSync(this.directory)) {
+            fs.mkdirSync(this.directory, { recursive: true });
+        }
+
+        // Unref'd so that the interval doesn't keep the process alive
+        setInterval(() => this.prune().catch(err => console.error('Failed to remove expired sessions', err)), pruneInterval).unref();
+    }
+
+    /**
+     * Get the path of a session's file
+     * 
+     * @param id The ID of the session
+     * @returns The path of the session's file
+     * @throws Error if the ID contains characters that aren't allowed
+     */
+    private getFilePath(id: string) {
+        if(!SESSION_ID_PATTERN.test(id)) {
+            throw new Error(`Invalid session ID: ${id}`);
+        }
+
+        return path.join(this.directory, `${id}.json`);
+    }
+
+    /**
+     * Read a session's file
+     * 
+     * @param filePath The path of the session's file
+     * @returns The contents of the file or undefined if it doesn't exist (or can't be parsed)
+     */
+    private async read(filePath: string): Promise<{ record: SessionRecord, expiresAt: number } | undefined> {
+        try {
+            return JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+        }
+        catch {
+            return undefined;
+        }
+    }
+
+    /** Remove the session files that have expired */
+    private async prune() {
+        const files = (await fs.promises.readdir(this.directory)).filter(file => file.endsWith('.json'));
+
+        for(const file of files) {
+            const session = await this.read(path.join(this.directory, file));
+            if(typeof session === 'undefined' || session.expiresAt <= Date.now()) {
+                await fs.promises.rm(path.join(this.directory, file), { force: true });
+            }
+        }
+    }
+
+    async get(id: string) {
+        if(!SESSION_ID_PATTERN.test(id)) {
+            return undefined;
+        }
+
+        const session = await this.read(this.getFilePath(id));
+        if(typeof session === 'undefined') {
+            return undefined;
+        }
+
+        if(session.expiresAt <= Date.now()) {
+            await this.destroy(id);
+            return undefined;
+        }
+
+        return session.record;
+    }
+
+    async set(id: string, record: SessionRecord, ttl: number) {
+        const filePath = this.getFilePath(id);
+
+        // Written to a temporary file and renamed so that a session is never read half written
+        const tempPath = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify({ record: record, expiresAt: Date.now() + ttl }), 'utf-8');
+        await fs.promises.rename(tempPath, filePath);
+    }
+
+    async destroy(id: string) {
+        await fs.promises.rm(this.getFilePath(id), { force: true });
+    }
+}
\ No newline at end of file
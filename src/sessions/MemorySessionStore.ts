@@ -0,0 +1,56 @@
+import { SessionStore, SessionRecord } from './SessionStore';
+
+/**
+ * Keeps sessions in memory
+ * 
+ * This is the default store. It's fine for development and single instance deployments.
+ * But sessions are lost when the app restarts and aren't shared between instances.
+ */
+export class MemorySessionStore extends SessionStore {
+    /** The sessions (and when they expire) by ID */
+    private sessions: Map<string, { record: SessionRecord, expiresAt: number }>;
+
+    /**
+     * Create a new in-memory session store
+     * 
+     * @param pruneInterval How often (in milliseconds) expired sessions are removed (default is every minute)
+     */
+    constructor(pruneInterval: number = 60 * 1000) {
+        super();
+
+        this.sessions = new Map();
+
+        // Unref'd so that the interval doesn't keep the process alive
+        setInterval(() => this.prune(), pruneInterval).unref();
+    }
+
+    /** Remove the sessions that have expired */
+    private prune() {
+        const now = Date.now();
+
+        this.sessions.forEach(({ expiresAt }, id) => {
+            if(expiresAt <= now) {
+                this.sessions.delete(id);
+            }
+        });
+    }
+
+    async get(id: string) {
+        const session = this.sessions.get(id);
+
+        if(typeof session === 'undefined' || session.expiresAt <= Date.now()) {
+            return undefined;
+        }
+
+        // A copy so that changes to the session aren't kept unless it's saved
+        return structuredClone(session.record);
+    }
+
+    async set(id: string, record: SessionRecord, ttl: number) {
+        this.sessions.set(id, { record: structuredClone(record), expiresAt: Date.now() + ttl });
+    }
+
+    async destroy(id: string) {
+        this.sessions.delete(id);
+    }
+}
\ No newline at end of file
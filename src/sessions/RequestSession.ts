@@ -0,0 +1,163 @@
+import { randomBytes } from 'crypto';
+
+import { SessionData, SessionRecord } from './SessionStore';
+
+/**
+ * Generate a new (unguessable) session ID
+ * 
+ * @returns The session ID
+ */
+export function generateSessionId() {
+    return randomBytes(24).toString('base64url');
+}
+
+/**
+ * The session of a request
+ * 
+ * This is what `req.session` (and the `@Session` decorator) provides when the session middleware is used.
+ * Changes are saved to the store when the response is sent.
+ */
+export class RequestSession {
+    /** The ID of the session */
+    private _id: string;
+
+    /** The values stored in the session */
+    data: SessionData;
+
+    /** When the session was created (in milliseconds since the epoch) */
+    private _createdAt: number;
+
+    /** If the session was created by this request (rather than loaded from the store) */
+    private _isNew: boolean;
+
+    /** If the session has been destroyed (ex. by logging out) */
+    private _isDestroyed: boolean;
+
+    /** The IDs the session had before it was regenerated (these are removed from the store when the response is sent) */
+    private _previousIds: string[];
+
+    /**
+     * Create a new request session
+     * 
+     * @param id The ID of the session
+     * @param record The session from the store (undefined for a new session)
+     */
+    constructor(id: string, record?: SessionRecord) {
+        this._id = id;
+        this.data = typeof record !== 'undefined' ? record.data : {};
+        this._createdAt = typeof record !== 'undefined' ? record.createdAt : Date.now();
+        this._isNew = typeof record === 'undefined';
+        this._isDestroyed = false;
+        this._previousIds = [];
+    }
+
+    get id() {
+        return this._id;
+    }
+
+    get createdAt() {
+        return this._createdAt;
+    }
+
+    get isNew() {
+        return this._isNew;
+    }
+
+    get isDestroyed() {
+        return this._isDestroyed;
+    }
+
+    get previousIds() {
+        return this._previousIds;
+    }
+
+    /**
+     * The logged in user (if any)
+     * 
+     * This is also available as `req.user` (and through the `@User` decorator).
+     */
+    get user() {
+        return this.data.user;
+    }
+
+    set user(user: any) {
+        if(typeof user === 'undefined') {
+            delete this.data.user;
+        }
+        else {
+            this.data.user = user;
+        }
+    }
+
+    /**
+     * Get a value from the session
+     * 
+     * @param key The key of the value
+     * @returns The value or undefined if it isn't set
+     */
+    get<T = any>(key: string): T | undefined {
+        return this.data[key];
+    }
+
+    /**
+     * Set a value in the session
+     * 
+     * @param key The key of the value
+     * @param value The value
+     */
+    set(key: string, value: any) {
+        this.data[key] = value;
+    }
+
+    /**
+     * Remove a value from the session
+     * 
+     * @param key The key of the value
+     */
+    delete(key: string) {
+        delete this.data[key];
+    }
+
+    /**
+     * Give the session a new ID (keeping it's values)
+     * 
+     * This should be done whenever the privileges of the session change (ex. logging in) to prevent session fixation.
+     */
+    regenerate() {
+        if(!this._isNew) {
+            this._previousIds.push(this._id);
+        }
+
+        this._id = generateSessionId();
+        this._createdAt = Date.now();
+        this._isNew = true;
+        this._isDestroyed = false;
+    }
+
+    /**
+     * Destroy the session (it's removed from the store and the cookie is cleared when the response is sent)
+     */
+    destroy() {
+        this.data = {};
+        this._isDestroyed = true;
+    }
+
+    /**
+     * Log a user in
+     * 
+     * The session is regenerated (so the ID from before logging in can't be used) and the user is stored in it.
+     * 
+     * @param user The user that logged in
+     */
+    login(user: any) {
+        this.regenerate();
+        this.user = user;
+    }
+
+    /**
+     * Log the user out (destroys the session)
+     */
+    logout() {
+        this.destroy();
+    }
+}
\ No newline at end of file
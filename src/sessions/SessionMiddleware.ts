@@ -0,0 +1,248 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+import { parseCookies, serializeCookie, signValue, unsignValue } from '../utils/cookies';
+import { getValueFromEnvironmentVariable } from '../utils/env-vars';
+
+import { SessionStore } from './SessionStore';
+import { MemorySessionStore } from './MemorySessionStore';
+import { RequestSession, generateSessionId } from './RequestSession';
+
+/** The options for the `sessions` middleware */
+export type SessionOptions = {
+    /** The secret(s) the session cookie is signed with. The first is used to sign, all are accepted (so secrets can be rotated). Default is the `SESSION_SECRET` environment variable (comma separated) */
+    secret?: string | string[],
+    /** Where sessions are kept (default is in memory) */
+    store?: SessionStore,
+    /** How long (in milliseconds) a session can go unused before it expires (default is 30 minutes) */
+    idleTimeout?: number,
+    /** How long (in milliseconds) a session can last regardless of use (default is 24 hours) */
+    absoluteTimeout?: number,
+    /** The session cookie's settings */
+    cookie?: {
+        /** The name of the cookie (default is `sid`) */
+        name?: string,
+        /** The path the cookie is sent for (default is `/`) */
+        path?: string,
+        /** The domain the cookie is sent for (default is the host that set it) */
+        domain?: string,
+        /** If the cookie is sent with cross site requests (default is `Lax`) */
+        sameSite?: 'Strict' | 'Lax' | 'None',
+        /** If the cookie is only sent over HTTPS (default is `auto`, which is when the request was made over HTTPS) */
+        secure?: boolean | 'auto'
+    }
+};
+
+/**
+ * The session of the request currently being handled
+ * 
+ * This is so that code that isn't given the request (ex. the `onAuth` callback of an `OAuthApp`) can get at the session.
+ */
+const currentSession = new AsyncLocalStorage<RequestSession>();
+
+/**
+ * Get the session of the request currently being handled
+ * 
+ * @returns The session or undefined if not called while handling a request (or the session middleware isn't used)
+ */
+export function getCurrentSession(): RequestSession | undefined {
+    return currentSession.getStore();
+}
+
+/**
+ * Class that creates the middleware that provides sessions (kept in a store and identified by a signed cookie).
+ * 
+ * The session is available as `req.session` (and through the `@Session` decorator).
+ * The logged in user (`session.user`) is also available as `req.user` (and through the `@User` decorator).
+ */
+export class SessionMiddleware {
+    /** The secrets the cookie is signed with */
+    private secrets: string[];
+
+    /** Where sessions are kept */
+    private store: SessionStore;
+
+    /** How long (in milliseconds) a session can go unused */
+    private idleTimeout: number;
+
+    /** How long (in milliseconds) a session can last */
+    private absoluteTimeout: number;
+
+    /** The name of the cookie */
+    private cookieName: string;
+
+    /** The cookie's settings */
+    private cookie: NonNullable<SessionOptions['cookie']>;
+
+    /**
+     * Constructor for the SessionMiddleware class.
+     * 
+     * @param options Options for the middleware (see `SessionOptions`).
+     */
+    constructor(options: SessionOptions = {}) {
+        const secret = typeof options.secret !== 'undefined' ? options.secret : getValueFromEnvironmentVariable('SESSION_SECRET', { description: 'secret sessions are signed with', blank_allowed: false }).split(',');
+
+        this.secrets = (Array.isArray(secret) ? secret : [secret]).map(value => value.trim()).filter(value => value !== '');
+        if(this.secrets.length === 0) {
+            throw new Error('At least one secret is required to sign session cookies');
+        }
+
+        this.store = typeof options.store !== 'undefined' ? options.store : new MemorySessionStore();
+        this.idleTimeout = options.idleTimeout ?? 30 * 60 * 1000;
+        this.absoluteTimeout = options.absoluteTimeout ?? 24 * 60 * 60 * 1000;
+        this.cookieName = options.cookie?.name ?? 'sid';
+        this.cookie = options.cookie ?? {};
+    }
+
+    /**
+     * Load the session of the request
+     * 
+     * @param req The request
+     * @returns The session (a new one if the request doesn't have a valid, unexpired, session)
+     */
+    private async load(req: Request): Promise<RequestSession> {
+        const cookie = parseCookies(req.headers.cookie)[this.cookieName];
+        const id = typeof cookie !== 'undefined' ? unsignValue(cookie, this.secrets) : undefined;
+
+        if(typeof id !== 'undefined') {
+            const record = await this.store.get(id);
+
+            if(typeof record !== 'undefined') {
+                const now = Date.now();
+
+                if(now - record.lastAccessedAt <= this.idleTimeout && now - record.createdAt <= this.absoluteTimeout) {
+                    return new RequestSession(id, record);
+                }
+
+                await this.store.destroy(id);
+            }
+        }
+
+        return new RequestSession(generateSessionId());
+    }
+
+    /**
+     * Check if a session has anything worth keeping
+     * 
+     * @param session The session
+     * @returns If the session has any values
+     */
+    private hasData(session: RequestSession) {
+        return !session.isDestroyed && Object.keys(session.data).length > 0;
+    }
+
+    /**
+     * Set (or clear) the session cookie on the response
+     * 
+     * @param req The request
+     * @param res The response
+     * @param session The session
+     */
+    private setCookie(req: Request, res: Response, session: RequestSession) {
+        const hadCookie = typeof parseCookies(req.headers.cookie)[this.cookieName] !== 'undefined';
+
+        const options = {
+            path: this.cookie.path,
+            domain: this.cookie.domain,
+            sameSite: this.cookie.sameSite,
+            secure: typeof this.cookie.secure === 'undefined' || this.cookie.secure === 'auto' ? req.secure : this.cookie.secure
+        };
+
+        let cookie: string | undefined;
+        if(this.hasData(session)) {
+            // The cookie lasts as long as the session can (it's refreshed on each request because of the idle timeout)
+            const maxAge = Math.min(this.idleTimeout, this.absoluteTimeout - (Date.now() - session.createdAt));
+            cookie = serializeCookie(this.cookieName, signValue(session.id, this.secrets[0]), { ...options, maxAge: maxAge / 1000 });
+        }
+        else if(hadCookie) {
+            cookie = serializeCookie(this.cookieName, '', { ...options, maxAge: 0 });
+        }
+
+        if(typeof cookie !== 'undefined') {
+            const existing = res.getHeader('Set-Cookie');
+            res.setHeader('Set-Cookie', [...(typeof existing === 'undefined' ? [] : (Array.isArray(existing) ? existing : [String(existing)])), cookie]);
+        }
+    }
+
+    /**
+     * Save (or remove) the session in the store
+     * 
+     * @param session The session
+     */
+    private async persist(session: RequestSession) {
+        // The IDs the session had before it was regenerated (ex. on login) can't be used anymore
+        await Promise.all(session.previousIds.map(id => this.store.destroy(id)));
+
+        if(this.hasData(session)) {
+            const now = Date.now();
+            const ttl = Math.min(this.idleTimeout, this.absoluteTimeout - (now - session.createdAt));
+
+            await this.store.set(session.id, { data: session.data, createdAt: session.createdAt, lastAccessedAt: now }, ttl);
+        }
+        else if(!session.isNew) {
+            await this.store.destroy(session.id);
+        }
+    }
+
+    /**
+     * Creates the middleware function.
+     * 
+     * @returns The middleware function.
+     */
+    middleware(): RequestHandler {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            let session: RequestSession;
+            try {
+                session = await this.load(req);
+            }
+            catch(err) {
+                return next(err);
+            }
+
+            Object.defineProperty(req, 'session', { configurable: true, enumerable: true, writable: true, value: session });
+            Object.defineProperty(req, 'user', {
+                configurable: true,
+                enumerable: true,
+                get: () => session.user,
+                set: (user: any) => { session.user = user; }
+            });
+
+            // The cookie has to be set before the headers are sent (which could be before the response ends. Ex. streaming)
+            const writeHead = res.writeHead;
+            res.writeHead = ((...args: Parameters<typeof res.writeHead>) => {
+                this.setCookie(req, res, session);
+                return writeHead.apply(res, args);
+            }) as typeof res.writeHead;
+
+            // The session is saved before the response ends so that the next request (ex. after a redirect) sees the changes
+            const end = res.end;
+            let ending = false;
+            res.end = ((...args: Parameters<typeof res.end>) => {
+                if(ending) {
+                    return res;
+                }
+                ending = true;
+
+                this.persist(session)
+                    .catch(err => console.error('Failed to save the session', err))
+                    .finally(() => end.apply(res, args));
+
+                return res;
+            }) as typeof res.end;
+
+            currentSession.run(session, () => next());
+        };
+    }
+}
+
+/**
+ * Create the session middleware
+ * 
+ * @param options Options for the middleware (see `SessionOptions`).
+ * @returns The middleware function.
+ */
+export function sessions(options: SessionOptions = {}) {
+    const instance = new SessionMiddleware(options);
+
+    return instance.middleware.bind(instance);
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+/** The values stored in a session */
+export type SessionData = { [key: string]: any };
+
+/** A session as it's kept by a store */
+export type SessionRecord = {
+    /** The values stored in the session */
+    data: SessionData,
+    /** When the session was created (in milliseconds since the epoch. Used for the absolute timeout) */
+    createdAt: number,
+    /** When the session was last used (in milliseconds since the epoch. Used for the idle timeout) */
+    lastAccessedAt: number
+};
+
+/**
+ * Where sessions are kept between requests
+ * 
+ * The framework includes an in-memory store (`MemorySessionStore`) and a file-backed store (`FileSessionStore`).
+ * Other stores (ex. Redis or a database) can be used by extending this class.
+ * 
+ * Note, stores are expected to expire sessions once their time to live has passed.
+ * But the session middleware also checks the timeouts itself, so stores that can't expire sessions still work.
+ */
+export abstract class SessionStore {
+    /**
+     * Get a session
+     * 
+     * @param id The ID of the session
+     * @returns The session or undefined if there is no (unexpired) session with the ID
+     */
+    abstract get(id: string): Promise<SessionRecord | undefined>;
+
+    /**
+     * Create or update a session
+     * 
+     * @param id The ID of the session
+     * @param record The session
+     * @param ttl How long (in milliseconds) the session should be kept for
+     */
+    abstract set(id: string, record: SessionRecord, ttl: number): Promise<void>;
+
+    /**
+     * Remove a session
+     * 
+     * @param id The ID of the session
+     */
+    abstract destroy(id: string): Promise<void>;
+}
\ No newline at end of file
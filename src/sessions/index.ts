@@ -0,0 +1,18 @@
+import { SessionStore, SessionData, SessionRecord } from './SessionStore';
+import { MemorySessionStore } from './MemorySessionStore';
+import { FileSessionStore } from './FileSessionStore';
+import { RequestSession } from './RequestSession';
+import { SessionMiddleware, SessionOptions, sessions, getCurrentSession } from './SessionMiddleware';
+
+export {
+    SessionStore,
+    SessionData,
+    SessionRecord,
+    MemorySessionStore,
+    FileSessionStore,
+    RequestSession,
+    SessionMiddleware,
+    SessionOptions,
+    sessions,
+    getCurrentSession
+};
\ No newline at end of file
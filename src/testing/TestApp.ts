@@ -0,0 +1,568 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IncomingMessage, OutgoingHttpHeaders } from 'http';
+import { Application, Request, Response, NextFunction, RequestHandler } from 'express';
+
+import { Initializer } from '../Initializer';
+import { Container } from '../di/Container';
+import { Provider } from '../di/Provider';
+import { Lifecycle } from '../lifecycle/Lifecycle';
+import { getCsrfToken } from '../middlewares/CsrfMiddleware';
+
+import { inject } from './inject';
+
+/** The inputs of the `Initializer` (see it's constructor) */
+type InitializerInputs = NonNullable<ConstructorParameters<typeof Initializer>[0]>;
+
+/** The options for a test app */
+export type TestAppOptions = InitializerInputs & {
+    /** The Initializer to build the app from (if not given, one is created from the other options) */
+    initializer?: Initializer,
+    /** The middlewares to use (only if the Initializer is created from the options) */
+    middlewares?: ((...args: any[]) => RequestHandler)[],
+    /** Providers that replace what's registered with the dependency injection container (ex. a fake database client) */
+    overrides?: Provider[],
+    /** The user every request is made as (`req.user`). Can be changed with `setUser` or per request */
+    user?: any,
+    /** If pages are actually rendered (default is false, the page's details are recorded and an empty page is sent) */
+    renderPages?: boolean,
+    /** The header requests include the CSRF token in (default is `X-CSRF-Token`, see the `csrf` input of the Initializer) */
+    csrfHeaderName?: string,
+    /** How long (in milliseconds) to wait for the app to respond to a request before failing (default is 5 seconds) */
+    timeout?: number
+};
+
+/** The options for a request to a test app */
+export type TestRequestOptions = {
+    /** The headers of the request */
+    headers?: { [name: string]: string | string[] },
+    /** The query string parameters (added to the URL) */
+    query?: { [name: string]: string | number | boolean | (string | number | boolean)[] },
+    /** The body of the request. Objects are sent as JSON */
+    body?: any,
+    /** A form to submit (sent as `application/x-www-form-urlencoded`) */
+    form?: { [name: string]: string | number | boolean | (string | number | boolean)[] },
+    /** Cookies to send (in addition to the ones the app set in previous responses) */
+    cookies?: { [name: string]: string },
+    /** The user the request is made as (`req.user`). `null` makes the request without a user. Default is the test app's user */
+    user?: any,
+    /** If the request includes a valid CSRF token (if the `csrf` middleware is used). Default is true */
+    csrf?: boolean
+};
+
+/** The methods that don't change state (and therefore don't need a CSRF token) */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS', 'TRACE'];
+
+/** The details of a page that was rendered (what the `@Page` decorator, or any other `res.render`, rendered) */
+export type RenderedPage = {
+    /** The template that was rendered (for `@Page` routes this is the layout, ex. `base`) */
+    layout: string,
+    /** The page file rendered within the layout (ex. `profile.ejs`) */
+    page?: string,
+    /** The (localized) title of the page */
+    title?: string,
+    /** The extra scripts of the page */
+    extraScripts?: (string | { script: string, defer: boolean })[],
+    /** The extra styles of the page */
+    extraStyles?: string[],
+    /** All of the parameters the template was rendered with */
+    params: { [key: string]: any }
+};
+
+/**
+ * The response to a request to a test app
+ */
+export class TestResponse {
+    /** The status code */
+    status: number;
+
+    /** The headers */
+    headers: OutgoingHttpHeaders;
+
+    /** The body */
+    rawBody: Buffer;
+
+    /** The page that was rendered (if any) */
+    page?: RenderedPage;
+
+    /**
+     * Create a new test response
+     *
+     * @param status The status code
+     * @param headers The headers
+     * @param rawBody The body
+     * @param page The page that was rendered (if any)
+     */
+    constructor(status: number, headers: OutgoingHttpHeaders, rawBody: Buffer, page?: RenderedPage) {
+        this.status = status;
+        this.headers = headers;
+        this.rawBody = rawBody;
+        this.page = page;
+    }
+
+    /** The body as text */
+    get text() {
+        return this.rawBody.toString('utf-8');
+    }
+
+    /**
+     * Parse the body as JSON
+     *
+     * @returns The parsed body
+     */
+    json<T = any>(): T {
+        return JSON.parse(this.text);
+    }
+
+    /** The cookies the response set (the name and value of each) */
+    get cookies() {
+        const cookies: { [name: string]: string } = {};
+
+        getSetCookieHeaders(this.headers).forEach((header) => {
+            const { name, value } = parseSetCookie(header);
+            cookies[name] = value;
+        });
+
+        return cookies;
+    }
+}
+
+/**
+ * Get the `Set-Cookie` headers of a response
+ *
+ * @param headers The headers of the response
+ * @returns The `Set-Cookie` headers (empty if there aren't any)
+ */
+function getSetCookieHeaders(headers: OutgoingHttpHeaders): string[] {
+    const header = headers['set-cookie'];
+    if(typeof header === 'undefined') {
+        return [];
+    }
+
+    return Array.isArray(header) ? header : [String(header)];
+}
+
+/**
+ * Parse a `Set-Cookie` header
+ *
+ * @param header The header
+ * @returns The name and value of the cookie and if the header removes the cookie (it's expired)
+ */
+function parseSetCookie(header: string) {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    const name = pair.slice(0, separator).trim();
+    const value = decodeURIComponent(pair.slice(separator + 1).trim());
+
+    const expired = attributes.some((attribute) => {
+        const [attributeName, attributeValue] = attribute.split('=').map(part => part.trim());
+
+        return (attributeName.toLowerCase() === 'max-age' && Number(attributeValue) <= 0)
+            || (attributeName.toLowerCase() === 'expires' && new Date(attributeValue).getTime() <= Date.now());
+    });
+
+    return { name, value, expired };
+}
+
+/**
+ * Build a query string or form body
+ *
+ * @param values The names and values
+ * @returns The encoded values
+ */
+function encodeValues(values: { [name: string]: string | number | boolean | (string | number | boolean)[] }) {
+    const params = new URLSearchParams();
+    Object.entries(values).forEach(([name, value]) => {
+        (Array.isArray(value) ? value : [value]).forEach(item => params.append(name, String(item)));
+    });
+
+    return params.toString();
+}
+
+/**
+ * An app (built from an `Initializer`) that requests can be made to without listening on a port.
+ *
+ * Requests go through the whole app (middleware, controllers, error controllers, etc...).
+ * Cookies the app sets are kept and sent with later requests (so sessions work across requests), the user can be faked and rendered pages are recorded.
+ *
+ * @example
+ * ```ts
+ * const app = await createTestApp({ controllers: [ProfileController], overrides: [{ provide: 'DB', useValue: fakeDb }], user: { id: 1 } });
+ *
+ * const res = await app.get('/profile');
+ * assert.equal(res.page?.page, 'profile.ejs');
+ * assert.equal(res.page?.title, 'Profile');
+ *
+ * await app.close();
+ * ```
+ */
+export class TestApp {
+    /** The Initializer the app is built from */
+    private initializer: Initializer;
+
+    /** The app's lifecycle hooks */
+    private lifecycle: Lifecycle;
+
+    /** The user requests are made as (unless a request says otherwise) */
+    private user?: any;
+
+    /** If pages are actually rendered */
+    private renderPages: boolean;
+
+    /** The header requests include the CSRF token in */
+    private csrfHeaderName: string;
+
+    /** How long (in milliseconds) to wait for the app to respond to a request */
+    private timeout: number;
+
+    /** The cookies to send with requests (the ones the app set) */
+    private cookies: Map<string, string>;
+
+    /** The options of the requests being handled */
+    private requests: WeakMap<IncomingMessage, TestRequestOptions>;
+
+    /** The options of the requests made to get a CSRF token (see `getCsrfToken`) */
+    private csrfTokenRequests: WeakSet<TestRequestOptions>;
+
+    /** The directories created for the app (removed when the app is closed) */
+    private temporaryDirectories: string[];
+
+    /**
+     * Create a new test app (use `createTestApp` to create one that's ready for requests)
+     *
+     * @param initializer The Initializer to build the app from
+     * @param options The options for the test app
+     * @param temporaryDirectories The directories created for the app (removed when the app is closed)
+     */
+    constructor(initializer: Initializer, options: TestAppOptions = {}, temporaryDirectories: string[] = []) {
+        this.initializer = initializer;
+        this.lifecycle = new Lifecycle();
+        this.user = options.user;
+        this.renderPages = options.renderPages ?? false;
+        this.csrfHeaderName = options.csrfHeaderName ?? 'X-CSRF-Token';
+        this.timeout = options.timeout ?? 5000;
+        this.cookies = new Map();
+        this.requests = new WeakMap();
+        this.csrfTokenRequests = new WeakSet();
+        this.temporaryDirectories = temporaryDirectories;
+
+        const container = this.initializer.getContainer();
+        container.register({ provide: Lifecycle, useValue: this.lifecycle });
+        (options.overrides ?? []).forEach(provider => container.register(provider));
+
+        // Runs after the other middlewares (ex. sessions and CSRF) so that what it sets takes precedence
+        this.initializer.use(() => this.middleware.bind(this));
+    }
+
+    /**
+     * Build the app (runs the Initializer and the `beforeInit` and `afterInit` lifecycle hooks)
+     */
+    async init() {
+        await this.lifecycle.run('beforeInit');
+        await this.initializer.init();
+        await this.lifecycle.run('afterInit');
+    }
+
+    getInitializer() {
+        return this.initializer;
+    }
+
+    getExpressApp(): Application {
+        return this.initializer.getExpressApp();
+    }
+
+    /**
+     * Get the dependency injection container (ex. to resolve a service to check it's state)
+     *
+     * @returns The dependency injection container
+     */
+    getContainer(): Container {
+        return this.initializer.getContainer();
+    }
+
+    /**
+     * Get the app's lifecycle hooks
+     *
+     * @returns The lifecycle hooks
+     */
+    getLifecycle() {
+        return this.lifecycle;
+    }
+
+    /**
+     * Set the user requests are made as
+     *
+     * @param user The user (`undefined` to make requests as whoever the app says, ex. the session's user)
+     * @returns The test app (for chaining)
+     */
+    setUser(user?: any): this {
+        this.user = user;
+
+        return this;
+    }
+
+    /**
+     * Get a cookie the app set
+     *
+     * @param name The name of the cookie
+     * @returns The value of the cookie or undefined if it isn't set
+     */
+    getCookie(name: string) {
+        return this.cookies.get(name);
+    }
+
+    /**
+     * Forget the cookies the app set (ex. to start a new session)
+     */
+    clearCookies() {
+        this.cookies.clear();
+    }
+
+    /**
+     * The middleware that applies a request's options (the user) and answers the requests made to get a CSRF token
+     *
+     * @param req The request
+     * @param res The response
+     * @param next The next function
+     */
+    private middleware(req: Request, res: Response, next: NextFunction) {
+        const options = this.requests.get(req);
+        if(typeof options === 'undefined') {
+            return next();
+        }
+
+        const user = 'user' in options ? options.user : this.user;
+        if(typeof user !== 'undefined') {
+            Object.defineProperty(req, 'user', { configurable: true, enumerable: true, writable: true, value: user === null ? undefined : user });
+        }
+
+        if(this.csrfTokenRequests.has(options)) {
+            return res.json({ token: getCsrfToken(req) ?? null });
+        }
+
+        next();
+    }
+
+    /**
+     * Get a CSRF token the way a browser would, with a `GET` request before submitting a form
+     * 
+     * The request is answered by the test app's middleware (after the `csrf` middleware issued the token) rather than a route.
+     * The session or cookie the token is kept in is set by the response (and sent with the later requests like any other cookie).
+     *
+     * @param url The URL the token is for
+     * @param options The options of the request the token is for (ex. it's cookies)
+     * @returns The token or undefined if the `csrf` middleware isn't used
+     */
+    private async getCsrfToken(url: string, options: TestRequestOptions): Promise<string | undefined> {
+        const tokenRequestOptions: TestRequestOptions = { cookies: options.cookies, csrf: false };
+        this.csrfTokenRequests.add(tokenRequestOptions);
+
+        const res = await this.request('GET', url, tokenRequestOptions);
+
+        return res.json().token ?? undefined;
+    }
+
+    /**
+     * Make a request to the app
+     *
+     * @param method The HTTP method (ex. `GET`)
+     * @param url The URL (path and query string) to request
+     * @param options The options for the request
+     * @returns The response
+     * @throws Error if the app doesn't respond within the timeout
+     */
+    async request(method: string, url: string, options: TestRequestOptions = {}): Promise<TestResponse> {
+        const headers: { [name: string]: string | string[] } = { ...options.headers };
+
+        const csrfHeaderName = this.csrfHeaderName.toLowerCase();
+        if(options.csrf !== false && !SAFE_METHODS.includes(method.toUpperCase()) && !Object.keys(headers).some(name => name.toLowerCase() === csrfHeaderName)) {
+            const token = await this.getCsrfToken(url, options);
+            if(typeof token !== 'undefined') {
+                headers[csrfHeaderName] = token;
+            }
+        }
+
+        let body: string | Buffer | undefined;
+        if(typeof options.form !== 'undefined') {
+            body = encodeValues(options.form);
+            headers['content-type'] = 'application/x-www-form-urlencoded';
+        }
+        else if(typeof options.body === 'string' || Buffer.isBuffer(options.body)) {
+            body = options.body;
+        }
+        else if(typeof options.body !== 'undefined') {
+            body = JSON.stringify(options.body);
+            headers['content-type'] = 'application/json';
+        }
+
+        const cookies = new Map([...this.cookies, ...Object.entries(options.cookies ?? {})]);
+        if(cookies.size > 0) {
+            headers['cookie'] = [...cookies].map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join('; ');
+        }
+
+        const query = typeof options.query !== 'undefined' ? encodeValues(options.query) : '';
+        const fullUrl = query !== '' ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+
+        let page: RenderedPage | undefined;
+
+        const response = await inject(this.getExpressApp(), {
+            method: method,
+            url: fullUrl,
+            headers: headers,
+            body: body,
+            prepare: (req, res) => {
+                this.requests.set(req, options);
+
+                // Express turns the response into it's own (by changing the prototype) when the app handles it
+                const response = res as unknown as Response;
+
+                // Rendering is recorded (so tests can check what was rendered instead of the HTML)
+                // Note, this is an own property so it's kept when Express changes the response's prototype
+                response.render = ((view: string, params?: any, callback?: (err: Error | null, html?: string) => void) => {
+                    if(typeof params === 'function') {
+                        callback = params;
+                        params = {};
+                    }
+
+                    const renderParams = params ?? {};
+                    page = {
+                        layout: view,
+                        page: renderParams.page,
+                        title: renderParams.title,
+                        extraScripts: renderParams.extraScripts,
+                        extraStyles: renderParams.extraStyles,
+                        params: renderParams
+                    };
+
+                    if(this.renderPages) {
+                        return Object.getPrototypeOf(response).render.call(response, view, renderParams, callback);
+                    }
+
+                    if(typeof callback !== 'undefined') {
+                        return callback(null, '');
+                    }
+
+                    response.type('html').send('');
+                }) as Response['render'];
+            }
+        }, this.timeout);
+
+        getSetCookieHeaders(response.headers).forEach((header) => {
+            const { name, value, expired } = parseSetCookie(header);
+
+            if(expired) {
+                this.cookies.delete(name);
+            }
+            else {
+                this.cookies.set(name, value);
+            }
+        });
+
+        return new TestResponse(response.status, response.headers, response.body, page);
+    }
+
+    /**
+     * Make a `GET` request to the app
+     *
+     * @param url The URL to request
+     * @param options The options for the request
+     * @returns The response
+     */
+    get(url: string, options?: TestRequestOptions) {
+        return this.request('GET', url, options);
+    }
+
+    /**
+     * Make a `POST` request to the app
+     *
+     * @param url The URL to request
+     * @param options The options for the request (ex. the `form` or `body`)
+     * @returns The response
+     */
+    post(url: string, options?: TestRequestOptions) {
+        return this.request('POST', url, options);
+    }
+
+    /**
+     * Make a `PUT` request to the app
+     *
+     * @param url The URL to request
+     * @param options The options for the request (ex. the `body`)
+     * @returns The response
+     */
+    put(url: string, options?: TestRequestOptions) {
+        return this.request('PUT', url, options);
+    }
+
+    /**
+     * Make a `PATCH` request to the app
+     *
+     * @param url The URL to request
+     * @param options The options for the request (ex. the `body`)
+     * @returns The response
+     */
+    patch(url: string, options?: TestRequestOptions) {
+        return this.request('PATCH', url, options);
+    }
+
+    /**
+     * Make a `DELETE` request to the app
+     *
+     * @param url The URL to request
+     * @param options The options for the request
+     * @returns The response
+     */
+    delete(url: string, options?: TestRequestOptions) {
+        return this.request('DELETE', url, options);
+    }
+
+    /**
+     * Close the app (runs the shutdown lifecycle hooks and removes any directories created for the app)
+     */
+    async close() {
+        await this.lifecycle.run('beforeShutdown');
+        await this.lifecycle.run('afterShutdown');
+
+        this.temporaryDirectories.forEach(directory => fs.rmSync(directory, { recursive: true, force: true }));
+        this.temporaryDirectories = [];
+    }
+}
+
+/**
+ * Create a test app (ready for requests)
+ *
+ * The app is built from the given Initializer or one created from the options (the same inputs as the Initializer's constructor).
+ * When created from the options:
+ * - Controllers are only loaded from the `controllersPath` if it's given. Otherwise only the `controllers` are used (none if not given).
+ * - If no views or static files path is given, empty temporary directories are used (removed when the app is closed).
+ *
+ * @param options The options for the test app
+ * @returns The test app
+ */
+export async function createTestApp(options: TestAppOptions = {}) {
+    const temporaryDirectories: string[] = [];
+    const createTemporaryDirectory = () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ba-web-framework-test-'));
+        temporaryDirectories.push(directory);
+
+        return directory;
+    };
+
+    let initializer = options.initializer;
+    if(typeof initializer === 'undefined') {
+        const { initializer: _initializer, middlewares, overrides, user, renderPages, csrfHeaderName, timeout, ...inputs } = options;
+
+        initializer = new Initializer({
+            ...inputs,
+            controllers: typeof inputs.controllers === 'undefined' && typeof inputs.controllersPath === 'undefined' ? [] : inputs.controllers,
+            staticFilesPath: inputs.staticFilesPath ?? createTemporaryDirectory(),
+            view: inputs.view ?? { filesPath: createTemporaryDirectory() }
+        }, ...(middlewares ?? []));
+    }
+
+    const testApp = new TestApp(initializer, options, temporaryDirectories);
+    await testApp.init();
+
+    return testApp;
+}
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { TestApp, TestAppOptions, TestRequestOptions, TestResponse, RenderedPage, createTestApp } from './TestApp';
+import { inject, InjectOptions, InjectedResponse } from './inject';
+
+export {
+    TestApp,
+    TestAppOptions,
+    TestRequestOptions,
+    TestResponse,
+    RenderedPage,
+    createTestApp,
+    inject,
+    InjectOptions,
+    InjectedResponse
+};
\ No newline at end of file
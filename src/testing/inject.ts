@@ -0,0 +1,177 @@
+import { IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { Duplex } from 'stream';
+import { Application } from 'express';
+
+/** The request to send to an app (without opening a socket) */
+export type InjectOptions = {
+    /** The HTTP method (default is `GET`) */
+    method?: string,
+    /** The URL (path and query string) of the request */
+    url: string,
+    /** The headers of the request */
+    headers?: { [name: string]: string | string[] },
+    /** The body of the request */
+    body?: string | Buffer,
+    /** The address the request comes from (default is `127.0.0.1`) */
+    remoteAddress?: string,
+    /** Called with the request and response before the app handles them (ex. to keep track of the request) */
+    prepare?: (req: IncomingMessage, res: ServerResponse) => void
+};
+
+/** The response the app sent to an injected request */
+export type InjectedResponse = {
+    /** The status code */
+    status: number,
+    /** The headers */
+    headers: OutgoingHttpHeaders,
+    /** The body (as sent. Ex. compressed if the app compressed it) */
+    body: Buffer
+};
+
+/**
+ * A socket that isn't connected to anything, it keeps what's written to it.
+ *
+ * Requests are read from it's `IncomingMessage` and responses write to it, so the app handles the request as it would any other.
+ */
+class InjectedSocket extends Duplex {
+    /** What the response wrote (the status line, headers and body) */
+    private written: Buffer[];
+
+    /** The address the request comes from */
+    remoteAddress: string;
+
+    /** The port the request comes from */
+    remotePort: number;
+
+    /**
+     * Create a new socket
+     *
+     * @param remoteAddress The address the request comes from
+     */
+    constructor(remoteAddress: string) {
+        super();
+
+        this.written = [];
+        this.remoteAddress = remoteAddress;
+        this.remotePort = 0;
+    }
+
+    _read() {}
+
+    _write(chunk: any, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+        this.written.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding));
+        callback();
+    }
+
+    setTimeout() {
+        return this;
+    }
+
+    setNoDelay() {
+        return this;
+    }
+
+    setKeepAlive() {
+        return this;
+    }
+
+    /**
+     * Get the headers and body of the response written to the socket
+     *
+     * @returns The headers (names are lower case, repeated headers are combined) and body of the response
+     */
+    getResponse(): { headers: OutgoingHttpHeaders, body: Buffer } {
+        const output = Buffer.concat(this.written);
+        const headerEnd = output.indexOf('\r\n\r\n');
+        if(headerEnd === -1) {
+            return { headers: {}, body: Buffer.alloc(0) };
+        }
+
+        const headers: OutgoingHttpHeaders = {};
+
+        // The first line is the status line (ex. `HTTP/1.1 200 OK`)
+        output.subarray(0, headerEnd).toString('latin1').split('\r\n').slice(1).forEach((line) => {
+            const separator = line.indexOf(':');
+            const name = line.slice(0, separator).trim().toLowerCase();
+            const value = line.slice(separator + 1).trim();
+            const existing = headers[name];
+
+            // Like Node does for received responses, `Set-Cookie` is always an array and other repeated headers are joined
+            if(name === 'set-cookie') {
+                headers[name] = [...(Array.isArray(existing) ? existing : []), value];
+            }
+            else {
+                headers[name] = typeof existing !== 'undefined' ? `${existing}, ${value}` : value;
+            }
+        });
+
+        return { headers, body: output.subarray(headerEnd + 4) };
+    }
+}
+
+/**
+ * Send a request to an Express app without opening a socket (or listening on a port)
+ *
+ * The request goes through the app the same as one received by a server would (middleware, routes, error handlers, etc...).
+ *
+ * @param app The Express app
+ * @param options The request to send
+ * @param timeout How long (in milliseconds) to wait for the app to respond (default is 5 seconds)
+ * @returns The response
+ * @throws Error if the app doesn't respond within the timeout
+ */
+export function inject(app: Application, options: InjectOptions, timeout: number = 5000): Promise<InjectedResponse> {
+    const socket = new InjectedSocket(options.remoteAddress ?? '127.0.0.1');
+
+    // It isn't a `net.Socket`, but it has what the request and response use of one
+    const requestSocket = socket as unknown as Socket;
+
+    const req = new IncomingMessage(requestSocket);
+    req.method = (options.method ?? 'GET').toUpperCase();
+    req.url = options.url;
+    req.httpVersion = '1.1';
+    req.httpVersionMajor = 1;
+    req.httpVersionMinor = 1;
+
+    const headers: { [name: string]: string | string[] } = {};
+    Object.entries(options.headers ?? {}).forEach(([name, value]) => {
+        headers[name.toLowerCase()] = value;
+    });
+    if(typeof headers.host === 'undefined') {
+        headers.host = 'localhost';
+    }
+    if(typeof options.body !== 'undefined' && typeof headers['content-length'] === 'undefined') {
+        headers['content-length'] = String(Buffer.byteLength(options.body));
+    }
+    req.headers = headers;
+    req.rawHeaders = Object.entries(headers).map(([name, value]) => (Array.isArray(value) ? value : [value]).map(item => [name, item])).flat(2);
+
+    if(typeof options.body !== 'undefined') {
+        req.push(options.body);
+    }
+    req.push(null);
+    req.complete = true;
+
+    const res = new ServerResponse(req);
+
+    // Without a `Content-Length` the body would be chunked, this way it's written as is
+    res.useChunkedEncodingByDefault = false;
+    res.assignSocket(requestSocket);
+
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`The app didn't respond to ${req.method} ${req.url} within ${timeout}ms`)), timeout);
+
+        res.once('finish', () => {
+            clearTimeout(timer);
+
+            resolve({ status: res.statusCode, ...socket.getResponse() });
+        });
+
+        if(typeof options.prepare !== 'undefined') {
+            options.prepare(req, res);
+        }
+
+        app(req, res);
+    });
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** The attributes of a cookie being set */
+export type CookieOptions = {
+    /** The path the cookie is sent for (default is `/`) */
+    path?: string,
+    /** The domain the cookie is sent for (default is the host that set it) */
+    domain?: string,
+    /** How long (in seconds) until the cookie expires (default is when the browser session ends) */
+    maxAge?: number,
+    /** If the cookie is hidden from client-side scripts (default is true) */
+    httpOnly?: boolean,
+    /** If the cookie is only sent over HTTPS */
+    secure?: boolean,
+    /** If the cookie is sent with cross site requests (default is `Lax`) */
+    sameSite?: 'Strict' | 'Lax' | 'None'
+};
+
+/**
+ * Parse the `Cookie` header of a request
+ * 
+ * @param header The `Cookie` header (if any)
+ * @returns The cookies by name
+ */
+export function parseCookies(header?: string): { [name: string]: string } {
+    const cookies: { [name: string]: string } = {};
+
+    (header ?? '').split(';').forEach(pair => {
+        const separatorIndex = pair.indexOf('=');
+        if(separatorIndex === -1) {
+            return;
+        }
+
+        const name = pair.substring(0, separatorIndex).trim();
+        const value = pair.substring(separatorIndex + 1).trim();
+
+        // The first cookie with a name takes precedence (it's the most specific one)
+        if(name !== '' && typeof cookies[name] === 'undefined') {
+            try {
+                cookies[name] = decodeURIComponent(value);
+            }
+            catch {
+                cookies[name] = value;
+            }
+        }
+    });
+
+    return cookies;
+}
+
+/**
+ * Create the `Set-Cookie` header for a cookie
+ * 
+ * @param name The name of the cookie
+ * @param value The value of the cookie
+ * @param options The attributes of the cookie
+ * @returns The `Set-Cookie` header
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+    const parts = [`${name}=${encodeURIComponent(value)}`, `Path=${options.path ?? '/'}`];
+
+    if(typeof options.domain !== 'undefined') {
+        parts.push(`Domain=${options.domain}`);
+    }
+    if(typeof options.maxAge !== 'undefined') {
+        parts.push(`Max-Age=${Math.ceil(options.maxAge)}`);
+    }
+    if(options.httpOnly !== false) {
+        parts.push('HttpOnly');
+    }
+    if(options.secure) {
+        parts.push('Secure');
+    }
+    parts.push(`SameSite=${options.sameSite ?? 'Lax'}`);
+
+    return parts.join('; ');
+}
+
+/**
+ * Create the signature of a value
+ * 
+ * @param value The value to sign
+ * @param secret The secret to sign with
+ * @returns The signature
+ */
+function createSignature(value: string, secret: string) {
+    return createHmac('sha256', secret).update(value).digest('base64url');
+}
+
+/**
+ * Sign a value (so that it can be verified it wasn't tampered with when it's sent back. Ex. in a cookie)
+ * 
+ * @param value The value to sign
+ * @param secret The secret to sign with
+ * @returns The signed value (`<value>.<signature>`)
+ */
+export function signValue(value: string, secret: string) {
+    return `${value}.${createSignature(value, secret)}`;
+}
+
+/**
+ * Verify a signed value and get the original value
+ * 
+ * @param signed The signed value (`<value>.<signature>`)
+ * @param secrets The secrets the value could have been signed with (multiple secrets allow rotating the secret without invalidating existing values)
+ * @returns The original value or undefined if the signature isn't valid
+ */
+export function unsignValue(signed: string, secrets: string[]): string | undefined {
+    const separatorIndex = signed.lastIndexOf('.');
+    if(separatorIndex === -1) {
+        return undefined;
+    }
+
+    const value = signed.substring(0, separatorIndex);
+    const signature = Buffer.from(signed.substring(separatorIndex + 1));
+
+    const isValid = secrets.some(secret => {
+        const expected = Buffer.from(createSignature(value, secret));
+
+        return expected.length === signature.length && timingSafeEqual(expected, signature);
+    });
+
+    return isValid ? value : undefined;
+}
\ No newline at end of file
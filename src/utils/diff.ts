@@ -0,0 +1,69 @@
+/**
+ * Create a readable, line based diff between two texts (similar to a unified diff)
+ * 
+ * Removed lines are prefixed with `-`, added lines with `+` and unchanged lines (the context around changes) with a space.
+ * Unchanged sections longer than the context are collapsed into a `@@ ... @@` line.
+ * 
+ * Note, this uses a straightforward longest common subsequence so it's meant for small texts (ex. templates), not large files.
+ * 
+ * @param before The original text
+ * @param after The new text
+ * @param context The number of unchanged lines to show around each change (default: 2)
+ * @returns The diff (empty if the texts are the same)
+ */
+export function diffLines(before: string, after: string, context: number = 2): string {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    // The length of the longest common subsequence of the lines from each index onward
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for(let i = a.length - 1; i >= 0; i--) {
+        for(let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    // Walk the table to get the sequence of unchanged, removed and added lines
+    const lines: { type: ' ' | '-' | '+', line: string, beforeLine: number }[] = [];
+    let i = 0;
+    let j = 0;
+    while(i < a.length || j < b.length) {
+        if(i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ type: ' ', line: a[i], beforeLine: i + 1 });
+            i++;
+            j++;
+        }
+        // Removed lines come before the lines added in their place (the same as a unified diff)
+        else if(i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            lines.push({ type: '-', line: a[i], beforeLine: i + 1 });
+            i++;
+        }
+        else {
+            lines.push({ type: '+', line: b[j], beforeLine: i + 1 });
+            j++;
+        }
+    }
+
+    if(lines.every(line => line.type === ' ')) {
+        return '';
+    }
+
+    // Only show the unchanged lines that are within the context of a change
+    const visible = lines.map((line, index) => line.type !== ' ' || lines.slice(Math.max(0, index - context), index + context + 1).some(nearby => nearby.type !== ' '));
+
+    const output: string[] = [];
+    lines.forEach((line, index) => {
+        if(!visible[index]) {
+            return;
+        }
+
+        // Mark where unchanged lines were skipped
+        if(index === 0 || !visible[index - 1]) {
+            output.push(`@@ line ${line.beforeLine} @@`);
+        }
+
+        output.push(`${line.type} ${line.line}`);
+    });
+
+    return output.join('\n');
+}
\ No newline at end of file
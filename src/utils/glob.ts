@@ -0,0 +1,68 @@
+/**
+ * Convert a glob pattern into a regular expression
+ *
+ * Supports `**` (any number of directories), `*` (anything within a file or directory name), `?` (a single character) and `{a,b}` (alternatives).
+ * Patterns are matched against paths with `/` as the separator (ex. `admin/UsersController.js`).
+ *
+ * @param pattern The glob pattern (ex. `**\/*Controller.{js,ts}`)
+ * @returns The regular expression that matches the same paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    let inAlternatives = false;
+
+    // Leading `./` doesn't change what the pattern matches
+    const normalizedPattern = pattern.replace(/^\.\//, '');
+
+    for(let index = 0; index < normalizedPattern.length; index++) {
+        const char = normalizedPattern[index];
+
+        switch(char) {
+            case '*':
+                if(normalizedPattern[index + 1] === '*') {
+                    // `**/` matches any number of directories (including none), `**` on it's own matches anything
+                    if(normalizedPattern[index + 2] === '/') {
+                        source += '(?:.*/)?';
+                        index += 2;
+                    }
+                    else {
+                        source += '.*';
+                        index += 1;
+                    }
+                }
+                else {
+                    source += '[^/]*';
+                }
+                break;
+            case '?':
+                source += '[^/]';
+                break;
+            case '{':
+                inAlternatives = true;
+                source += '(?:';
+                break;
+            case '}':
+                inAlternatives = false;
+                source += ')';
+                break;
+            case ',':
+                source += inAlternatives ? '|' : ',';
+                break;
+            default:
+                source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check if a path matches any of a list of glob patterns
+ *
+ * @param filePath The path to check (relative, with `/` as the separator)
+ * @param patterns The glob patterns (see `globToRegExp`)
+ * @returns If the path matches at least one of the patterns
+ */
+export function matchesGlob(filePath: string, patterns: string[]): boolean {
+    return patterns.some(pattern => globToRegExp(pattern).test(filePath));
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+/**
+ * Join multiple URL path segments into a single route path
+ *
+ * This is mostly used to combine controller prefixes (ex. `@Controller('/admin')`) with the paths of their routes (ex. `@GET('/users')`).
+ *
+ * Note, the result always starts with a `/`, never ends with a `/` (unless it's the root path) and never contains duplicate slashes.
+ * For instance, `joinPaths('/admin/', '/users')` and `joinPaths('admin', 'users/')` both produce `/admin/users`.
+ *
+ * @param segments The path segments to join (empty or undefined segments are ignored)
+ * @returns The joined path
+ */
+export function joinPaths(...segments: (string | undefined)[]): string {
+    const joined = segments
+        .filter((segment): segment is string => typeof segment !== 'undefined' && segment !== '')
+        .map(segment => segment.replace(/^\/+|\/+$/g, ''))
+        .filter(segment => segment !== '')
+        .join('/');
+
+    return '/' + joined;
+}
\ No newline at end of file
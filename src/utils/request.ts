@@ -0,0 +1,27 @@
+import { Request } from 'express';
+
+/**
+ * Get the session of a request (`req.session`)
+ * 
+ * The session is added by session middleware (the framework's `sessions` middleware or another, ex. `express-session`), so what it is isn't known here.
+ * Note, `session` isn't declared on Express' `Request` because other session middleware declare it (with their own types) and the declarations would conflict.
+ * 
+ * @param req The request
+ * @returns The session or undefined if no session middleware is used
+ */
+export function getRequestSession(req: Request): unknown {
+    return Reflect.get(req, 'session');
+}
+
+/**
+ * Get the current user of a request (`req.user`)
+ * 
+ * The user is added by the session middleware, bearer tokens or other authentication middleware (ex. Passport), so what it is isn't known here.
+ * Note, `user` isn't declared on Express' `Request` for the same reason as `session` (see `getRequestSession`).
+ * 
+ * @param req The request
+ * @returns The user or undefined if there is no current user
+ */
+export function getRequestUser(req: Request): unknown {
+    return Reflect.get(req, 'user');
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+/** The options common to all field types */
+type BaseFieldSchema = {
+    /** If the field has to be present (and non-empty). Default is false */
+    required?: boolean,
+    /** The value to use if the field isn't present */
+    default?: unknown,
+    /** A human readable name for the field used in error messages (default is the field's name) */
+    label?: string,
+    /** A custom error message to use (instead of the generated one) when the field fails validation */
+    message?: string
+};
+
+/** A string field */
+export type StringFieldSchema = BaseFieldSchema & {
+    type: 'string',
+    /** If to trim whitespace from the start and end of the value (default is true) */
+    trim?: boolean,
+    /** The minimum length of the string */
+    minLength?: number,
+    /** The maximum length of the string */
+    maxLength?: number,
+    /** A regular expression the string has to match */
+    pattern?: RegExp,
+    /** A well known format the string has to be in */
+    format?: 'email' | 'url',
+    /** The list of allowed values */
+    enum?: string[]
+};
+
+/** A numeric field (strings are coerced to numbers) */
+export type NumberFieldSchema = BaseFieldSchema & {
+    type: 'number',
+    /** If the number has to be an integer */
+    integer?: boolean,
+    /** The minimum value */
+    min?: number,
+    /** The maximum value */
+    max?: number
+};
+
+/** A boolean field (strings like `true`, `on`, `yes` and `1` are coerced to booleans) */
+export type BooleanFieldSchema = BaseFieldSchema & {
+    type: 'boolean'
+};
+
+/** A date field (strings and numbers are coerced to `Date` objects) */
+export type DateFieldSchema = BaseFieldSchema & {
+    type: 'date',
+    /** The earliest allowed date */
+    min?: Date,
+    /** The latest allowed date */
+    max?: Date
+};
+
+/** An array field (a singular value is coerced to an array with one item) */
+export type ArrayFieldSchema = BaseFieldSchema & {
+    type: 'array',
+    /** The schema every item in the array has to match */
+    items?: FieldSchema,
+    /** The minimum number of items */
+    minItems?: number,
+    /** The maximum number of items */
+    maxItems?: number
+};
+
+/** A nested object field */
+export type ObjectFieldSchema = BaseFieldSchema & {
+    type: 'object',
+    /** The schema of the object's properties */
+    properties: Schema
+};
+
+/** The schema of a single field */
+export type FieldSchema = StringFieldSchema | NumberFieldSchema | BooleanFieldSchema | DateFieldSchema | ArrayFieldSchema | ObjectFieldSchema;
+
+/**
+ * A declarative description of the expected shape of some input (ex. a request body)
+ *
+ * @example
+ * ```ts
+ * const signupSchema: Schema = {
+ *     email: { type: 'string', required: true, format: 'email' },
+ *     age: { type: 'number', integer: true, min: 13 },
+ *     newsletter: { type: 'boolean', default: false },
+ *     interests: { type: 'array', items: { type: 'string' }, maxItems: 5 }
+ * };
+ * ```
+ */
+export type Schema = {
+    [field: string]: FieldSchema
+};
+
+/** The options for validating a part of the request against a schema */
+export type ValidationOptions = {
+    /** If fields not in the schema should be removed from the validated value (default is true, except for `@Params` where route parameters not in the schema are kept) */
+    stripUnknown?: boolean,
+    /** The HTTP status code to use when one or more fields fail validation (default is 422) */
+    status?: 400 | 422
+};
\ No newline at end of file
@@ -0,0 +1,243 @@
+import { FieldError, ValidationSource } from '../errors/ValidationError';
+
+import { Schema, FieldSchema, ValidationOptions } from './Schema';
+
+/** The (very loose) pattern used to check the `email` format */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** The strings that are coerced to `true` for boolean fields */
+const TRUE_STRINGS = ['true', 'on', 'yes', '1'];
+
+/** The strings that are coerced to `false` for boolean fields */
+const FALSE_STRINGS = ['false', 'off', 'no', '0'];
+
+/**
+ * Validates (and coerces) input against a declarative schema
+ *
+ * Input from a request is mostly strings (query strings, URL parameters, form posts, etc...).
+ * So as part of validation values are coerced to the type the schema specifies (ex. `'42'` becomes `42` for a `number` field).
+ */
+export class SchemaValidator {
+    /** The schema to validate against */
+    private schema: Schema;
+
+    /** Where in the request the input comes from (used for the errors) */
+    private source: ValidationSource;
+
+    /** If fields not in the schema should be removed */
+    private stripUnknown: boolean;
+
+    /**
+     * Create a new schema validator
+     *
+     * @param schema The schema to validate against
+     * @param source Where in the request the input comes from
+     * @param options The options for validation
+     */
+    constructor(schema: Schema, source: ValidationSource, options?: ValidationOptions) {
+        this.schema = schema;
+        this.source = source;
+        // Route parameters aren't stripped by default because they're declared by the route's path (ex. `/:org/:id`) rather than the client (so a schema for only some of them shouldn't remove the others)
+        this.stripUnknown = typeof options !== 'undefined' && typeof options.stripUnknown !== 'undefined' ? options.stripUnknown : source !== 'params';
+    }
+
+    /**
+     * Check if a value should be considered "missing"
+     *
+     * Note, empty strings are considered missing because HTML forms submit empty inputs as empty strings.
+     *
+     * @param value The value to check
+     * @returns If the value is missing
+     */
+    private isMissing(value: unknown) {
+        return typeof value === 'undefined' || value === null || (typeof value === 'string' && value.trim() === '');
+    }
+
+    /**
+     * Create an error for a field
+     *
+     * @param field The name (path) of the field
+     * @param fieldSchema The schema of the field
+     * @param rule The rule that failed
+     * @param message The generated message (used if the schema doesn't specify a custom message)
+     * @param value The value that failed
+     * @returns The error
+     */
+    private createError(field: string, fieldSchema: FieldSchema, rule: string, message: string, value: unknown): FieldError {
+        return {
+            source: this.source,
+            field: field,
+            rule: rule,
+            message: typeof fieldSchema.message !== 'undefined' ? fieldSchema.message : message,
+            value: value
+        };
+    }
+
+    /**
+     * Validate (and coerce) a single field
+     *
+     * @param field The name (path) of the field
+     * @param fieldSchema The schema of the field
+     * @param value The value of the field
+     * @returns The coerced value and any errors
+     */
+    private validateField(field: string, fieldSchema: FieldSchema, value: unknown): { value: unknown, errors: FieldError[] } {
+        const label = typeof fieldSchema.label !== 'undefined' ? fieldSchema.label : field;
+
+        if(this.isMissing(value)) {
+            if(typeof fieldSchema.default !== 'undefined') {
+                return { value: fieldSchema.default, errors: [] };
+            }
+
+            if(fieldSchema.required) {
+                return { value: undefined, errors: [this.createError(field, fieldSchema, 'required', `${label} is required`, value)] };
+            }
+
+            return { value: undefined, errors: [] };
+        }
+
+        switch(fieldSchema.type) {
+            case 'string': {
+                if(typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+                    return { value: value, errors: [this.createError(field, fieldSchema, 'type', `${label} must be text`, value)] };
+                }
+
+                const str = fieldSchema.trim === false ? String(value) : String(value).trim();
+
+                if(typeof fieldSchema.minLength !== 'undefined' && str.length < fieldSchema.minLength) {
+                    return { value: str, errors: [this.createError(field, fieldSchema, 'minLength', `${label} must be at least ${fieldSchema.minLength} characters`, value)] };
+                }
+                if(typeof fieldSchema.maxLength !== 'undefined' && str.length > fieldSchema.maxLength) {
+                    return { value: str, errors: [this.createError(field, fieldSchema, 'maxLength', `${label} must be at most ${fieldSchema.maxLength} characters`, value)] };
+                }
+                if(typeof fieldSchema.pattern !== 'undefined' && !fieldSchema.pattern.test(str)) {
+                    return { value: str, errors: [this.createError(field, fieldSchema, 'pattern', `${label} is not in the expected format`, value)] };
+                }
+                if(fieldSchema.format === 'email' && !EMAIL_PATTERN.test(str)) {
+                    return { value: str, errors: [this.createError(field, fieldSchema, 'format', `${label} must be an email address`, value)] };
+                }
+                if(fieldSchema.format === 'url' && !URL.canParse(str)) {
+                    return { value: str, errors: [this.createError(field, fieldSchema, 'format', `${label} must be a URL`, value)] };
+                }
+                if(typeof fieldSchema.enum !== 'undefined' && !fieldSchema.enum.includes(str)) {
+                    return { value: str, errors: [this.createError(field, fieldSchema, 'enum', `${label} must be one of ${fieldSchema.enum.join(', ')}`, value)] };
+                }
+
+                return { value: str, errors: [] };
+            }
+            case 'number': {
+                const num = typeof value === 'number' ? value : (typeof value === 'string' ? Number(value.trim()) : NaN);
+
+                if(Number.isNaN(num)) {
+                    return { value: value, errors: [this.createError(field, fieldSchema, 'type', `${label} must be a number`, value)] };
+                }
+                if(fieldSchema.integer && !Number.isInteger(num)) {
+                    return { value: num, errors: [this.createError(field, fieldSchema, 'integer', `${label} must be a whole number`, value)] };
+                }
+                if(typeof fieldSchema.min !== 'undefined' && num < fieldSchema.min) {
+                    return { value: num, errors: [this.createError(field, fieldSchema, 'min', `${label} must be at least ${fieldSchema.min}`, value)] };
+                }
+                if(typeof fieldSchema.max !== 'undefined' && num > fieldSchema.max) {
+                    return { value: num, errors: [this.createError(field, fieldSchema, 'max', `${label} must be at most ${fieldSchema.max}`, value)] };
+                }
+
+                return { value: num, errors: [] };
+            }
+            case 'boolean': {
+                if(typeof value === 'boolean') {
+                    return { value: value, errors: [] };
+                }
+
+                const str = String(value).trim().toLowerCase();
+                if(TRUE_STRINGS.includes(str)) {
+                    return { value: true, errors: [] };
+                }
+                if(FALSE_STRINGS.includes(str)) {
+                    return { value: false, errors: [] };
+                }
+
+                return { value: value, errors: [this.createError(field, fieldSchema, 'type', `${label} must be true or false`, value)] };
+            }
+            case 'date': {
+                const date = value instanceof Date ? value : (typeof value === 'string' || typeof value === 'number' ? new Date(value) : new Date(NaN));
+
+                if(Number.isNaN(date.getTime())) {
+                    return { value: value, errors: [this.createError(field, fieldSchema, 'type', `${label} must be a date`, value)] };
+                }
+                if(typeof fieldSchema.min !== 'undefined' && date < fieldSchema.min) {
+                    return { value: date, errors: [this.createError(field, fieldSchema, 'min', `${label} must be on or after ${fieldSchema.min.toISOString()}`, value)] };
+                }
+                if(typeof fieldSchema.max !== 'undefined' && date > fieldSchema.max) {
+                    return { value: date, errors: [this.createError(field, fieldSchema, 'max', `${label} must be on or before ${fieldSchema.max.toISOString()}`, value)] };
+                }
+
+                return { value: date, errors: [] };
+            }
+            case 'array': {
+                // A singular value is treated as an array with one item (ex. `?tag=a` vs `?tag=a&tag=b`)
+                const items = Array.isArray(value) ? value : [value];
+
+                if(typeof fieldSchema.minItems !== 'undefined' && items.length < fieldSchema.minItems) {
+                    return { value: items, errors: [this.createError(field, fieldSchema, 'minItems', `${label} must have at least ${fieldSchema.minItems} items`, value)] };
+                }
+                if(typeof fieldSchema.maxItems !== 'undefined' && items.length > fieldSchema.maxItems) {
+                    return { value: items, errors: [this.createError(field, fieldSchema, 'maxItems', `${label} must have at most ${fieldSchema.maxItems} items`, value)] };
+                }
+
+                const itemSchema = fieldSchema.items;
+                if(typeof itemSchema === 'undefined') {
+                    return { value: items, errors: [] };
+                }
+
+                const results = items.map((item, index) => this.validateField(`${field}[${index}]`, itemSchema, item));
+
+                return { value: results.map(result => result.value), errors: results.map(result => result.errors).flat() };
+            }
+            case 'object': {
+                if(typeof value !== 'object' || Array.isArray(value)) {
+                    return { value: value, errors: [this.createError(field, fieldSchema, 'type', `${label} must be an object`, value)] };
+                }
+
+                return this.validateObject(fieldSchema.properties, value as { [key: string]: unknown }, `${field}.`);
+            }
+        }
+    }
+
+    /**
+     * Validate (and coerce) an object against a schema
+     *
+     * @param schema The schema to validate against
+     * @param input The object to validate
+     * @param prefix The prefix for the field names (for nested objects)
+     * @returns The coerced object and any errors
+     */
+    private validateObject(schema: Schema, input: { [key: string]: unknown }, prefix: string = ''): { value: { [key: string]: unknown }, errors: FieldError[] } {
+        const output: { [key: string]: unknown } = this.stripUnknown ? {} : { ...input };
+        let errors: FieldError[] = [];
+
+        Object.entries(schema).forEach(([field, fieldSchema]) => {
+            const result = this.validateField(`${prefix}${field}`, fieldSchema, input[field]);
+
+            if(typeof result.value !== 'undefined') {
+                output[field] = result.value;
+            }
+            else {
+                delete output[field];
+            }
+
+            errors = errors.concat(result.errors);
+        });
+
+        return { value: output, errors: errors };
+    }
+
+    /**
+     * Validate (and coerce) input against the schema
+     *
+     * @param input The input to validate (ex. `req.body`)
+     * @returns The coerced value and the list of errors (empty if the input is valid)
+     */
+    validate(input: { [key: string]: unknown }) {
+        return this.validateObject(this.schema, input);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+import { FieldError, ValidationSource, ValidationError } from '../errors/ValidationError';
+import { BODY_METADATA_KEY } from '../decorators/Body';
+import { QUERY_METADATA_KEY } from '../decorators/Query';
+import { PARAMS_METADATA_KEY } from '../decorators/Params';
+import { PAGE_METADATA_KEY, PageMetadata, renderPage, wantsJSON } from '../decorators/Page';
+
+import { Schema, ValidationOptions } from './Schema';
+import { SchemaValidator } from './SchemaValidator';
+
+/** The metadata keys of the validation decorators and the part of the request they validate */
+const VALIDATION_SOURCES: { source: ValidationSource, metadataKey: string }[] = [
+    { source: 'params', metadataKey: PARAMS_METADATA_KEY },
+    { source: 'query', metadataKey: QUERY_METADATA_KEY },
+    { source: 'body', metadataKey: BODY_METADATA_KEY }
+];
+
+/**
+ * Class that creates the middleware that validates a route's request against the schemas given to the `@Body`, `@Query` and `@Params` decorators.
+ */
+export class ValidationMiddleware {
+    /** The validators for each part of the request that is validated */
+    private validators: { source: ValidationSource, validator: SchemaValidator, options?: ValidationOptions }[];
+
+    /** The page to re-render on failure (if the route is also decorated with `@Page`) */
+    private page?: PageMetadata;
+
+    /** The layout of the route's controller (used when re-rendering the page) */
+    private layout?: string;
+
+    /**
+     * Constructor for the ValidationMiddleware class.
+     *
+     * @param validators The schemas (and options) for each part of the request to validate
+     * @param page The page to re-render on failure (if any)
+     * @param layout The layout of the route's controller (if any)
+     */
+    constructor(validators: { source: ValidationSource, schema: Schema, options?: ValidationOptions }[], page?: PageMetadata, layout?: string) {
+        this.validators = validators.map(({ source, schema, options }) => ({ source, validator: new SchemaValidator(schema, source, options), options }));
+        this.page = page;
+        this.layout = layout;
+    }
+
+    /**
+     * Creates the middleware function.
+     *
+     * @returns The middleware function.
+     */
+    middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            let errors: FieldError[] = [];
+            let status = 422;
+            const values: { [source: string]: any } = {};
+
+            for(const { source, validator, options } of this.validators) {
+                const input = req[source];
+
+                values[source] = input;
+
+                // If there is nothing to validate (ex. no body parsing middleware was used), the request is malformed rather than invalid
+                if(typeof input !== 'object' || input === null || Array.isArray(input)) {
+                    return this.fail(req, res, next, [{ source, field: '', rule: 'type', message: `The request ${source} could not be read`, value: input }], 400, values);
+                }
+
+                const result = validator.validate(input);
+                if(result.errors.length > 0) {
+                    errors = errors.concat(result.errors);
+
+                    if(typeof options !== 'undefined' && typeof options.status !== 'undefined') {
+                        status = options.status;
+                    }
+                }
+                else {
+                    // Replace the part of the request with the validated (coerced) values
+                    req[source] = result.value;
+                }
+            }
+
+            if(errors.length > 0) {
+                return this.fail(req, res, next, errors, status, values);
+            }
+
+            next();
+        };
+    }
+
+    /**
+     * Handle a request that failed validation
+     *
+     * @param req The request
+     * @param res The response
+     * @param next The next function
+     * @param errors The fields that failed validation
+     * @param status The status code to respond with
+     * @param values The submitted values
+     */
+    private fail(req: Request, res: Response, next: NextFunction, errors: FieldError[], status: number, values: { [source: string]: any }) {
+        res.status(status);
+
+        // If the route renders a page, we re-render it (ex. so that a form can show the errors and keep the submitted values)
+        // Unless the request asked for JSON, in which case the error is handled like any other route's
+        if(typeof this.page !== 'undefined' && !wantsJSON(req, this.page)) {
+            return renderPage(res, this.page, { errors: errors, values: values.body ?? values.query ?? {} }, this.layout);
+        }
+
+        next(new ValidationError(errors, status));
+    }
+}
+
+/**
+ * Create the validation middleware for a route (if the route uses any of the validation decorators)
+ *
+ * @param target The prototype of the controller class
+ * @param propertyKey The name of the route's method
+ * @param layout The layout of the route's controller (if any. Used if the page is re-rendered)
+ * @returns The middleware function or undefined if the route doesn't use any validation decorators
+ */
+export function validationMiddleware(target: any, propertyKey: string, layout?: string): RequestHandler | undefined {
+    const validators = VALIDATION_SOURCES
+        .filter(({ metadataKey }) => typeof Reflect.getMetadata(metadataKey, target, propertyKey) !== 'undefined')
+        .map(({ source, metadataKey }) => ({ source, ...Reflect.getMetadata(metadataKey, target, propertyKey) }));
+
+    if(validators.length === 0) {
+        return undefined;
+    }
+
+    const instance = new ValidationMiddleware(validators, Reflect.getMetadata(PAGE_METADATA_KEY, target, propertyKey), layout);
+
+    return instance.middleware();
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Schema, FieldSchema, StringFieldSchema, NumberFieldSchema, BooleanFieldSchema, DateFieldSchema, ArrayFieldSchema, ObjectFieldSchema, ValidationOptions } from './Schema';
+import { SchemaValidator } from './SchemaValidator';
+
+export {
+    Schema,
+    FieldSchema,
+    StringFieldSchema,
+    NumberFieldSchema,
+    BooleanFieldSchema,
+    DateFieldSchema,
+    ArrayFieldSchema,
+    ObjectFieldSchema,
+    ValidationOptions,
+    SchemaValidator
+};
\ No newline at end of file
@@ -0,0 +1,246 @@
+import 'reflect-metadata';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+
+import { App, AppOptions } from '../src/App';
+import { Initializer } from '../src/Initializer';
+import { BaseController } from '../src/controllers/BaseController';
+import { Controller } from '../src/decorators/Controller';
+import { GET } from '../src/decorators/GET';
+
+/** Resolves once a request has reached one of the routes below */
+let requestStarted: Promise<void>;
+let startRequest: () => void;
+
+/** Lets the request to the `/requests/slow` route finish */
+let finishRequest: () => void;
+let requestFinished: Promise<void>;
+
+@Controller('/requests')
+class RequestsController extends BaseController {
+    @GET('/slow')
+    async slow() {
+        startRequest();
+        await requestFinished;
+
+        return { finished: true };
+    }
+
+    @GET('/hanging')
+    hanging() {
+        startRequest();
+
+        // Nothing is sent, so the request never finishes
+    }
+}
+
+describe('App', () => {
+    let app: App;
+    let baseUrl: string;
+    let port: string | undefined;
+    let directory: string;
+
+    /** Run an app (on a random port) */
+    const run = async (options: AppOptions = {}) => {
+        app = new App({ handleSignals: false, ...options });
+        await app.run(new Initializer({
+            controllers: [RequestsController],
+            staticFilesPath: directory,
+            view: { filesPath: directory },
+            healthCheck: true
+        }));
+
+        baseUrl = `http://localhost:${(app.getServer()!.address() as AddressInfo).port}`;
+    };
+
+    before(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'app-test-'));
+    });
+
+    after(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        port = process.env.PORT;
+        process.env.PORT = '0';
+
+        requestStarted = new Promise(resolve => startRequest = resolve);
+        requestFinished = new Promise(resolve => finishRequest = resolve);
+
+        mock.method(console, 'log', () => {});
+    });
+
+    afterEach(async () => {
+        finishRequest();
+        await app.stop().catch(() => {});
+
+        if(typeof port === 'undefined') {
+            delete process.env.PORT;
+        }
+        else {
+            process.env.PORT = port;
+        }
+
+        mock.restoreAll();
+    });
+
+    describe('stop', () => {
+        it('runs the shutdown hooks and closes the server', async () => {
+            await run();
+
+            const ran: string[] = [];
+            app.on('beforeShutdown', () => {
+                ran.push('beforeShutdown');
+                assert.notEqual(app.getServer(), undefined);
+            });
+            app.on('afterShutdown', () => {
+                ran.push('afterShutdown');
+                assert.equal(app.getServer(), undefined);
+            });
+
+            // Stopping more than once waits for the same shutdown
+            await Promise.all([app.stop(), app.stop()]);
+
+            assert.deepEqual(ran, ['beforeShutdown', 'afterShutdown']);
+            await assert.rejects(fetch(`${baseUrl}/requests/slow`));
+        });
+
+        it('waits for in-flight requests to finish', async () => {
+            await run();
+
+            const response = fetch(`${baseUrl}/requests/slow`);
+            await requestStarted;
+
+            let stopped = false;
+            const stopping = app.stop().then(() => stopped = true);
+
+            await new Promise(resolve => setTimeout(resolve, 20));
+            assert.equal(stopped, false);
+
+            finishRequest();
+
+            const res = await response;
+            assert.equal(res.status, 200);
+            assert.deepEqual(await res.json(), { finished: true });
+
+            await stopping;
+            assert.equal(stopped, true);
+        });
+
+        it('closes the connections of requests that don\'t finish within the drain timeout', async () => {
+            const warn = mock.method(console, 'warn', () => {});
+            await run({ drainTimeout: 50 });
+
+            const response = fetch(`${baseUrl}/requests/hanging`);
+            await requestStarted;
+
+            await app.stop();
+
+            await assert.rejects(response);
+            assert.equal(warn.mock.callCount(), 1);
+            assert.match(String(warn.mock.calls[0].arguments[0]), /didn't finish within 50ms/);
+        });
+
+        it('reports that the app is draining while shutting down (except on the liveness endpoint)', async () => {
+            await run({ shutdownDelay: 200 });
+
+            const ready = await fetch(`${baseUrl}/.well-known/health-check/ready`);
+            assert.equal(ready.status, 200);
+
+            const stopping = app.stop();
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            const draining = await fetch(`${baseUrl}/.well-known/health-check/ready`);
+            assert.equal(draining.status, 503);
+            assert.equal((await draining.json()).output, 'The app is shutting down');
+
+            const live = await fetch(`${baseUrl}/.well-known/health-check/live`);
+            assert.equal(live.status, 200);
+
+            await stopping;
+        });
+
+        it('finishes shutting down when a hook fails and then throws the error', async () => {
+            await run();
+
+            let closed = false;
+            app.on('afterShutdown', () => {
+                closed = true;
+            });
+            app.on('beforeShutdown', () => {
+                throw new Error('Failed to flush');
+            });
+
+            await assert.rejects(app.stop(), /Failed to flush/);
+
+            assert.equal(closed, true);
+            assert.equal(app.getServer(), undefined);
+        });
+
+        it('throws every error when more than one hook fails', async () => {
+            await run();
+
+            app.on('beforeShutdown', () => {
+                throw new Error('First');
+            });
+            app.on('afterShutdown', () => {
+                throw new Error('Second');
+            });
+
+            await assert.rejects(app.stop(), (error: AggregateError) => {
+                assert.deepEqual(error.errors.map((err: Error) => err.message), ['First', 'Second']);
+
+                return true;
+            });
+        });
+    });
+
+    describe('signals', () => {
+        it('shuts down and raises the signal again', async () => {
+            const kill = mock.method(process, 'kill', () => true);
+            await run({ handleSignals: true });
+
+            let stopped = false;
+            app.on('afterShutdown', () => {
+                stopped = true;
+            });
+
+            process.emit('SIGTERM');
+            await app.stop();
+            await new Promise(resolve => setImmediate(resolve));
+
+            assert.equal(stopped, true);
+            assert.deepEqual(kill.mock.calls.map(call => call.arguments), [[process.pid, 'SIGTERM']]);
+            assert.equal(process.listenerCount('SIGTERM'), 0);
+        });
+
+        it('exits with code 1 if shutting down fails', async () => {
+            mock.method(console, 'error', () => {});
+            mock.method(process, 'kill', () => true);
+            const exit = mock.method(process, 'exit', () => undefined as never);
+            await run({ handleSignals: true });
+
+            app.on('afterShutdown', () => {
+                throw new Error('Failed to close the database');
+            });
+
+            process.emit('SIGINT');
+            await app.stop().catch(() => {});
+            await new Promise(resolve => setImmediate(resolve));
+
+            assert.deepEqual(exit.mock.calls.map(call => call.arguments), [[1]]);
+        });
+
+        it('doesn\'t listen for signals with `handleSignals: false`', async () => {
+            const listeners = process.listenerCount('SIGTERM');
+            await run({ handleSignals: false });
+
+            assert.equal(process.listenerCount('SIGTERM'), listeners);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import 'reflect-metadata';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { BaseTemplateCreator } from '../src/BaseTemplateCreator';
+import { Renderer } from '../src/Renderer';
+
+describe('BaseTemplateCreator.sync', () => {
+    let directory: string;
+    let filePath: string;
+
+    /** The template as it is on disk */
+    const read = () => readFileSync(filePath, 'utf-8');
+
+    /** The template without it's marker (first line) */
+    const withoutMarker = (template: string) => template.slice(template.indexOf('\n') + 1);
+
+    beforeEach(() => {
+        directory = mkdtempSync(path.join(tmpdir(), 'ba-web-framework-templates-'));
+        filePath = path.join(directory, 'base.ejs');
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('creates the template if it doesn\'t exist', () => {
+        const result = BaseTemplateCreator.sync(directory);
+
+        assert.equal(result.status, 'created');
+        assert.match(read(), /^<%# Generated by ba-web-framework \(sha256:[0-9a-f]{64}\)/);
+    });
+
+    it('leaves a generated template that is up to date as is', () => {
+        BaseTemplateCreator.sync(directory);
+        const generated = read();
+
+        const result = BaseTemplateCreator.sync(directory);
+
+        assert.equal(result.status, 'unchanged');
+        assert.equal(read(), generated);
+    });
+
+    it('regenerates a generated template when the inputs change', () => {
+        BaseTemplateCreator.sync(directory);
+
+        const result = BaseTemplateCreator.sync(directory, { includeStripe: true });
+
+        assert.equal(result.status, 'regenerated');
+        assert.match(read(), /js\.stripe\.com/);
+    });
+
+    it('leaves an edited template as is and returns the differences', () => {
+        BaseTemplateCreator.sync(directory);
+        const edited = read().replace('<main id="main">', '<main id="main" class="edited">');
+        writeFileSync(filePath, edited);
+
+        const result = BaseTemplateCreator.sync(directory, { includeStripe: true });
+
+        assert.equal(result.status, 'customized');
+        assert.equal(read(), edited);
+        assert.match(result.diff ?? '', /^- .*class="edited"/m);
+        assert.match(result.diff ?? '', /^\+ .*js\.stripe\.com/m);
+    });
+
+    it('adds the marker to a template without one that is identical to what would be generated', () => {
+        BaseTemplateCreator.sync(directory);
+        const generated = read();
+        writeFileSync(filePath, withoutMarker(generated));
+
+        const result = BaseTemplateCreator.sync(directory);
+
+        assert.equal(result.status, 'adopted');
+        assert.equal(read(), generated);
+    });
+
+    it('leaves a template without a marker that differs as is and returns the differences', () => {
+        writeFileSync(filePath, '<html><body><%- include(page) %></body></html>');
+
+        const result = BaseTemplateCreator.sync(directory);
+
+        assert.equal(result.status, 'unmanaged');
+        assert.equal(read(), '<html><body><%- include(page) %></body></html>');
+        assert.match(result.diff ?? '', /^- <html><body><%- include\(page\) %><\/body><\/html>$/m);
+    });
+
+    it('warns about a template without a marker when the Renderer syncs it', () => {
+        writeFileSync(filePath, '<html><body><%- include(page) %></body></html>');
+        const warn = mock.method(console, 'warn', () => {});
+
+        try {
+            new Renderer(directory, 'ejs');
+        }
+        finally {
+            warn.mock.restore();
+        }
+
+        assert.equal(warn.mock.callCount(), 1);
+        assert.match(String(warn.mock.calls[0].arguments[0]), /base\.ejs wasn't generated by this version of the framework/);
+        assert.match(String(warn.mock.calls[0].arguments[0]), /^- <html>/m);
+    });
+});
@@ -0,0 +1,90 @@
+import 'reflect-metadata';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { BaseController } from '../src/controllers/BaseController';
+import { Controller } from '../src/decorators/Controller';
+import { GET } from '../src/decorators/GET';
+import { RequireScopes } from '../src/decorators/RequireScopes';
+import { User } from '../src/decorators/User';
+import { FakeTokenIssuer } from '../src/auth/FakeTokenIssuer';
+import { JWTClaims } from '../src/auth/JsonWebToken';
+import { TestApp, createTestApp } from '../src/testing/TestApp';
+
+@Controller('/things')
+class ThingController extends BaseController {
+    @GET('/')
+    @RequireScopes('things:read')
+    list(@User() user: JWTClaims) {
+        return { sub: user.sub };
+    }
+}
+
+/** Encode part of a token (the header or claims) */
+function encode(value: object) {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('Bearer tokens', () => {
+    const issuer = new FakeTokenIssuer();
+    let app: TestApp;
+
+    /** Request the protected route with a token */
+    const getThings = (token: string) => app.get('/things', { headers: { authorization: `Bearer ${token}` } });
+
+    before(async () => {
+        app = await createTestApp({ controllers: [ThingController], auth: { bearerTokens: issuer.getBearerTokenOptions({ audience: 'my-api' }) } });
+    });
+
+    after(async () => {
+        await app.close();
+    });
+
+    it('accepts a valid token (its claims become the user)', async () => {
+        const res = await getThings(issuer.issue({ sub: 'user-1', aud: 'my-api', scope: 'things:read' }));
+
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.json(), { sub: 'user-1' });
+    });
+
+    it('rejects requests without a token', async () => {
+        const res = await app.get('/things');
+
+        assert.equal(res.status, 401);
+        assert.equal(res.headers['www-authenticate'], 'Bearer');
+    });
+
+    it('rejects a token that is missing a required scope', async () => {
+        const res = await getThings(issuer.issue({ sub: 'user-1', aud: 'my-api', scope: 'things:write' }));
+
+        assert.equal(res.status, 403);
+        assert.equal(res.headers['www-authenticate'], 'Bearer error="insufficient_scope", scope="things:read"');
+    });
+
+    const invalidTokens: { [name: string]: () => string } = {
+        'an unsigned token (`alg: none`)': () => {
+            const [, claims] = issuer.issue({ sub: 'user-1', aud: 'my-api', scope: 'things:read' }).split('.');
+
+            return `${encode({ alg: 'none', typ: 'JWT' })}.${claims}.`;
+        },
+        'a token for another audience': () => issuer.issue({ sub: 'user-1', aud: 'other-api', scope: 'things:read' }),
+        'an expired token': () => issuer.issue({ sub: 'user-1', aud: 'my-api', scope: 'things:read' }, -60 * 60),
+        'a malformed token': () => 'not-a-token',
+        'a token signed with an unknown key': () => new FakeTokenIssuer(issuer.getIssuer()).issue({ sub: 'user-1', aud: 'my-api', scope: 'things:read' }),
+        'a token with a tampered signature': () => {
+            const [header, , signature] = issuer.issue({ sub: 'user-1', aud: 'my-api', scope: 'things:read' }).split('.');
+            const claims = encode({ iss: issuer.getIssuer(), sub: 'admin', aud: 'my-api', scope: 'things:read', exp: Math.floor(Date.now() / 1000) + 60 * 60 });
+
+            return `${header}.${claims}.${signature}`;
+        }
+    };
+
+    for(const [name, createToken] of Object.entries(invalidTokens)) {
+        it(`rejects ${name}`, async () => {
+            const res = await getThings(createToken());
+
+            assert.equal(res.status, 401);
+            assert.match(String(res.headers['www-authenticate']), /^Bearer error="invalid_token", error_description="[^"]+"$/);
+        });
+    }
+});
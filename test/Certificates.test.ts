@@ -0,0 +1,93 @@
+import { describe, it, before, after, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { X509Certificate, createPrivateKey } from 'crypto';
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { generateSelfSignedCertificate, loadCertificate } from '../src/server/certificates';
+
+describe('Self-signed certificates', () => {
+    let directory: string;
+
+    before(() => {
+        directory = mkdtempSync(path.join(tmpdir(), 'certificates-test-'));
+    });
+
+    after(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('generates a certificate for the host names that only the user can read the key of', async () => {
+        mock.method(console, 'log', () => {});
+        const certsDirectory = path.join(directory, 'private', 'certs');
+
+        const { cert, key } = await generateSelfSignedCertificate({ directory: certsDirectory, hostnames: ['myapp.local', '127.0.0.1'] });
+
+        const certificate = new X509Certificate(cert);
+        assert.equal(certificate.checkHost('myapp.local'), 'myapp.local');
+        assert.equal(certificate.checkIP('127.0.0.1'), '127.0.0.1');
+        assert.equal(certificate.checkPrivateKey(createPrivateKey(key)), true);
+
+        assert.equal(statSync(path.join(certsDirectory, 'dev-key.pem')).mode & 0o777, 0o600);
+        assert.equal(statSync(certsDirectory).mode & 0o077, 0);
+        assert.equal(statSync(path.join(directory, 'private')).mode & 0o077, 0);
+    });
+
+    it('reuses the certificate while it\'s valid for the host names', async () => {
+        const log = mock.method(console, 'log', () => {});
+        const certsDirectory = path.join(directory, 'reused');
+
+        const first = await generateSelfSignedCertificate({ directory: certsDirectory });
+        const second = await generateSelfSignedCertificate({ directory: certsDirectory });
+        assert.deepEqual(second.cert, first.cert);
+        assert.equal(log.mock.callCount(), 1);
+
+        // A certificate for other host names is generated again
+        const other = await generateSelfSignedCertificate({ directory: certsDirectory, hostnames: ['other.local'] });
+        assert.notDeepEqual(other.cert, first.cert);
+    });
+
+    it('warns if the key is kept in the project', async () => {
+        mock.method(console, 'log', () => {});
+        const warn = mock.method(console, 'warn', () => {});
+        mock.method(process, 'cwd', () => directory);
+
+        await generateSelfSignedCertificate({ directory: path.join(directory, '.certs') });
+
+        assert.equal(warn.mock.callCount(), 1);
+        assert.match(String(warn.mock.calls[0].arguments[0]), /Make sure \.certs is in your \.gitignore/);
+
+        // Outside of the project there's nothing to warn about
+        const outside = mkdtempSync(path.join(tmpdir(), 'certificates-test-outside-'));
+        try {
+            await generateSelfSignedCertificate({ directory: outside });
+        }
+        finally {
+            rmSync(outside, { recursive: true, force: true });
+        }
+
+        assert.equal(warn.mock.callCount(), 1);
+    });
+
+    it('doesn\'t generate a certificate in production unless asked to', async () => {
+        const nodeEnv = process.env.NODE_ENV;
+        process.env.NODE_ENV = 'production';
+
+        try {
+            await assert.rejects(loadCertificate({ certPath: '', keyPath: '' }), /no certificate is configured/);
+        }
+        finally {
+            if(typeof nodeEnv === 'undefined') {
+                delete process.env.NODE_ENV;
+            }
+            else {
+                process.env.NODE_ENV = nodeEnv;
+            }
+        }
+    });
+});
@@ -0,0 +1,84 @@
+import 'reflect-metadata';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import express, { Request, Response } from 'express';
+
+import { CompressionMiddleware } from '../src/middlewares/CompressionMiddleware';
+
+/** Random (so it barely compresses) hex text, much larger than the zlib high-water mark (16KB) */
+const LARGE_BODY = Array.from({ length: 10 * 1024 }, () => Math.random().toString(16).slice(2, 10)).join('');
+
+/** The result of a request (the body as sent, not decompressed) */
+type RawResponse = { status: number, headers: http.IncomingHttpHeaders, body: Buffer };
+
+describe('CompressionMiddleware', () => {
+    let server: Server;
+    let port: number;
+    let directory: string;
+
+    /** Request a path (with a timeout, so a response that never finishes fails the test instead of hanging it) */
+    const request = (requestPath: string, headers: http.OutgoingHttpHeaders = {}) => new Promise<RawResponse>((resolve, reject) => {
+        const req = http.get({ port, path: requestPath, headers: { 'Accept-Encoding': 'gzip', ...headers } }, (res) => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks) }));
+            res.on('error', reject);
+        });
+        req.setTimeout(5000, () => req.destroy(new Error(`The response to ${requestPath} didn't finish`)));
+        req.on('error', reject);
+    });
+
+    before(async () => {
+        directory = mkdtempSync(path.join(tmpdir(), 'compression-'));
+        writeFileSync(path.join(directory, 'large.txt'), LARGE_BODY);
+
+        const app = express();
+        app.use(new CompressionMiddleware().middleware());
+        app.use('/static', express.static(directory));
+        app.get('/streamed', (req: Request, res: Response) => {
+            res.type('text/plain');
+            res.write(LARGE_BODY.slice(0, 1024));
+            setTimeout(() => res.end(LARGE_BODY.slice(1024)), 5);
+        });
+
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+        port = (server.address() as AddressInfo).port;
+    });
+
+    after(async () => {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('finishes piped responses larger than the compression stream buffers', async () => {
+        const res = await request('/static/large.txt');
+
+        assert.equal(res.status, 200);
+        assert.equal(res.headers['content-encoding'], 'gzip');
+        assert.equal(zlib.gunzipSync(res.body).toString(), LARGE_BODY);
+    });
+
+    it('compresses responses written in parts', async () => {
+        const res = await request('/streamed');
+
+        assert.equal(res.headers['content-encoding'], 'gzip');
+        assert.equal(zlib.gunzipSync(res.body).toString(), LARGE_BODY);
+    });
+
+    it('leaves partial responses uncompressed', async () => {
+        const res = await request('/static/large.txt', { Range: 'bytes=0-2047' });
+
+        assert.equal(res.status, 206);
+        assert.equal(res.headers['content-encoding'], undefined);
+        assert.equal(res.body.toString(), LARGE_BODY.slice(0, 2048));
+    });
+});
\ No newline at end of file
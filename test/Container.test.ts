@@ -0,0 +1,104 @@
+import 'reflect-metadata';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+
+import { Injectable } from '../src/decorators/Injectable';
+import { Inject } from '../src/decorators/Inject';
+import { Container } from '../src/di/Container';
+import { Scope } from '../src/di/Provider';
+import { RequestContext } from '../src/RequestContext';
+
+@Injectable({ scope: Scope.REQUEST })
+class CurrentUser {}
+
+@Injectable({ scope: Scope.TRANSIENT })
+class Logger {}
+
+@Injectable()
+class UserService {
+    constructor(public user: CurrentUser) {}
+}
+
+@Injectable()
+class LoggingService {
+    constructor(public logger: Logger) {}
+}
+
+@Injectable()
+class ReportService {
+    constructor(public users: UserService) {}
+}
+
+@Injectable({ scope: Scope.REQUEST })
+class RequestService {
+    constructor(public user: CurrentUser, public logger: Logger) {}
+}
+
+@Injectable()
+class Config {}
+
+@Injectable()
+class ConfigService {
+    constructor(public config: Config, @Inject('NAME') public name: string) {}
+}
+
+/** Resolve within a (fake) request, so request scoped dependencies can be resolved */
+function inRequest<T>(fn: () => T): T {
+    return RequestContext.run({ req: {} as Request, res: {} as Response, next: () => {} }, fn);
+}
+
+describe('Container scopes', () => {
+    it('doesn\'t let a singleton depend on something request scoped', () => {
+        const container = new Container();
+
+        assert.throws(() => inRequest(() => container.resolve(UserService)), /UserService is a singleton so it can't depend on CurrentUser, which is request scoped/);
+    });
+
+    it('doesn\'t let a singleton depend on something transient', () => {
+        const container = new Container();
+
+        assert.throws(() => container.resolve(LoggingService), /LoggingService is a singleton so it can't depend on Logger, which is transient scoped/);
+    });
+
+    it('detects a narrower scoped dependency further down the chain', () => {
+        const container = new Container();
+
+        assert.throws(() => inRequest(() => container.resolve(ReportService)), /\(UserService -> CurrentUser\)/);
+    });
+
+    it('detects a narrower scoped dependency of a factory', () => {
+        const container = new Container();
+        container.register({ provide: 'USER_NAME', useFactory: (user: CurrentUser) => String(user), inject: [CurrentUser] });
+
+        assert.throws(() => inRequest(() => container.resolve('USER_NAME')), /USER_NAME is a singleton so it can't depend on CurrentUser/);
+    });
+
+    it('lets request scoped dependencies depend on request scoped and transient dependencies', () => {
+        const container = new Container();
+
+        const first = inRequest(() => container.resolve(RequestService));
+        const second = inRequest(() => container.resolve(RequestService));
+
+        assert.notEqual(first, second);
+        assert.notEqual(first.user, second.user);
+    });
+
+    it('lets singletons depend on singletons and values', () => {
+        const container = new Container();
+        container.register({ provide: 'NAME', useValue: 'app' });
+
+        const service = container.resolve(ConfigService);
+
+        assert.equal(service.name, 'app');
+        assert.equal(service.config, container.resolve(Config));
+        assert.equal(service, container.resolve(ConfigService));
+    });
+
+    it('lets a singleton depend on a request scoped dependency registered as a singleton', () => {
+        const container = new Container();
+        container.register({ provide: CurrentUser, useClass: CurrentUser, scope: Scope.SINGLETON });
+
+        assert.ok(container.resolve(UserService).user instanceof CurrentUser);
+    });
+});
@@ -0,0 +1,139 @@
+import 'reflect-metadata';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ControllerDiscoveryOptions } from '../src/Router';
+import { TestApp, createTestApp } from '../src/testing/TestApp';
+
+const SRC = path.join(__dirname, '..', 'src');
+
+/**
+ * The body of a controller file (the decorators are applied as functions so the same code works in every kind of file)
+ *
+ * @param name The name of the controller
+ * @param basePath The base path of the controller
+ * @returns The code that defines the controller (as `<name>Controller`) and it's `GET /` route
+ */
+function controllerBody(name: string, basePath: string) {
+    return [
+        `class ${name} extends BaseController {`,
+        '    index() {',
+        `        return { controller: '${name}' };`,
+        '    }',
+        '}',
+        `GET('/')(${name}.prototype, 'index', Object.getOwnPropertyDescriptor(${name}.prototype, 'index'));`,
+        `const ${name}Controller = Controller('${basePath}')(${name});`
+    ].join('\n');
+}
+
+/** The controller files (relative to the controllers folder) and their contents */
+const FILES: { [file: string]: string } = {
+    'HomeController.ts': [
+        `import { BaseController } from ${JSON.stringify(path.join(SRC, 'controllers', 'BaseController'))};`,
+        `import { Controller } from ${JSON.stringify(path.join(SRC, 'decorators', 'Controller'))};`,
+        `import { GET } from ${JSON.stringify(path.join(SRC, 'decorators', 'GET'))};`,
+        '',
+        controllerBody('Home', '/home').replace(`'index'));`, `'index')!);`),
+        'export { HomeController };'
+    ].join('\n'),
+    'HomeController.test.ts': 'throw new Error(\'The test file was loaded\');',
+    'types.d.ts': 'export type Nothing = never;',
+    'notes.txt': 'Not a controller',
+    'legacy.cjs': [
+        `const { BaseController } = require(${JSON.stringify(path.join(SRC, 'controllers', 'BaseController'))});`,
+        `const { Controller } = require(${JSON.stringify(path.join(SRC, 'decorators', 'Controller'))});`,
+        `const { GET } = require(${JSON.stringify(path.join(SRC, 'decorators', 'GET'))});`,
+        '',
+        controllerBody('Legacy', '/legacy'),
+        'module.exports = { LegacyController };'
+    ].join('\n'),
+    'admin/modern.mjs': [
+        'import { createRequire } from \'module\';',
+        '',
+        'const require = createRequire(import.meta.url);',
+        `const { BaseController } = require(${JSON.stringify(path.join(SRC, 'controllers', 'BaseController'))});`,
+        `const { Controller } = require(${JSON.stringify(path.join(SRC, 'decorators', 'Controller'))});`,
+        `const { GET } = require(${JSON.stringify(path.join(SRC, 'decorators', 'GET'))});`,
+        '',
+        controllerBody('Modern', '/admin/modern'),
+        'export default ModernController;'
+    ].join('\n')
+};
+
+describe('Controller discovery', () => {
+    let controllersPath: string;
+    let app: TestApp | undefined;
+
+    /** Create a test app that finds it's controllers in the controllers folder */
+    const discover = async (controllerDiscovery?: ControllerDiscoveryOptions) => {
+        app = await createTestApp({ controllersPath, controllerDiscovery });
+
+        return app;
+    };
+
+    /** Check which of the controllers were loaded */
+    const loaded = async (testApp: TestApp) => {
+        const statuses: { [basePath: string]: number } = {};
+        for(const basePath of ['/home', '/legacy', '/admin/modern']) {
+            statuses[basePath] = (await testApp.get(basePath)).status;
+        }
+
+        return Object.keys(statuses).filter(basePath => statuses[basePath] === 200);
+    };
+
+    before(() => {
+        controllersPath = fs.mkdtempSync(path.join(os.tmpdir(), 'controllers-test-'));
+
+        Object.entries(FILES).forEach(([file, contents]) => {
+            fs.mkdirSync(path.dirname(path.join(controllersPath, file)), { recursive: true });
+            fs.writeFileSync(path.join(controllersPath, file), contents);
+        });
+    });
+
+    after(() => {
+        fs.rmSync(controllersPath, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        mock.method(console, 'log', () => {});
+    });
+
+    afterEach(async () => {
+        await app?.close();
+        app = undefined;
+
+        mock.restoreAll();
+    });
+
+    it('loads controllers from TypeScript, CommonJS and ES module files', async () => {
+        const testApp = await discover({ exclude: ['**/*.d.ts', '**/*.test.*'] });
+
+        assert.deepEqual(await loaded(testApp), ['/home', '/legacy', '/admin/modern']);
+        assert.deepEqual((await testApp.get('/admin/modern')).json(), { controller: 'Modern' });
+    });
+
+    it('only loads the files that match the include patterns', async () => {
+        const testApp = await discover({ include: ['admin/**'] });
+
+        assert.deepEqual(await loaded(testApp), ['/admin/modern']);
+    });
+
+    it('doesn\'t load the files that match the exclude patterns', async () => {
+        const testApp = await discover({ exclude: ['**/*.test.*', '**/*.d.ts', '*.cjs'] });
+
+        assert.deepEqual(await loaded(testApp), ['/home', '/admin/modern']);
+    });
+
+    it('only loads the files with the given extensions', async () => {
+        const testApp = await discover({ extensions: ['.cjs', '.mjs'] });
+
+        assert.deepEqual(await loaded(testApp), ['/legacy', '/admin/modern']);
+    });
+
+    it('loads every file with a loadable extension by default (including tests)', async () => {
+        await assert.rejects(discover(), /The test file was loaded/);
+    });
+});
@@ -0,0 +1,225 @@
+import 'reflect-metadata';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express, { Request, Response } from 'express';
+
+import { BaseController } from '../src/controllers/BaseController';
+import { Controller } from '../src/decorators/Controller';
+import { GET } from '../src/decorators/GET';
+import { POST } from '../src/decorators/POST';
+import { Page } from '../src/decorators/Page';
+import { SkipCsrf } from '../src/decorators/SkipCsrf';
+import { FakeTokenIssuer } from '../src/auth/FakeTokenIssuer';
+import { getCsrfToken } from '../src/middlewares/CsrfMiddleware';
+import { TestApp, createTestApp } from '../src/testing/TestApp';
+
+@Controller('/notes')
+class NoteController extends BaseController {
+    @GET('/token')
+    token(req: Request) {
+        return { token: getCsrfToken(req) };
+    }
+
+    @POST('/', express.urlencoded({ extended: true }))
+    save(req: Request, res: Response) {
+        res.json({ saved: req.body.text });
+    }
+
+    @SkipCsrf()
+    @POST('/webhook', express.json())
+    webhook(req: Request, res: Response) {
+        res.json({ received: req.body.text });
+    }
+}
+
+@SkipCsrf()
+@Controller('/hooks')
+class HookController extends BaseController {
+    @POST('/', express.json())
+    receive(req: Request, res: Response) {
+        res.json({ received: req.body.text });
+    }
+}
+
+@Controller('/pages')
+class PageController extends BaseController {
+    @GET('/plain')
+    @Page('Plain', 'plain.ejs')
+    plain() {
+        return {};
+    }
+
+    @GET('/form')
+    @Page('Form', 'form.ejs')
+    form() {
+        return {};
+    }
+
+    @GET('/meta')
+    @Page('Meta', 'plain.ejs')
+    meta() {
+        return { csrfMetaTag: true };
+    }
+}
+
+const modes: { [mode: string]: Parameters<typeof createTestApp>[0] } = {
+    'synchronizer': { sessions: { secret: 'session-secret' }, csrf: true },
+    'double-submit': { csrf: { mode: 'double-submit', secret: 'csrf-secret' } }
+};
+
+for(const [mode, options] of Object.entries(modes)) {
+    describe(`CSRF protection (${mode} mode)`, () => {
+        let app: TestApp;
+        let token: string;
+
+        before(async () => {
+            app = await createTestApp({ ...options, controllers: [NoteController, HookController] });
+        });
+
+        after(async () => {
+            await app.close();
+        });
+
+        // Every test starts with a new session/cookie and the token for it
+        beforeEach(async () => {
+            app.clearCookies();
+
+            token = (await app.get('/notes/token')).json().token;
+        });
+
+        it('accepts the token in the form field', async () => {
+            const res = await app.post('/notes', { form: { text: 'Hello', _csrf: token }, csrf: false });
+
+            assert.equal(res.status, 200);
+            assert.deepEqual(res.json(), { saved: 'Hello' });
+        });
+
+        it('accepts the token in the header', async () => {
+            const res = await app.post('/notes', { form: { text: 'Hello' }, headers: { 'x-csrf-token': token }, csrf: false });
+
+            assert.equal(res.status, 200);
+        });
+
+        it('rejects a request without a token', async () => {
+            const res = await app.post('/notes', { form: { text: 'Forged' }, csrf: false });
+
+            assert.equal(res.status, 403);
+        });
+
+        it('rejects a request with the wrong token', async () => {
+            const res = await app.post('/notes', { form: { text: 'Forged', _csrf: `${token}x` }, csrf: false });
+
+            assert.equal(res.status, 403);
+        });
+
+        it(`rejects a token without the ${mode === 'synchronizer' ? 'session' : 'cookie'} it was issued for`, async () => {
+            app.clearCookies();
+
+            const res = await app.post('/notes', { form: { text: 'Forged', _csrf: token }, csrf: false });
+
+            assert.equal(res.status, 403);
+        });
+
+        it('skips routes decorated with @SkipCsrf', async () => {
+            const res = await app.post('/notes/webhook', { body: { text: 'Event' }, csrf: false });
+
+            assert.equal(res.status, 200);
+            assert.deepEqual(res.json(), { received: 'Event' });
+        });
+
+        it('skips the routes of controllers decorated with @SkipCsrf', async () => {
+            const res = await app.post('/hooks', { body: { text: 'Event' }, csrf: false });
+
+            assert.equal(res.status, 200);
+        });
+    });
+}
+
+for(const [mode, options] of Object.entries(modes)) {
+    describe(`CSRF tokens in pages (${mode} mode)`, () => {
+        let viewsDir: string;
+        let app: TestApp;
+
+        before(async () => {
+            viewsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ba-web-framework-csrf-'));
+            fs.mkdirSync(path.join(viewsDir, 'includes'));
+            fs.writeFileSync(path.join(viewsDir, 'includes', 'header.ejs'), '');
+            fs.writeFileSync(path.join(viewsDir, 'includes', 'footer.ejs'), '');
+            fs.writeFileSync(path.join(viewsDir, 'plain.ejs'), '<p>No forms here</p>');
+            fs.writeFileSync(path.join(viewsDir, 'form.ejs'), '<form method="post" action="/notes"><input type="hidden" name="_csrf" value="<%= csrfToken() %>"></form>');
+
+            app = await createTestApp({ ...options, controllers: [PageController, NoteController], view: { filesPath: viewsDir }, renderPages: true });
+        });
+
+        after(async () => {
+            await app.close();
+            fs.rmSync(viewsDir, { recursive: true, force: true });
+        });
+
+        beforeEach(() => {
+            app.clearCookies();
+        });
+
+        it('doesn\'t create a token (or the session/cookie for it) for a page without a form', async () => {
+            const res = await app.get('/pages/plain');
+
+            assert.equal(res.status, 200);
+            assert.match(res.text, /No forms here/);
+            assert.doesNotMatch(res.text, /csrf-token/);
+            assert.deepEqual(res.cookies, {});
+        });
+
+        it('creates the token when a page uses it', async () => {
+            const res = await app.get('/pages/form');
+            const token = res.text.match(/name="_csrf" value="([^"]+)"/)?.[1];
+
+            assert.equal(res.status, 200);
+            assert.notEqual(token, undefined);
+            assert.notDeepEqual(res.cookies, {});
+
+            const submitted = await app.post('/notes', { form: { text: 'Hello', _csrf: token as string }, csrf: false });
+
+            assert.equal(submitted.status, 200);
+        });
+
+        it('includes the meta tag if the page asks for it', async () => {
+            const res = await app.get('/pages/meta');
+            const token = res.text.match(/<meta name="csrf-token" content="([^"]+)">/)?.[1];
+
+            assert.notEqual(token, undefined);
+
+            const submitted = await app.post('/notes', { form: { text: 'Hello' }, headers: { 'x-csrf-token': token as string }, csrf: false });
+
+            assert.equal(submitted.status, 200);
+        });
+    });
+}
+
+describe('CSRF protection with bearer tokens', () => {
+    const issuer = new FakeTokenIssuer();
+    let app: TestApp;
+
+    before(async () => {
+        app = await createTestApp({ controllers: [NoteController], csrf: true, auth: { bearerTokens: issuer.getBearerTokenOptions() } });
+    });
+
+    after(async () => {
+        await app.close();
+    });
+
+    it('skips requests authenticated with a bearer token', async () => {
+        const res = await app.post('/notes', { form: { text: 'From the API' }, headers: { authorization: `Bearer ${issuer.issue({ sub: 'client-1' })}` }, csrf: false });
+
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.json(), { saved: 'From the API' });
+    });
+
+    it('still checks requests without a bearer token', async () => {
+        const res = await app.post('/notes', { form: { text: 'Forged' }, csrf: false });
+
+        assert.equal(res.status, 403);
+    });
+});
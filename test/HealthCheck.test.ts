@@ -0,0 +1,150 @@
+import 'reflect-metadata';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { HealthCheckMiddleware, HealthCheckStatus } from '../src/middlewares/HealthCheckMiddleware';
+import { TestApp, createTestApp } from '../src/testing/TestApp';
+
+const HEALTH_CHECK = '/.well-known/health-check';
+const READINESS = `${HEALTH_CHECK}/ready`;
+const LIVENESS = `${HEALTH_CHECK}/live`;
+
+describe('Health checks', () => {
+    let app: TestApp;
+    let healthCheck: HealthCheckMiddleware;
+
+    beforeEach(async () => {
+        app = await createTestApp({ healthCheck: { timeout: 50, version: '1.2.0' } });
+        healthCheck = app.getInitializer().getHealthCheck()!;
+    });
+
+    afterEach(async () => {
+        await app.close();
+    });
+
+    it('passes without any checks', async () => {
+        const res = await app.get(HEALTH_CHECK);
+
+        assert.equal(res.status, 200);
+        assert.match(String(res.headers['content-type']), /^application\/health\+json/);
+        assert.equal(res.headers['cache-control'], 'no-store');
+        assert.deepEqual(res.json(), { status: 'ok', version: '1.2.0' });
+    });
+
+    it('reports the result of each check', async () => {
+        healthCheck
+            .registerCheck('postgres:responseTime', () => ({ observedValue: 12, observedUnit: 'ms' }), { componentType: 'datastore' })
+            .registerCheck('queue:connected', () => HealthCheckStatus.ERROR)
+            .registerCheck('cache:connected', () => {
+                throw new Error('Connection refused');
+            });
+
+        const res = await app.get(HEALTH_CHECK);
+        const body = res.json();
+
+        assert.equal(res.status, 503);
+        assert.equal(body.status, 'error');
+        assert.equal(body.output, 'Checks not passing: queue:connected, cache:connected');
+        assert.equal(body.checks['postgres:responseTime'][0].status, 'ok');
+        assert.equal(body.checks['postgres:responseTime'][0].observedValue, 12);
+        assert.equal(body.checks['postgres:responseTime'][0].componentType, 'datastore');
+        assert.equal(body.checks['queue:connected'][0].status, 'error');
+        assert.equal(body.checks['cache:connected'][0].output, 'Connection refused');
+    });
+
+    it('fails checks that don\'t finish within their timeout', async () => {
+        healthCheck
+            .registerCheck('slow:default', () => new Promise(resolve => setTimeout(resolve, 200)))
+            .registerCheck('slow:own', () => new Promise(resolve => setTimeout(resolve, 200)), { timeout: 20 })
+            .registerCheck('slow:enough', () => new Promise(resolve => setTimeout(resolve, 10)), { timeout: 100 });
+
+        const res = await app.get(HEALTH_CHECK);
+        const body = res.json();
+
+        assert.equal(res.status, 503);
+        assert.equal(body.checks['slow:default'][0].output, 'Timed out after 50ms');
+        assert.equal(body.checks['slow:own'][0].output, 'Timed out after 20ms');
+        assert.equal(body.checks['slow:enough'][0].status, 'ok');
+    });
+
+    it('only warns when a non-critical check fails', async () => {
+        healthCheck.registerCheck('disk:utilization', () => false, { critical: false });
+
+        const res = await app.get(HEALTH_CHECK);
+
+        assert.equal(res.status, 200);
+        assert.equal(res.json().status, 'warn');
+        assert.equal(res.json().checks['disk:utilization'][0].status, 'warn');
+    });
+
+    it('only runs liveness checks on the liveness endpoint', async () => {
+        let ran = 0;
+        healthCheck.registerCheck('postgres:connected', () => {
+            ran++;
+
+            return false;
+        });
+
+        const ready = await app.get(READINESS);
+        assert.equal(ready.status, 503);
+
+        const live = await app.get(LIVENESS);
+        assert.equal(live.status, 200);
+        assert.equal(live.json().checks, undefined);
+        assert.equal(ran, 1);
+
+        healthCheck.registerCheck('eventLoop:blocked', () => false, { liveness: true });
+
+        const dead = await app.get(LIVENESS);
+        assert.equal(dead.status, 503);
+        assert.deepEqual(Object.keys(dead.json().checks), ['eventLoop:blocked']);
+    });
+
+    it('fails readiness but not liveness while draining', async () => {
+        healthCheck.setDraining(true, 'Shutting down');
+        assert.equal(healthCheck.isDraining(), true);
+
+        const ready = await app.get(READINESS);
+        assert.equal(ready.status, 503);
+        assert.equal(ready.json().output, 'Shutting down');
+
+        assert.equal((await app.get(HEALTH_CHECK)).status, 503);
+        assert.equal((await app.get(LIVENESS)).status, 200);
+
+        healthCheck.setDraining(false);
+        assert.equal((await app.get(READINESS)).status, 200);
+    });
+
+    it('combines the app\'s status with the checks on every endpoint', async () => {
+        healthCheck.setStatus(HealthCheckStatus.ERROR, 'Maintenance');
+
+        for(const path of [HEALTH_CHECK, READINESS, LIVENESS]) {
+            const res = await app.get(path);
+
+            assert.equal(res.status, 503);
+            assert.equal(res.json().output, 'Maintenance');
+        }
+    });
+
+    it('keeps the status of each middleware separate', async () => {
+        const other = new HealthCheckMiddleware();
+        other.setStatus(HealthCheckStatus.ERROR);
+
+        assert.equal((await app.get(HEALTH_CHECK)).status, 200);
+        assert.equal((await other.check()).status, 'error');
+    });
+
+    it('combines the deprecated shared status with every middleware\'s status', async () => {
+        try {
+            HealthCheckMiddleware.setStatus(HealthCheckStatus.ERROR);
+
+            assert.equal((await app.get(HEALTH_CHECK)).status, 503);
+            assert.equal((await new HealthCheckMiddleware().check()).status, 'error');
+        }
+        finally {
+            HealthCheckMiddleware.setStatus(HealthCheckStatus.OK);
+        }
+
+        assert.equal((await app.get(HEALTH_CHECK)).status, 200);
+    });
+});
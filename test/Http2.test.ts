@@ -0,0 +1,198 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import http, { IncomingMessage } from 'http';
+import http2, { Http2SecureServer } from 'http2';
+import https from 'https';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import express, { Express, NextFunction, Request, Response } from 'express';
+
+import { Certificate, generateSelfSignedCertificate } from '../src/server/certificates';
+import { ServerConnections, createHttp2Server } from '../src/server/http2';
+
+/** The result of a request */
+type RawResponse = { status: number, headers: { [name: string]: string | string[] | number | undefined }, body: string };
+
+describe('HTTP/2', () => {
+    let directory: string;
+    let certificate: Certificate;
+    let app: Express;
+    let server: Http2SecureServer;
+    let connections: ServerConnections;
+    let port: number;
+
+    /** Lets the request to `/slow` finish */
+    let finishRequest: () => void;
+
+    /** Make an HTTP/2 request (on a session, so it can be shared between requests) */
+    const request = (session: http2.ClientHttp2Session, requestPath: string) => new Promise<RawResponse>((resolve, reject) => {
+        const stream = session.request({ ':path': requestPath });
+
+        let body = '';
+        let headers: http2.IncomingHttpHeaders = {};
+        stream.setEncoding('utf8');
+        stream.on('response', responseHeaders => headers = responseHeaders);
+        stream.on('data', (chunk: string) => body += chunk);
+        stream.on('end', () => resolve({ status: Number(headers[':status']), headers, body }));
+        stream.on('error', reject);
+    });
+
+    /** Connect to the server over HTTP/2 */
+    const connect = () => http2.connect(`https://localhost:${port}`, { ca: certificate.cert });
+
+    /** Make an HTTP/1.1 request */
+    const requestHttp1 = (requestPath: string) => new Promise<RawResponse>((resolve, reject) => {
+        https.get({ host: 'localhost', port, path: requestPath, ca: certificate.cert, agent: false }, (res: IncomingMessage) => {
+            let body = '';
+            res.setEncoding('utf8');
+            res.on('data', (chunk: string) => body += chunk);
+            res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+        }).on('error', reject);
+    });
+
+    before(async () => {
+        directory = mkdtempSync(path.join(tmpdir(), 'http2-test-'));
+
+        mock.method(console, 'log', () => {});
+        certificate = await generateSelfSignedCertificate({ directory });
+        mock.restoreAll();
+    });
+
+    after(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+        app = express();
+
+        app.get('/info', (req: Request, res: Response) => {
+            res.status(201).setHeader('X-Chained', 'yes').json({
+                httpVersion: req.httpVersion,
+                hostname: req.hostname,
+                secure: req.secure,
+                query: req.query,
+                userAgent: req.get('user-agent') ?? null
+            });
+        });
+        app.get('/failing', (req: Request, res: Response, next: NextFunction) => {
+            next(new Error('Failed'));
+        });
+        app.get('/slow', (req: Request, res: Response) => {
+            finishRequest = () => res.send('finished');
+        });
+        app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+            res.status(500).send(err.message);
+        });
+
+        ({ server, connections } = createHttp2Server(app, { cert: certificate.cert, key: certificate.key }));
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        port = (server.address() as AddressInfo).port;
+    });
+
+    afterEach(async () => {
+        connections.closeAllConnections();
+
+        if(server.listening) {
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+
+    it('serves HTTP/2 requests with Express\' request and response', async () => {
+        const session = connect();
+
+        try {
+            const res = await request(session, '/info?page=2');
+
+            assert.equal(res.status, 201);
+            assert.equal(res.headers['x-chained'], 'yes');
+            assert.deepEqual(JSON.parse(res.body), { httpVersion: '2.0', hostname: 'localhost', secure: true, query: { page: '2' }, userAgent: null });
+        }
+        finally {
+            session.close();
+        }
+    });
+
+    it('passes errors to the app\'s error handlers', async () => {
+        const session = connect();
+
+        try {
+            const res = await request(session, '/failing');
+
+            assert.equal(res.status, 500);
+            assert.equal(res.body, 'Failed');
+        }
+        finally {
+            session.close();
+        }
+    });
+
+    it('serves HTTP/1.1 requests', async () => {
+        const res = await requestHttp1('/info?page=3');
+
+        assert.equal(res.status, 201);
+        assert.equal(res.headers['x-chained'], 'yes');
+        assert.equal(JSON.parse(res.body).httpVersion, '1.1');
+        assert.deepEqual(JSON.parse(res.body).query, { page: '3' });
+    });
+
+    it('only swaps the app\'s request and response prototypes for the duration of an HTTP/2 request', async () => {
+        const appRequest = app.request;
+        const appResponse = app.response;
+
+        const session = connect();
+        try {
+            await request(session, '/info');
+        }
+        finally {
+            session.close();
+        }
+
+        assert.equal(app.request, appRequest);
+        assert.equal(app.response, appResponse);
+        assert.equal(Object.getPrototypeOf(express.request), http.IncomingMessage.prototype);
+        assert.equal(Object.getPrototypeOf(express.response), http.ServerResponse.prototype);
+
+        // HTTP/1.1 requests still get Express' (HTTP/1.1 based) prototypes afterwards
+        assert.equal(JSON.parse((await requestHttp1('/info')).body).httpVersion, '1.1');
+    });
+
+    it('lets in-flight requests finish when closing idle connections', async () => {
+        const session = connect();
+        const slow = request(session, '/slow');
+        await new Promise<void>(resolve => server.once('stream', () => setImmediate(resolve)));
+
+        let closed = false;
+        const closing = new Promise<void>(resolve => server.close(() => {
+            closed = true;
+            resolve();
+        }));
+        connections.closeIdleConnections();
+
+        await new Promise(resolve => setTimeout(resolve, 20));
+        assert.equal(closed, false);
+
+        finishRequest();
+        assert.equal((await slow).body, 'finished');
+
+        await closing;
+    });
+
+    it('closes connections that are handling a request when closing all connections', async () => {
+        const session = connect();
+        session.on('error', () => {});
+        const slow = request(session, '/slow');
+        await new Promise<void>(resolve => server.once('stream', () => setImmediate(resolve)));
+
+        const sessionClosed = new Promise(resolve => session.once('close', resolve));
+        connections.closeAllConnections();
+
+        // The stream ends without a response
+        const res = await slow.catch(() => undefined);
+        assert.equal(res?.status ?? NaN, NaN);
+        assert.notEqual(res?.body, 'finished');
+
+        await sessionClosed;
+    });
+});
@@ -0,0 +1,101 @@
+import 'reflect-metadata';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+
+import { BaseController } from '../src/controllers/BaseController';
+import { Controller } from '../src/decorators/Controller';
+import { GET } from '../src/decorators/GET';
+import { Injectable } from '../src/decorators/Injectable';
+import { Container } from '../src/di/Container';
+import { Scope } from '../src/di/Provider';
+
+let created = 0;
+
+/** A request scoped dependency (can't be resolved outside of a request) */
+@Injectable({ scope: Scope.REQUEST })
+class Ctx {
+    readonly id: number;
+
+    constructor() {
+        this.id = ++created;
+    }
+}
+
+@Controller('/below')
+@Injectable({ scope: Scope.REQUEST })
+class BelowController extends BaseController {
+    private visits: number;
+
+    constructor(private ctx: Ctx) {
+        super();
+
+        this.visits = 0;
+    }
+
+    @GET('/')
+    index() {
+        return { ctx: this.ctx.id, visits: ++this.visits };
+    }
+}
+
+@Injectable({ scope: Scope.REQUEST })
+@Controller('/above')
+class AboveController extends BaseController {
+    private visits: number;
+
+    constructor(private ctx: Ctx) {
+        super();
+
+        this.visits = 0;
+    }
+
+    @GET('/')
+    index() {
+        return { ctx: this.ctx.id, visits: ++this.visits };
+    }
+}
+
+describe('@Injectable on controllers', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    const get = async (path: string) => {
+        const res = await fetch(`${baseUrl}${path}`);
+
+        return { status: res.status, body: await res.json() };
+    };
+
+    before(async () => {
+        const app = express();
+
+        const container = new Container();
+        BelowController.setup(app, undefined, container);
+        AboveController.setup(app, undefined, container);
+
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+        baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    for(const path of ['/below', '/above']) {
+        it(`creates a request scoped controller per request (${path})`, async () => {
+            const first = await get(path);
+            const second = await get(path);
+
+            assert.equal(first.status, 200);
+            assert.equal(second.status, 200);
+            assert.equal(first.body.visits, 1);
+            assert.equal(second.body.visits, 1);
+            assert.notEqual(first.body.ctx, second.body.ctx);
+        });
+    }
+});
@@ -0,0 +1,127 @@
+import 'reflect-metadata';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+
+import { BaseController } from '../src/controllers/BaseController';
+import { Controller } from '../src/decorators/Controller';
+import { GET } from '../src/decorators/GET';
+import { Page } from '../src/decorators/Page';
+import { Param } from '../src/decorators/Param';
+import { Use } from '../src/decorators/Use';
+import { Inject } from '../src/decorators/Inject';
+import { TestApp, createTestApp } from '../src/testing/TestApp';
+
+import { track } from './helpers';
+
+@Controller('/profiles')
+class ProfileController extends BaseController {
+    private greeting: string;
+
+    private visits: number;
+
+    constructor(@Inject('GREETING') greeting: string) {
+        super();
+
+        this.greeting = greeting;
+        this.visits = 0;
+    }
+
+    private async loadName(id: string) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+
+        return `User ${id}`;
+    }
+
+    @Page('Profile', 'profile.ejs', ['profile'])
+    @GET('/:id', track('route'))
+    @Use(track('use'))
+    async profile(@Param('id') id: string) {
+        this.visits++;
+
+        return { greeting: this.greeting, name: await this.loadName(id), visits: this.visits };
+    }
+
+    // The decorators in the opposite order than above
+    @Use(track('use'))
+    @GET('/:id/summary', track('route'))
+    @Page('Summary', 'summary.ejs')
+    summary(req: Request, res: Response) {
+        return { greeting: this.greeting, id: req.params.id, headersSent: res.headersSent };
+    }
+
+    @GET('/:id/failing')
+    @Page('Failing', 'failing.ejs')
+    async failing() {
+        await new Promise(resolve => setTimeout(resolve, 5));
+
+        throw new Error(`${this.greeting}, this page failed`);
+    }
+}
+
+describe('@Page', () => {
+    let app: TestApp;
+
+    /** Request a page, the response is what would have been rendered (recorded by the test app) */
+    const get = async (path: string) => {
+        const res = await app.get(path);
+
+        return { status: res.status, ran: res.headers['x-ran'], page: res.page, text: res.text };
+    };
+
+    before(async () => {
+        app = await createTestApp({
+            controllers: [ProfileController],
+            providers: [{ provide: 'GREETING', useValue: 'Hello' }]
+        });
+    });
+
+    after(async () => {
+        await app.close();
+    });
+
+    it('runs the method bound to the controller instance (with its fields)', async () => {
+        const res = await get('/profiles/1');
+
+        assert.equal(res.status, 200);
+        assert.equal(res.page?.params.greeting, 'Hello');
+    });
+
+    it('keeps instance state between requests', async () => {
+        const first = await get('/profiles/2');
+        const second = await get('/profiles/3');
+
+        assert.equal(second.page?.params.visits, first.page?.params.visits + 1);
+    });
+
+    it('renders the page with what an async method resolves to', async () => {
+        const res = await get('/profiles/42');
+
+        assert.equal(res.page?.layout, 'base');
+        assert.equal(res.page?.page, 'profile.ejs');
+        assert.equal(res.page?.title, 'Profile');
+        assert.deepEqual(res.page?.extraScripts, ['profile']);
+        assert.equal(res.page?.params.name, 'User 42');
+    });
+
+    it('runs the route and `@Use` middleware before the page (with the decorators in either order)', async () => {
+        const profile = await get('/profiles/1');
+        assert.equal(profile.ran, 'use,route');
+        assert.equal(profile.page?.page, 'profile.ejs');
+
+        const summary = await get('/profiles/1/summary');
+        assert.equal(summary.ran, 'use,route');
+        assert.equal(summary.page?.page, 'summary.ejs');
+        assert.equal(summary.page?.params.greeting, 'Hello');
+        assert.equal(summary.page?.params.id, '1');
+        assert.equal(summary.page?.params.headersSent, false);
+    });
+
+    it('forwards errors thrown by an async method instead of rendering the page', async () => {
+        const res = await get('/profiles/1/failing');
+
+        assert.equal(res.status, 500);
+        assert.equal(res.page?.page, undefined);
+        assert.match(res.text, /Hello, this page failed/);
+    });
+});
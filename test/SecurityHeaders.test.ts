@@ -0,0 +1,114 @@
+import 'reflect-metadata';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { BaseController } from '../src/controllers/BaseController';
+import { Controller } from '../src/decorators/Controller';
+import { GET } from '../src/decorators/GET';
+import { securityHeaders } from '../src/middlewares/SecurityHeadersMiddleware';
+import { TestApp, createTestApp } from '../src/testing/TestApp';
+
+@Controller('/')
+class HomeController extends BaseController {
+    @GET('/')
+    home() {
+        return { ok: true };
+    }
+}
+
+/** A violation report (as sent by browsers that don't use the Reporting API) */
+const REPORT = { 'csp-report': { 'document-uri': 'https://example.com/', 'violated-directive': 'script-src' } };
+
+describe('securityHeaders', () => {
+    let viewsDir: string;
+    let app: TestApp;
+    const reports: unknown[] = [];
+
+    /** Get the directives of the policy of a response */
+    const directives = (header: unknown) => Object.fromEntries(String(header).split('; ').map(directive => directive.split(' ')).map(([name, ...sources]) => [name, sources]));
+
+    before(async () => {
+        viewsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ba-web-framework-security-'));
+
+        app = await createTestApp({
+            controllers: [HomeController],
+            view: { filesPath: viewsDir, templateInputs: { includeStripe: true }, layouts: { kit: { fontAwesomeKit: 'abc123' } } },
+            middlewares: [securityHeaders({ directives: { 'img-src': ['https://images.example.com'] }, onReport: report => reports.push(report) })]
+        });
+    });
+
+    after(async () => {
+        await app.close();
+        fs.rmSync(viewsDir, { recursive: true, force: true });
+    });
+
+    it('allows the sources of the generated layouts (from the view\'s template inputs)', async () => {
+        const res = await app.get('/');
+        const policy = directives(res.headers['content-security-policy']);
+
+        assert.ok(policy['script-src'].includes('https://js.stripe.com'));
+        assert.ok(policy['script-src'].includes('https://kit.fontawesome.com'));
+        assert.ok(policy['img-src'].includes('https://images.example.com'));
+        assert.ok(policy['script-src'].some((source: string) => source.startsWith('\'nonce-')));
+    });
+
+    it('uses a new nonce for every response', async () => {
+        const first = directives((await app.get('/')).headers['content-security-policy'])['script-src'];
+        const second = directives((await app.get('/')).headers['content-security-policy'])['script-src'];
+
+        assert.notDeepEqual(first, second);
+    });
+
+    it('passes violation reports to `onReport`', async () => {
+        const res = await app.post('/csp-report', { body: JSON.stringify(REPORT), headers: { 'content-type': 'application/csp-report' } });
+
+        assert.equal(res.status, 204);
+        assert.deepEqual(reports.at(-1), REPORT);
+    });
+
+    it('rejects reports that are too large to be real', async () => {
+        const count = reports.length;
+        const res = await app.post('/csp-report', { body: JSON.stringify({ 'csp-report': { 'script-sample': 'x'.repeat(32 * 1024) } }), headers: { 'content-type': 'application/csp-report' } });
+
+        assert.equal(res.status, 413);
+        assert.equal(reports.length, count);
+    });
+});
+
+describe('securityHeaders default report logging', () => {
+    let app: TestApp;
+
+    before(async () => {
+        app = await createTestApp({ controllers: [HomeController], middlewares: [securityHeaders()] });
+    });
+
+    after(async () => {
+        await app.close();
+    });
+
+    it('logs at most 10 reports a minute', async () => {
+        const warn = mock.method(console, 'warn', () => {});
+
+        try {
+            for(let i = 0; i < 15; i++) {
+                await app.post('/csp-report', { body: JSON.stringify(REPORT), headers: { 'content-type': 'application/csp-report' } });
+            }
+
+            assert.equal(warn.mock.callCount(), 10);
+
+            // Once the minute is up, the reports that weren't logged are counted
+            const now = Date.now();
+            mock.method(Date, 'now', () => now + 61 * 1000);
+            await app.post('/csp-report', { body: JSON.stringify(REPORT), headers: { 'content-type': 'application/csp-report' } });
+
+            assert.equal(warn.mock.callCount(), 12);
+            assert.match(String(warn.mock.calls[10].arguments[0]), /^5 Content Security Policy violation reports weren't logged/);
+        }
+        finally {
+            mock.restoreAll();
+        }
+    });
+});
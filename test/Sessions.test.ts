@@ -0,0 +1,163 @@
+import 'reflect-metadata';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { BaseController } from '../src/controllers/BaseController';
+import { Controller } from '../src/decorators/Controller';
+import { GET } from '../src/decorators/GET';
+import { POST } from '../src/decorators/POST';
+import { Session } from '../src/decorators/Session';
+import { RequestSession } from '../src/sessions/RequestSession';
+import { MemorySessionStore } from '../src/sessions/MemorySessionStore';
+import { SessionOptions } from '../src/sessions/SessionMiddleware';
+import { signValue } from '../src/utils/cookies';
+import { TestApp, createTestApp } from '../src/testing/TestApp';
+
+@Controller('/session')
+class SessionController extends BaseController {
+    @GET('/visit')
+    visit(@Session() session: RequestSession) {
+        session.set('visits', (session.get('visits') ?? 0) + 1);
+
+        return { id: session.id, visits: session.get('visits'), user: session.user };
+    }
+
+    @POST('/login')
+    login(@Session() session: RequestSession) {
+        session.login({ name: 'Ada' });
+
+        return { id: session.id };
+    }
+}
+
+describe('Sessions', () => {
+    let app: TestApp | undefined;
+    let store: MemorySessionStore;
+
+    /** How far (in milliseconds) the clock has been moved ahead */
+    let elapsed: number;
+
+    const start = async (options: SessionOptions = {}) => {
+        app = await createTestApp({ controllers: [SessionController], csrf: false, sessions: { secret: 'secret', store: store, ...options } });
+
+        return app;
+    };
+
+    const visit = async (testApp: TestApp) => (await testApp.get('/session/visit')).json();
+
+    beforeEach(() => {
+        store = new MemorySessionStore();
+
+        elapsed = 0;
+        const now = Date.now.bind(Date);
+        mock.method(Date, 'now', () => now() + elapsed);
+    });
+
+    afterEach(async () => {
+        mock.restoreAll();
+
+        await app?.close();
+        app = undefined;
+    });
+
+    it('keeps the session between requests with the signed cookie', async () => {
+        const testApp = await start();
+
+        const first = await visit(testApp);
+        const second = await visit(testApp);
+
+        assert.equal(testApp.getCookie('sid'), signValue(first.id, 'secret'));
+        assert.equal(second.id, first.id);
+        assert.equal(second.visits, 2);
+    });
+
+    it('starts a new session if the cookie was tampered with', async () => {
+        const testApp = await start();
+
+        const first = await visit(testApp);
+        const signature = (testApp.getCookie('sid') ?? '').split('.').pop();
+
+        for(const cookie of [first.id, `${first.id}.${signature}x`, signValue(first.id, 'other-secret')]) {
+            const res = (await testApp.get('/session/visit', { cookies: { sid: cookie } })).json();
+
+            assert.notEqual(res.id, first.id);
+            assert.equal(res.visits, 1);
+        }
+    });
+
+    it('accepts cookies signed with a previous secret (and re-signs them with the current one)', async () => {
+        const oldApp = await start({ secret: 'old-secret' });
+        const first = await visit(oldApp);
+        const oldCookie = oldApp.getCookie('sid') as string;
+        await oldApp.close();
+
+        const rotatedApp = await start({ secret: ['new-secret', 'old-secret'] });
+        const second = (await rotatedApp.get('/session/visit', { cookies: { sid: oldCookie } })).json();
+
+        assert.equal(second.id, first.id);
+        assert.equal(second.visits, 2);
+        assert.equal(rotatedApp.getCookie('sid'), signValue(first.id, 'new-secret'));
+        await rotatedApp.close();
+
+        // Once the previous secret is dropped, cookies signed with it aren't accepted
+        const newApp = await start({ secret: 'new-secret' });
+        const third = (await newApp.get('/session/visit', { cookies: { sid: oldCookie } })).json();
+
+        assert.notEqual(third.id, first.id);
+        assert.equal(third.visits, 1);
+    });
+
+    it('expires sessions that go unused for the idle timeout', async () => {
+        const testApp = await start({ idleTimeout: 1000, absoluteTimeout: 10000 });
+
+        const first = await visit(testApp);
+
+        elapsed += 900;
+        const second = await visit(testApp);
+        assert.equal(second.id, first.id);
+
+        elapsed += 1100;
+        const third = await visit(testApp);
+        assert.notEqual(third.id, first.id);
+        assert.equal(third.visits, 1);
+        assert.equal(await store.get(first.id), undefined);
+    });
+
+    it('expires sessions after the absolute timeout even if they are used', async () => {
+        const testApp = await start({ idleTimeout: 1000, absoluteTimeout: 3000 });
+
+        const first = await visit(testApp);
+
+        for(let i = 0; i < 3; i++) {
+            elapsed += 900;
+            assert.equal((await visit(testApp)).id, first.id);
+        }
+
+        elapsed += 900;
+        const last = await visit(testApp);
+        assert.notEqual(last.id, first.id);
+        assert.equal(last.visits, 1);
+    });
+
+    it('gives the session a new ID on login and destroys the old one', async () => {
+        const testApp = await start();
+
+        const before = await visit(testApp);
+        const fixedCookie = testApp.getCookie('sid') as string;
+
+        const login = (await testApp.post('/session/login')).json();
+        assert.notEqual(login.id, before.id);
+        assert.equal(await store.get(before.id), undefined);
+
+        // The session (and the user) carry over with the new cookie
+        const after = await visit(testApp);
+        assert.equal(after.id, login.id);
+        assert.equal(after.visits, 2);
+        assert.deepEqual(after.user, { name: 'Ada' });
+
+        // But the cookie from before logging in doesn't get the user's session
+        const fixated = (await testApp.get('/session/visit', { cookies: { sid: fixedCookie } })).json();
+        assert.notEqual(fixated.id, login.id);
+        assert.equal(fixated.user, undefined);
+    });
+});
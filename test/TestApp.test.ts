@@ -0,0 +1,157 @@
+import 'reflect-metadata';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express, { Request, Response } from 'express';
+
+import { BaseController } from '../src/controllers/BaseController';
+import { Controller } from '../src/decorators/Controller';
+import { GET } from '../src/decorators/GET';
+import { POST } from '../src/decorators/POST';
+import { Page } from '../src/decorators/Page';
+import { Inject } from '../src/decorators/Inject';
+import { User } from '../src/decorators/User';
+import { TestApp, createTestApp } from '../src/testing/TestApp';
+
+@Controller('/notes')
+class NoteController extends BaseController {
+    @POST('/', express.urlencoded({ extended: true }))
+    save(req: Request, res: Response) {
+        res.json({ saved: req.body.text });
+    }
+}
+
+@Controller('/profile')
+class ProfileController extends BaseController {
+    constructor(@Inject('GREETING') private greeting: string) {
+        super();
+    }
+
+    @GET('/')
+    @Page('Profile', 'profile.ejs', ['profile', 'https://cdn.example.com/chart.js'], ['profile'])
+    profile(@User() user?: { name: string }) {
+        return { greeting: this.greeting, name: user?.name };
+    }
+
+    @GET('/me')
+    me(@User() user?: { name: string }) {
+        return { user: user ?? null };
+    }
+}
+
+describe('TestApp', () => {
+    let app: TestApp | undefined;
+
+    afterEach(async () => {
+        await app?.close();
+        app = undefined;
+    });
+
+    it('records the page that was rendered instead of rendering it', async () => {
+        app = await createTestApp({ controllers: [ProfileController], providers: [{ provide: 'GREETING', useValue: 'Hello' }], user: { name: 'Sam' } });
+
+        const res = await app.get('/profile');
+
+        assert.equal(res.status, 200);
+        assert.equal(res.text, '');
+        assert.equal(res.page?.layout, 'base');
+        assert.equal(res.page?.page, 'profile.ejs');
+        assert.equal(res.page?.title, 'Profile');
+        assert.deepEqual(res.page?.extraScripts, ['profile', 'https://cdn.example.com/chart.js']);
+        assert.deepEqual(res.page?.extraStyles, ['profile']);
+        assert.equal(res.page?.params.greeting, 'Hello');
+        assert.equal(res.page?.params.name, 'Sam');
+    });
+
+    it('replaces providers with the overrides', async () => {
+        app = await createTestApp({ controllers: [ProfileController], providers: [{ provide: 'GREETING', useValue: 'Hello' }], overrides: [{ provide: 'GREETING', useValue: 'Howdy' }] });
+
+        const res = await app.get('/profile');
+
+        assert.equal(res.page?.params.greeting, 'Howdy');
+    });
+
+    it('makes requests as the app\'s user unless a request says otherwise', async () => {
+        app = await createTestApp({ controllers: [ProfileController], providers: [{ provide: 'GREETING', useValue: 'Hello' }], user: { name: 'Sam' } });
+
+        assert.deepEqual((await app.get('/profile/me')).json(), { user: { name: 'Sam' } });
+        assert.deepEqual((await app.get('/profile/me', { user: { name: 'Alex' } })).json(), { user: { name: 'Alex' } });
+        assert.deepEqual((await app.get('/profile/me', { user: null })).json(), { user: null });
+
+        app.setUser({ name: 'Jo' });
+
+        assert.deepEqual((await app.get('/profile/me')).json(), { user: { name: 'Jo' } });
+    });
+
+    it('renders pages with `renderPages`', async () => {
+        const viewsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ba-web-framework-test-app-'));
+        fs.mkdirSync(path.join(viewsDir, 'includes'));
+        fs.writeFileSync(path.join(viewsDir, 'includes', 'header.ejs'), '');
+        fs.writeFileSync(path.join(viewsDir, 'includes', 'footer.ejs'), '');
+        fs.writeFileSync(path.join(viewsDir, 'profile.ejs'), '<p><%= greeting %>, <%= name %></p>');
+
+        try {
+            app = await createTestApp({ controllers: [ProfileController], providers: [{ provide: 'GREETING', useValue: 'Hello' }], user: { name: 'Sam' }, view: { filesPath: viewsDir }, renderPages: true });
+
+            const res = await app.get('/profile');
+
+            assert.equal(res.status, 200);
+            assert.match(res.text, /<title>Profile<\/title>/);
+            assert.match(res.text, /<p>Hello, Sam<\/p>/);
+            assert.equal(res.page?.page, 'profile.ejs');
+        }
+        finally {
+            await app?.close();
+            app = undefined;
+            fs.rmSync(viewsDir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('TestApp CSRF tokens', () => {
+    let app: TestApp | undefined;
+
+    afterEach(async () => {
+        await app?.close();
+        app = undefined;
+    });
+
+    it('passes the first request in double-submit mode (before the app set the cookie)', async () => {
+        app = await createTestApp({ controllers: [NoteController], csrf: true });
+
+        const res = await app.post('/notes', { form: { text: 'First' } });
+
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.json(), { saved: 'First' });
+        assert.notEqual(app.getCookie('csrf'), undefined);
+    });
+
+    it('keeps passing with the cookie the app set', async () => {
+        app = await createTestApp({ controllers: [NoteController], csrf: true });
+
+        await app.post('/notes', { form: { text: 'First' } });
+        const res = await app.post('/notes', { form: { text: 'Second' } });
+
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.json(), { saved: 'Second' });
+    });
+
+    it('passes the first request in synchronizer mode (before the session was created)', async () => {
+        app = await createTestApp({ controllers: [NoteController], sessions: { secret: 'session-secret' }, csrf: true });
+
+        const res = await app.post('/notes', { form: { text: 'First' } });
+
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.json(), { saved: 'First' });
+    });
+
+    it('fails requests made without a token', async () => {
+        app = await createTestApp({ controllers: [NoteController], csrf: true });
+
+        const res = await app.post('/notes', { form: { text: 'Forged' }, csrf: false });
+
+        assert.equal(res.status, 403);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,89 @@
+import 'reflect-metadata';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+
+import { BaseController } from '../src/controllers/BaseController';
+import { ChildController } from '../src/decorators/ChildController';
+import { Controller } from '../src/decorators/Controller';
+import { GET } from '../src/decorators/GET';
+import { Use } from '../src/decorators/Use';
+import { TestApp, createTestApp } from '../src/testing/TestApp';
+
+import { track } from './helpers';
+
+@Controller('/below')
+@Use(track('class'))
+class BelowController extends BaseController {
+    @GET('/')
+    @Use(track('method'))
+    index(req: Request, res: Response) {
+        res.send('below');
+    }
+}
+
+@Use(track('class'))
+@Controller('/above')
+class AboveController extends BaseController {
+    @GET('/')
+    @Use(track('method'))
+    index(req: Request, res: Response) {
+        res.send('above');
+    }
+}
+
+@Controller('/child')
+class ChildRoutes extends BaseController {
+    @GET('/')
+    index(req: Request, res: Response) {
+        res.send('child');
+    }
+}
+
+@Use(track('first'))
+@Controller('/both')
+@Use(track('second'))
+@ChildController(ChildRoutes)
+class BothController extends BaseController {
+    @GET('/')
+    index(req: Request, res: Response) {
+        res.send('both');
+    }
+}
+
+describe('class level @Use', () => {
+    let app: TestApp;
+
+    /** Request a route, the response is the middleware that ran */
+    const ran = async (path: string) => {
+        const res = await app.get(path);
+
+        assert.equal(res.status, 200);
+
+        return res.headers['x-ran'];
+    };
+
+    before(async () => {
+        app = await createTestApp({ controllers: [BelowController, AboveController, BothController] });
+    });
+
+    after(async () => {
+        await app.close();
+    });
+
+    it('applies middleware placed below @Controller', async () => {
+        assert.equal(await ran('/below'), 'class,method');
+    });
+
+    it('applies middleware placed above @Controller', async () => {
+        assert.equal(await ran('/above'), 'class,method');
+    });
+
+    it('runs middleware placed above and below @Controller in the order they are written', async () => {
+        assert.equal(await ran('/both'), 'first,second');
+    });
+
+    it('applies both to the routes of child controllers', async () => {
+        assert.equal(await ran('/both/child'), 'first,second');
+    });
+});
\ No newline at end of file
@@ -0,0 +1,156 @@
+import 'reflect-metadata';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express, { Request, Response } from 'express';
+
+import { BaseController } from '../src/controllers/BaseController';
+import { Controller } from '../src/decorators/Controller';
+import { GET } from '../src/decorators/GET';
+import { POST } from '../src/decorators/POST';
+import { Page } from '../src/decorators/Page';
+import { Body } from '../src/decorators/Body';
+import { Query } from '../src/decorators/Query';
+import { Params } from '../src/decorators/Params';
+import { TestApp, createTestApp } from '../src/testing/TestApp';
+
+@Controller('/search')
+class SearchController extends BaseController {
+    @Query({
+        page: { type: 'number', integer: true, min: 1, default: 1 },
+        exact: { type: 'boolean' },
+        since: { type: 'date' },
+        tags: { type: 'array', items: { type: 'string' } }
+    })
+    @GET('/')
+    search(req: Request, res: Response) {
+        res.json({
+            page: req.query.page,
+            exact: req.query.exact,
+            since: req.query.since instanceof Date ? req.query.since.toISOString() : req.query.since,
+            tags: req.query.tags,
+            types: [typeof req.query.page, typeof req.query.exact]
+        });
+    }
+}
+
+@Controller('/orgs')
+class MemberController extends BaseController {
+    @Params({ id: { type: 'number', integer: true } })
+    @GET('/:org/members/:id')
+    member(req: Request, res: Response) {
+        res.json({ params: req.params });
+    }
+
+    @Body({ name: { type: 'string', required: true } })
+    @POST('/:org/members', express.json())
+    add(req: Request, res: Response) {
+        res.json({ body: req.body });
+    }
+
+    @Body({ name: { type: 'string', required: true } }, { stripUnknown: false })
+    @POST('/:org/members/loose', express.json())
+    addLoose(req: Request, res: Response) {
+        res.json({ body: req.body });
+    }
+
+    // No body parsing middleware, so there's no body to validate
+    @Body({ name: { type: 'string', required: true } })
+    @POST('/:org/unparsed')
+    unparsed(req: Request, res: Response) {
+        res.json({ body: req.body });
+    }
+
+    @Body({ name: { type: 'string', required: true } }, { status: 400 })
+    @POST('/:org/strict', express.json())
+    strict(req: Request, res: Response) {
+        res.json({ body: req.body });
+    }
+}
+
+@Controller('/signup')
+class SignUpController extends BaseController {
+    @Page('Sign Up', 'signup.ejs')
+    @Body({
+        email: { type: 'string', required: true, format: 'email' },
+        age: { type: 'number', integer: true, min: 13 }
+    })
+    @POST('/', express.urlencoded({ extended: true }))
+    signUp() {
+        return { done: true };
+    }
+}
+
+describe('Request validation', () => {
+    let app: TestApp;
+
+    before(async () => {
+        app = await createTestApp({ controllers: [SearchController, MemberController, SignUpController] });
+    });
+
+    after(async () => {
+        await app.close();
+    });
+
+    it('coerces the values to the types in the schema', async () => {
+        const res = await app.get('/search', { query: { page: '3', exact: 'on', since: '2024-01-02T00:00:00.000Z', tags: 'a' } });
+
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.json(), { page: 3, exact: true, since: '2024-01-02T00:00:00.000Z', tags: ['a'], types: ['number', 'boolean'] });
+    });
+
+    it('uses the default for a missing value', async () => {
+        const res = await app.get('/search');
+
+        assert.equal(res.status, 200);
+        assert.equal(res.json().page, 1);
+    });
+
+    it('responds with 422 when fields are invalid', async () => {
+        const res = await app.get('/search', { query: { page: '0' } });
+
+        assert.equal(res.status, 422);
+    });
+
+    it('responds with 400 when there is nothing to validate', async () => {
+        const res = await app.post('/orgs/acme/unparsed', { body: { name: 'Sam' } });
+
+        assert.equal(res.status, 400);
+    });
+
+    it('uses the status given in the options for invalid fields', async () => {
+        const res = await app.post('/orgs/acme/strict', { body: {} });
+
+        assert.equal(res.status, 400);
+    });
+
+    it('removes body fields that aren\'t in the schema', async () => {
+        const res = await app.post('/orgs/acme/members', { body: { name: 'Sam', admin: true } });
+
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.json().body, { name: 'Sam' });
+    });
+
+    it('keeps body fields that aren\'t in the schema with `stripUnknown: false`', async () => {
+        const res = await app.post('/orgs/acme/members/loose', { body: { name: 'Sam', admin: true } });
+
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.json().body, { name: 'Sam', admin: true });
+    });
+
+    it('keeps route parameters that aren\'t in the schema', async () => {
+        const res = await app.get('/orgs/acme/members/42');
+
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.json().params, { org: 'acme', id: 42 });
+    });
+
+    it('re-renders the page with the errors and submitted values', async () => {
+        const res = await app.post('/signup', { form: { email: 'not an email', age: '12' } });
+
+        assert.equal(res.status, 422);
+        assert.equal(res.page?.page, 'signup.ejs');
+        assert.deepEqual(res.page?.params.values, { email: 'not an email', age: '12' });
+        assert.deepEqual(res.page?.params.errors.map((error: { field: string, rule: string }) => `${error.field}:${error.rule}`), ['email:format', 'age:min']);
+        assert.equal(res.page?.params.done, undefined);
+    });
+});
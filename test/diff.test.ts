@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { diffLines } from '../src/utils/diff';
+
+describe('diffLines', () => {
+    it('is empty if the texts are the same', () => {
+        assert.equal(diffLines('a\nb\nc', 'a\nb\nc'), '');
+    });
+
+    it('marks removed and added lines', () => {
+        assert.equal(diffLines('a\nb\nc', 'a\nB\nc'), [
+            '@@ line 1 @@',
+            '  a',
+            '- b',
+            '+ B',
+            '  c'
+        ].join('\n'));
+    });
+
+    it('collapses unchanged lines outside of the context of a change', () => {
+        const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n');
+        const after = ['1', '2', '3', '4', 'five', '6', '7', '8', '9', 'ten'].join('\n');
+
+        assert.equal(diffLines(before, after, 1), [
+            '@@ line 4 @@',
+            '  4',
+            '- 5',
+            '+ five',
+            '  6',
+            '@@ line 9 @@',
+            '  9',
+            '+ ten'
+        ].join('\n'));
+    });
+
+    it('handles lines only being added or removed', () => {
+        assert.equal(diffLines('a', 'a\nb'), '@@ line 1 @@\n  a\n+ b');
+        assert.equal(diffLines('a\nb', 'a'), '@@ line 1 @@\n  a\n- b');
+    });
+});
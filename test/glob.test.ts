@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { globToRegExp, matchesGlob } from '../src/utils/glob';
+
+describe('globToRegExp', () => {
+    it('matches anything within a name with `*`', () => {
+        const regExp = globToRegExp('*Controller.js');
+
+        assert.equal(regExp.test('HomeController.js'), true);
+        assert.equal(regExp.test('Controller.js'), true);
+        assert.equal(regExp.test('admin/UsersController.js'), false);
+        assert.equal(regExp.test('HomeController.ts'), false);
+    });
+
+    it('matches any number of directories with `**/`', () => {
+        const regExp = globToRegExp('**/*.d.ts');
+
+        assert.equal(regExp.test('types.d.ts'), true);
+        assert.equal(regExp.test('admin/types.d.ts'), true);
+        assert.equal(regExp.test('admin/nested/types.d.ts'), true);
+        assert.equal(regExp.test('types.ts'), false);
+    });
+
+    it('matches anything with `**` on it\'s own', () => {
+        const regExp = globToRegExp('admin/**');
+
+        assert.equal(regExp.test('admin/UsersController.js'), true);
+        assert.equal(regExp.test('admin/nested/UsersController.js'), true);
+        assert.equal(regExp.test('HomeController.js'), false);
+    });
+
+    it('matches a single character (within a name) with `?`', () => {
+        const regExp = globToRegExp('v?/*.js');
+
+        assert.equal(regExp.test('v1/ApiController.js'), true);
+        assert.equal(regExp.test('v10/ApiController.js'), false);
+        assert.equal(regExp.test('v/ApiController.js'), false);
+    });
+
+    it('matches any of the alternatives in `{a,b}`', () => {
+        const regExp = globToRegExp('**/*Controller.{js,ts}');
+
+        assert.equal(regExp.test('HomeController.js'), true);
+        assert.equal(regExp.test('admin/UsersController.ts'), true);
+        assert.equal(regExp.test('HomeController.mjs'), false);
+    });
+
+    it('matches other characters literally', () => {
+        const regExp = globToRegExp('(legacy)/a+b.js');
+
+        assert.equal(regExp.test('(legacy)/a+b.js'), true);
+        assert.equal(regExp.test('(legacy)/aab.js'), false);
+        assert.equal(regExp.test('(legacy)/a+bxjs'), false);
+        assert.equal(globToRegExp('a,b.js').test('a,b.js'), true);
+    });
+
+    it('ignores a leading `./`', () => {
+        assert.equal(globToRegExp('./admin/*.js').test('admin/UsersController.js'), true);
+    });
+});
+
+describe('matchesGlob', () => {
+    it('matches if any of the patterns match', () => {
+        assert.equal(matchesGlob('admin/UsersController.js', ['*.js', 'admin/*']), true);
+        assert.equal(matchesGlob('HomeController.js', ['*.js', 'admin/*']), true);
+        assert.equal(matchesGlob('admin/types.d.ts', ['*.js', 'admin/*.js']), false);
+    });
+
+    it('doesn\'t match without any patterns', () => {
+        assert.equal(matchesGlob('HomeController.js', []), false);
+    });
+});
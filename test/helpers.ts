@@ -0,0 +1,16 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { NextFunction } from 'express';
+
+/**
+ * Create a middleware that records that it ran (in order) in the `X-Ran` header of the response
+ * 
+ * @param name The name the middleware is recorded as
+ * @returns The middleware
+ */
+export function track(name: string) {
+    return (req: IncomingMessage, res: ServerResponse, next: NextFunction) => {
+        const ran = res.getHeader('X-Ran');
+        res.setHeader('X-Ran', typeof ran === 'string' ? `${ran},${name}` : name);
+        next();
+    };
+}